@@ -0,0 +1,19 @@
+/**
+ * Prints translation coverage per language and the keys each one is missing.
+ * Exits non-zero when a bundle has keys English does not, which usually means
+ * a key was renamed in en.json but not in the other bundles.
+ */
+
+import { completenessReport } from '../src/i18n/completeness';
+import { isUiLanguage, languageInfo } from '../src/i18n/languages';
+
+const report = completenessReport();
+
+for (const { language, missing, extra, coverage } of report) {
+  const hidden = isUiLanguage(language) ? '' : ' (not offered in the UI)';
+  console.log(`${languageInfo(language).name} (${language}): ${coverage}%, ${missing.length} missing${hidden}`);
+  for (const key of missing) console.log(`  - ${key}`);
+  for (const key of extra) console.log(`  ! unknown key ${key}`);
+}
+
+if (report.some((entry) => entry.extra.length > 0)) process.exitCode = 1;
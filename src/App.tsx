@@ -2,14 +2,16 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
+import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { LanguageProvider } from "@/i18n/LanguageContext";
-import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { AuthProvider } from "@/contexts/AuthContext";
+import ProtectedRoute from "@/components/ProtectedRoute";
 import IntroPage from "./pages/IntroPage";
 import Index from "./pages/Index";
 import EligibilityPage from "./pages/EligibilityPage";
 import ResultsPage from "./pages/ResultsPage";
 import LoanApplicationPage from "./pages/LoanApplicationPage";
+import ApplicationsPage from "./pages/ApplicationsPage";
 import ChatPage from "./pages/ChatPage";
 import PrivacyPage from "./pages/PrivacyPage";
 import LoginPage from "./pages/LoginPage";
@@ -19,29 +21,11 @@ import ChatWidget from "./components/chat/ChatWidget";
 
 const queryClient = new QueryClient();
 
-// Protected route wrapper
-const ProtectedRoute = ({ element }: { element: React.ReactNode }) => {
-  const { isAuthenticated, isLoading } = useAuth();
-
-  if (isLoading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center bg-background">
-        <div className="flex flex-col items-center gap-4">
-          <div className="h-12 w-12 rounded-full border-4 border-primary border-t-transparent animate-spin" />
-          <p className="text-muted-foreground">Loading...</p>
-        </div>
-      </div>
-    );
-  }
-
-  return isAuthenticated ? element : <Navigate to="/intro" replace />;
-};
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <LanguageProvider>
-        <AuthProvider>
+      <AuthProvider>
+        <LanguageProvider>
           <Toaster />
           <Sonner />
           <BrowserRouter>
@@ -51,16 +35,17 @@ const App = () => (
               <Route path="/eligibility" element={<ProtectedRoute element={<EligibilityPage />} />} />
               <Route path="/results" element={<ProtectedRoute element={<ResultsPage />} />} />
               <Route path="/apply" element={<ProtectedRoute element={<LoanApplicationPage />} />} />
+              <Route path="/applications" element={<ProtectedRoute element={<ApplicationsPage />} />} />
               <Route path="/chat" element={<ProtectedRoute element={<ChatPage />} />} />
               <Route path="/privacy" element={<ProtectedRoute element={<PrivacyPage />} />} />
               <Route path="/login" element={<LoginPage />} />
-              <Route path="/admin" element={<ProtectedRoute element={<AdminDashboard />} />} />
+              <Route path="/admin" element={<ProtectedRoute element={<AdminDashboard />} requireRole="admin" />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
             <ChatWidget />
           </BrowserRouter>
-        </AuthProvider>
-      </LanguageProvider>
+        </LanguageProvider>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
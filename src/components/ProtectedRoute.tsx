@@ -0,0 +1,31 @@
+import type { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import type { AppRole } from '@/lib/auth';
+
+interface ProtectedRouteProps {
+  element: ReactNode;
+  /** Role required by the verified session claims */
+  requireRole?: AppRole;
+}
+
+const ProtectedRoute = ({ element, requireRole }: ProtectedRouteProps) => {
+  const { isAuthenticated, isLoading, user } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="flex flex-col items-center gap-4">
+          <div className="h-12 w-12 rounded-full border-4 border-primary border-t-transparent animate-spin" />
+          <p className="text-muted-foreground">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) return <Navigate to="/intro" replace />;
+  if (requireRole && user?.role !== requireRole) return <Navigate to="/" replace />;
+  return <>{element}</>;
+};
+
+export default ProtectedRoute;
@@ -0,0 +1,73 @@
+import { MessageSquare, Plus, Trash2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/i18n/LanguageContext';
+import type { ChatSessionSummary } from '@/lib/chatSessions';
+
+interface ChatSessionSidebarProps {
+  sessions: ChatSessionSummary[];
+  activeId: string | null;
+  isLoading?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+}
+
+const ChatSessionSidebar = ({ sessions, activeId, isLoading, onSelect, onNew, onDelete }: ChatSessionSidebarProps) => {
+  const { t } = useLanguage();
+
+  return (
+    <aside className="flex flex-col rounded-xl border border-border bg-card p-3 md:w-64 md:shrink-0">
+      <Button variant="outline" size="sm" className="mb-3 justify-start" onClick={onNew}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t('chat_sessions_new')}
+      </Button>
+      <p className="mb-2 px-1 text-xs font-medium text-muted-foreground">{t('chat_sessions_title')}</p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-saffron" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="px-1 py-4 text-xs text-muted-foreground">{t('chat_sessions_empty')}</p>
+      ) : (
+        <ul className="space-y-1 overflow-y-auto md:max-h-[calc(100vh-340px)]">
+          {sessions.map((session) => (
+            <li key={session.id}>
+              <div
+                className={`group flex items-center gap-2 rounded-lg px-2 py-2 text-sm transition-colors ${
+                  session.id === activeId ? 'bg-saffron/10 text-foreground' : 'hover:bg-secondary'
+                }`}
+              >
+                <button
+                  onClick={() => onSelect(session.id)}
+                  className="flex min-w-0 flex-1 items-center gap-2 text-left"
+                  title={session.title}
+                >
+                  <MessageSquare className="h-4 w-4 shrink-0 text-saffron" />
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate">{session.title}</span>
+                    <span className="block text-[11px] text-muted-foreground">
+                      {new Date(session.updatedAt).toLocaleDateString()}
+                    </span>
+                  </span>
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm(t('chat_sessions_delete_confirm'))) onDelete(session.id);
+                  }}
+                  className="shrink-0 rounded p-1 text-muted-foreground opacity-60 transition-opacity hover:text-destructive group-hover:opacity-100"
+                  title={t('chat_sessions_delete')}
+                  aria-label={t('chat_sessions_delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+};
+
+export default ChatSessionSidebar;
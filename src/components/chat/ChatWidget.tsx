@@ -5,6 +5,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { MessageCircle, X, Send, Bot, User, Loader2, Mic, MicOff } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useLanguage } from '@/i18n/LanguageContext';
+import { languageInfo } from '@/i18n/languages';
 import ReactMarkdown from 'react-markdown';
 
 interface Message {
@@ -131,7 +132,7 @@ const ChatWidget = () => {
     const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
     if (!SpeechRecognition) return;
     const recognition = new SpeechRecognition();
-    recognition.lang = language === 'hi' ? 'hi-IN' : language === 'ta' ? 'ta-IN' : 'en-IN';
+    recognition.lang = languageInfo(language).speechLocale;
 
     recognition.continuous = false;
     recognition.interimResults = true;
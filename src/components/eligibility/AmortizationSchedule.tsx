@@ -0,0 +1,209 @@
+import { useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { CalendarClock, Download } from 'lucide-react';
+import {
+  AreaChart,
+  Area,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  comparePrepayment,
+  scheduleToCSV,
+  summarizeByYear,
+  type PrepaymentMode,
+} from '@/utils/amortization';
+import { BASE_ANNUAL_RATE } from '@/lib/scoring';
+import { useLanguage } from '@/i18n/LanguageContext';
+
+interface AmortizationScheduleProps {
+  loanAmount: number;
+  tenureMonths: number;
+  annualRate?: number;
+}
+
+const formatINR = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+const AmortizationSchedule = ({ loanAmount, tenureMonths, annualRate = BASE_ANNUAL_RATE }: AmortizationScheduleProps) => {
+  const { t } = useLanguage();
+  const [rate, setRate] = useState(annualRate);
+  const [prepayAmount, setPrepayAmount] = useState(0);
+  const [prepayMonth, setPrepayMonth] = useState(Math.min(24, tenureMonths));
+  const [mode, setMode] = useState<PrepaymentMode>('reduce_tenure');
+  // Blank until the user enters one: a floating-rate reset is opt-in
+  const [resetRate, setResetRate] = useState<number | null>(null);
+  const [resetMonth, setResetMonth] = useState(Math.min(13, tenureMonths));
+
+  const comparison = useMemo(
+    () => comparePrepayment({
+      principal: loanAmount,
+      annualRate: rate,
+      tenureMonths,
+      prepayments: prepayAmount > 0 ? [{ month: prepayMonth, amount: prepayAmount }] : [],
+      rateResets: resetRate !== null ? [{ month: resetMonth, annualRate: resetRate }] : [],
+      prepaymentMode: mode,
+    }),
+    [loanAmount, tenureMonths, rate, prepayAmount, prepayMonth, mode, resetRate, resetMonth]
+  );
+
+  const { baseline, withPrepayment } = comparison;
+  const planYears = useMemo(() => summarizeByYear(withPrepayment), [withPrepayment]);
+
+  const chartData = useMemo(() => {
+    const base = summarizeByYear(baseline);
+    return base.map((y) => ({
+      year: y.year,
+      baseline: Math.round(y.closingBalance),
+      plan: Math.round(planYears.find((p) => p.year === y.year)?.closingBalance ?? 0),
+    }));
+  }, [baseline, planYears]);
+
+  const downloadCSV = () => {
+    const blob = new Blob([scheduleToCSV(withPrepayment)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `repayment-schedule-${loanAmount}-${tenureMonths}m.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const numberInput = (id: string, label: string, value: number, onChange: (v: number) => void, step = 1) => (
+    <div>
+      <Label htmlFor={id} className="text-xs">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+        className="mt-1 h-9"
+      />
+    </div>
+  );
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.5 }}
+      className="rounded-xl border border-border bg-card p-6 shadow-card"
+    >
+      <div className="mb-5 flex items-center gap-2">
+        <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-primary/10">
+          <CalendarClock className="h-4 w-4 text-primary" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">{t('amort_title')}</h3>
+          <p className="text-xs text-muted-foreground">{t('amort_subtitle')}</p>
+        </div>
+        <Button variant="outline" size="sm" className="ml-auto" onClick={downloadCSV}>
+          <Download className="mr-1 h-3.5 w-3.5" /> {t('amort_export')}
+        </Button>
+      </div>
+
+      <div className="grid gap-3 sm:grid-cols-3 mb-4">
+        {numberInput('amort-rate', t('amort_rate'), rate, setRate, 0.05)}
+        {numberInput('amort-prepay', t('amort_prepay_amount'), prepayAmount, setPrepayAmount, 5000)}
+        {numberInput('amort-prepay-month', t('amort_prepay_month'), prepayMonth, (v) => setPrepayMonth(Math.min(Math.max(1, v), tenureMonths)))}
+        <div>
+          <Label htmlFor="amort-reset-rate" className="text-xs">{t('amort_reset_rate')}</Label>
+          <Input
+            id="amort-reset-rate"
+            type="number"
+            min={0}
+            step={0.05}
+            value={resetRate ?? ''}
+            placeholder={t('amort_reset_none')}
+            onChange={(e) => setResetRate(e.target.value === '' ? null : Math.max(0, Number(e.target.value) || 0))}
+            className="mt-1 h-9"
+          />
+        </div>
+        {numberInput('amort-reset-month', t('amort_reset_month'), resetMonth, (v) => setResetMonth(Math.min(Math.max(1, v), tenureMonths)))}
+        <div>
+          <Label className="text-xs">&nbsp;</Label>
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(v) => v && setMode(v as PrepaymentMode)}
+            className="mt-1 justify-start"
+          >
+            <ToggleGroupItem value="reduce_tenure" size="sm">{t('amort_mode_tenure')}</ToggleGroupItem>
+            <ToggleGroupItem value="reduce_emi" size="sm">{t('amort_mode_emi')}</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+
+      <div className="grid gap-3 grid-cols-2 lg:grid-cols-4 mb-4">
+        <div className="rounded-lg border border-border p-3 text-center">
+          <p className="text-xs text-muted-foreground">{t('amort_emi')}</p>
+          <p className="font-bold text-foreground">{formatINR(withPrepayment.initialEmi)}</p>
+        </div>
+        <div className="rounded-lg border border-border p-3 text-center">
+          <p className="text-xs text-muted-foreground">{t('amort_total_interest')}</p>
+          <p className="font-bold text-foreground">{formatINR(withPrepayment.totalInterest)}</p>
+        </div>
+        <div className="rounded-lg border border-border p-3 text-center">
+          <p className="text-xs text-muted-foreground">{t('amort_interest_saved')}</p>
+          <p className={`font-bold ${comparison.interestSaved > 0 ? 'text-risk-low' : 'text-foreground'}`}>
+            {formatINR(Math.max(0, comparison.interestSaved))}
+          </p>
+        </div>
+        <div className="rounded-lg border border-border p-3 text-center">
+          <p className="text-xs text-muted-foreground">{t('amort_months_saved')}</p>
+          <p className={`font-bold ${comparison.monthsSaved > 0 ? 'text-risk-low' : 'text-foreground'}`}>
+            {Math.max(0, comparison.monthsSaved)}
+          </p>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={240}>
+        <AreaChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="year" label={{ value: t('amort_year'), position: 'insideBottom', offset: -2 }} />
+          <YAxis tickFormatter={(v: number) => `${Math.round(v / 1000)}k`} />
+          <Tooltip formatter={(v: number) => formatINR(v)} />
+          <Legend />
+          <Area type="monotone" dataKey="baseline" name={t('amort_without_prepay')} stroke="#94a3b8" fill="#94a3b8" fillOpacity={0.2} />
+          <Area type="monotone" dataKey="plan" name={t('amort_with_prepay')} stroke="#e67e22" fill="#e67e22" fillOpacity={0.3} />
+        </AreaChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 max-h-64 overflow-y-auto rounded-lg border border-border">
+        <table className="w-full text-xs">
+          <thead className="sticky top-0 bg-secondary text-muted-foreground">
+            <tr>
+              <th className="p-2 text-left">{t('amort_year')}</th>
+              <th className="p-2 text-right">{t('amort_principal')}</th>
+              <th className="p-2 text-right">{t('amort_interest')}</th>
+              <th className="p-2 text-right">{t('amort_prepay_amount')}</th>
+              <th className="p-2 text-right">{t('amort_balance')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {planYears.map((y) => (
+              <tr key={y.year} className="border-t border-border">
+                <td className="p-2">{y.year}</td>
+                <td className="p-2 text-right">{formatINR(y.principal)}</td>
+                <td className="p-2 text-right">{formatINR(y.interest)}</td>
+                <td className="p-2 text-right">{y.prepayment > 0 ? formatINR(y.prepayment) : '—'}</td>
+                <td className="p-2 text-right font-medium text-foreground">{formatINR(y.closingBalance)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </motion.div>
+  );
+};
+
+export default AmortizationSchedule;
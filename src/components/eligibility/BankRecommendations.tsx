@@ -1,6 +1,6 @@
 import type { BankRecommendation } from '@/types/loan';
 import { motion } from 'framer-motion';
-import { Building2, Info } from 'lucide-react';
+import { Building2, Check, Info } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useLanguage } from '@/i18n/LanguageContext';
@@ -30,9 +30,12 @@ const BankRecommendations = ({ banks }: BankRecommendationsProps) => {
       </div>
 
       <div className="space-y-4">
-        {banks.map((bank, i) => (
+        {banks.map((bank, i) => {
+          const rate = bank.interestRate ?? bank.interest_rate;
+          const match = bank.matchScore ?? bank.match_score ?? 0;
+          return (
           <motion.div
-            key={bank.name}
+            key={`${bank.name}-${bank.product_name ?? i}`}
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
             transition={{ delay: 0.7 + i * 0.1 }}
@@ -52,26 +55,45 @@ const BankRecommendations = ({ banks }: BankRecommendationsProps) => {
                   />
                 ) : null}
                 <Building2 className={`h-4 w-4 text-primary ${bank.logo ? 'hidden' : ''}`} />
-                <span className="font-semibold text-foreground">{bank.name}</span>
+                <div>
+                  <span className="font-semibold text-foreground">{bank.name}</span>
+                  {bank.product_name && (
+                    <p className="text-xs text-muted-foreground">{bank.product_name}</p>
+                  )}
+                </div>
               </div>
               <Badge variant="outline" className="bg-secondary text-muted-foreground">
-                {bank.interestRate}
+                {rate}
               </Badge>
             </div>
             <div className="mb-2">
               <div className="mb-1 flex items-center justify-between text-xs">
                 <span className="text-muted-foreground">{t('banks_match')}</span>
-                <span className="font-medium text-foreground">{bank.matchScore}%</span>
+                <span className="font-medium text-foreground">{match}%</span>
               </div>
-              <Progress value={bank.matchScore} className="h-2" />
+              <Progress value={match} className="h-2" />
             </div>
             <div className="flex flex-wrap gap-1.5">
               {bank.features.map(f => (
                 <span key={f} className="rounded-md bg-secondary px-2 py-0.5 text-xs text-muted-foreground">{f}</span>
               ))}
             </div>
+            {bank.reasons && bank.reasons.length > 0 && (
+              <div className="mt-3">
+                <p className="mb-1 text-xs font-medium text-foreground">{t('banks_why')}</p>
+                <ul className="space-y-0.5">
+                  {bank.reasons.map(reason => (
+                    <li key={reason} className="flex items-start gap-1.5 text-xs text-muted-foreground">
+                      <Check className="mt-0.5 h-3 w-3 shrink-0 text-accent" />
+                      {reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </motion.div>
-        ))}
+          );
+        })}
       </div>
 
       <div className="mt-4 flex items-start gap-2 rounded-lg bg-secondary/50 p-3 text-xs text-muted-foreground">
@@ -5,8 +5,20 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import type { LoanFormData } from '@/types/loan';
-import { ArrowRight, User, Briefcase, IndianRupee, Car, FileText } from 'lucide-react';
+import { ArrowRight, User, Briefcase, IndianRupee, Car, FileText, Users, CreditCard } from 'lucide-react';
+import HouseholdSection from './HouseholdSection';
+import LiabilitiesSection from './LiabilitiesSection';
 import { useLanguage } from '@/i18n/LanguageContext';
+import {
+  educationOptions,
+  jobTypeOptions,
+  incomeStabilityOptions,
+  genderOptions,
+  maritalOptions,
+  loanPurposeOptions,
+  coBorrowerOptions,
+  stateOptions,
+} from '@/data/formOptions';
 
 interface EligibilityFormProps {
   initialData?: Partial<LoanFormData>;
@@ -30,7 +42,8 @@ const defaults: LoanFormData = {
   secondary_income: false,
   monthly_savings: 5000,
   monthly_rent: 8000,
-  existing_loans: 1,
+  existing_loans: 0,
+  liabilities: [],
   total_monthly_expenses: 15000,
   credit_score: 650,
   bank_balance: 50000,
@@ -47,17 +60,9 @@ const defaults: LoanFormData = {
   co_borrower: 'None',
   loan_tenure: 60,
   has_collateral: false,
+  co_applicants: [],
 };
 
-const educationOptions = ['10th Pass', '12th Pass', 'Graduate', 'Post Graduate', 'Doctorate'];
-const jobTypeOptions = ['Government', 'Salaried', 'Self Employed', 'Business', 'Student', 'Retired'];
-const incomeStabilityOptions = ['Very Stable', 'Stable', 'Moderate', 'Unstable'];
-const genderOptions = ['Male', 'Female', 'Other'];
-const maritalOptions = ['Single', 'Married', 'Divorced', 'Widowed'];
-const loanPurposeOptions = ['Personal', 'Home', 'Vehicle', 'Education', 'Agriculture', 'Business', 'Medical', 'Debt Consolidation'];
-const coBorrowerOptions = ['None', 'Parent/Guardian', 'Spouse', 'Sibling', 'Other'];
-const stateOptions = ['Andhra Pradesh', 'Bihar', 'Delhi', 'Gujarat', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Punjab', 'Rajasthan', 'Tamil Nadu', 'Telangana', 'Uttar Pradesh', 'West Bengal', 'Other'];
-
 const SectionTitle = ({ icon: Icon, title }: { icon: React.ElementType; title: string }) => (
   <div className="flex items-center gap-2 mb-3 mt-6 first:mt-0">
     <div className="flex h-7 w-7 items-center justify-center rounded-lg bg-saffron/10">
@@ -185,15 +190,11 @@ const EligibilityForm = ({ initialData, onSubmit }: EligibilityFormProps) => {
           <Input id="rent" type="number" min={0} required value={form.monthly_rent} onChange={e => update('monthly_rent', Number(e.target.value))} placeholder="Required" />
         </div>
       </div>
-      <div className="grid gap-3 sm:grid-cols-3">
+      <div className="grid gap-3 sm:grid-cols-2">
         <div className="space-y-1.5">
           <Label htmlFor="expenses">{t('form_expenses')} *</Label>
           <Input id="expenses" type="number" min={0} required value={form.total_monthly_expenses} onChange={e => update('total_monthly_expenses', Number(e.target.value))} placeholder="Required" />
         </div>
-        <div className="space-y-1.5">
-          <Label htmlFor="existingLoans">{t('form_existing_loans')} *</Label>
-          <Input id="existingLoans" type="number" min={0} required value={form.existing_loans} onChange={e => update('existing_loans', Number(e.target.value))} placeholder="Required" />
-        </div>
         <div className="space-y-1.5">
           <Label htmlFor="creditScore">{t('form_credit_score')} *</Label>
           <Input id="creditScore" type="number" min={300} max={900} required value={form.credit_score} onChange={e => update('credit_score', Number(e.target.value))} placeholder="Required" />
@@ -210,6 +211,13 @@ const EligibilityForm = ({ initialData, onSubmit }: EligibilityFormProps) => {
         </div>
       </div>
 
+      {/* Existing debts */}
+      <SectionTitle icon={CreditCard} title={t('form_section_liabilities')} />
+      <LiabilitiesSection
+        form={form}
+        onChange={(liabilities, existingLoans) => setForm(prev => ({ ...prev, liabilities, existing_loans: existingLoans }))}
+      />
+
       {/* Assets */}
       <SectionTitle icon={Car} title={t('form_section_assets')} />
       <div className="grid gap-3 sm:grid-cols-3">
@@ -280,6 +288,10 @@ const EligibilityForm = ({ initialData, onSubmit }: EligibilityFormProps) => {
         <Label>{t('form_collateral')}</Label>
       </div>
 
+      {/* Household */}
+      <SectionTitle icon={Users} title={t('form_section_household')} />
+      <HouseholdSection form={form} onChange={members => update('co_applicants', members)} />
+
       <Button type="submit" variant="saffron" size="lg" className="w-full mt-4">
         {t('form_submit')}
         <ArrowRight className="ml-1 h-4 w-4" />
@@ -3,13 +3,66 @@ import { motion } from 'framer-motion';
 import { AlertCircle, AlertTriangle, CheckCircle, Lightbulb } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/i18n/LanguageContext';
+import type { TranslationKey } from '@/i18n/translations';
+import type { ContributionKey, ScoreContribution } from '@/lib/scoring';
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
 
 interface ExplainableAIProps {
   factors: RiskFactor[];
+  /** Scoring engine breakdown; when present a waterfall up to the final probability is shown */
+  contributions?: ScoreContribution[];
 }
 
-const ExplainableAI = ({ factors }: ExplainableAIProps) => {
+const contributionLabels: Record<ContributionKey, TranslationKey> = {
+  credit: 'xai_contrib_credit',
+  lti: 'xai_contrib_lti',
+  employment: 'xai_contrib_employment',
+  debt: 'xai_contrib_debt',
+  savings: 'xai_contrib_savings',
+  assets: 'xai_contrib_assets',
+  rounding: 'xai_contrib_rounding',
+  education_uplift: 'xai_contrib_education',
+  co_borrower_uplift: 'xai_contrib_co_borrower',
+  clamp: 'xai_contrib_clamp',
+};
+
+interface WaterfallBar {
+  name: string;
+  /** Invisible offset the visible segment sits on */
+  base: number;
+  value: number;
+  points: number;
+  kind: 'up' | 'down' | 'total';
+}
+
+/** Floating bars for each term, then a total bar from zero */
+function toWaterfall(contributions: ScoreContribution[], label: (key: ContributionKey) => string, totalLabel: string): WaterfallBar[] {
+  let running = 0;
+  const bars: WaterfallBar[] = [];
+  for (const c of contributions) {
+    // Rounding and clamp are usually nil; only show them when they move the score
+    if (Math.abs(c.points) < 0.05 && (c.key === 'rounding' || c.key === 'clamp')) {
+      running += c.points;
+      continue;
+    }
+    const end = running + c.points;
+    bars.push({ name: label(c.key), base: Math.min(running, end), value: Math.abs(c.points), points: c.points, kind: c.points >= 0 ? 'up' : 'down' });
+    running = end;
+  }
+  const total = Math.round(running);
+  bars.push({ name: totalLabel, base: 0, value: total, points: total, kind: 'total' });
+  return bars;
+}
+
+const barColors = {
+  up: 'hsl(152, 50%, 42%)',
+  down: 'hsl(0, 70%, 55%)',
+  total: 'hsl(var(--saffron))',
+};
+
+const ExplainableAI = ({ factors, contributions }: ExplainableAIProps) => {
   const { t } = useLanguage();
+  const waterfall = contributions ? toWaterfall(contributions, key => t(contributionLabels[key]), t('xai_contrib_total')) : [];
 
   const levelConfig = {
     high: { icon: AlertCircle, color: 'bg-risk-high/10 border-risk-high/20', dot: 'bg-risk-high', label: t('xai_high'), badgeClass: 'bg-risk-high/10 text-risk-high border-risk-high/20' },
@@ -33,6 +86,31 @@ const ExplainableAI = ({ factors }: ExplainableAIProps) => {
         </div>
       </div>
 
+      {waterfall.length > 0 && (
+        <div className="mb-4 rounded-lg border border-border bg-card p-4">
+          <h4 className="mb-1 text-sm font-semibold text-foreground">{t('xai_waterfall_title')}</h4>
+          <p className="mb-3 text-xs text-muted-foreground">{t('xai_waterfall_subtitle')}</p>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={waterfall} margin={{ top: 8, right: 8, left: -16, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" vertical={false} />
+                <XAxis dataKey="name" interval={0} angle={-25} textAnchor="end" height={60} tick={{ fontSize: 10, fill: 'hsl(var(--muted-foreground))' }} />
+                <YAxis domain={[0, 100]} tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                <Tooltip
+                  formatter={(_value: number, key: string, item: { payload: WaterfallBar }) =>
+                    key === 'base' ? [] : [`${item.payload.kind === 'total' ? '' : item.payload.points >= 0 ? '+' : ''}${item.payload.points.toFixed(1)}%`, item.payload.name]
+                  }
+                />
+                <Bar dataKey="base" stackId="w" fill="transparent" isAnimationActive={false} />
+                <Bar dataKey="value" stackId="w" radius={[3, 3, 0, 0]}>
+                  {waterfall.map(bar => <Cell key={bar.name} fill={barColors[bar.kind]} />)}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
       <div className="space-y-3">
         {factors.map((f, i) => {
           const cfg = levelConfig[f.level];
@@ -50,7 +128,14 @@ const ExplainableAI = ({ factors }: ExplainableAIProps) => {
                   <Icon className="h-4 w-4" style={{ color: `hsl(var(--risk-${f.level}))` }} />
                   <span className="font-medium text-foreground">{f.name}</span>
                 </div>
-                <Badge variant="outline" className={cfg.badgeClass}>{cfg.label}</Badge>
+                <div className="flex items-center gap-1.5">
+                  {f.impact_percent !== undefined && (
+                    <Badge variant="outline" className="text-muted-foreground">
+                      {f.impact_percent >= 0 ? '+' : ''}{f.impact_percent}% {t('xai_impact')}
+                    </Badge>
+                  )}
+                  <Badge variant="outline" className={cfg.badgeClass}>{cfg.label}</Badge>
+                </div>
               </div>
               <p className="mb-1.5 text-sm text-muted-foreground">{f.description}</p>
               <p className="text-sm font-medium text-foreground/80">💡 {f.improvement}</p>
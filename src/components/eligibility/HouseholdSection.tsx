@@ -0,0 +1,111 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { LoanFormData } from '@/types/loan';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { jobTypeOptions } from '@/data/formOptions';
+import {
+  MAX_CO_APPLICANTS,
+  RELATIONSHIPS,
+  combineHousehold,
+  type CoApplicant,
+  type CoApplicantRelationship,
+} from '@/lib/household';
+
+interface HouseholdSectionProps {
+  form: LoanFormData;
+  onChange: (members: CoApplicant[]) => void;
+}
+
+const emptyMember = (): CoApplicant => ({
+  relationship: 'Spouse',
+  monthly_income: 0,
+  job_type: 'Salaried',
+  credit_score: 700,
+  existing_emi: 0,
+});
+
+const formatINR = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+/** Co-applicant rows, with the income lenders would pool for this loan */
+const HouseholdSection = ({ form, onChange }: HouseholdSectionProps) => {
+  const { t } = useLanguage();
+  const members = form.co_applicants ?? [];
+  const household = combineHousehold(form);
+
+  const update = (index: number, patch: Partial<CoApplicant>) =>
+    onChange(members.map((m, i) => (i === index ? { ...m, ...patch } : m)));
+
+  const numberField = (index: number, key: 'monthly_income' | 'credit_score' | 'existing_emi', label: string) => (
+    <div className="space-y-1.5">
+      <Label htmlFor={`co-${key}-${index}`} className="text-xs">{label}</Label>
+      <Input
+        id={`co-${key}-${index}`}
+        type="number"
+        min={key === 'credit_score' ? 300 : 0}
+        max={key === 'credit_score' ? 900 : undefined}
+        value={members[index][key]}
+        onChange={e => update(index, { [key]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">{t('household_hint')}</p>
+      {members.map((member, index) => (
+        <div key={index} className="grid items-end gap-2 rounded-lg border border-border p-3 sm:grid-cols-6">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('household_relationship')}</Label>
+            <Select value={member.relationship} onValueChange={v => update(index, { relationship: v as CoApplicantRelationship })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{RELATIONSHIPS.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('form_job_type')}</Label>
+            <Select value={member.job_type} onValueChange={v => update(index, { job_type: v })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{jobTypeOptions.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          {numberField(index, 'monthly_income', t('form_income'))}
+          {numberField(index, 'credit_score', t('form_credit_score'))}
+          {numberField(index, 'existing_emi', t('household_existing_emi'))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={t('household_remove')}
+            onClick={() => onChange(members.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      {household.excluded.map(({ member, reason }, i) => (
+        <p key={i} className="text-xs text-risk-medium">{member.relationship}: {reason}</p>
+      ))}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={members.length >= MAX_CO_APPLICANTS}
+          onClick={() => onChange([...members, emptyMember()])}
+        >
+          <Plus className="mr-1 h-3.5 w-3.5" /> {t('household_add')}
+        </Button>
+        {household.pooled.length > 0 && (
+          <p className="text-sm font-medium text-foreground">
+            {t('household_income', { amount: formatINR(household.monthlyIncome) })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HouseholdSection;
@@ -0,0 +1,122 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { LoanFormData } from '@/types/loan';
+import { useLanguage } from '@/i18n/LanguageContext';
+import type { TranslationKey } from '@/i18n/translations';
+import { EXISTING_LOAN_EMI_ESTIMATE } from '@/lib/scoring';
+import {
+  LIABILITY_LABELS,
+  LIABILITY_TYPES,
+  activeLiabilities,
+  ledgerTotals,
+  type Liability,
+  type LiabilityType,
+} from '@/lib/liabilities';
+
+interface LiabilitiesSectionProps {
+  form: LoanFormData;
+  /** Called with the new ledger and the count of active debts it implies */
+  onChange: (liabilities: Liability[], existingLoans: number) => void;
+}
+
+const emptyLiability = (): Liability => ({
+  type: 'personal',
+  outstanding: 0,
+  emi: 0,
+  annual_rate: 12,
+  remaining_months: 24,
+});
+
+const formatINR = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+type NumberKey = 'outstanding' | 'emi' | 'annual_rate' | 'remaining_months';
+
+const NUMBER_FIELDS: [NumberKey, TranslationKey][] = [
+  ['outstanding', 'liability_outstanding'],
+  ['emi', 'liability_emi'],
+  ['annual_rate', 'liability_rate'],
+  ['remaining_months', 'liability_months'],
+];
+
+/** One row per existing debt; the count of active rows becomes existing_loans */
+const LiabilitiesSection = ({ form, onChange }: LiabilitiesSectionProps) => {
+  const { t } = useLanguage();
+  const liabilities = form.liabilities ?? [];
+  const totals = ledgerTotals(liabilities);
+
+  const change = (next: Liability[]) => onChange(next, activeLiabilities(next).length);
+  const update = (index: number, patch: Partial<Liability>) =>
+    change(liabilities.map((l, i) => (i === index ? { ...l, ...patch } : l)));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">{t('liabilities_hint')}</p>
+      {liabilities.length === 0 && form.existing_loans > 0 && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-secondary/50 p-3">
+          <p className="text-xs text-muted-foreground">
+            {t('liabilities_estimated', { count: form.existing_loans, emi: formatINR(EXISTING_LOAN_EMI_ESTIMATE) })}
+          </p>
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange([], 0)}>
+            {t('liabilities_remove')}
+          </Button>
+        </div>
+      )}
+      {liabilities.map((liability, index) => (
+        <div key={index} className="grid items-end gap-2 rounded-lg border border-border p-3 sm:grid-cols-7">
+          <div className="space-y-1.5">
+            <Label className="text-xs">{t('liability_type')}</Label>
+            <Select value={liability.type} onValueChange={v => update(index, { type: v as LiabilityType })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>{LIABILITY_TYPES.map(o => <SelectItem key={o} value={o}>{LIABILITY_LABELS[o]}</SelectItem>)}</SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor={`liability-lender-${index}`} className="text-xs">{t('liability_lender')}</Label>
+            <Input
+              id={`liability-lender-${index}`}
+              value={liability.lender ?? ''}
+              onChange={e => update(index, { lender: e.target.value || undefined })}
+            />
+          </div>
+          {NUMBER_FIELDS.map(([key, label]) => (
+            <div key={key} className="space-y-1.5">
+              <Label htmlFor={`liability-${key}-${index}`} className="text-xs">{t(label)}</Label>
+              <Input
+                id={`liability-${key}-${index}`}
+                type="number"
+                min={0}
+                step={key === 'annual_rate' ? 0.1 : 1}
+                value={liability[key]}
+                onChange={e => update(index, { [key]: Number(e.target.value) })}
+              />
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            aria-label={t('liabilities_remove')}
+            onClick={() => change(liabilities.filter((_, i) => i !== index))}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => change([...liabilities, emptyLiability()])}>
+          <Plus className="mr-1 h-3.5 w-3.5" /> {t('liabilities_add')}
+        </Button>
+        {totals.count > 0 && (
+          <p className="text-sm font-medium text-foreground">
+            {t('liabilities_total', { emi: formatINR(totals.monthlyObligation), outstanding: formatINR(totals.outstanding) })}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiabilitiesSection;
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { LoanFormData } from '@/types/loan';
+import { useLanguage } from '@/i18n/LanguageContext';
+import type { TranslationKey } from '@/i18n/translations';
+import { runMonteCarloStressTest, type ResilienceScenario } from '@/lib/resilienceEngine';
+import { SAFE_RUNWAY_MONTHS, compareLoanStress, profileFromLoanForm } from '@/lib/loanResilience';
+
+interface LoanStressTestProps {
+  formData: LoanFormData;
+  /** EMI of the loan being applied for */
+  emi: number;
+}
+
+const SCENARIO_LABELS: Record<ResilienceScenario, TranslationKey> = {
+  job_loss: 'stress_scenario_job_loss',
+  medical_emergency: 'stress_scenario_medical_emergency',
+  market_crash: 'stress_scenario_market_crash',
+  inflation_surge: 'stress_scenario_inflation_surge',
+  combined: 'stress_scenario_combined',
+};
+
+const impactClass = (impact: string) =>
+  impact === 'Low' ? 'text-risk-low' : impact === 'Medium' ? 'text-risk-medium' : 'text-risk-high';
+
+/** Simulated months; long enough to see trouble without a slow render */
+const MAX_SIMULATION_MONTHS = 60;
+
+const LoanStressTest = ({ formData, emi }: LoanStressTestProps) => {
+  const { t } = useLanguage();
+  const rows = useMemo(() => compareLoanStress(formData, emi), [formData, emi]);
+  const horizonMonths = Math.min(Math.max(formData.loan_tenure || 0, 1), MAX_SIMULATION_MONTHS);
+  const defaultRisk = useMemo(() => {
+    const profile = profileFromLoanForm(formData);
+    const without = runMonteCarloStressTest(profile, { horizonMonths });
+    const withLoan = runMonteCarloStressTest(profile, { horizonMonths, proposedEmi: emi });
+    return { without: without.probabilityOfDefault, with: withLoan.probabilityOfDefault };
+  }, [formData, emi, horizonMonths]);
+
+  const overLimit = rows.filter(r => emi > r.maxSafeEmi).length;
+  const percent = (p: number) => `${Math.round(p * 1000) / 10}%`;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="rounded-xl border border-border bg-card p-6 shadow-card"
+    >
+      <div className="mb-5 flex items-center gap-2">
+        <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-accent/10">
+          <ShieldAlert className="h-4 w-4 text-accent" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">{t('stress_title')}</h3>
+          <p className="text-xs text-muted-foreground">{t('stress_subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="mb-4 grid gap-3 sm:grid-cols-3">
+        <div className="rounded-lg border border-border p-3 text-center">
+          <p className="text-xs text-muted-foreground">{t('stress_emi')}</p>
+          <p className="font-bold text-foreground">₹{Math.round(emi).toLocaleString('en-IN')}</p>
+        </div>
+        <div className="rounded-lg border border-border p-3 text-center sm:col-span-2">
+          <p className="text-xs text-muted-foreground">{t('stress_default_chance', { months: horizonMonths })}</p>
+          <p className="font-bold text-foreground">
+            {percent(defaultRisk.without)} → <span className={defaultRisk.with >= 0.1 ? 'text-risk-high' : defaultRisk.with >= 0.03 ? 'text-risk-medium' : 'text-risk-low'}>{percent(defaultRisk.with)}</span>
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t('stress_scenario')}</TableHead>
+              <TableHead>{t('stress_before')}</TableHead>
+              <TableHead>{t('stress_after')}</TableHead>
+              <TableHead>{t('stress_max_emi')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(row => (
+              <TableRow key={row.scenario}>
+                <TableCell className="font-medium">{t(SCENARIO_LABELS[row.scenario])}</TableCell>
+                <TableCell className={impactClass(row.before.impactLevel)}>
+                  {t('stress_months', { count: row.before.survivalMonths })}
+                </TableCell>
+                <TableCell className={impactClass(row.after.impactLevel)}>
+                  {t('stress_months', { count: row.after.survivalMonths })}
+                </TableCell>
+                <TableCell>
+                  <span className={emi > row.maxSafeEmi ? 'text-risk-high font-semibold' : 'text-foreground'}>
+                    ₹{row.maxSafeEmi.toLocaleString('en-IN')}
+                  </span>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2">
+        {overLimit > 0 && (
+          <Badge variant="outline" className="bg-risk-high/10 text-risk-high border-risk-high/20">
+            {t('stress_over_limit', { count: overLimit })}
+          </Badge>
+        )}
+        <p className="text-xs text-muted-foreground">{t('stress_safe_note', { months: SAFE_RUNWAY_MONTHS })}</p>
+      </div>
+    </motion.div>
+  );
+};
+
+export default LoanStressTest;
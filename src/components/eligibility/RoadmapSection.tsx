@@ -1,14 +1,89 @@
-import type { RoadmapStep } from '@/types/loan';
+import { useMemo, useState } from 'react';
+import type { LoanFormData, RoadmapStep } from '@/types/loan';
 import { motion } from 'framer-motion';
-import { Route } from 'lucide-react';
+import { Route, Target, CheckCircle } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
 import { useLanguage } from '@/i18n/LanguageContext';
+import type { TranslationKey } from '@/i18n/translations';
+import { solveForTarget, type GoalSeekChange, type LeverId } from '@/utils/goalSeek';
+import { activeLiabilities, describeLiability, ledgerTotals, type Liability } from '@/lib/liabilities';
 
 interface RoadmapSectionProps {
   steps: RoadmapStep[];
+  /** When given, a goal-seek plan for the chosen target is shown above the general steps */
+  formData?: LoanFormData;
 }
 
-const RoadmapSection = ({ steps }: RoadmapSectionProps) => {
+const TARGETS = [65, 75, 85];
+
+const leverTitles: Record<LeverId, TranslationKey> = {
+  loan_amount: 'goal_lever_loan_amount',
+  loan_tenure: 'goal_lever_loan_tenure',
+  co_borrower: 'goal_lever_co_borrower',
+  existing_loans: 'goal_lever_existing_loans',
+  liabilities: 'goal_lever_liabilities',
+  monthly_savings: 'goal_lever_monthly_savings',
+  credit_score: 'goal_lever_credit_score',
+};
+
+const formatLeverValue = (change: GoalSeekChange, value: unknown) => {
+  if (change.lever === 'loan_amount' || change.lever === 'monthly_savings') return `₹${Number(value).toLocaleString('en-IN')}`;
+  if (change.lever === 'liabilities') return `₹${ledgerTotals(value as Liability[]).monthlyObligation.toLocaleString('en-IN')}/m`;
+  if (change.lever === 'loan_tenure') return `${value}m`;
+  return String(value);
+};
+
+/** "Credit card, Gold loan (₹85,000) · " for a liabilities change, so the step names what to pay off */
+const clearedDebts = (change: GoalSeekChange) => {
+  if (change.lever !== 'liabilities') return '';
+  const remaining = change.to as Liability[];
+  const cleared = activeLiabilities(change.from as Liability[]).filter(l => !remaining.includes(l));
+  const outstanding = cleared.reduce((sum, l) => sum + l.outstanding, 0);
+  return `${cleared.map(describeLiability).join(', ')} (₹${outstanding.toLocaleString('en-IN')}) · `;
+};
+
+const StepList = ({ steps, delay }: { steps: RoadmapStep[]; delay: number }) => (
+  <div className="space-y-4">
+    {steps.map((s, i) => (
+      <motion.div
+        key={s.step}
+        initial={{ opacity: 0, x: -15 }}
+        animate={{ opacity: 1, x: 0 }}
+        transition={{ delay: delay + i * 0.1 }}
+        className="flex gap-4"
+      >
+        <div className="flex flex-col items-center">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground">
+            {s.step}
+          </div>
+          {i < steps.length - 1 && <div className="mt-1 h-full w-0.5 bg-border" />}
+        </div>
+        <div className="pb-4">
+          <h4 className="font-semibold text-foreground">{s.title}</h4>
+          <p className="text-sm text-muted-foreground">{s.description}</p>
+          <span className="mt-1 inline-block rounded-md bg-secondary px-2 py-0.5 text-xs font-medium text-muted-foreground">
+            ⏱ {s.duration}
+          </span>
+        </div>
+      </motion.div>
+    ))}
+  </div>
+);
+
+const RoadmapSection = ({ steps, formData }: RoadmapSectionProps) => {
   const { t } = useLanguage();
+  const [target, setTarget] = useState(75);
+
+  const plan = useMemo(() => (formData ? solveForTarget(formData, target) : null), [formData, target]);
+
+  const planSteps: RoadmapStep[] = plan
+    ? plan.changes.map((c, i) => ({
+        step: i + 1,
+        title: t(leverTitles[c.lever]),
+        description: `${clearedDebts(c)}${formatLeverValue(c, c.from)} → ${formatLeverValue(c, c.to)} · +${c.gain}% (${t('goal_reaches')} ${c.probabilityAfter}%)`,
+        duration: c.duration,
+      }))
+    : [];
 
   return (
     <motion.div
@@ -27,31 +102,44 @@ const RoadmapSection = ({ steps }: RoadmapSectionProps) => {
         </div>
       </div>
 
-      <div className="space-y-4">
-        {steps.map((s, i) => (
-          <motion.div
-            key={s.step}
-            initial={{ opacity: 0, x: -15 }}
-            animate={{ opacity: 1, x: 0 }}
-            transition={{ delay: 0.6 + i * 0.1 }}
-            className="flex gap-4"
-          >
-            <div className="flex flex-col items-center">
-              <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-xs font-bold text-primary-foreground">
-                {s.step}
-              </div>
-              {i < steps.length - 1 && <div className="mt-1 h-full w-0.5 bg-border" />}
-            </div>
-            <div className="pb-4">
-              <h4 className="font-semibold text-foreground">{s.title}</h4>
-              <p className="text-sm text-muted-foreground">{s.description}</p>
-              <span className="mt-1 inline-block rounded-md bg-secondary px-2 py-0.5 text-xs font-medium text-muted-foreground">
-                ⏱ {s.duration}
-              </span>
+      {plan && (
+        <div className="mb-6 rounded-lg border border-saffron/30 bg-saffron/5 p-4">
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+            <h4 className="flex items-center gap-2 font-semibold text-foreground">
+              <Target className="h-4 w-4 text-saffron" /> {t('goal_title')}
+            </h4>
+            <div className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground">{t('goal_target')}</span>
+              <ToggleGroup type="single" value={String(target)} onValueChange={(v) => v && setTarget(Number(v))}>
+                {TARGETS.map(value => (
+                  <ToggleGroupItem key={value} value={String(value)} size="sm">{value}%</ToggleGroupItem>
+                ))}
+              </ToggleGroup>
             </div>
-          </motion.div>
-        ))}
-      </div>
+          </div>
+
+          {plan.changes.length === 0 && plan.reached ? (
+            <p className="flex items-center gap-2 text-sm text-risk-low">
+              <CheckCircle className="h-4 w-4" /> {t('goal_already_met')}
+            </p>
+          ) : (
+            <>
+              <p className="mb-4 text-sm text-muted-foreground">
+                {plan.reached ? t('goal_summary', { count: plan.changes.length }) : t('goal_unreachable')}{' '}
+                <span className="font-semibold text-foreground">{plan.baseProbability}% → {plan.finalProbability}%</span>
+              </p>
+              <StepList steps={planSteps} delay={0.1} />
+            </>
+          )}
+        </div>
+      )}
+
+      {steps.length > 0 && (
+        <>
+          {plan && <h4 className="mb-3 text-sm font-semibold text-muted-foreground">{t('goal_general_steps')}</h4>}
+          <StepList steps={steps} delay={0.6} />
+        </>
+      )}
     </motion.div>
   );
 };
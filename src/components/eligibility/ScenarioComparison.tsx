@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Columns3, Plus, Trash2, Trophy } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { LoanFormData } from '@/types/loan';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { ledgerTotals } from '@/lib/liabilities';
+import {
+  SCENARIO_PRESETS,
+  bestScenario,
+  evaluateScenario,
+  loadScenarios,
+  saveScenarios,
+  scenarioFields,
+  type Scenario,
+  type ScenarioOverrides,
+} from '@/utils/scenarios';
+
+interface ScenarioComparisonProps {
+  baseData: LoanFormData;
+}
+
+const riskClass = (risk: string) =>
+  risk === 'Low' ? 'text-risk-low' : risk === 'Medium' ? 'text-risk-medium' : 'text-risk-high';
+
+const formatValue = (value: unknown) =>
+  Array.isArray(value)
+    ? `₹${ledgerTotals(value).monthlyObligation.toLocaleString('en-IN')}/m`
+    : typeof value === 'number' ? value.toLocaleString('en-IN') : typeof value === 'boolean' ? (value ? '✓' : '✗') : String(value ?? '—');
+
+const ScenarioComparison = ({ baseData }: ScenarioComparisonProps) => {
+  const { t } = useLanguage();
+  const [scenarios, setScenarios] = useState<Scenario[]>(() => loadScenarios());
+  const [name, setName] = useState('');
+  const fields = useMemo(() => scenarioFields(baseData), [baseData]);
+  const [fieldKey, setFieldKey] = useState<keyof LoanFormData>(fields[0].key);
+  const [fieldValue, setFieldValue] = useState<string | boolean>('');
+  const [draft, setDraft] = useState<ScenarioOverrides>({});
+
+  useEffect(() => saveScenarios(scenarios), [scenarios]);
+
+  const base = useMemo(() => evaluateScenario(baseData, { id: 'base', name: t('scenario_current'), overrides: {} }), [baseData, t]);
+  const outcomes = useMemo(() => scenarios.map(s => evaluateScenario(baseData, s)), [baseData, scenarios]);
+  const best = bestScenario(outcomes);
+
+  const field = fields.find(f => f.key === fieldKey) ?? fields[0];
+  const labelFor = (key: keyof LoanFormData) => {
+    if (key === 'liabilities') return t('form_section_liabilities');
+    const f = fields.find(sf => sf.key === key);
+    return f ? t(f.label) : key;
+  };
+
+  const addScenario = (scenarioName: string, overrides: ScenarioOverrides) =>
+    setScenarios(prev => [...prev, { id: crypto.randomUUID(), name: scenarioName, overrides }]);
+
+  const addDraftField = () => {
+    if (field.kind === 'boolean') {
+      setDraft(prev => ({ ...prev, [field.key]: fieldValue === true }));
+    } else if (field.kind === 'number') {
+      const n = Number(fieldValue);
+      if (fieldValue === '' || !Number.isFinite(n)) return;
+      const clamped = Math.min(field.max ?? Infinity, Math.max(field.min ?? -Infinity, n));
+      setDraft(prev => ({ ...prev, [field.key]: clamped }));
+    } else if (fieldValue) {
+      setDraft(prev => ({ ...prev, [field.key]: fieldValue }));
+    }
+    setFieldValue('');
+  };
+
+  const saveDraft = () => {
+    if (!name.trim() || Object.keys(draft).length === 0) return;
+    addScenario(name.trim(), draft);
+    setName('');
+    setDraft({});
+  };
+
+  const selectField = (key: string) => {
+    setFieldKey(key as keyof LoanFormData);
+    const next = fields.find(f => f.key === key);
+    setFieldValue(next?.kind === 'boolean' ? !baseData[next.key] : '');
+  };
+
+  const delta = (value: number, reference: number, lowerIsBetter = false) => {
+    const d = Math.round((value - reference) * 10) / 10;
+    if (d === 0) return null;
+    const good = lowerIsBetter ? d < 0 : d > 0;
+    return <span className={`ml-1 text-xs ${good ? 'text-risk-low' : 'text-risk-high'}`}>({d > 0 ? '+' : ''}{d})</span>;
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.45 }}
+      className="rounded-xl border border-border bg-card p-6 shadow-card"
+    >
+      <div className="mb-5 flex items-center gap-2">
+        <div className="flex h-8 w-8 items-center justify-center rounded-lg bg-accent/10">
+          <Columns3 className="h-4 w-4 text-accent" />
+        </div>
+        <div>
+          <h3 className="text-lg font-semibold text-foreground">{t('scenario_title')}</h3>
+          <p className="text-xs text-muted-foreground">{t('scenario_subtitle')}</p>
+        </div>
+      </div>
+
+      <div className="mb-4 flex flex-wrap gap-2">
+        {SCENARIO_PRESETS.map(preset => {
+          const overrides = preset.build(baseData);
+          return (
+            <Button
+              key={preset.id}
+              variant="outline"
+              size="sm"
+              disabled={!overrides}
+              onClick={() => overrides && addScenario(t(preset.label), overrides)}
+            >
+              <Plus className="mr-1 h-3.5 w-3.5" /> {t(preset.label)}
+            </Button>
+          );
+        })}
+      </div>
+
+      <div className="mb-6 rounded-lg border border-dashed border-border p-4">
+        <div className="grid gap-3 md:grid-cols-4">
+          <div className="space-y-1">
+            <Label htmlFor="scenario-name">{t('scenario_name')}</Label>
+            <Input id="scenario-name" value={name} onChange={e => setName(e.target.value)} placeholder={t('scenario_name_placeholder')} />
+          </div>
+          <div className="space-y-1">
+            <Label>{t('scenario_field')}</Label>
+            <Select value={field.key} onValueChange={selectField}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {fields.map(f => <SelectItem key={f.key} value={f.key}>{t(f.label)}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{t('scenario_value')}</Label>
+            {field.kind === 'boolean' ? (
+              <div className="flex h-10 items-center">
+                <Switch checked={fieldValue === true} onCheckedChange={v => setFieldValue(v)} />
+              </div>
+            ) : field.kind === 'select' ? (
+              <Select value={typeof fieldValue === 'string' ? fieldValue : ''} onValueChange={setFieldValue}>
+                <SelectTrigger><SelectValue placeholder={formatValue(baseData[field.key])} /></SelectTrigger>
+                <SelectContent>
+                  {field.options!.map(o => <SelectItem key={o} value={o}>{o}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type="number"
+                min={field.min}
+                max={field.max}
+                value={typeof fieldValue === 'string' ? fieldValue : ''}
+                placeholder={formatValue(baseData[field.key])}
+                onChange={e => setFieldValue(e.target.value)}
+              />
+            )}
+          </div>
+          <div className="flex items-end gap-2">
+            <Button variant="outline" onClick={addDraftField}>{t('scenario_add_change')}</Button>
+            <Button variant="saffron" onClick={saveDraft} disabled={!name.trim() || Object.keys(draft).length === 0}>
+              {t('scenario_save')}
+            </Button>
+          </div>
+        </div>
+        {Object.keys(draft).length > 0 && (
+          <div className="mt-3 flex flex-wrap gap-2">
+            {(Object.keys(draft) as (keyof LoanFormData)[]).map(key => (
+              <Badge key={key} variant="outline" className="bg-saffron/10 text-saffron border-saffron/20">
+                {labelFor(key)}: {formatValue(baseData[key])} → {formatValue(draft[key])}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {outcomes.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t('scenario_empty')}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead />
+                <TableHead>{base.scenario.name}</TableHead>
+                {outcomes.map(o => (
+                  <TableHead key={o.scenario.id}>
+                    <div className="flex items-center gap-1">
+                      {best?.scenario.id === o.scenario.id && best.approvalProbability > base.approvalProbability && (
+                        <Trophy className="h-3.5 w-3.5 text-saffron" aria-label={t('scenario_best')} />
+                      )}
+                      <span>{o.scenario.name}</span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        aria-label={t('scenario_remove')}
+                        onClick={() => setScenarios(prev => prev.filter(s => s.id !== o.scenario.id))}
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              <TableRow>
+                <TableCell className="font-medium">{t('scenario_changes')}</TableCell>
+                <TableCell className="text-xs text-muted-foreground">—</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id}>
+                    <div className="flex flex-col gap-1">
+                      {o.changedFields.length === 0 ? (
+                        <span className="text-xs text-muted-foreground">—</span>
+                      ) : o.changedFields.map(key => (
+                        <span key={key} className="rounded bg-saffron/10 px-1.5 py-0.5 text-xs text-saffron">
+                          {labelFor(key)}: {formatValue(baseData[key])} → {formatValue(o.data[key])}
+                        </span>
+                      ))}
+                    </div>
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">{t('result_approval')}</TableCell>
+                <TableCell className="font-semibold">{base.approvalProbability}%</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id} className="font-semibold">
+                    {o.approvalProbability}%{delta(o.approvalProbability, base.approvalProbability)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">{t('scenario_emi')}</TableCell>
+                <TableCell>₹{base.emi.toLocaleString('en-IN')}</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id}>
+                    ₹{o.emi.toLocaleString('en-IN')}{delta(o.emi, base.emi, true)}
+                  </TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">{t('result_dti')}</TableCell>
+                <TableCell>{base.dti}%</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id}>{o.dti}%{delta(o.dti, base.dti, true)}</TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">{t('result_risk')}</TableCell>
+                <TableCell className={`font-semibold ${riskClass(base.riskCategory)}`}>{base.riskCategory}</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id} className={`font-semibold ${riskClass(o.riskCategory)}`}>{o.riskCategory}</TableCell>
+                ))}
+              </TableRow>
+              <TableRow>
+                <TableCell className="font-medium">{t('scenario_banks')}</TableCell>
+                <TableCell className="text-xs">{base.banks.join(', ') || '—'}</TableCell>
+                {outcomes.map(o => (
+                  <TableCell key={o.scenario.id} className="text-xs">
+                    {o.banks.map(bank => (
+                      <span key={bank} className={base.banks.includes(bank) ? '' : 'font-semibold text-saffron'}>
+                        {bank}{bank !== o.banks[o.banks.length - 1] ? ', ' : ''}
+                      </span>
+                    ))}
+                    {o.banks.length === 0 && '—'}
+                  </TableCell>
+                ))}
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default ScenarioComparison;
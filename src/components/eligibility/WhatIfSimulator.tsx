@@ -85,7 +85,7 @@ const WhatIfSimulator = ({ originalData, originalProbability }: WhatIfSimulatorP
           </div>
           {income !== originalData.monthly_income && (
             <p className="mt-2 text-xs text-muted-foreground">
-              {t('whatif_if_income')} ₹{income.toLocaleString('en-IN')} → {t('whatif_approval_becomes')} {newProbability}%
+              {t('whatif_income_result', { income: income.toLocaleString('en-IN'), probability: newProbability })}
             </p>
           )}
         </div>
@@ -5,23 +5,25 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useLanguage } from '@/i18n/LanguageContext';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Language } from '@/i18n/translations';
-
-const languageOptions: { code: Language; label: string; flag: string }[] = [
-  { code: 'en', label: 'EN', flag: '🇬🇧' },
-  { code: 'hi', label: 'हिंदी', flag: '🇮🇳' },
-  { code: 'ta', label: 'தமிழ்', flag: '🇮🇳' },
-];
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { isLanguage, languageInfo } from '@/i18n/languages';
 
 const Header = () => {
   const [mobileOpen, setMobileOpen] = useState(false);
   const location = useLocation();
-  const { t, language, setLanguage } = useLanguage();
-  const { user, logout } = useAuth();
+  const { t, language, setLanguage, languages } = useLanguage();
+  const { user, isAdmin, logout } = useAuth();
 
   const navLinks = [
     { label: t('nav_home'), path: '/' },
     { label: t('nav_eligibility'), path: '/eligibility' },
+    ...(user ? [{ label: t('nav_applications'), path: '/applications' }] : []),
     { label: t('nav_chat') || 'Chat', path: '/chat' },
     { label: t('nav_privacy'), path: '/privacy' },
   ];
@@ -51,7 +53,7 @@ const Header = () => {
             </Link>
           ))}
 
-          {user?.role === 'admin' && (
+          {isAdmin && (
             <Link to="/admin">
               <Button variant={location.pathname === '/admin' ? 'secondary' : 'ghost'} size="sm">
                 {t('nav_admin')}
@@ -59,23 +61,24 @@ const Header = () => {
             </Link>
           )}
 
-          <div className="ml-2 flex items-center gap-0.5 rounded-lg border border-border bg-secondary/50 p-0.5">
-            {languageOptions.map(opt => (
-              <button
-                key={opt.code}
-                onClick={() => setLanguage(opt.code)}
-                className={`rounded-md px-2 py-1 text-xs font-medium transition-colors ${
-                  language === opt.code
-                    ? 'bg-primary text-primary-foreground'
-                    : 'text-muted-foreground hover:text-foreground'
-                }`}
-                title={opt.label}
-              >
-                <span className="mr-1">{opt.flag}</span>
-                {opt.label}
-              </button>
-            ))}
-          </div>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" className="ml-2 gap-1.5 text-xs">
+                <Globe className="h-3.5 w-3.5" />
+                {languageInfo(language).nativeName}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuRadioGroup value={language} onValueChange={(code) => isLanguage(code) && setLanguage(code)}>
+                {languages.map(opt => (
+                  <DropdownMenuRadioItem key={opt.code} value={opt.code} className="text-xs">
+                    {opt.nativeName}
+                    <span className="ml-auto pl-3 text-muted-foreground">{opt.name}</span>
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
 
           {user ? (
             <Button variant="ghost" size="sm" className="ml-2" onClick={logout}>
@@ -113,7 +116,7 @@ const Header = () => {
               </Link>
             ))}
 
-            {user?.role === 'admin' && (
+            {isAdmin && (
               <Link to="/admin" onClick={() => setMobileOpen(false)}>
                 <Button variant={location.pathname === '/admin' ? 'secondary' : 'ghost'} className="w-full justify-start">
                   {t('nav_admin')}
@@ -135,8 +138,8 @@ const Header = () => {
               </Link>
             )}
 
-            <div className="mt-2 flex items-center gap-1">
-              {languageOptions.map(opt => (
+            <div className="mt-2 flex flex-wrap items-center gap-1">
+              {languages.map(opt => (
                 <button
                   key={opt.code}
                   onClick={() => setLanguage(opt.code)}
@@ -146,7 +149,7 @@ const Header = () => {
                       : 'text-muted-foreground border-border hover:text-foreground'
                   }`}
                 >
-                  {opt.label}
+                  {opt.nativeName}
                 </button>
               ))}
             </div>
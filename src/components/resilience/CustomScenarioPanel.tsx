@@ -0,0 +1,252 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Link2, Plus, Save, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  isFlowShock,
+  simulateTimeline,
+  type CustomScenario,
+  type FinancialProfile,
+  type ScenarioShock,
+  type ShockTarget,
+} from '@/lib/resilienceEngine';
+import {
+  SHARE_PARAM,
+  SHOCK_TARGETS,
+  STRESS_SCENARIO_PRESETS,
+  decodeStressScenario,
+  encodeStressScenario,
+  loadStressScenarios,
+  saveStressScenarios,
+} from '@/utils/stressScenarios';
+
+interface CustomScenarioPanelProps {
+  financialProfile: FinancialProfile;
+}
+
+const TARGET_LABELS: Record<ShockTarget, string> = {
+  income: 'Income',
+  expenses: 'Expenses',
+  debt: 'EMIs & debt',
+  savings: 'Savings (one-off)',
+  investments: 'Investments (one-off)',
+};
+
+const impactColors = {
+  Low: 'text-green-600',
+  Medium: 'text-yellow-600',
+  High: 'text-orange-600',
+  Critical: 'text-red-600',
+};
+
+const emptyShock = (): ScenarioShock => ({ target: 'income', mode: 'percent', value: -50, startMonth: 1, durationMonths: 3 });
+
+const describeShock = (shock: ScenarioShock) => {
+  const change = shock.mode === 'percent'
+    ? `${shock.value > 0 ? '+' : ''}${shock.value}%`
+    : `${shock.value > 0 ? '+' : '−'}₹${Math.abs(shock.value).toLocaleString('en-IN')}`;
+  const when = isFlowShock(shock)
+    ? `months ${shock.startMonth}–${shock.startMonth + shock.durationMonths - 1}`
+    : `month ${shock.startMonth}`;
+  return `${TARGET_LABELS[shock.target]} ${change}, ${when}`;
+};
+
+export const CustomScenarioPanel = ({ financialProfile }: CustomScenarioPanelProps) => {
+  const { toast } = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [saved, setSaved] = useState<CustomScenario[]>(() => loadStressScenarios());
+  const [selectedId, setSelectedId] = useState(STRESS_SCENARIO_PRESETS[0].id);
+  const [name, setName] = useState('');
+  const [shocks, setShocks] = useState<ScenarioShock[]>([emptyShock()]);
+
+  useEffect(() => saveStressScenarios(saved), [saved]);
+
+  // Opening a share link adds the scenario to this device's list
+  useEffect(() => {
+    const code = searchParams.get(SHARE_PARAM);
+    if (!code) return;
+    const shared = decodeStressScenario(code);
+    if (shared) {
+      setSaved((prev) => (prev.some((s) => s.id === shared.id) ? prev : [...prev, shared]));
+      setSelectedId(shared.id);
+    } else {
+      toast({ title: 'Could not open the shared scenario', variant: 'destructive' });
+    }
+    const next = new URLSearchParams(searchParams);
+    next.delete(SHARE_PARAM);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams, toast]);
+
+  const scenarios = [...STRESS_SCENARIO_PRESETS, ...saved];
+  const selected = scenarios.find((s) => s.id === selectedId) ?? scenarios[0];
+  const result = useMemo(() => simulateTimeline(financialProfile, selected), [financialProfile, selected]);
+
+  const updateShock = (index: number, patch: Partial<ScenarioShock>) =>
+    setShocks((prev) => prev.map((shock, i) => (i === index ? { ...shock, ...patch } : shock)));
+
+  const saveScenario = () => {
+    if (!name.trim() || shocks.length === 0) return;
+    const scenario: CustomScenario = { id: crypto.randomUUID(), name: name.trim(), shocks };
+    setSaved((prev) => [...prev, scenario]);
+    setSelectedId(scenario.id);
+    setName('');
+    setShocks([emptyShock()]);
+  };
+
+  const removeScenario = (id: string) => {
+    setSaved((prev) => prev.filter((s) => s.id !== id));
+    if (selectedId === id) setSelectedId(STRESS_SCENARIO_PRESETS[0].id);
+  };
+
+  const shareScenario = async (scenario: CustomScenario) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(SHARE_PARAM, encodeStressScenario(scenario));
+    try {
+      await navigator.clipboard.writeText(url.toString());
+      toast({ title: 'Share link copied', description: 'Anyone who opens it gets this scenario in their list.' });
+    } catch {
+      toast({ title: 'Copy this link to share', description: url.toString() });
+    }
+  };
+
+  const numberField = (index: number, key: 'value' | 'startMonth' | 'durationMonths', label: string, disabled = false) => (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        value={shocks[index][key]}
+        min={key === 'value' ? undefined : 1}
+        disabled={disabled}
+        onChange={(e) => updateShock(index, { [key]: Number(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Custom Scenarios</CardTitle>
+        <CardDescription>
+          Write a timeline of shocks, such as a failed harvest or a rent rise, and see month by month whether savings hold
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap gap-2">
+          {scenarios.map((scenario) => (
+            <div key={scenario.id} className="flex items-center">
+              <Button
+                size="sm"
+                variant={scenario.id === selected.id ? 'default' : 'outline'}
+                className={scenario.id === selected.id ? 'bg-saffron hover:bg-saffron/90' : ''}
+                onClick={() => setSelectedId(scenario.id)}
+              >
+                {scenario.name}
+              </Button>
+              {saved.some((s) => s.id === scenario.id) && (
+                <Button variant="ghost" size="icon" className="h-8 w-8" aria-label={`Delete ${scenario.name}`} onClick={() => removeScenario(scenario.id)}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 rounded-lg border p-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <p className="font-semibold text-foreground">{selected.name}</p>
+              {selected.description && <p className="text-xs text-muted-foreground">{selected.description}</p>}
+              <div className="mt-2 flex flex-wrap gap-1">
+                {selected.shocks.map((shock, i) => (
+                  <Badge key={i} variant="outline">{describeShock(shock)}</Badge>
+                ))}
+              </div>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => shareScenario(selected)}>
+              <Link2 className="mr-1 h-3.5 w-3.5" /> Share
+            </Button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <p className="text-xs text-muted-foreground">Outcome</p>
+              <p className={`font-bold ${impactColors[result.impactLevel]}`}>
+                {result.survived ? `Gets through all ${result.timeline.length} months` : `Runs out in month ${result.survivalMonths + 1}`}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground">Lowest buffer</p>
+              <p className="font-bold text-foreground">₹{result.lowestBuffer.toLocaleString('en-IN')}</p>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={result.timeline}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis tickFormatter={(v: number) => `₹${Math.round(v / 1000)}k`} />
+              <Tooltip formatter={(v: number) => `₹${v.toLocaleString('en-IN')}`} labelFormatter={(m) => `Month ${m}`} />
+              <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="buffer" name="Savings & investments" stroke="#e67e22" dot={false} strokeWidth={2} />
+              <Line type="stepAfter" dataKey="income" name="Income" stroke="#16a34a" dot={false} />
+              <Line type="stepAfter" dataKey="outflow" name="Expenses & EMIs" stroke="#64748b" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="space-y-3 rounded-lg border border-dashed p-4">
+          <div className="space-y-1">
+            <Label htmlFor="stress-scenario-name">New scenario</Label>
+            <Input id="stress-scenario-name" value={name} placeholder="e.g. Crop failure, then a medical bill" onChange={(e) => setName(e.target.value)} />
+          </div>
+          {shocks.map((shock, index) => (
+            <div key={index} className="grid grid-cols-2 items-end gap-2 md:grid-cols-6">
+              <div className="space-y-1">
+                <Label className="text-xs">Hits</Label>
+                <Select value={shock.target} onValueChange={(v) => updateShock(index, { target: v as ShockTarget })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {SHOCK_TARGETS.map((t) => <SelectItem key={t} value={t}>{TARGET_LABELS[t]}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">By</Label>
+                <Select value={shock.mode} onValueChange={(v) => updateShock(index, { mode: v as ScenarioShock['mode'] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percent">Percent</SelectItem>
+                    <SelectItem value="amount">Rupees</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {numberField(index, 'value', shock.mode === 'percent' ? 'Change (%)' : 'Change (₹)')}
+              {numberField(index, 'startMonth', 'From month')}
+              {numberField(index, 'durationMonths', 'For months', !isFlowShock(shock))}
+              <Button variant="ghost" size="icon" aria-label="Remove shock" disabled={shocks.length === 1} onClick={() => setShocks((prev) => prev.filter((_, i) => i !== index))}>
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShocks((prev) => [...prev, emptyShock()])}>
+              <Plus className="mr-1 h-3.5 w-3.5" /> Add shock
+            </Button>
+            <Button size="sm" className="bg-saffron hover:bg-saffron/90" disabled={!name.trim()} onClick={saveScenario}>
+              <Save className="mr-1 h-3.5 w-3.5" /> Save scenario
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustomScenarioPanel;
@@ -8,6 +8,8 @@ import {
   Bar, 
   LineChart, 
   Line, 
+  AreaChart,
+  Area,
   RadarChart, 
   Radar,
   PolarGrid, 
@@ -28,21 +30,38 @@ import {
   Heart, 
   DollarSign,
   AlertCircle,
-  CheckCircle2
+  CheckCircle2,
+  Dices
 } from 'lucide-react';
 import { motion } from 'framer-motion';
 import type { ResilienceMetrics, ResilienceScenario, FinancialProfile } from '@/lib/resilienceEngine';
-import { calculateResilienceMetrics } from '@/lib/resilienceEngine';
+import { calculateResilienceMetrics, runMonteCarloStressTest } from '@/lib/resilienceEngine';
+import CustomScenarioPanel from '@/components/resilience/CustomScenarioPanel';
 
 interface ResilienceDashboardProps {
   financialProfile: FinancialProfile;
+  /** EMI of the loan being considered; included in every simulated month */
+  proposedEmi?: number;
+  /** Months to simulate, usually the loan tenure */
+  horizonMonths?: number;
 }
 
-export const ResilienceDashboard = ({ financialProfile }: ResilienceDashboardProps) => {
+export const ResilienceDashboard = ({ financialProfile, proposedEmi = 0, horizonMonths = 36 }: ResilienceDashboardProps) => {
   const [selectedScenario, setSelectedScenario] = useState<ResilienceScenario>('combined');
   const [showDetails, setShowDetails] = useState(false);
 
   const metrics = useMemo(() => calculateResilienceMetrics(financialProfile), [financialProfile]);
+  const simulation = useMemo(
+    () => runMonteCarloStressTest(financialProfile, { proposedEmi, horizonMonths }),
+    [financialProfile, proposedEmi, horizonMonths],
+  );
+  const survivalChart = simulation.survivalCurve.map((point) => ({
+    month: point.month,
+    solvent: Math.round(point.solvent * 1000) / 10,
+  }));
+  const formatSurvival = (months: number) =>
+    months >= simulation.horizonMonths ? `${simulation.horizonMonths}+` : String(months);
+  const defaultPercent = Math.round(simulation.probabilityOfDefault * 1000) / 10;
 
   const radarData = [
     {
@@ -329,6 +348,59 @@ export const ResilienceDashboard = ({ financialProfile }: ResilienceDashboardPro
         </Card>
       </motion.div>
 
+      {/* Monte Carlo Stress Test */}
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.45 }}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Dices className="h-5 w-5" />
+              Simulated Futures
+            </CardTitle>
+            <CardDescription>
+              {simulation.paths.toLocaleString('en-IN')} random {simulation.horizonMonths}-month paths with job loss,
+              medical bills, inflation and market swings{proposedEmi > 0 ? ', including the new loan EMI' : ''}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+              <div className="rounded-lg border p-3 text-center">
+                <p className="text-xs text-muted-foreground">Chance of default</p>
+                <p className={`text-2xl font-bold ${defaultPercent >= 10 ? 'text-red-600' : defaultPercent >= 3 ? 'text-yellow-600' : 'text-green-600'}`}>
+                  {defaultPercent}%
+                </p>
+              </div>
+              <div className="rounded-lg border p-3 text-center">
+                <p className="text-xs text-muted-foreground">Bad case (10th pct.)</p>
+                <p className="text-2xl font-bold text-foreground">{formatSurvival(simulation.survivalPercentiles.p10)} <span className="text-sm font-normal">mo</span></p>
+              </div>
+              <div className="rounded-lg border p-3 text-center">
+                <p className="text-xs text-muted-foreground">Typical (median)</p>
+                <p className="text-2xl font-bold text-foreground">{formatSurvival(simulation.survivalPercentiles.p50)} <span className="text-sm font-normal">mo</span></p>
+              </div>
+              <div className="rounded-lg border p-3 text-center">
+                <p className="text-xs text-muted-foreground">Good case (90th pct.)</p>
+                <p className="text-2xl font-bold text-foreground">{formatSurvival(simulation.survivalPercentiles.p90)} <span className="text-sm font-normal">mo</span></p>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={250}>
+              <AreaChart data={survivalChart}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="month" label={{ value: 'Month', position: 'insideBottom', offset: -4 }} />
+                <YAxis domain={[0, 100]} unit="%" label={{ value: 'Still paying', angle: -90, position: 'insideLeft' }} />
+                <Tooltip formatter={(value: number) => [`${value}%`, 'Paths still paying']} labelFormatter={(month) => `Month ${month}`} />
+                <Area type="stepAfter" dataKey="solvent" stroke="#e67e22" fill="#e67e22" fillOpacity={0.25} />
+              </AreaChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </motion.div>
+
+      {/* Counsellor-written timelines */}
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.48 }}>
+        <CustomScenarioPanel financialProfile={financialProfile} />
+      </motion.div>
+
       {/* Recovery Plans */}
       <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} transition={{ delay: 0.5 }}>
         <Card className="border-blue-200 bg-blue-50/30">
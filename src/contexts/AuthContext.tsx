@@ -1,90 +1,132 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
-
-interface User {
-  id?: string;
-  email: string;
-  name?: string;
-  role?: 'citizen' | 'admin';
-}
+import { createContext, useContext, useState, useEffect, useCallback, useRef, type ReactNode } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { resolveAuthUser, type AuthClient, type AuthUser } from '@/lib/auth';
 
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
+  session: Session | null;
   token: string | null;
   isAuthenticated: boolean;
+  isAdmin: boolean;
   isLoading: boolean;
-  login: (email: string, password: string, role?: 'citizen' | 'admin') => Promise<void>;
-  logout: () => void;
+  signInWithPassword: (email: string, password: string) => Promise<void>;
+  /** Returns true when the account is active immediately (no email confirmation pending) */
+  signUp: (email: string, password: string, fullName?: string) => Promise<boolean>;
+  sendOtp: (email: string) => Promise<void>;
+  verifyOtp: (email: string, code: string) => Promise<void>;
+  logout: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-export const AuthProvider = ({ children }: { children: ReactNode }) => {
-  const [user, setUser] = useState<User | null>(null);
-  const [token, setToken] = useState<string | null>(null);
+export const AuthProvider = ({ children, client = supabase }: { children: ReactNode; client?: AuthClient }) => {
+  const [user, setUser] = useState<AuthUser | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  // Bumped on every auth change so a slow claims check can't overwrite a newer state
+  const generation = useRef(0);
 
-  // Initialize auth state from localStorage on mount
-  useEffect(() => {
-    const storedToken = localStorage.getItem('authToken');
-    const storedUser = localStorage.getItem('authUser');
-    
-    if (storedToken && storedUser) {
-      try {
-        setToken(storedToken);
-        setUser(JSON.parse(storedUser));
-      } catch (error) {
-        console.error('Failed to restore auth state:', error);
-        localStorage.removeItem('authToken');
-        localStorage.removeItem('authUser');
-      }
-    }
-    setIsLoading(false);
+  const applySession = useCallback(async (next: Session | null) => {
+    const current = ++generation.current;
+    const resolved = await resolveAuthUser(client, next);
+    if (current !== generation.current) return;
+    setSession(resolved ? next : null);
+    setUser(resolved);
+  }, [client]);
+
+  const clearSession = useCallback(() => {
+    generation.current++;
+    setSession(null);
+    setUser(null);
   }, []);
 
-  const login = async (email: string, password: string, role: 'citizen' | 'admin' = 'citizen') => {
-    try {
-      setIsLoading(true);
-      if (!email || !password) {
-        throw new Error('Email and password are required');
+  useEffect(() => {
+    let active = true;
+    // Tokens from the old mock login are meaningless now
+    localStorage.removeItem('authToken');
+    localStorage.removeItem('authUser');
+
+    // Token refreshes re-read the claims, so role changes apply within one token lifetime
+    const { data: { subscription } } = client.auth.onAuthStateChange((event, next) => {
+      if (!active) return;
+      if (event === 'SIGNED_OUT') {
+        clearSession();
+        return;
       }
+      // Defer out of the auth callback: supabase-js holds a lock while it runs
+      const scheduled = generation.current;
+      setTimeout(() => {
+        if (active && scheduled === generation.current) applySession(next);
+      }, 0);
+    });
+
+    client.auth.getSession()
+      .then(({ data }) => (active ? applySession(data.session) : undefined))
+      .catch((error) => console.error('Failed to restore auth state:', error))
+      .finally(() => {
+        if (active) setIsLoading(false);
+      });
 
-      // In production, this would call your authentication API
-      const mockToken = `token_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const mockUser: User = {
-        id: `user_${Date.now()}`,
-        email,
-        name: email.split('@')[0],
-        role,
-      };
-
-      // Store in localStorage
-      localStorage.setItem('authToken', mockToken);
-      localStorage.setItem('authUser', JSON.stringify(mockUser));
-
-      setToken(mockToken);
-      setUser(mockUser);
-    } catch (error) {
-      console.error('Login failed:', error);
-      throw error;
-    } finally {
-      setIsLoading(false);
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, [client, applySession, clearSession]);
+
+  const signInWithPassword = async (email: string, password: string) => {
+    if (!email || !password) {
+      throw new Error('Email and password are required');
     }
+    const { data, error } = await client.auth.signInWithPassword({ email, password });
+    if (error) throw error;
+    await applySession(data.session);
   };
 
-  const logout = () => {
-    localStorage.removeItem('authToken');
-    localStorage.removeItem('authUser');
-    setToken(null);
-    setUser(null);
+  const signUp = async (email: string, password: string, fullName?: string) => {
+    if (!email || !password) {
+      throw new Error('Email and password are required');
+    }
+    const { data, error } = await client.auth.signUp({
+      email,
+      password,
+      options: { data: fullName ? { full_name: fullName } : undefined },
+    });
+    if (error) throw error;
+    if (data.session) await applySession(data.session);
+    return !!data.session;
+  };
+
+  const sendOtp = async (email: string) => {
+    if (!email) throw new Error('Email is required');
+    const { error } = await client.auth.signInWithOtp({ email, options: { shouldCreateUser: true } });
+    if (error) throw error;
+  };
+
+  const verifyOtp = async (email: string, code: string) => {
+    const { data, error } = await client.auth.verifyOtp({ email, token: code, type: 'email' });
+    if (error) throw error;
+    await applySession(data.session);
+  };
+
+  const logout = async () => {
+    const { error } = await client.auth.signOut();
+    if (error) console.error('Logout failed:', error);
+    clearSession();
   };
 
   return (
     <AuthContext.Provider value={{
       user,
-      token,
-      isAuthenticated: !!token && !!user,
+      session,
+      token: session?.access_token ?? null,
+      isAuthenticated: !!session && !!user,
+      isAdmin: user?.role === 'admin',
       isLoading,
-      login,
+      signInWithPassword,
+      signUp,
+      sendOtp,
+      verifyOtp,
       logout,
     }}>
       {children}
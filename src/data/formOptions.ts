@@ -0,0 +1,12 @@
+/**
+ * Choices offered by the eligibility form, shared with tools that edit LoanFormData
+ */
+
+export const educationOptions = ['10th Pass', '12th Pass', 'Graduate', 'Post Graduate', 'Doctorate'];
+export const jobTypeOptions = ['Government', 'Salaried', 'Self Employed', 'Business', 'Student', 'Retired'];
+export const incomeStabilityOptions = ['Very Stable', 'Stable', 'Moderate', 'Unstable'];
+export const genderOptions = ['Male', 'Female', 'Other'];
+export const maritalOptions = ['Single', 'Married', 'Divorced', 'Widowed'];
+export const loanPurposeOptions = ['Personal', 'Home', 'Vehicle', 'Education', 'Agriculture', 'Business', 'Medical', 'Debt Consolidation'];
+export const coBorrowerOptions = ['None', 'Parent/Guardian', 'Spouse', 'Sibling', 'Other'];
+export const stateOptions = ['Andhra Pradesh', 'Bihar', 'Delhi', 'Gujarat', 'Karnataka', 'Kerala', 'Madhya Pradesh', 'Maharashtra', 'Punjab', 'Rajasthan', 'Tamil Nadu', 'Telangana', 'Uttar Pradesh', 'West Bengal', 'Other'];
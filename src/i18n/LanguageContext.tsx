@@ -1,23 +1,105 @@
-import { createContext, useContext, useState, type ReactNode } from 'react';
-import { translations, type Language, type TranslationKey } from './translations';
+import { createContext, useCallback, useContext, useEffect, useRef, useState, type ReactNode } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  fallbackBundle,
+  loadBundle,
+  translate,
+  type Language,
+  type TranslationBundle,
+  type TranslationKey,
+  type TranslationParams,
+} from './translations';
+import { DEFAULT_LANGUAGE, LANGUAGES, isUiLanguage, type LanguageInfo } from './languages';
+import {
+  fetchProfileLanguage,
+  initialLanguage,
+  saveProfileLanguage,
+  storeLanguage,
+  type PreferenceClient,
+} from './preference';
 
 interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: TranslationKey) => string;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  /** Languages the UI offers, for pickers */
+  languages: readonly LanguageInfo[];
 }
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-export const LanguageProvider = ({ children }: { children: ReactNode }) => {
-  const [language, setLanguage] = useState<Language>('en');
+const UI_LANGUAGE_INFO = LANGUAGES.filter((l) => isUiLanguage(l.code));
 
-  const t = (key: TranslationKey): string => {
-    return translations[language][key] || translations['en'][key] || key;
-  };
+/** Must sit inside AuthProvider: a signed-in user's choice is kept on their profile */
+export const LanguageProvider = ({ children, client }: { children: ReactNode; client?: PreferenceClient }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [language, setCurrentLanguage] = useState<Language>(() => initialLanguage());
+  // Read by the sign-in sync, which should not re-run on every language change
+  const languageRef = useRef(language);
+  languageRef.current = language;
+  // The bundle in use and its language; the previous one stays up while the next loads
+  const [loaded, setLoaded] = useState<{ language: Language; bundle: TranslationBundle }>({
+    language: DEFAULT_LANGUAGE,
+    bundle: fallbackBundle,
+  });
+
+  useEffect(() => {
+    let active = true;
+    loadBundle(language)
+      .then((bundle) => {
+        if (active) setLoaded({ language, bundle });
+      })
+      .catch(() => {
+        if (active) setLoaded({ language, bundle: fallbackBundle });
+      });
+    return () => {
+      active = false;
+    };
+  }, [language]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  // On sign-in the profile wins; a profile without a choice takes the current one
+  useEffect(() => {
+    if (!userId) return;
+    let active = true;
+    fetchProfileLanguage(userId, client)
+      .then((saved) => {
+        if (!active) return;
+        if (!saved) return saveProfileLanguage(userId, languageRef.current, client);
+        if (!isUiLanguage(saved)) return;
+        setCurrentLanguage(saved);
+        storeLanguage(saved);
+      })
+      .catch((error) => console.error('Failed to sync language preference:', error));
+    return () => {
+      active = false;
+    };
+  }, [userId, client]);
+
+  const setLanguage = useCallback(
+    (next: Language) => {
+      setCurrentLanguage(next);
+      storeLanguage(next);
+      if (userId) {
+        saveProfileLanguage(userId, next, client).catch((error) =>
+          console.error('Failed to save language preference:', error),
+        );
+      }
+    },
+    [userId, client],
+  );
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(loaded.language, loaded.bundle, key, params),
+    [loaded],
+  );
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, languages: UI_LANGUAGE_INFO }}>
       {children}
     </LanguageContext.Provider>
   );
@@ -0,0 +1,60 @@
+/**
+ * Translation completeness: which English keys each bundle is missing.
+ *
+ * Plural keys are compared per language, so a bundle is only expected to
+ * carry the `_one`/`_few`/... variants its own plural rules use. Run
+ * `npm run i18n:report` for a printed summary.
+ */
+
+import { LANGUAGES, type Language } from './languages';
+import { fallbackBundle, pluralCategories, type TranslationBundle } from './translations';
+
+export interface CompletenessEntry {
+  language: Language;
+  /** Keys the bundle needs but does not have; these render in English */
+  missing: string[];
+  /** Keys the bundle has that English does not; usually renamed or removed keys */
+  extra: string[];
+  /** Share of expected keys present, 0–100 */
+  coverage: number;
+}
+
+/** Coverage, in percent, a bundle needs before its language is offered in the UI */
+export const UI_COVERAGE_THRESHOLD = 95;
+
+const PLURAL_SUFFIX = /_(zero|one|two|few|many|other)$/;
+
+const bundles = import.meta.glob<TranslationBundle>('./locales/*.json', { import: 'default', eager: true });
+
+/** Keys `language` should define, given the English bundle */
+export function expectedKeys(language: Language, reference: TranslationBundle = fallbackBundle): string[] {
+  const categories = pluralCategories(language);
+  const keys = new Set<string>();
+  for (const key of Object.keys(reference)) {
+    const match = key.match(PLURAL_SUFFIX);
+    if (!match) {
+      keys.add(key);
+      continue;
+    }
+    const base = key.slice(0, match.index);
+    for (const category of categories) keys.add(`${base}_${category}`);
+  }
+  return [...keys];
+}
+
+export function bundleCompleteness(language: Language, bundle: TranslationBundle): CompletenessEntry {
+  const expected = expectedKeys(language);
+  const expectedSet = new Set(expected);
+  const missing = expected.filter((key) => !(key in bundle));
+  // Any plural variant of a known base is fine, even one the rules never select
+  const extra = Object.keys(bundle).filter(
+    (key) => !expectedSet.has(key) && !(key.replace(PLURAL_SUFFIX, '_other') in fallbackBundle),
+  );
+  const coverage = expected.length ? Math.round(((expected.length - missing.length) / expected.length) * 100) : 100;
+  return { language, missing, extra, coverage };
+}
+
+/** Completeness of every registered language; a language with no bundle file is 0% */
+export function completenessReport(): CompletenessEntry[] {
+  return LANGUAGES.map(({ code }) => bundleCompleteness(code, bundles[`./locales/${code}.json`] ?? {}));
+}
@@ -0,0 +1,6 @@
+/**
+ * Browser entry point for the shared language registry.
+ * The registry lives with the edge functions so their LLM instructions stay in sync.
+ */
+
+export * from '../../supabase/functions/_shared/languages.ts';
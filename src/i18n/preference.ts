@@ -0,0 +1,76 @@
+/**
+ * Language preference - where the chosen UI language is kept between visits.
+ *
+ * Signed-out users keep it in localStorage; signed-in users also get it on
+ * their profile so it follows them to other devices. On a first visit the
+ * browser's own language list picks the starting language. Only UI languages
+ * are applied; a saved choice of one still being translated is kept, not used.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import { DEFAULT_LANGUAGE, isLanguage, isUiLanguage, type Language } from './languages';
+
+export type PreferenceClient = Pick<SupabaseClient<Database>, 'from'>;
+
+const STORAGE_KEY = 'ui_language';
+
+/**
+ * First UI language in the browser's preference order. Region tags are
+ * ignored, so "hi-IN" matches Hindi. Returns null when none match.
+ */
+export function detectLanguage(browserLanguages: readonly string[]): Language | null {
+  for (const tag of browserLanguages) {
+    const code = tag.toLowerCase().split('-')[0];
+    if (isUiLanguage(code)) return code;
+  }
+  return null;
+}
+
+export function loadStoredLanguage(storage: Storage = localStorage): Language | null {
+  try {
+    const stored = storage.getItem(STORAGE_KEY);
+    return isLanguage(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+export function storeLanguage(language: Language, storage: Storage = localStorage): void {
+  try {
+    storage.setItem(STORAGE_KEY, language);
+  } catch {
+    // Storage can be disabled (private mode); the choice then lasts this visit only
+  }
+}
+
+function browserLanguages(): readonly string[] {
+  if (typeof navigator === 'undefined') return [];
+  return navigator.languages?.length ? navigator.languages : [navigator.language].filter(Boolean);
+}
+
+/** Language to start with: the saved choice, else the browser's, else English */
+export function initialLanguage(
+  storage: Storage = localStorage,
+  languages: readonly string[] = browserLanguages(),
+): Language {
+  const stored = loadStoredLanguage(storage);
+  return (isUiLanguage(stored) ? stored : null) ?? detectLanguage(languages) ?? DEFAULT_LANGUAGE;
+}
+
+/** The language saved on the user's profile, or null if they never chose one */
+export async function fetchProfileLanguage(userId: string, client: PreferenceClient = supabase): Promise<Language | null> {
+  const { data, error } = await client.from('profiles').select('preferred_language').eq('id', userId).maybeSingle();
+  if (error) throw error;
+  return isLanguage(data?.preferred_language) ? data.preferred_language : null;
+}
+
+export async function saveProfileLanguage(
+  userId: string,
+  language: Language,
+  client: PreferenceClient = supabase,
+): Promise<void> {
+  const { error } = await client.from('profiles').update({ preferred_language: language }).eq('id', userId);
+  if (error) throw error;
+}
@@ -1,744 +1,71 @@
-export type Language = 'en' | 'hi' | 'ta';
-
-export const translations = {
-  en: {
-    // Nav
-    nav_home: 'Home',
-    nav_eligibility: 'Check Eligibility',
-    nav_privacy: 'Privacy & Ethics',
-    nav_login: 'Login',
-    nav_admin: 'Admin Panel',
-    nav_logout: 'Logout',
-    nav_badge: 'AI-powered prototype designed for government deployment',
-    nav_chat: 'AI Advisor',
-    nav_results: 'Results',
-
-    // Hero
-    hero_badge: 'AI-Powered · Government-Ready · Scalable SaaS',
-    hero_title_1: 'Empowering Financial Access for',
-    hero_title_highlight: 'Every Citizen',
-    hero_title_2: 'with AI',
-    hero_subtitle: 'ML-driven loan eligibility prediction, explainable AI decisions, and personalized financial roadmaps — in your language, with your voice.',
-    hero_cta1: 'Check Loan Eligibility',
-    hero_cta2: 'Try Sample Case',
-    hero_cta_advice: 'Get Financial Advice',
-    hero_img_alt: 'Diverse Indian citizens connected through AI-powered financial services',
-
-    // Trust
-    trust_privacy: 'Privacy-First',
-    trust_explainable: 'Explainable AI',
-    trust_multilingual: 'Multilingual',
-    trust_scalable: 'Scalable SaaS',
-    trust_voice: 'Voice-First',
-    trust_inclusive: 'Inclusive Design',
-
-    // How It Works
-    how_title: 'How It Works',
-    how_subtitle: 'Three simple steps from uncertainty to clarity',
-    how_step1_title: 'Enter Your Details',
-    how_step1_desc: 'Simple form — income, loan amount, credit info. No documents needed for initial assessment.',
-    how_step2_title: 'AI Analyzes & Explains',
-    how_step2_desc: 'Our ML model predicts approval probability and transparently explains every factor behind the decision.',
-    how_step3_title: 'Get Your Roadmap',
-    how_step3_desc: 'Receive a personalized improvement plan, bank recommendations, and next steps to achieve your goal.',
-
-    // Features
-    features_badge: 'Innovation Highlights',
-    features_title: 'What Makes NidhiSaarthi Different',
-    features_subtitle: 'Combining Explainable AI, financial simulation, and multilingual access for true inclusion',
-    feature1_title: 'Explainable AI Dashboard',
-    feature1_desc: '"Why was my loan rejected?" — every decision transparently broken down into understandable risk factors with actionable improvement steps.',
-    feature1_badge: 'Core Innovation',
-    feature2_title: 'What-If Simulator',
-    feature2_desc: 'Slide income up, loan amount down — see your approval probability change in real-time. AI-powered financial planning for citizens.',
-    feature2_badge: 'Unique Feature',
-    feature3_title: 'Multilingual & Voice Mode',
-    feature3_desc: 'English, Hindi, Tamil — with voice input for low-literacy users. Designed for rural-first accessibility and nationwide inclusivity.',
-    feature3_badge: 'Accessibility',
-
-    // Sample Cases
-    samples_title: '🎭 Try a Sample Case',
-    samples_subtitle: 'See how NidhiSaarthi works for different citizens across India',
-    samples_try: 'Try This Case',
-
-    // Eligibility Page
-    elig_title: 'AI Loan Eligibility Analyzer',
-    elig_subtitle: 'Enter your details to get an AI-powered assessment with explainable decisions',
-    elig_sample_label: 'Sample Case',
-    elig_form_title: 'Your Financial Details',
-    elig_empty_text: 'Fill the form and click "Analyze" to see your AI assessment',
-    elig_result_title: 'AI Assessment Result',
-
-    // Form sections
-    form_section_personal: 'Personal Profile',
-    form_section_employment: 'Employment Details',
-    form_section_financial: 'Financial Status',
-    form_section_assets: 'Assets & Ownership',
-    form_section_loan: 'Loan Request Details',
-    form_age: 'Age',
-    form_gender: 'Gender',
-    form_marital: 'Marital Status',
-    form_family: 'Family Members',
-    form_dependents: 'Dependent Family Members',
-    form_city: 'City',
-    form_state: 'State',
-    form_job_type: 'Job Type',
-    form_employer: 'Employer/Company',
-    form_experience: 'Years of Experience',
-    form_income_stability: 'Income Stability',
-    form_secondary_income: 'Secondary Income Source',
-    form_savings: 'Monthly Savings (₹)',
-    form_expenses: 'Monthly Expenses (₹)',
-    form_bank_balance: 'Bank Balance (₹)',
-    form_investments: 'Has Investments',
-    form_owns_house: 'Owns House',
-    form_owns_car: 'Owns Car',
-    form_car_year: 'Car Purchase Year',
-    form_property_value: 'Property Value (₹)',
-    form_health_ins: 'Health Insurance',
-    form_life_ins: 'Life Insurance',
-    form_vehicle_ins: 'Vehicle Insurance',
-    form_tenure: 'Loan Tenure (months)',
-    form_collateral: 'Collateral Available',
-    form_income: 'Monthly Income (₹)',
-    form_loan_amount: 'Loan Amount (₹)',
-    form_education: 'Education Level',
-    form_employment: 'Employment Type',
-    form_credit_score: 'Credit Score',
-    form_existing_loans: 'Existing Loans',
-    form_loan_purpose: 'Loan Purpose',
-    form_co_borrower: 'Co-borrower Category',
-    form_submit: 'Check My Eligibility',
-
-    // Results
-    result_risk: 'Risk',
-    result_bank_fit: 'Bank Fit',
-    result_low: 'Low',
-    result_medium: 'Medium',
-    result_high: 'High',
-    result_good: 'Good',
-    result_moderate: 'Moderate',
-    result_poor: 'Poor',
-    result_approval: 'Approval Probability',
-    result_chance: 'Chance',
-    result_financial_health: 'Financial Health Score',
-    result_dti: 'Debt-to-Income Ratio',
-    result_emi: 'EMI Affordability',
-    result_summary: 'AI Assessment Summary',
-    result_view_banks: 'View Bank Options & Apply',
-    result_analyzing: 'AI is analyzing your financial profile...',
-
-    // Explainable AI
-    xai_title: 'Why This Result?',
-    xai_subtitle: 'Explainable AI — Transparent Decision Breakdown',
-    xai_high: 'High Risk',
-    xai_medium: 'Medium Risk',
-    xai_low: 'Low Risk',
-
-    // What-If
-    whatif_title: 'What-If Simulator',
-    whatif_subtitle: 'AI-powered Financial Planning Tool',
-    whatif_interactive: 'Interactive',
-    whatif_income: 'Monthly Income',
-    whatif_loan: 'Loan Amount',
-    whatif_updated: 'Updated Approval Probability',
-    whatif_if_income: 'If income changes to',
-    whatif_approval_becomes: 'Approval becomes',
-
-    // Roadmap
-    roadmap_title: 'Your AI Financial Companion',
-    roadmap_subtitle: 'Personalized Loan Readiness Roadmap',
-
-    // Banks
-    banks_title: 'Recommended Banks',
-    banks_subtitle: 'AI-matched based on your profile',
-    banks_match: 'Match Score',
-    banks_disclaimer: 'Simulated data for prototype — designed for real-world integration with bank APIs.',
-    banks_apply: 'Apply Now',
-    banks_page_title: 'Apply for Loan',
-    banks_page_subtitle: 'Choose from AI-recommended banks matched to your profile',
-
-    // Document Checklist
-    docs_title: 'Documents You Will Need',
-    docs_subtitle: 'Personalized checklist based on your profile',
-    doc_aadhaar: 'Aadhaar Card',
-    doc_pan: 'PAN Card',
-    doc_bank_stmt: 'Bank Statement (last 6 months)',
-    doc_income_proof: 'Income Proof / Salary Slips',
-    doc_address_proof: 'Address Proof',
-    doc_photo: 'Passport-size Photographs',
-    doc_itr: 'Income Tax Returns (ITR)',
-    doc_business_reg: 'Business Registration Certificate',
-    doc_gst: 'GST Registration',
-    doc_admission: 'Admission Letter / Fee Structure',
-    doc_marksheets: 'Academic Marksheets',
-    doc_land_records: 'Land Ownership Records',
-    doc_crop_details: 'Crop Details / Seasonal Plan',
-    doc_vehicle_quote: 'Vehicle Quotation / Proforma Invoice',
-    doc_property_docs: 'Property Documents / Sale Agreement',
-
-    // Eligibility Gaps
-    gaps_title: "What's Stopping Approval Right Now?",
-    gaps_subtitle: 'Specific gaps identified from your profile',
-    gaps_fix_title: 'What to Fix First',
-    gaps_income_low: 'Income below required threshold for requested loan amount',
-    gaps_emi_high: 'EMI-to-income ratio too high',
-    gaps_credit_low: 'Credit score below minimum acceptable threshold',
-    gaps_existing_high: 'Too many existing loans creating high debt burden',
-    gaps_ratio_high: 'Loan-to-annual-income ratio is too high',
-
-    // Readiness
-    ready_title: 'When Should I Apply Again?',
-    ready_subtitle: 'Responsible AI recommendation to protect your credit score',
-    ready_now: 'You may apply now',
-    ready_now_desc: 'Your profile meets the basic criteria. Applying now is reasonable.',
-    ready_wait_30: 'Wait at least 30 days',
-    ready_wait_60: 'Wait at least 60 days',
-    ready_wait_90: 'Wait at least 90 days',
-    ready_reason_credit: 'Allow time for credit score improvement',
-    ready_reason_emi: 'Reduce existing EMI burden before applying',
-    ready_reason_savings: 'Build savings pattern stability',
-    ready_reason_loans: 'Clear some existing loans first',
-    ready_prevent: 'Applying too frequently can negatively impact your credit score.',
-
-    // Privacy
-    privacy_title: 'Privacy, Ethics & Governance',
-    privacy_subtitle: 'NidhiSaarthi is designed with the highest standards of privacy and ethical AI governance.',
-    privacy_no_bio: 'No Biometric Storage',
-    privacy_no_bio_desc: 'We never collect, store, or process biometric data.',
-    privacy_no_surv: 'No Surveillance',
-    privacy_no_surv_desc: 'No tracking, no profiling, no behavioral surveillance.',
-    privacy_no_dark: 'No Dark Patterns',
-    privacy_no_dark_desc: 'Transparent UI with clear actions.',
-    privacy_explain: 'Explainable Decisions',
-    privacy_explain_desc: 'Every AI decision comes with human-readable explanation.',
-    privacy_consent: 'Consent-Based Data Use',
-    privacy_consent_desc: 'Data processed only with explicit user consent.',
-    privacy_govt: 'Government-Ready Deployment',
-    privacy_govt_desc: 'Designed for sovereign cloud hosting.',
-
-    // Footer
-    footer_desc: 'AI-powered financial inclusion platform designed for transparent governance.',
-    footer_innovation: 'Innovation',
-    footer_innov1: 'Explainable AI for Governance',
-    footer_innov2: 'Voice-first Rural Access',
-    footer_innov3: 'Multilingual NLP Engine',
-    footer_innov4: 'Scalable SaaS Architecture',
-    footer_compliance: 'Compliance',
-    footer_comp1: 'No biometric storage',
-    footer_comp2: 'Consent-based data use',
-    footer_comp3: 'Privacy-first design',
-    footer_comp4: 'Government-ready deployment',
-    footer_prototype: 'AI-powered prototype designed for government deployment.',
-    footer_copyright: '© 2026 NidhiSaarthi · Built for India\'s Financial Inclusion',
-
-    // Login
-    login_title: 'Sign In to NidhiSaarthi',
-    login_citizen: 'Citizen Login',
-    login_admin: 'Admin Login',
-    login_email: 'Email Address',
-    login_password: 'Password',
-    login_signin: 'Sign In',
-    login_citizen_desc: 'Access your loan eligibility reports.',
-    login_admin_desc: 'Access administrative dashboard.',
-
-    // Admin
-    admin_title: 'Admin Dashboard',
-    admin_subtitle: 'Government Loan Advisory Analytics',
-    admin_total: 'Total Applications',
-    admin_approved: 'Approved',
-    admin_rejected: 'Rejected',
-    admin_pending: 'Pending Review',
-    admin_distribution: 'Approval vs Rejection Distribution',
-    admin_language: 'Language Usage Statistics',
-    admin_risk: 'Risk Category Distribution',
-
-    // Chat
-    chat_title: 'AI Financial Advisor',
-    chat_subtitle: 'Ask me anything about loans and finances',
-    chat_placeholder: 'Type your question...',
-    chat_send: 'Send',
-    chat_welcome: 'Hello! I\'m your NidhiSaarthi AI advisor. Ask me about loan eligibility, financial planning, or document requirements.',
-    chat_voice: 'Voice Input',
-  },
-  hi: {
-    nav_home: 'होम',
-    nav_eligibility: 'पात्रता जांचें',
-    nav_privacy: 'गोपनीयता',
-    nav_login: 'लॉगिन',
-    nav_admin: 'एडमिन',
-    nav_logout: 'लॉगआउट',
-    nav_badge: 'सरकारी तैनाती के लिए AI प्रोटोटाइप',
-    nav_chat: 'AI सलाहकार',
-    nav_results: 'परिणाम',
-
-    hero_badge: 'AI-संचालित · सरकार-तैयार',
-    hero_title_1: 'AI के साथ हर नागरिक के लिए',
-    hero_title_highlight: 'वित्तीय पहुंच',
-    hero_title_2: 'सशक्त करना',
-    hero_subtitle: 'ML-संचालित ऋण पात्रता, व्याख्यात्मक AI निर्णय, और व्यक्तिगत वित्तीय रोडमैप।',
-    hero_cta1: 'ऋण पात्रता जांचें',
-    hero_cta2: 'नमूना केस आज़माएं',
-    hero_cta_advice: 'वित्तीय सलाह प्राप्त करें',
-    hero_img_alt: 'AI वित्तीय सेवाएं',
-
-    trust_privacy: 'गोपनीयता-प्रथम',
-    trust_explainable: 'व्याख्यात्मक AI',
-    trust_multilingual: 'बहुभाषी',
-    trust_scalable: 'स्केलेबल',
-    trust_voice: 'वॉइस-फर्स्ट',
-    trust_inclusive: 'समावेशी',
-
-    how_title: 'यह कैसे काम करता है',
-    how_subtitle: 'तीन सरल कदम',
-    how_step1_title: 'विवरण दर्ज करें',
-    how_step1_desc: 'सरल फॉर्म — आय, ऋण राशि, क्रेडिट जानकारी।',
-    how_step2_title: 'AI विश्लेषण',
-    how_step2_desc: 'ML मॉडल अनुमोदन संभावना की भविष्यवाणी करता है।',
-    how_step3_title: 'रोडमैप प्राप्त करें',
-    how_step3_desc: 'व्यक्तिगत सुधार योजना और बैंक सिफारिशें।',
-
-    features_badge: 'नवाचार',
-    features_title: 'निधिसारथी की विशेषताएं',
-    features_subtitle: 'व्याख्यात्मक AI और बहुभाषी पहुंच',
-    feature1_title: 'व्याख्यात्मक AI',
-    feature1_desc: '"मेरा ऋण क्यों अस्वीकार हुआ?" — पारदर्शी निर्णय।',
-    feature1_badge: 'मुख्य नवाचार',
-    feature2_title: 'क्या-अगर सिम्युलेटर',
-    feature2_desc: 'आय बढ़ाएं, ऋण घटाएं — वास्तविक समय में देखें।',
-    feature2_badge: 'अनूठी सुविधा',
-    feature3_title: 'बहुभाषी वॉइस मोड',
-    feature3_desc: 'हिंदी, तमिल, अंग्रेजी — वॉइस इनपुट।',
-    feature3_badge: 'सुगमता',
-
-    samples_title: '🎭 नमूना केस',
-    samples_subtitle: 'विभिन्न नागरिकों के लिए निधिसारथी',
-    samples_try: 'यह केस आज़माएं',
-
-    elig_title: 'AI ऋण पात्रता विश्लेषक',
-    elig_subtitle: 'AI मूल्यांकन के लिए विवरण दर्ज करें',
-    elig_sample_label: 'नमूना केस',
-    elig_form_title: 'वित्तीय विवरण',
-    elig_empty_text: 'फॉर्म भरें और "विश्लेषण" क्लिक करें',
-    elig_result_title: 'AI मूल्यांकन परिणाम',
-
-    form_section_personal: 'व्यक्तिगत विवरण',
-    form_section_employment: 'रोजगार विवरण',
-    form_section_financial: 'वित्तीय स्थिति',
-    form_section_assets: 'संपत्ति और स्वामित्व',
-    form_section_loan: 'ऋण अनुरोध विवरण',
-    form_age: 'आयु',
-    form_gender: 'लिंग',
-    form_marital: 'वैवाहिक स्थिति',
-    form_family: 'परिवार के सदस्य',
-    form_dependents: 'आश्रित परिवार के सदस्य',
-    form_city: 'शहर',
-    form_state: 'राज्य',
-    form_job_type: 'नौकरी का प्रकार',
-    form_employer: 'नियोक्ता/कंपनी',
-    form_experience: 'अनुभव (वर्ष)',
-    form_income_stability: 'आय स्थिरता',
-    form_secondary_income: 'द्वितीय आय स्रोत',
-    form_savings: 'मासिक बचत (₹)',
-    form_expenses: 'मासिक खर्च (₹)',
-    form_bank_balance: 'बैंक बैलेंस (₹)',
-    form_investments: 'निवेश हैं',
-    form_owns_house: 'घर है',
-    form_owns_car: 'कार है',
-    form_car_year: 'कार खरीद वर्ष',
-    form_property_value: 'संपत्ति मूल्य (₹)',
-    form_health_ins: 'स्वास्थ्य बीमा',
-    form_life_ins: 'जीवन बीमा',
-    form_vehicle_ins: 'वाहन बीमा',
-    form_tenure: 'ऋण अवधि (महीने)',
-    form_collateral: 'गिरवी उपलब्ध',
-    form_income: 'मासिक आय (₹)',
-    form_loan_amount: 'ऋण राशि (₹)',
-    form_education: 'शिक्षा स्तर',
-    form_employment: 'रोजगार प्रकार',
-    form_credit_score: 'क्रेडिट स्कोर',
-    form_existing_loans: 'मौजूदा ऋण',
-    form_loan_purpose: 'ऋण का उद्देश्य',
-    form_co_borrower: 'सह-उधारकर्ता श्रेणी',
-    form_submit: 'मेरी पात्रता जांचें',
-
-    result_risk: 'जोखिम',
-    result_bank_fit: 'बैंक फिट',
-    result_low: 'कम',
-    result_medium: 'मध्यम',
-    result_high: 'उच्च',
-    result_good: 'अच्छा',
-    result_moderate: 'मध्यम',
-    result_poor: 'कमज़ोर',
-    result_approval: 'अनुमोदन संभावना',
-    result_chance: 'संभावना',
-    result_financial_health: 'वित्तीय स्वास्थ्य स्कोर',
-    result_dti: 'ऋण-से-आय अनुपात',
-    result_emi: 'EMI वहनीयता',
-    result_summary: 'AI मूल्यांकन सारांश',
-    result_view_banks: 'बैंक विकल्प देखें और आवेदन करें',
-    result_analyzing: 'AI आपकी वित्तीय प्रोफ़ाइल का विश्लेषण कर रहा है...',
-
-    xai_title: 'यह परिणाम क्यों?',
-    xai_subtitle: 'व्याख्यात्मक AI — पारदर्शी निर्णय',
-    xai_high: 'उच्च जोखिम',
-    xai_medium: 'मध्यम जोखिम',
-    xai_low: 'कम जोखिम',
-
-    whatif_title: 'क्या-अगर सिम्युलेटर',
-    whatif_subtitle: 'AI वित्तीय नियोजन',
-    whatif_interactive: 'इंटरैक्टिव',
-    whatif_income: 'मासिक आय',
-    whatif_loan: 'ऋण राशि',
-    whatif_updated: 'अपडेटेड अनुमोदन संभावना',
-    whatif_if_income: 'अगर आय बदलकर',
-    whatif_approval_becomes: 'अनुमोदन होगा',
-
-    roadmap_title: 'AI वित्तीय साथी',
-    roadmap_subtitle: 'व्यक्तिगत ऋण रोडमैप',
-
-    banks_title: 'अनुशंसित बैंक',
-    banks_subtitle: 'AI-मैच',
-    banks_match: 'मैच स्कोर',
-    banks_disclaimer: 'प्रोटोटाइप डेटा।',
-    banks_apply: 'अभी आवेदन करें',
-    banks_page_title: 'ऋण के लिए आवेदन करें',
-    banks_page_subtitle: 'AI-अनुशंसित बैंक',
-
-    docs_title: 'आवश्यक दस्तावेज़',
-    docs_subtitle: 'व्यक्तिगत चेकलिस्ट',
-    doc_aadhaar: 'आधार कार्ड',
-    doc_pan: 'पैन कार्ड',
-    doc_bank_stmt: 'बैंक स्टेटमेंट (6 महीने)',
-    doc_income_proof: 'आय प्रमाण',
-    doc_address_proof: 'पता प्रमाण',
-    doc_photo: 'पासपोर्ट फोटो',
-    doc_itr: 'ITR',
-    doc_business_reg: 'व्यापार पंजीकरण',
-    doc_gst: 'GST पंजीकरण',
-    doc_admission: 'प्रवेश पत्र',
-    doc_marksheets: 'अंकपत्र',
-    doc_land_records: 'भूमि रिकॉर्ड',
-    doc_crop_details: 'फसल विवरण',
-    doc_vehicle_quote: 'वाहन कोटेशन',
-    doc_property_docs: 'संपत्ति दस्तावेज़',
-
-    gaps_title: 'अनुमोदन में बाधा क्या है?',
-    gaps_subtitle: 'प्रोफ़ाइल से पहचाने गए अंतर',
-    gaps_fix_title: 'पहले क्या ठीक करें',
-    gaps_income_low: 'आय अनुशंसित सीमा से कम',
-    gaps_emi_high: 'EMI-से-आय अनुपात अधिक',
-    gaps_credit_low: 'क्रेडिट स्कोर कम',
-    gaps_existing_high: 'अधिक मौजूदा ऋण',
-    gaps_ratio_high: 'ऋण-से-आय अनुपात अधिक',
-
-    ready_title: 'दोबारा कब आवेदन करें?',
-    ready_subtitle: 'क्रेडिट स्कोर सुरक्षा के लिए AI अनुशंसा',
-    ready_now: 'अभी आवेदन करें',
-    ready_now_desc: 'प्रोफ़ाइल मानदंड पूरे करती है।',
-    ready_wait_30: '30 दिन प्रतीक्षा करें',
-    ready_wait_60: '60 दिन प्रतीक्षा करें',
-    ready_wait_90: '90 दिन प्रतीक्षा करें',
-    ready_reason_credit: 'क्रेडिट स्कोर सुधार के लिए समय',
-    ready_reason_emi: 'EMI बोझ कम करें',
-    ready_reason_savings: 'बचत स्थिरता बनाएं',
-    ready_reason_loans: 'मौजूदा ऋण चुकाएं',
-    ready_prevent: 'बार-बार आवेदन से क्रेडिट स्कोर प्रभावित होता है।',
-
-    privacy_title: 'गोपनीयता और नैतिकता',
-    privacy_subtitle: 'उच्चतम गोपनीयता मानक।',
-    privacy_no_bio: 'कोई बायोमेट्रिक नहीं',
-    privacy_no_bio_desc: 'बायोमेट्रिक डेटा एकत्र नहीं करते।',
-    privacy_no_surv: 'कोई निगरानी नहीं',
-    privacy_no_surv_desc: 'कोई ट्रैकिंग नहीं।',
-    privacy_no_dark: 'कोई डार्क पैटर्न नहीं',
-    privacy_no_dark_desc: 'पारदर्शी UI।',
-    privacy_explain: 'व्याख्यात्मक निर्णय',
-    privacy_explain_desc: 'हर निर्णय की व्याख्या।',
-    privacy_consent: 'सहमति-आधारित',
-    privacy_consent_desc: 'सहमति से डेटा उपयोग।',
-    privacy_govt: 'सरकार-तैयार',
-    privacy_govt_desc: 'संप्रभु क्लाउड होस्टिंग।',
-
-    footer_desc: 'पारदर्शी शासन के लिए AI मंच।',
-    footer_innovation: 'नवाचार',
-    footer_innov1: 'व्याख्यात्मक AI',
-    footer_innov2: 'वॉइस-फर्स्ट',
-    footer_innov3: 'बहुभाषी NLP',
-    footer_innov4: 'स्केलेबल SaaS',
-    footer_compliance: 'अनुपालन',
-    footer_comp1: 'कोई बायोमेट्रिक नहीं',
-    footer_comp2: 'सहमति-आधारित',
-    footer_comp3: 'गोपनीयता-प्रथम',
-    footer_comp4: 'सरकार-तैयार',
-    footer_prototype: 'सरकारी तैनाती के लिए AI प्रोटोटाइप।',
-    footer_copyright: '© 2026 निधिसारथी',
-
-    login_title: 'साइन इन करें',
-    login_citizen: 'नागरिक लॉगिन',
-    login_admin: 'एडमिन लॉगिन',
-    login_email: 'ईमेल',
-    login_password: 'पासवर्ड',
-    login_signin: 'साइन इन',
-    login_citizen_desc: 'ऋण पात्रता रिपोर्ट।',
-    login_admin_desc: 'एडमिन डैशबोर्ड।',
-
-    admin_title: 'एडमिन डैशबोर्ड',
-    admin_subtitle: 'ऋण सलाहकार विश्लेषिकी',
-    admin_total: 'कुल आवेदन',
-    admin_approved: 'स्वीकृत',
-    admin_rejected: 'अस्वीकृत',
-    admin_pending: 'समीक्षाधीन',
-    admin_distribution: 'स्वीकृति बनाम अस्वीकृति',
-    admin_language: 'भाषा सांख्यिकी',
-    admin_risk: 'जोखिम वितरण',
-
-    chat_title: 'AI वित्तीय सलाहकार',
-    chat_subtitle: 'ऋण और वित्त के बारे में पूछें',
-    chat_placeholder: 'अपना प्रश्न लिखें...',
-    chat_send: 'भेजें',
-    chat_welcome: 'नमस्ते! मैं निधिसारथी AI सलाहकार हूं। ऋण पात्रता या वित्तीय योजना के बारे में पूछें।',
-    chat_voice: 'वॉइस इनपुट',
-  },
-  ta: {
-    nav_home: 'முகப்பு',
-    nav_eligibility: 'தகுதி சரிபார்',
-    nav_privacy: 'தனியுரிமை',
-    nav_login: 'உள்நுழைய',
-    nav_admin: 'நிர்வாகி',
-    nav_logout: 'வெளியேறு',
-    nav_badge: 'அரசு பயன்பாட்டிற்கான AI முன்மாதிரி',
-    nav_chat: 'AI ஆலோசகர்',
-    nav_results: 'முடிவுகள்',
-
-    hero_badge: 'AI-இயங்கும் · அரசு-தயார்',
-    hero_title_1: 'AI மூலம் ஒவ்வொரு குடிமகனுக்கும்',
-    hero_title_highlight: 'நிதி அணுகல்',
-    hero_title_2: 'வலுப்படுத்துதல்',
-    hero_subtitle: 'ML கடன் தகுதி கணிப்பு, விளக்கக்கூடிய AI முடிவுகள்.',
-    hero_cta1: 'கடன் தகுதி சரிபார்',
-    hero_cta2: 'மாதிரி வழக்கு',
-    hero_cta_advice: 'நிதி ஆலோசனை பெறுங்கள்',
-    hero_img_alt: 'AI நிதி சேவைகள்',
-
-    trust_privacy: 'தனியுரிமை-முதல்',
-    trust_explainable: 'விளக்கக்கூடிய AI',
-    trust_multilingual: 'பன்மொழி',
-    trust_scalable: 'அளவிடக்கூடிய',
-    trust_voice: 'குரல்-முதல்',
-    trust_inclusive: 'உள்ளடக்கிய',
-
-    how_title: 'எப்படி வேலை செய்கிறது',
-    how_subtitle: 'மூன்று எளிய படிகள்',
-    how_step1_title: 'விவரங்கள் உள்ளிடவும்',
-    how_step1_desc: 'எளிய படிவம் — வருமானம், கடன் தொகை.',
-    how_step2_title: 'AI பகுப்பாய்வு',
-    how_step2_desc: 'ML மாதிரி ஒப்புதல் நிகழ்தகவை கணிக்கிறது.',
-    how_step3_title: 'வழிகாட்டி பெறுங்கள்',
-    how_step3_desc: 'தனிப்பயன் மேம்பாட்டு திட்டம்.',
-
-    features_badge: 'புதுமை',
-    features_title: 'நிதிசாரதி வேறுபாடுகள்',
-    features_subtitle: 'விளக்கக்கூடிய AI மற்றும் பன்மொழி',
-    feature1_title: 'விளக்கக்கூடிய AI',
-    feature1_desc: '"ஏன் நிராகரிக்கப்பட்டது?" — வெளிப்படையான முடிவுகள்.',
-    feature1_badge: 'முக்கிய புதுமை',
-    feature2_title: 'என்ன-ஆனால் உருவகப்படுத்தி',
-    feature2_desc: 'வருமானம் அதிகரிக்கவும், நிகழ்நேரத்தில் பாருங்கள்.',
-    feature2_badge: 'தனித்துவம்',
-    feature3_title: 'பன்மொழி குரல்',
-    feature3_desc: 'தமிழ், இந்தி, ஆங்கிலம் — குரல் உள்ளீடு.',
-    feature3_badge: 'அணுகல்திறன்',
-
-    samples_title: '🎭 மாதிரி வழக்கு',
-    samples_subtitle: 'நிதிசாரதி எப்படி வேலை செய்கிறது',
-    samples_try: 'முயற்சிக்கவும்',
-
-    elig_title: 'AI கடன் தகுதி பகுப்பாய்வி',
-    elig_subtitle: 'AI மதிப்பீட்டிற்கு விவரங்கள் உள்ளிடவும்',
-    elig_sample_label: 'மாதிரி வழக்கு',
-    elig_form_title: 'நிதி விவரங்கள்',
-    elig_empty_text: 'படிவம் நிரப்பி "பகுப்பாய்வு" கிளிக் செய்யவும்',
-    elig_result_title: 'AI மதிப்பீட்டு முடிவு',
-
-    form_section_personal: 'தனிப்பட்ட விவரங்கள்',
-    form_section_employment: 'வேலைவாய்ப்பு விவரங்கள்',
-    form_section_financial: 'நிதி நிலை',
-    form_section_assets: 'சொத்துக்கள்',
-    form_section_loan: 'கடன் விவரங்கள்',
-    form_age: 'வயது',
-    form_gender: 'பாலினம்',
-    form_marital: 'திருமண நிலை',
-    form_family: 'குடும்ப உறுப்பினர்கள்',
-    form_dependents: 'சார்ந்த குடும்ப உறுப்பினர்கள்',
-    form_city: 'நகரம்',
-    form_state: 'மாநிலம்',
-    form_job_type: 'வேலை வகை',
-    form_employer: 'நிறுவனம்',
-    form_experience: 'அனுபவம் (ஆண்டுகள்)',
-    form_income_stability: 'வருமான நிலைத்தன்மை',
-    form_secondary_income: 'இரண்டாம் வருமானம்',
-    form_savings: 'மாத சேமிப்பு (₹)',
-    form_expenses: 'மாத செலவு (₹)',
-    form_bank_balance: 'வங்கி இருப்பு (₹)',
-    form_investments: 'முதலீடுகள்',
-    form_owns_house: 'வீடு உள்ளது',
-    form_owns_car: 'கார் உள்ளது',
-    form_car_year: 'கார் ஆண்டு',
-    form_property_value: 'சொத்து மதிப்பு (₹)',
-    form_health_ins: 'சுகாதார காப்பீடு',
-    form_life_ins: 'ஆயுள் காப்பீடு',
-    form_vehicle_ins: 'வாகன காப்பீடு',
-    form_tenure: 'கடன் காலம் (மாதங்கள்)',
-    form_collateral: 'உத்தரவாதம்',
-    form_income: 'மாத வருமானம் (₹)',
-    form_loan_amount: 'கடன் தொகை (₹)',
-    form_education: 'கல்வி நிலை',
-    form_employment: 'வேலை வகை',
-    form_credit_score: 'கிரெடிட் ஸ்கோர்',
-    form_existing_loans: 'இருக்கும் கடன்கள்',
-    form_loan_purpose: 'கடன் நோக்கம்',
-    form_co_borrower: 'இணை கடனாளி வகை',
-    form_submit: 'தகுதியை சரிபார்',
-
-    result_risk: 'ஆபத்து',
-    result_bank_fit: 'வங்கி பொருத்தம்',
-    result_low: 'குறைவு',
-    result_medium: 'நடுத்தரம்',
-    result_high: 'அதிகம்',
-    result_good: 'நல்ல',
-    result_moderate: 'மிதமான',
-    result_poor: 'மோசமான',
-    result_approval: 'ஒப்புதல் நிகழ்தகவு',
-    result_chance: 'வாய்ப்பு',
-    result_financial_health: 'நிதி ஆரோக்கிய மதிப்பெண்',
-    result_dti: 'கடன்-வருமான விகிதம்',
-    result_emi: 'EMI வசதி',
-    result_summary: 'AI மதிப்பீட்டு சுருக்கம்',
-    result_view_banks: 'வங்கி விருப்பங்கள் & விண்ணப்பிக்கவும்',
-    result_analyzing: 'AI உங்கள் நிதி சுயவிவரத்தை பகுப்பாய்வு செய்கிறது...',
-
-    xai_title: 'ஏன் இந்த முடிவு?',
-    xai_subtitle: 'விளக்கக்கூடிய AI — வெளிப்படையான பகுப்பாய்வு',
-    xai_high: 'அதிக ஆபத்து',
-    xai_medium: 'நடுத்தர ஆபத்து',
-    xai_low: 'குறைந்த ஆபத்து',
-
-    whatif_title: 'என்ன-ஆனால் உருவகப்படுத்தி',
-    whatif_subtitle: 'AI நிதி திட்டமிடல்',
-    whatif_interactive: 'ஊடாடும்',
-    whatif_income: 'மாத வருமானம்',
-    whatif_loan: 'கடன் தொகை',
-    whatif_updated: 'புதுப்பிக்கப்பட்ட ஒப்புதல்',
-    whatif_if_income: 'வருமானம் மாறினால்',
-    whatif_approval_becomes: 'ஒப்புதல் ஆகிறது',
-
-    roadmap_title: 'AI நிதி துணைவர்',
-    roadmap_subtitle: 'தனிப்பயன் கடன் வழிகாட்டி',
-
-    banks_title: 'பரிந்துரை வங்கிகள்',
-    banks_subtitle: 'AI-பொருத்தம்',
-    banks_match: 'பொருத்த மதிப்பெண்',
-    banks_disclaimer: 'முன்மாதிரி தரவு.',
-    banks_apply: 'இப்போது விண்ணப்பிக்கவும்',
-    banks_page_title: 'கடனுக்கு விண்ணப்பிக்கவும்',
-    banks_page_subtitle: 'AI-பரிந்துரை வங்கிகள்',
-
-    docs_title: 'தேவையான ஆவணங்கள்',
-    docs_subtitle: 'தனிப்பயன் பட்டியல்',
-    doc_aadhaar: 'ஆதார் அட்டை',
-    doc_pan: 'PAN அட்டை',
-    doc_bank_stmt: 'வங்கி அறிக்கை (6 மாதம்)',
-    doc_income_proof: 'வருமான சான்று',
-    doc_address_proof: 'முகவரி சான்று',
-    doc_photo: 'புகைப்படங்கள்',
-    doc_itr: 'ITR',
-    doc_business_reg: 'வணிக பதிவு',
-    doc_gst: 'GST பதிவு',
-    doc_admission: 'சேர்க்கை கடிதம்',
-    doc_marksheets: 'மதிப்பெண் அட்டை',
-    doc_land_records: 'நில பதிவுகள்',
-    doc_crop_details: 'பயிர் விவரங்கள்',
-    doc_vehicle_quote: 'வாகன மேற்கோள்',
-    doc_property_docs: 'சொத்து ஆவணங்கள்',
-
-    gaps_title: 'ஒப்புதலை தடுப்பது என்ன?',
-    gaps_subtitle: 'சுயவிவர இடைவெளிகள்',
-    gaps_fix_title: 'முதலில் என்ன சரிசெய்ய',
-    gaps_income_low: 'வருமானம் குறைவு',
-    gaps_emi_high: 'EMI விகிதம் அதிகம்',
-    gaps_credit_low: 'கிரெடிட் ஸ்கோர் குறைவு',
-    gaps_existing_high: 'அதிக கடன்கள்',
-    gaps_ratio_high: 'கடன்-வருமான விகிதம் அதிகம்',
-
-    ready_title: 'மீண்டும் எப்போது விண்ணப்பிக்கலாம்?',
-    ready_subtitle: 'கிரெடிட் ஸ்கோர் பாதுகாப்பு AI பரிந்துரை',
-    ready_now: 'இப்போது விண்ணப்பிக்கலாம்',
-    ready_now_desc: 'சுயவிவரம் அடிப்படை தகுதிகளை பூர்த்தி செய்கிறது.',
-    ready_wait_30: '30 நாட்கள் காத்திருக்கவும்',
-    ready_wait_60: '60 நாட்கள் காத்திருக்கவும்',
-    ready_wait_90: '90 நாட்கள் காத்திருக்கவும்',
-    ready_reason_credit: 'கிரெடிட் ஸ்கோர் மேம்பாட்டிற்கு நேரம்',
-    ready_reason_emi: 'EMI சுமையை குறைக்கவும்',
-    ready_reason_savings: 'சேமிப்பு நிலைத்தன்மை',
-    ready_reason_loans: 'கடன்களை அடைக்கவும்',
-    ready_prevent: 'அடிக்கடி விண்ணப்பிப்பது கிரெடிட் ஸ்கோரை பாதிக்கும்.',
-
-    privacy_title: 'தனியுரிமை & நெறிமுறைகள்',
-    privacy_subtitle: 'உயர்ந்த தனியுரிமை தரநிலைகள்.',
-    privacy_no_bio: 'பயோமெட்ரிக் இல்லை',
-    privacy_no_bio_desc: 'பயோமெட்ரிக் தரவு சேகரிக்கப்படாது.',
-    privacy_no_surv: 'கண்காணிப்பு இல்லை',
-    privacy_no_surv_desc: 'கண்காணிப்பு இல்லை.',
-    privacy_no_dark: 'டார்க் பேட்டர்ன் இல்லை',
-    privacy_no_dark_desc: 'வெளிப்படையான UI.',
-    privacy_explain: 'விளக்கக்கூடிய முடிவுகள்',
-    privacy_explain_desc: 'ஒவ்வொரு முடிவுக்கும் விளக்கம்.',
-    privacy_consent: 'சம்மதம்-அடிப்படை',
-    privacy_consent_desc: 'சம்மதத்துடன் தரவு பயன்பாடு.',
-    privacy_govt: 'அரசு-தயார்',
-    privacy_govt_desc: 'இறையாண்மை கிளவுட் ஹோஸ்டிங்.',
-
-    footer_desc: 'வெளிப்படையான ஆட்சிக்கான AI மேடை.',
-    footer_innovation: 'புதுமை',
-    footer_innov1: 'விளக்கக்கூடிய AI',
-    footer_innov2: 'குரல்-முதல்',
-    footer_innov3: 'பன்மொழி NLP',
-    footer_innov4: 'அளவிடக்கூடிய SaaS',
-    footer_compliance: 'இணக்கம்',
-    footer_comp1: 'பயோமெட்ரிக் இல்லை',
-    footer_comp2: 'சம்மதம்-அடிப்படை',
-    footer_comp3: 'தனியுரிமை-முதல்',
-    footer_comp4: 'அரசு-தயார்',
-    footer_prototype: 'அரசு பயன்பாட்டிற்கான AI முன்மாதிரி.',
-    footer_copyright: '© 2026 நிதிசாரதி',
-
-    login_title: 'உள்நுழையவும்',
-    login_citizen: 'குடிமகன் உள்நுழைவு',
-    login_admin: 'நிர்வாகி உள்நுழைவு',
-    login_email: 'மின்னஞ்சல்',
-    login_password: 'கடவுச்சொல்',
-    login_signin: 'உள்நுழை',
-    login_citizen_desc: 'கடன் தகுதி அறிக்கைகள்.',
-    login_admin_desc: 'நிர்வாக டாஷ்போர்டு.',
-
-    admin_title: 'நிர்வாக டாஷ்போர்டு',
-    admin_subtitle: 'கடன் ஆலோசனை பகுப்பாய்வு',
-    admin_total: 'மொத்த விண்ணப்பங்கள்',
-    admin_approved: 'ஒப்புதல்',
-    admin_rejected: 'நிராகரிப்பு',
-    admin_pending: 'நிலுவையில்',
-    admin_distribution: 'ஒப்புதல் vs நிராகரிப்பு',
-    admin_language: 'மொழி புள்ளிவிவரங்கள்',
-    admin_risk: 'ஆபத்து வகை விநியோகம்',
-
-    chat_title: 'AI நிதி ஆலோசகர்',
-    chat_subtitle: 'கடன் மற்றும் நிதி பற்றி கேளுங்கள்',
-    chat_placeholder: 'உங்கள் கேள்வியை எழுதுங்கள்...',
-    chat_send: 'அனுப்பு',
-    chat_welcome: 'வணக்கம்! நான் நிதிசாரதி AI ஆலோசகர். கடன் தகுதி அல்லது நிதி திட்டமிடல் பற்றி கேளுங்கள்.',
-    chat_voice: 'குரல் உள்ளீடு',
-  },
-} as const;
-
-export type TranslationKey = keyof typeof translations['en'];
+/**
+ * UI strings, one JSON bundle per language in ./locales.
+ *
+ * English is bundled with the app and is the fallback for any missing key;
+ * other languages are fetched the first time they are selected. Strings may
+ * use {{name}} placeholders and plural variants (`key_one`, `key_other`, ...)
+ * chosen by the language's Intl plural rules when a `count` is passed.
+ */
+
+import en from './locales/en.json';
+import { DEFAULT_LANGUAGE, type Language } from './languages';
+
+export type { Language } from './languages';
+
+export type TranslationBundle = Readonly<Record<string, string>>;
+
+const PLURAL_CATEGORIES = ['zero', 'one', 'two', 'few', 'many', 'other'] as const;
+type PluralCategory = (typeof PLURAL_CATEGORIES)[number];
+
+type BundleKey = keyof typeof en;
+/** "goal_summary" for a bundle that has goal_summary_one / goal_summary_other */
+type PluralBase<K> = K extends `${infer Base}_${PluralCategory}` ? Base : never;
+export type TranslationKey = BundleKey | PluralBase<BundleKey>;
+
+export type TranslationParams = Record<string, string | number>;
+
+export const fallbackBundle: TranslationBundle = en;
+
+const loaders = import.meta.glob<TranslationBundle>(['./locales/*.json', '!./locales/en.json'], { import: 'default' });
+const cache = new Map<Language, Promise<TranslationBundle>>([[DEFAULT_LANGUAGE, Promise.resolve(fallbackBundle)]]);
+
+/** The bundle for `language`; loaded once, then cached. Rejects if the file is missing. */
+export function loadBundle(language: Language): Promise<TranslationBundle> {
+  let bundle = cache.get(language);
+  if (!bundle) {
+    const load = loaders[`./locales/${language}.json`];
+    bundle = load ? load() : Promise.reject(new Error(`No translation bundle for "${language}"`));
+    bundle.catch(() => cache.delete(language));
+    cache.set(language, bundle);
+  }
+  return bundle;
+}
+
+/** Plural categories `language` distinguishes, e.g. ['one', 'other'] */
+export function pluralCategories(language: Language): PluralCategory[] {
+  return new Intl.PluralRules(language).resolvedOptions().pluralCategories as PluralCategory[];
+}
+
+function lookup(bundle: TranslationBundle, language: Language, key: string, count: number | undefined): string | undefined {
+  if (count === undefined) return bundle[key];
+  const category = new Intl.PluralRules(language).select(count);
+  return bundle[`${key}_${category}`] ?? bundle[`${key}_other`] ?? bundle[key];
+}
+
+/**
+ * Translate `key` from `bundle`, falling back to English and then the key
+ * itself. A numeric `count` param selects the plural variant.
+ */
+export function translate(
+  language: Language,
+  bundle: TranslationBundle,
+  key: TranslationKey,
+  params?: TranslationParams,
+): string {
+  const count = typeof params?.count === 'number' ? params.count : undefined;
+  const text = lookup(bundle, language, key, count) ?? lookup(fallbackBundle, DEFAULT_LANGUAGE, key, count) ?? key;
+  if (!params) return text;
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match,
+  );
+}
@@ -28,6 +28,7 @@ export type Database = {
           recommended_banks: Json | null
           risk_category: string | null
           roadmap: Json | null
+          user_id: string | null
         }
         Insert: {
           ai_explanation?: Json | null
@@ -42,6 +43,7 @@ export type Database = {
           recommended_banks?: Json | null
           risk_category?: string | null
           roadmap?: Json | null
+          user_id?: string | null
         }
         Update: {
           ai_explanation?: Json | null
@@ -56,6 +58,7 @@ export type Database = {
           recommended_banks?: Json | null
           risk_category?: string | null
           roadmap?: Json | null
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -74,6 +77,7 @@ export type Database = {
           id: string
           role: string
           session_id: string
+          user_id: string | null
         }
         Insert: {
           content: string
@@ -81,6 +85,7 @@ export type Database = {
           id?: string
           role: string
           session_id: string
+          user_id?: string | null
         }
         Update: {
           content?: string
@@ -88,6 +93,106 @@ export type Database = {
           id?: string
           role?: string
           session_id?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      chat_sessions: {
+        Row: {
+          collected_data: Json
+          context: Json
+          created_at: string
+          id: string
+          language: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          collected_data?: Json
+          context?: Json
+          created_at?: string
+          id?: string
+          language?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          collected_data?: Json
+          context?: Json
+          created_at?: string
+          id?: string
+          language?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      lender_products: {
+        Row: {
+          apply_url: string | null
+          features: string[]
+          id: string
+          is_active: boolean
+          job_types: string[]
+          lender_name: string
+          lender_type: string
+          loan_purposes: string[]
+          logo_url: string | null
+          max_lti: number
+          max_tenure_months: number
+          min_credit_score: number
+          min_income: number
+          processing_fee_max: number | null
+          processing_fee_min: number
+          processing_fee_percent: number
+          product_name: string
+          rate_bands: Json
+          updated_at: string
+        }
+        Insert: {
+          apply_url?: string | null
+          features?: string[]
+          id: string
+          is_active?: boolean
+          job_types?: string[]
+          lender_name: string
+          lender_type?: string
+          loan_purposes?: string[]
+          logo_url?: string | null
+          max_lti?: number
+          max_tenure_months?: number
+          min_credit_score?: number
+          min_income?: number
+          processing_fee_max?: number | null
+          processing_fee_min?: number
+          processing_fee_percent?: number
+          product_name: string
+          rate_bands?: Json
+          updated_at?: string
+        }
+        Update: {
+          apply_url?: string | null
+          features?: string[]
+          id?: string
+          is_active?: boolean
+          job_types?: string[]
+          lender_name?: string
+          lender_type?: string
+          loan_purposes?: string[]
+          logo_url?: string | null
+          max_lti?: number
+          max_tenure_months?: number
+          min_credit_score?: number
+          min_income?: number
+          processing_fee_max?: number | null
+          processing_fee_min?: number
+          processing_fee_percent?: number
+          product_name?: string
+          rate_bands?: Json
+          updated_at?: string
         }
         Relationships: []
       }
@@ -96,6 +201,7 @@ export type Database = {
           age: number | null
           bank_balance: number | null
           car_year: number | null
+          co_applicants: Json
           created_at: string
           credit_score: number | null
           dependent_children: number | null
@@ -103,6 +209,7 @@ export type Database = {
           employer_name: string | null
           existing_loans: number | null
           family_members: number | null
+          form_data: Json | null
           gender: string | null
           has_collateral: boolean | null
           has_health_insurance: boolean | null
@@ -113,6 +220,7 @@ export type Database = {
           income_stability: string | null
           job_type: string | null
           language: string | null
+          liabilities: Json
           loan_amount: number | null
           loan_purpose: string | null
           loan_tenure: number | null
@@ -127,12 +235,14 @@ export type Database = {
           secondary_income: boolean | null
           session_id: string
           total_monthly_expenses: number | null
+          user_id: string | null
           years_experience: number | null
         }
         Insert: {
           age?: number | null
           bank_balance?: number | null
           car_year?: number | null
+          co_applicants?: Json
           created_at?: string
           credit_score?: number | null
           dependent_children?: number | null
@@ -140,6 +250,7 @@ export type Database = {
           employer_name?: string | null
           existing_loans?: number | null
           family_members?: number | null
+          form_data?: Json | null
           gender?: string | null
           has_collateral?: boolean | null
           has_health_insurance?: boolean | null
@@ -150,6 +261,7 @@ export type Database = {
           income_stability?: string | null
           job_type?: string | null
           language?: string | null
+          liabilities?: Json
           loan_amount?: number | null
           loan_purpose?: string | null
           loan_tenure?: number | null
@@ -164,12 +276,14 @@ export type Database = {
           secondary_income?: boolean | null
           session_id: string
           total_monthly_expenses?: number | null
+          user_id?: string | null
           years_experience?: number | null
         }
         Update: {
           age?: number | null
           bank_balance?: number | null
           car_year?: number | null
+          co_applicants?: Json
           created_at?: string
           credit_score?: number | null
           dependent_children?: number | null
@@ -177,6 +291,7 @@ export type Database = {
           employer_name?: string | null
           existing_loans?: number | null
           family_members?: number | null
+          form_data?: Json | null
           gender?: string | null
           has_collateral?: boolean | null
           has_health_insurance?: boolean | null
@@ -187,6 +302,7 @@ export type Database = {
           income_stability?: string | null
           job_type?: string | null
           language?: string | null
+          liabilities?: Json
           loan_amount?: number | null
           loan_purpose?: string | null
           loan_tenure?: number | null
@@ -201,16 +317,79 @@ export type Database = {
           secondary_income?: boolean | null
           session_id?: string
           total_monthly_expenses?: number | null
+          user_id?: string | null
           years_experience?: number | null
         }
         Relationships: []
       }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          preferred_language: string | null
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id: string
+          preferred_language?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          preferred_language?: string | null
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
-      [_ in never]: never
+      application_analytics: {
+        Row: {
+          application_id: string | null
+          approval_probability: number | null
+          created_at: string | null
+          created_on: string | null
+          credit_score: number | null
+          job_type: string | null
+          language: string | null
+          loan_amount: number | null
+          loan_purpose: string | null
+          location_state: string | null
+          monthly_income: number | null
+          outcome: string | null
+          risk_category: string | null
+          user_id: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      admin_application_stats: {
+        Args: {
+          p_from?: string
+          p_job_type?: string
+          p_language?: string
+          p_purpose?: string
+          p_state?: string
+          p_to?: string
+        }
+        Returns: Json
+      }
+      is_admin: {
+        Args: { _user_id?: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,184 @@
+/**
+ * Admin Analytics - live aggregates over stored applications for the admin dashboard
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type AnalyticsClient = Pick<SupabaseClient<Database>, 'rpc' | 'from'>;
+
+export type ApplicationRow = Database['public']['Views']['application_analytics']['Row'];
+
+export interface AnalyticsFilters {
+  /** Inclusive ISO dates (yyyy-mm-dd) */
+  from?: string;
+  to?: string;
+  state?: string;
+  purpose?: string;
+  jobType?: string;
+  language?: string;
+}
+
+/** Columns of `application_analytics` a chart slice can drill into */
+export type AnalyticsDimension = 'outcome' | 'risk_category' | 'language' | 'location_state' | 'loan_purpose' | 'job_type';
+
+export interface DrillDown {
+  dimension: AnalyticsDimension;
+  value: string;
+}
+
+export type Outcome = 'Approved' | 'Rejected' | 'Pending';
+
+export interface ApplicationStats {
+  total: number;
+  avgProbability: number | null;
+  byOutcome: Record<Outcome, number>;
+  byRisk: Record<string, number>;
+  byLanguage: Record<string, number>;
+  byState: Record<string, number>;
+  byPurpose: Record<string, number>;
+  byJobType: Record<string, number>;
+  daily: { date: string; total: number; approved: number }[];
+}
+
+export interface ChartSlice {
+  key: string;
+  value: number;
+  share: number;
+}
+
+/** Placeholders the SQL uses for missing values; drill-down maps them back to IS NULL */
+const NULL_BUCKETS = new Set(['Unknown', 'Unscored']);
+
+export const OUTCOMES: Outcome[] = ['Approved', 'Rejected', 'Pending'];
+
+export const EMPTY_STATS: ApplicationStats = {
+  total: 0,
+  avgProbability: null,
+  byOutcome: { Approved: 0, Rejected: 0, Pending: 0 },
+  byRisk: {},
+  byLanguage: {},
+  byState: {},
+  byPurpose: {},
+  byJobType: {},
+  daily: [],
+};
+
+const DRILL_DOWN_LIMIT = 100;
+
+/**
+ * Map UI filters to `admin_application_stats` arguments, leaving out unset ones
+ * so the SQL defaults (no filter) apply.
+ */
+export function toStatsParams(filters: AnalyticsFilters): Database['public']['Functions']['admin_application_stats']['Args'] {
+  const params: Record<string, string> = {};
+  if (filters.from) params.p_from = filters.from;
+  if (filters.to) params.p_to = filters.to;
+  if (filters.state) params.p_state = filters.state;
+  if (filters.purpose) params.p_purpose = filters.purpose;
+  if (filters.jobType) params.p_job_type = filters.jobType;
+  if (filters.language) params.p_language = filters.language;
+  return params;
+}
+
+const counts = (value: unknown): Record<string, number> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, Number(v) || 0])
+  );
+};
+
+/** Normalise the RPC's JSON payload, filling in buckets with no rows */
+export function parseApplicationStats(raw: unknown): ApplicationStats {
+  if (!raw || typeof raw !== 'object') return EMPTY_STATS;
+  const r = raw as Record<string, unknown>;
+  const outcome = counts(r.by_outcome);
+  return {
+    total: Number(r.total) || 0,
+    avgProbability: r.avg_probability == null ? null : Number(r.avg_probability),
+    byOutcome: { Approved: outcome.Approved ?? 0, Rejected: outcome.Rejected ?? 0, Pending: outcome.Pending ?? 0 },
+    byRisk: counts(r.by_risk),
+    byLanguage: counts(r.by_language),
+    byState: counts(r.by_state),
+    byPurpose: counts(r.by_purpose),
+    byJobType: counts(r.by_job_type),
+    daily: Array.isArray(r.daily)
+      ? (r.daily as Record<string, unknown>[]).map((d) => ({
+          date: String(d.date),
+          total: Number(d.total) || 0,
+          approved: Number(d.approved) || 0,
+        }))
+      : [],
+  };
+}
+
+/**
+ * Turn a count map into chart slices. Keys in `order` come first (zeros kept so
+ * colours stay stable); the rest follow by descending count.
+ */
+export function toChartSlices(map: Record<string, number>, order: string[] = []): ChartSlice[] {
+  const total = Object.values(map).reduce((sum, n) => sum + n, 0);
+  const rest = Object.keys(map)
+    .filter((k) => !order.includes(k))
+    .sort((a, b) => map[b] - map[a] || a.localeCompare(b));
+  return [...order, ...rest].map((key) => {
+    const value = map[key] ?? 0;
+    return { key, value, share: total > 0 ? Math.round((value / total) * 1000) / 10 : 0 };
+  });
+}
+
+export async function fetchApplicationStats(
+  filters: AnalyticsFilters,
+  client: AnalyticsClient = supabase
+): Promise<ApplicationStats> {
+  const { data, error } = await client.rpc('admin_application_stats', toStatsParams(filters));
+  if (error) throw error;
+  return parseApplicationStats(data);
+}
+
+/** Applications behind one chart slice, newest first */
+export async function fetchApplicationList(
+  filters: AnalyticsFilters,
+  drillDown: DrillDown,
+  client: AnalyticsClient = supabase
+): Promise<ApplicationRow[]> {
+  let query = client
+    .from('application_analytics')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(DRILL_DOWN_LIMIT);
+
+  if (filters.from) query = query.gte('created_on', filters.from);
+  if (filters.to) query = query.lte('created_on', filters.to);
+  if (filters.state) query = query.eq('location_state', filters.state);
+  if (filters.purpose) query = query.eq('loan_purpose', filters.purpose);
+  if (filters.jobType) query = query.eq('job_type', filters.jobType);
+  if (filters.language) query = query.eq('language', filters.language);
+
+  query = NULL_BUCKETS.has(drillDown.value) && drillDown.dimension !== 'outcome'
+    ? query.is(drillDown.dimension, null)
+    : query.eq(drillDown.dimension, drillDown.value);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data ?? [];
+}
+
+export function useApplicationStats(filters: AnalyticsFilters, enabled = true) {
+  return useQuery({
+    queryKey: ['admin-analytics', 'stats', filters],
+    queryFn: () => fetchApplicationStats(filters),
+    enabled,
+    staleTime: 60_000,
+  });
+}
+
+export function useApplicationList(filters: AnalyticsFilters, drillDown: DrillDown | null) {
+  return useQuery({
+    queryKey: ['admin-analytics', 'list', filters, drillDown],
+    queryFn: () => fetchApplicationList(filters, drillDown!),
+    enabled: !!drillDown,
+  });
+}
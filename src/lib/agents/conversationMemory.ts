@@ -15,6 +15,13 @@ interface ConversationMessage {
   };
 }
 
+/** Everything needed to resume a conversation elsewhere */
+export interface ConversationState {
+  messages: ConversationMessage[];
+  collectedData: Partial<LoanFormData>;
+  context: Record<string, unknown>;
+}
+
 export class ConversationMemory {
   private messages: ConversationMessage[] = [];
   private collectedData: Partial<LoanFormData> = {};
@@ -134,6 +141,27 @@ export class ConversationMemory {
     sessionStorage.removeItem(`conversationMemory_${this.sessionId}`);
   }
 
+  /**
+   * Snapshot of messages, collected slots and flow state
+   */
+  exportState(): ConversationState {
+    return {
+      messages: this.getMessages(),
+      collectedData: this.getCollectedData(),
+      context: Object.fromEntries(this.conversationContext),
+    };
+  }
+
+  /**
+   * Replace the current conversation with a saved one
+   */
+  restore(state: Partial<ConversationState>): void {
+    this.messages = state.messages ?? [];
+    this.collectedData = state.collectedData ?? {};
+    this.conversationContext = new Map(Object.entries(state.context ?? {}));
+    this.saveToSessionStorage();
+  }
+
   /**
    * Save to session storage
    */
@@ -4,6 +4,8 @@
  */
 
 import type { LoanFormData } from '@/types/loan';
+import type { LocalReplyLanguage } from '@/i18n/languages';
+import { normalizeIndicText } from './indicText';
 
 interface ExtractionResult {
   extracted: Partial<LoanFormData>;
@@ -19,11 +21,13 @@ interface ExtractionResult {
  * Extract structured financial data from a free-form user message.
  * Handles formats like:
  *   "I earn 50000 per month, age 28, want 5 lakh loan, CIBIL is 720, salaried..."
+ *   "meri salary 45 hazaar hai", "मुझे पाँच लाख का लोन चाहिए", "5 லட்சம் கடன்"
+ * Hindi, Tamil and code-mixed text is normalised to English first (see indicText).
  */
 export function extractFinancialData(message: string): ExtractionResult {
   const data: Partial<LoanFormData> = {};
   const fieldsFound: string[] = [];
-  const lower = message.toLowerCase();
+  const lower = normalizeIndicText(message).toLowerCase();
 
   // --- INCOME ---
   const incomePatterns = [
@@ -31,6 +35,7 @@ export function extractFinancialData(message: string): ExtractionResult {
     /(?:(?:monthly|my)\s+)?(?:income|salary|earning)\s*(?:is|=|:)?\s*(?:₹|rs\.?\s*)?(\d[\d,]*)/i,
     /(?:₹|rs\.?\s*)(\d[\d,]*)\s*(?:per\s+month|monthly|p\.?m\.?|\/month|salary|income)/i,
     /(?:salary|income|earn(?:ing)?)\s*(?:of\s+)?(?:₹|rs\.?\s*)?(\d[\d,]*)/i,
+    /(\d[\d,]*)\s*(?:rupees?|rs\.?)?\s*(?:ki\s+|की\s+)?(?:monthly\s+)?(?:salary|income)/i,
   ];
   for (const pat of incomePatterns) {
     const m = lower.match(pat);
@@ -45,13 +50,13 @@ export function extractFinancialData(message: string): ExtractionResult {
     /(?:loan\s*(?:of|for|amount)?)\s*(?:₹|rs\.?\s*)?(\d[\d,]*)\s*(?:lakh|lac)?/i,
     /(?:need|want|borrow|require)\s*(?:₹|rs\.?\s*)?(\d[\d,]*)\s*(?:lakh|lac)?/i,
     /(?:₹|rs\.?\s*)(\d[\d,]*)\s*(?:lakh|lac)?\s*(?:loan|personal\s*loan|home\s*loan)/i,
-    /(\d[\d,]*)\s*(?:lakh|lac)\s*(?:loan|rupees?)?/i,
+    /(\d[\d,]*)\s*(?:rupees?\s*)?(?:ka\s+|ki\s+|का\s+|की\s+)?(?:(?:personal|home|car|education|business)\s*)?loan/i,
   ];
   for (const pat of loanPatterns) {
     const m = lower.match(pat);
     if (m) {
-      let val = parseIndianNumber(m[1]);
-      if (lower.includes('lakh') || lower.includes('lac')) val *= 100000;
+      // lakh/crore were already expanded to digits by normalizeIndicText
+      const val = parseIndianNumber(m[1]);
       if (val >= 10000 && val <= 100000000) { data.loan_amount = val; fieldsFound.push('loan_amount'); break; }
     }
   }
@@ -75,6 +80,7 @@ export function extractFinancialData(message: string): ExtractionResult {
     /(?:age|aged?)\s*(?:is|=|:)?\s*(\d{2})/i,
     /(?:i\s*(?:am|'m))\s*(\d{2})\s*(?:years?|yrs?|y\.?o\.?)?/i,
     /(\d{2})\s*(?:years?\s*old|yrs?\s*old)/i,
+    /(\d{2})\s*(?:years?\s*(?:ka|ki|का|की)(?![\p{L}\p{M}])|age)/iu,
   ];
   for (const pat of agePatterns) {
     const m = lower.match(pat);
@@ -99,12 +105,15 @@ export function extractFinancialData(message: string): ExtractionResult {
   const loanCountPatterns = [
     /(\d+)\s*(?:existing|active|current|running)\s*(?:loans?|emi)/i,
     /(?:existing|active|current)\s*(?:loans?|emi)\s*(?:is|=|:)?\s*(\d+)/i,
+    /(\d+)\s*(?:loans?|emis?)\s*(?:existing|active|running)/i,
+    /(?:existing|running)\s*(\d+)\s*(?:loans?|emis?)/i,
     /(?:no|zero|0)\s*(?:existing|active|current)?\s*(?:loans?|emi|debt)/i,
+    /(?:koi|कोई)\s*(?:bhi\s+|भी\s+)?loan\s*(?:nahi|nahin|नहीं)|loan\s*(?:illa|இல்லை)/iu,
   ];
   for (const pat of loanCountPatterns) {
     const m = lower.match(pat);
     if (m) {
-      if (/no|zero/.test(m[0].toLowerCase())) {
+      if (/no|zero|nahi|नहीं|illa|இல்லை/.test(m[0].toLowerCase())) {
         data.existing_loans = 0; fieldsFound.push('existing_loans'); break;
       }
       const val = parseInt(m[1] || m[2]);
@@ -116,6 +125,7 @@ export function extractFinancialData(message: string): ExtractionResult {
   const tenurePatterns = [
     /(\d+)\s*(?:months?|yrs?|years?)\s*(?:tenure|term|period|loan)/i,
     /(?:tenure|term|period)\s*(?:of|is|=|:)?\s*(\d+)\s*(?:months?|yrs?|years?)?/i,
+    /(\d+)\s*(?:months?|years?)\s*(?:ke\s+liye|के\s+लिए|க்கு)/iu,
   ];
   for (const pat of tenurePatterns) {
     const m = lower.match(pat);
@@ -128,7 +138,7 @@ export function extractFinancialData(message: string): ExtractionResult {
 
   // --- EXPERIENCE ---
   const expPatterns = [
-    /(\d+)\s*(?:years?|yrs?)\s*(?:of\s+)?(?:experience|exp|work)/i,
+    /(\d+)\s*(?:years?|yrs?)\s*(?:of\s+|ka\s+|का\s+)?(?:experience|exp|work)/i,
     /(?:experience|working\s+for)\s*(?:of\s+)?(\d+)\s*(?:years?|yrs?)/i,
   ];
   for (const pat of expPatterns) {
@@ -168,7 +178,7 @@ export function extractFinancialData(message: string): ExtractionResult {
   // --- LOAN PURPOSE ---
   if (/personal\s*loan/i.test(lower)) { data.loan_purpose = 'Personal'; fieldsFound.push('loan_purpose'); }
   else if (/home\s*loan|house\s*loan|housing\s*loan/i.test(lower)) { data.loan_purpose = 'Home'; fieldsFound.push('loan_purpose'); }
-  else if (/car\s*loan|auto\s*loan|vehicle\s*loan/i.test(lower)) { data.loan_purpose = 'Auto'; fieldsFound.push('loan_purpose'); }
+  else if (/car\s*loan|auto\s*loan|vehicle\s*loan/i.test(lower)) { data.loan_purpose = 'Vehicle'; fieldsFound.push('loan_purpose'); }
   else if (/education\s*loan|study\s*loan/i.test(lower)) { data.loan_purpose = 'Education'; fieldsFound.push('loan_purpose'); }
   else if (/business\s*loan/i.test(lower)) { data.loan_purpose = 'Business'; fieldsFound.push('loan_purpose'); }
 
@@ -195,6 +205,7 @@ export function extractFinancialData(message: string): ExtractionResult {
   const eligibilitySignals = [
     /eligib/i, /approv/i, /qualify/i, /can\s*i\s*get/i, /will\s*i\s*get/i,
     /check.*loan/i, /loan.*check/i, /am\s*i\s*eligible/i, /chances/i,
+    /milega|milegi|मिलेगा|मिलेगी|योग्य|kidaikuma|கிடைக்குமா|தகுதி/i,
   ];
   const hasEligibilitySignal = eligibilitySignals.some(p => p.test(lower));
   // Also consider it an eligibility query if user provided 3+ financial fields
@@ -228,35 +239,97 @@ export function getMissingCoreFields(data: Partial<LoanFormData>): (keyof LoanFo
 /**
  * Format a question asking for a missing field
  */
-export function getQuestionForField(field: keyof LoanFormData, lang: 'en' | 'hi' = 'en'): string {
-  const questions: Record<string, { en: string; hi: string }> = {
+export function getQuestionForField(field: keyof LoanFormData, lang: LocalReplyLanguage = 'en'): string {
+  const questions: Record<string, Record<LocalReplyLanguage, string>> = {
     monthly_income: {
       en: '💰 What is your monthly income (in ₹)? *(e.g., 50000)*',
       hi: '💰 आपकी मासिक आय कितनी है (₹ में)? *(जैसे 50000)*',
+      ta: '💰 உங்கள் மாத வருமானம் எவ்வளவு (₹ இல்)? *(எ.கா., 50000)*',
     },
     loan_amount: {
       en: '💳 How much loan do you need (in ₹)? *(e.g., 500000 or "5 lakh")*',
       hi: '💳 आपको कितना लोन चाहिए (₹ में)? *(जैसे 500000 या "5 लाख")*',
+      ta: '💳 உங்களுக்கு எவ்வளவு கடன் வேண்டும் (₹ இல்)? *(எ.கா., 500000 அல்லது "5 லட்சம்")*',
     },
     credit_score: {
       en: '📊 What is your credit/CIBIL score? *(300-900, e.g., 750)*',
       hi: '📊 आपका क्रेडिट/CIBIL स्कोर क्या है? *(300-900, जैसे 750)*',
+      ta: '📊 உங்கள் கிரெடிட்/CIBIL ஸ்கோர் என்ன? *(300-900, எ.கா., 750)*',
     },
     existing_loans: {
       en: '📋 How many active loans do you currently have? *(e.g., 0, 1, 2)*',
       hi: '📋 अभी आपके कितने लोन चल रहे हैं? *(जैसे 0, 1, 2)*',
+      ta: '📋 தற்போது உங்களுக்கு எத்தனை கடன்கள் நடப்பில் உள்ளன? *(எ.கா., 0, 1, 2)*',
     },
     job_type: {
       en: '💼 What is your employment type? *(Salaried / Self-employed / Business / Freelance)*',
       hi: '💼 आपकी नौकरी का प्रकार? *(Salaried / Self-employed / Business / Freelance)*',
+      ta: '💼 உங்கள் வேலை வகை என்ன? *(Salaried / Self-employed / Business / Freelance)*',
     },
     age: {
       en: '🎂 What is your age? *(18-70)*',
       hi: '🎂 आपकी उम्र क्या है? *(18-70)*',
+      ta: '🎂 உங்கள் வயது என்ன? *(18-70)*',
     },
     loan_tenure: {
       en: '⏳ Preferred loan tenure in months? *(e.g., 36, 60, 120)*',
       hi: '⏳ लोन का पसंदीदा समय (महीनों में)? *(जैसे 36, 60, 120)*',
+      ta: '⏳ கடன் காலம் எத்தனை மாதங்கள் வேண்டும்? *(எ.கா., 36, 60, 120)*',
+    },
+    years_experience: {
+      en: '🧑‍💼 How many years have you been working? *(e.g., 0, 3, 8)*',
+      hi: '🧑‍💼 आप कितने साल से काम कर रहे हैं? *(जैसे 0, 3, 8)*',
+      ta: '🧑‍💼 நீங்கள் எத்தனை ஆண்டுகளாக வேலை செய்கிறீர்கள்? *(எ.கா., 0, 3, 8)*',
+    },
+    loan_purpose: {
+      en: '🎯 What is the loan for? *(Personal / Home / Vehicle / Education / Business / Medical ...)*',
+      hi: '🎯 लोन किस लिए चाहिए? *(Personal / Home / Vehicle / Education / Business / Medical ...)*',
+      ta: '🎯 கடன் எதற்காக? *(Personal / Home / Vehicle / Education / Business / Medical ...)*',
+    },
+    co_borrower: {
+      en: '🤝 Will anyone apply with you as co-borrower? *(None / Parent / Spouse / Sibling)*',
+      hi: '🤝 क्या कोई सह-आवेदक (co-borrower) होगा? *(None / Parent / Spouse / Sibling)*',
+      ta: '🤝 உங்களுடன் இணை விண்ணப்பதாரர் (co-borrower) யாராவது இருப்பார்களா? *(None / Parent / Spouse / Sibling)*',
+    },
+    co_applicants: {
+      en: '👥 How much does your co-borrower earn each month (in ₹)? Lenders can add it to your income. *(e.g., 25000, or 0)*',
+      hi: '👥 आपके सह-आवेदक की मासिक आय कितनी है (₹ में)? बैंक इसे आपकी आय में जोड़ सकते हैं। *(जैसे 25000, या 0)*',
+      ta: '👥 உங்கள் இணை விண்ணப்பதாரரின் மாத வருமானம் எவ்வளவு (₹ இல்)? வங்கிகள் இதை உங்கள் வருமானத்துடன் சேர்க்கலாம். *(எ.கா., 25000, அல்லது 0)*',
+    },
+    monthly_savings: {
+      en: '🐷 How much do you save each month (in ₹)? *(e.g., 8000, or 0)*',
+      hi: '🐷 आप हर महीने कितनी बचत करते हैं (₹ में)? *(जैसे 8000, या 0)*',
+      ta: '🐷 ஒவ்வொரு மாதமும் எவ்வளவு சேமிக்கிறீர்கள் (₹ இல்)? *(எ.கா., 8000, அல்லது 0)*',
+    },
+    total_monthly_expenses: {
+      en: '🧾 What are your total monthly expenses, including rent and EMIs (in ₹)? *(e.g., 20000)*',
+      hi: '🧾 किराया और EMI मिलाकर आपका कुल मासिक खर्च कितना है (₹ में)? *(जैसे 20000)*',
+      ta: '🧾 வாடகை, EMI உட்பட உங்கள் மொத்த மாதச் செலவு எவ்வளவு (₹ இல்)? *(எ.கா., 20000)*',
+    },
+    bank_balance: {
+      en: '🏦 Roughly how much is in your bank accounts right now (in ₹)? *(e.g., 1.5 lakh)*',
+      hi: '🏦 अभी आपके बैंक खातों में लगभग कितना पैसा है (₹ में)? *(जैसे 1.5 लाख)*',
+      ta: '🏦 இப்போது உங்கள் வங்கிக் கணக்குகளில் தோராயமாக எவ்வளவு உள்ளது (₹ இல்)? *(எ.கா., 1.5 லட்சம்)*',
+    },
+    owns_house: {
+      en: '🏠 Do you own a house or flat? *(yes / no)*',
+      hi: '🏠 क्या आपके पास अपना घर या फ्लैट है? *(हाँ / नहीं)*',
+      ta: '🏠 உங்களுக்கு சொந்த வீடு அல்லது பிளாட் உள்ளதா? *(ஆம் / இல்லை)*',
+    },
+    has_investments: {
+      en: '📈 Do you have investments such as FDs, mutual funds or shares? *(yes / no)*',
+      hi: '📈 क्या आपके पास FD, म्यूचुअल फंड या शेयर जैसे निवेश हैं? *(हाँ / नहीं)*',
+      ta: '📈 FD, மியூச்சுவல் ஃபண்ட் அல்லது பங்குகள் போன்ற முதலீடுகள் உள்ளதா? *(ஆம் / இல்லை)*',
+    },
+    owns_car: {
+      en: '🚗 Do you own a car? *(yes / no)*',
+      hi: '🚗 क्या आपके पास कार है? *(हाँ / नहीं)*',
+      ta: '🚗 உங்களுக்கு சொந்த கார் உள்ளதா? *(ஆம் / இல்லை)*',
+    },
+    has_collateral: {
+      en: '🔐 Can you offer collateral (property, gold, FD) against the loan? *(yes / no)*',
+      hi: '🔐 क्या आप लोन के लिए कुछ गिरवी (संपत्ति, सोना, FD) रख सकते हैं? *(हाँ / नहीं)*',
+      ta: '🔐 கடனுக்கு அடமானம் (சொத்து, தங்கம், FD) வைக்க முடியுமா? *(ஆம் / இல்லை)*',
     },
   };
 
@@ -3,9 +3,21 @@
  */
 
 import type { LoanFormData, AnalysisResult } from '@/types/loan';
+import type { LocalReplyLanguage } from '@/i18n/languages';
 import { calculateLoanResult } from '@/utils/loanCalculator';
 import { getConversationMemory } from './conversationMemory';
 
+/** Messages returned by validateField, keyed by rule */
+const VALIDATION_ERRORS: Record<string, Record<LocalReplyLanguage, string>> = {
+  empty: { en: 'Value cannot be empty', hi: 'वैल्यू खाली नहीं हो सकती', ta: 'மதிப்பு காலியாக இருக்கக்கூடாது' },
+  age: { en: 'Age must be between 18-70 years', hi: 'उम्र 18-70 साल के बीच होनी चाहिए', ta: 'வயது 18-70 ஆண்டுகளுக்குள் இருக்க வேண்டும்' },
+  credit_score: { en: 'Credit score must be between 300-900', hi: 'क्रेडिट स्कोर 300-900 के बीच होना चाहिए', ta: 'கிரெடிட் ஸ்கோர் 300-900 க்குள் இருக்க வேண்டும்' },
+  monthly_income: { en: 'Monthly income must be a positive number', hi: 'मासिक आय शून्य से अधिक होनी चाहिए', ta: 'மாத வருமானம் பூஜ்ஜியத்தை விட அதிகமாக இருக்க வேண்டும்' },
+  loan_amount: { en: 'Loan amount must be a positive number', hi: 'ऋण राशि शून्य से अधिक होनी चाहिए', ta: 'கடன் தொகை பூஜ்ஜியத்தை விட அதிகமாக இருக்க வேண்டும்' },
+  loan_tenure: { en: 'Loan tenure must be between 1-360 months', hi: 'लोन की अवधि 1-360 महीने के बीच होनी चाहिए', ta: 'கடன் காலம் 1-360 மாதங்களுக்குள் இருக்க வேண்டும்' },
+  existing_loans: { en: 'Cannot have negative loans', hi: 'लोन की संख्या ऋणात्मक नहीं हो सकती', ta: 'கடன்களின் எண்ணிக்கை எதிர்மறையாக இருக்க முடியாது' },
+};
+
 interface EligibilityQuestion {
   field: keyof LoanFormData;
   question: string;
@@ -136,7 +148,7 @@ export class EligibilityAgent {
     loan_purpose: {
       field: 'loan_purpose',
       question: 'What is the loan purpose?',
-      hint: 'Choose: Personal, Home, Auto, Education, Business',
+      hint: 'Choose: Personal, Home, Vehicle, Education, Business',
       examples: ['Personal', 'Home'],
     },
     owns_house: {
@@ -247,7 +259,7 @@ export class EligibilityAgent {
 
     if (booleanFields.includes(field)) {
       const lowerInput = input.toLowerCase();
-      return lowerInput === 'yes' || lowerInput === 'y' || lowerInput === 'true' || lowerInput === 'haan' || lowerInput === 'हाँ';
+      return lowerInput === 'yes' || lowerInput === 'y' || lowerInput === 'true' || lowerInput === 'haan' || lowerInput === 'हाँ' || lowerInput === 'aama' || lowerInput === 'ஆம்';
     } else if (numberFields.includes(field)) {
       // Extract number from various formats: "50000", "50,000", "rs.50000", "50000 rupees", "₹50000"
       // Try multiple patterns
@@ -279,40 +291,40 @@ export class EligibilityAgent {
   /**
    * Validate parsed value
    */
-  validateField(field: keyof LoanFormData, value: any): { valid: boolean; error?: string } {
+  validateField(field: keyof LoanFormData, value: any, lang: LocalReplyLanguage = 'en'): { valid: boolean; error?: string } {
     if (value == null || value === '' || Number.isNaN(value)) {
-      return { valid: false, error: 'Value cannot be empty' };
+      return { valid: false, error: VALIDATION_ERRORS.empty[lang] };
     }
 
     switch (field) {
       case 'age':
         if (typeof value !== 'number' || Number.isNaN(value) || value < 18 || value > 70) {
-          return { valid: false, error: 'Age must be between 18-70 years' };
+          return { valid: false, error: VALIDATION_ERRORS.age[lang] };
         }
         break;
       case 'credit_score':
         if (typeof value !== 'number' || Number.isNaN(value) || value < 300 || value > 900) {
-          return { valid: false, error: 'Credit score must be between 300-900' };
+          return { valid: false, error: VALIDATION_ERRORS.credit_score[lang] };
         }
         break;
       case 'monthly_income':
         if (typeof value !== 'number' || Number.isNaN(value) || value <= 0) {
-          return { valid: false, error: 'Monthly income must be a positive number' };
+          return { valid: false, error: VALIDATION_ERRORS.monthly_income[lang] };
         }
         break;
       case 'loan_amount':
         if (typeof value !== 'number' || Number.isNaN(value) || value <= 0) {
-          return { valid: false, error: 'Loan amount must be a positive number' };
+          return { valid: false, error: VALIDATION_ERRORS.loan_amount[lang] };
         }
         break;
       case 'loan_tenure':
         if (typeof value !== 'number' || Number.isNaN(value) || value < 1 || value > 360) {
-          return { valid: false, error: 'Loan tenure must be between 1-360 months' };
+          return { valid: false, error: VALIDATION_ERRORS.loan_tenure[lang] };
         }
         break;
       case 'existing_loans':
         if (typeof value !== 'number' || value < 0) {
-          return { valid: false, error: 'Cannot have negative loans' };
+          return { valid: false, error: VALIDATION_ERRORS.existing_loans[lang] };
         }
         break;
     }
@@ -0,0 +1,288 @@
+/**
+ * Eligibility Planner - decides which question the chat eligibility flow asks next
+ *
+ * Every field the user hasn't answered is filled with a documented assumption.
+ * A field is only asked about when its plausible values move the approval
+ * probability by at least IMPACT_THRESHOLD points for this profile; the rest
+ * stay assumed and are listed in the report along with a confidence range.
+ */
+
+import type { LoanFormData } from '@/types/loan';
+import type { LocalReplyLanguage } from '@/i18n/languages';
+import { scoreProfile } from '@/lib/scoring';
+import { RELATIONSHIPS, type CoApplicant, type CoApplicantRelationship } from '@/lib/household';
+import { coBorrowerOptions, jobTypeOptions, loanPurposeOptions } from '@/data/formOptions';
+
+type Field = keyof LoanFormData;
+
+/** Probability points a field must be able to swing to be worth a question */
+export const IMPACT_THRESHOLD = 3;
+
+/** Asked first (unless skipped): every other impact is relative to these */
+export const ANCHOR_FIELDS: Field[] = ['monthly_income', 'loan_amount'];
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface EligibilityConfidence {
+  probability: number;
+  /** Probability with every assumed field at its least favourable plausible value */
+  low: number;
+  /** ...and at its most favourable */
+  high: number;
+  level: ConfidenceLevel;
+}
+
+export interface AssumedProfile {
+  data: LoanFormData;
+  /** Reportable fields that were filled with an assumption */
+  assumed: Field[];
+}
+
+/**
+ * Defaults for unanswered fields. Derived values (savings, expenses, balance)
+ * scale with whatever income is known.
+ */
+function defaultsFor(collected: Partial<LoanFormData>): LoanFormData {
+  const income = collected.monthly_income ?? 30000;
+  return {
+    age: 30,
+    gender: 'Male',
+    marital_status: 'Single',
+    family_members: 1,
+    dependent_children: 0,
+    location_city: '',
+    location_state: '',
+    education: 'Graduate',
+    job_type: 'Salaried',
+    employer_name: '',
+    years_experience: 2,
+    monthly_income: 30000,
+    income_stability: 'Stable',
+    secondary_income: false,
+    monthly_savings: Math.round(income * 0.15),
+    monthly_rent: 0,
+    existing_loans: 0,
+    total_monthly_expenses: Math.round(income * 0.5),
+    credit_score: 650,
+    bank_balance: Math.round(income * 2),
+    has_investments: false,
+    owns_house: false,
+    owns_car: false,
+    car_year: 2020,
+    property_value: 0,
+    has_health_insurance: false,
+    has_life_insurance: false,
+    has_vehicle_insurance: false,
+    loan_amount: 500000,
+    loan_purpose: 'Personal',
+    co_borrower: 'None',
+    loan_tenure: 60,
+    has_collateral: false,
+    co_applicants: [],
+  };
+}
+
+/**
+ * The chat's co-borrower as a household co-applicant earning `income`. The chat
+ * doesn't ask for their score, so the applicant's is used and the loan's lowest
+ * score is unchanged.
+ */
+export function coApplicantsFor(data: LoanFormData, income: number): CoApplicant[] {
+  const relationship = data.co_borrower as CoApplicantRelationship;
+  if (!RELATIONSHIPS.includes(relationship) || !(income > 0)) return [];
+  return [{ relationship, monthly_income: income, job_type: 'Salaried', credit_score: data.credit_score, existing_emi: 0 }];
+}
+
+/** Assumptions worth telling the user about: anything the score or report uses */
+export const REPORTED_FIELDS: Field[] = [
+  'monthly_income', 'loan_amount', 'credit_score', 'existing_loans', 'years_experience',
+  'loan_purpose', 'co_borrower', 'loan_tenure', 'monthly_savings', 'total_monthly_expenses',
+  'bank_balance', 'owns_house', 'has_investments', 'owns_car', 'has_collateral', 'job_type', 'age',
+];
+
+/** Plausible values for each field the engine is sensitive to */
+const PROBES: Partial<Record<Field, (base: LoanFormData) => LoanFormData[Field][]>> = {
+  credit_score: () => [550, 650, 750, 820],
+  years_experience: () => [0, 2, 5, 10],
+  existing_loans: () => [0, 1, 2, 4],
+  loan_purpose: () => ['Personal', 'Home', 'Education', 'Business'],
+  co_borrower: () => ['None', 'Spouse', 'Parent/Guardian'],
+  // Only worth asking once a co-borrower is named
+  co_applicants: (b) => (b.co_borrower === 'None' ? [] : [0, 0.5, 1].map((share) => coApplicantsFor(b, Math.round(b.monthly_income * share)))),
+  loan_tenure: () => [36, 60, 120],
+  monthly_savings: (b) => [0, Math.round(b.monthly_income * 0.15), Math.round(b.monthly_income * 0.3)],
+  bank_balance: (b) => [0, b.monthly_income * 2, b.monthly_income * 13],
+  owns_house: () => [false, true],
+  has_investments: () => [false, true],
+  owns_car: () => [false, true],
+  has_collateral: () => [false, true],
+};
+
+/** Every field the flow may ask about */
+export const ELIGIBILITY_FIELDS: Field[] = [...ANCHOR_FIELDS, ...(Object.keys(PROBES) as Field[])];
+
+const isAnswered = (collected: Partial<LoanFormData>, field: Field) => collected[field] != null;
+
+/** Complete profile: collected values first, assumptions for the rest */
+export function assumeProfile(collected: Partial<LoanFormData>): AssumedProfile {
+  const known = Object.fromEntries(Object.entries(collected).filter(([, value]) => value != null));
+  const data: LoanFormData = { ...defaultsFor(collected), ...known };
+  return { data, assumed: REPORTED_FIELDS.filter((f) => !isAnswered(collected, f)) };
+}
+
+const probabilityOf = (data: LoanFormData) => scoreProfile(data).approvalProbability;
+
+/** Probabilities across a field's plausible values, everything else held fixed */
+function probeOutcomes(data: LoanFormData, field: Field): number[] {
+  const values = PROBES[field]?.(data) ?? [];
+  return values.map((value) => probabilityOf({ ...data, [field]: value }));
+}
+
+/** How far a field could move the probability for this profile */
+export function fieldImpact(collected: Partial<LoanFormData>, field: Field): number {
+  const outcomes = probeOutcomes(assumeProfile(collected).data, field);
+  return outcomes.length > 0 ? Math.max(...outcomes) - Math.min(...outcomes) : 0;
+}
+
+/** Unanswered, unskipped fields worth asking about, biggest impact first */
+export function pendingQuestions(collected: Partial<LoanFormData>, skipped: Field[] = []): Field[] {
+  const open = (f: Field) => !isAnswered(collected, f) && !skipped.includes(f);
+  const anchors = ANCHOR_FIELDS.filter(open);
+  const rest = (Object.keys(PROBES) as Field[])
+    .filter(open)
+    .map((field) => ({ field, impact: fieldImpact(collected, field) }))
+    .filter((f) => f.impact >= IMPACT_THRESHOLD)
+    .sort((a, b) => b.impact - a.impact)
+    .map((f) => f.field);
+  return [...anchors, ...rest];
+}
+
+export function nextEligibilityField(collected: Partial<LoanFormData>, skipped: Field[] = []): Field | null {
+  return pendingQuestions(collected, skipped)[0] ?? null;
+}
+
+/**
+ * Range the true probability could fall in, given what was assumed. Each
+ * assumed field is pushed to its worst and best plausible value together.
+ */
+export function estimateConfidence(collected: Partial<LoanFormData>): EligibilityConfidence {
+  const { data, assumed } = assumeProfile(collected);
+  const probability = probabilityOf(data);
+  let worst = { ...data };
+  let best = { ...data };
+  for (const field of assumed) {
+    const values = PROBES[field]?.(data);
+    if (!values) continue;
+    const scored = values.map((value) => ({ value, p: probabilityOf({ ...data, [field]: value }) }));
+    const lo = scored.reduce((a, b) => (b.p < a.p ? b : a));
+    const hi = scored.reduce((a, b) => (b.p > a.p ? b : a));
+    worst = { ...worst, [field]: lo.value };
+    best = { ...best, [field]: hi.value };
+  }
+  const low = Math.min(probability, probabilityOf(worst));
+  const high = Math.max(probability, probabilityOf(best));
+  const spread = high - low;
+  return { probability, low, high, level: spread <= 6 ? 'high' : spread <= 15 ? 'medium' : 'low' };
+}
+
+// ── Answer parsing ──────────────────────────────────────────────
+
+// Lookahead instead of \b: \b never matches after Devanagari characters
+const YES = /^(y|yes|yeah|yup|haan|han|ha|हाँ|हां|aama|aam|ஆம்|ஆமா|ஆமாம்|உண்டு|true|owns?)(?![a-z])/i;
+const NO = /^(n|no|nope|nahi|nahin|नहीं|illa|illai|இல்லை|false|none|not)(?![a-z])/i;
+const ZERO = /^(0|zero|none|no|nil|nahi|nahin|नहीं|कोई नहीं|shunya|illa|illai|இல்லை|பூஜ்ஜியம்)(?![a-z0-9])/i;
+const BOOLEAN_FIELDS: Field[] = ['owns_house', 'owns_car', 'has_investments', 'has_collateral', 'secondary_income'];
+const MONEY_FIELDS: Field[] = ['monthly_income', 'loan_amount', 'monthly_savings', 'total_monthly_expenses', 'bank_balance', 'property_value'];
+/** Fields where zero is a real answer (the generic number parser rejects it) */
+const ZERO_FIELDS: Field[] = ['co_applicants', 'existing_loans', 'years_experience', 'monthly_savings', 'bank_balance', 'monthly_rent', 'dependent_children'];
+const CHOICE_FIELDS: Partial<Record<Field, string[]>> = {
+  loan_purpose: loanPurposeOptions,
+  co_borrower: coBorrowerOptions,
+  job_type: jobTypeOptions,
+};
+
+/** Options shown with a choice question */
+export const choicesFor = (field: Field): string[] | undefined => CHOICE_FIELDS[field];
+
+/**
+ * Parse a reply for booleans, choices, zero counts and lakh/crore amounts. Returns
+ * undefined when the field isn't one of those, so the caller can use the
+ * generic number parser.
+ */
+export function parseSpecialAnswer(field: Field, input: string): unknown {
+  const text = input.trim();
+  if (BOOLEAN_FIELDS.includes(field)) {
+    if (YES.test(text)) return true;
+    if (NO.test(text)) return false;
+    return null;
+  }
+  const choices = CHOICE_FIELDS[field];
+  if (choices) {
+    const lower = text.toLowerCase();
+    if (field === 'co_borrower' && /parent|father|mother|guardian/.test(lower)) return 'Parent/Guardian';
+    if (field === 'co_borrower' && /wife|husband|spouse/.test(lower)) return 'Spouse';
+    if (field === 'co_borrower' && NO.test(text)) return 'None';
+    return choices.find((c) => lower.includes(c.toLowerCase()) || c.toLowerCase().startsWith(lower)) ?? null;
+  }
+  if (ZERO_FIELDS.includes(field) && ZERO.test(text)) return 0;
+  if (MONEY_FIELDS.includes(field) || field === 'co_applicants') {
+    const m = text.toLowerCase().match(/(\d+(?:\.\d+)?)\s*(lakhs?|lacs?|लाख|crores?|cr|करोड़|k|thousand|हज़ार|हजार)(?![a-z])/);
+    if (m) {
+      const unit = m[2];
+      const multiplier = /^(crore|cr|करोड़)/.test(unit) ? 10000000 : /^(lakh|lac|लाख)/.test(unit) ? 100000 : 1000;
+      return Math.round(parseFloat(m[1]) * multiplier);
+    }
+  }
+  // The co-applicant's income; coApplicantsFor turns it into the slot value
+  if (field === 'co_applicants') {
+    const amount = parseInt(text.replace(/[^\d]/g, ''), 10);
+    return amount > 0 ? amount : null;
+  }
+  return undefined;
+}
+
+const FIELD_LABELS: Partial<Record<Field, Record<LocalReplyLanguage, string>>> = {
+  monthly_income: { en: 'Monthly income', hi: 'मासिक आय', ta: 'மாத வருமானம்' },
+  loan_amount: { en: 'Loan amount', hi: 'ऋण राशि', ta: 'கடன் தொகை' },
+  credit_score: { en: 'Credit score', hi: 'क्रेडिट स्कोर', ta: 'கிரெடிட் ஸ்கோர்' },
+  existing_loans: { en: 'Existing loans', hi: 'मौजूदा लोन', ta: 'தற்போதைய கடன்கள்' },
+  years_experience: { en: 'Work experience (years)', hi: 'कार्य अनुभव (वर्ष)', ta: 'பணி அனுபவம் (ஆண்டுகள்)' },
+  loan_purpose: { en: 'Loan purpose', hi: 'ऋण का उद्देश्य', ta: 'கடன் நோக்கம்' },
+  co_borrower: { en: 'Co-borrower', hi: 'सह-आवेदक', ta: 'இணை விண்ணப்பதாரர்' },
+  co_applicants: { en: 'Co-borrower income', hi: 'सह-आवेदक की आय', ta: 'இணை விண்ணப்பதாரர் வருமானம்' },
+  loan_tenure: { en: 'Tenure (months)', hi: 'अवधि (महीने)', ta: 'காலம் (மாதங்கள்)' },
+  monthly_savings: { en: 'Monthly savings', hi: 'मासिक बचत', ta: 'மாத சேமிப்பு' },
+  total_monthly_expenses: { en: 'Monthly expenses', hi: 'मासिक खर्च', ta: 'மாதச் செலவுகள்' },
+  bank_balance: { en: 'Bank balance', hi: 'बैंक बैलेंस', ta: 'வங்கி இருப்பு' },
+  owns_house: { en: 'Owns a house', hi: 'अपना घर', ta: 'சொந்த வீடு' },
+  has_investments: { en: 'Investments', hi: 'निवेश', ta: 'முதலீடுகள்' },
+  owns_car: { en: 'Owns a car', hi: 'अपनी कार', ta: 'சொந்த கார்' },
+  has_collateral: { en: 'Collateral', hi: 'गिरवी', ta: 'அடமானம்' },
+  job_type: { en: 'Employment', hi: 'रोजगार', ta: 'வேலை வகை' },
+  age: { en: 'Age', hi: 'उम्र', ta: 'வயது' },
+};
+
+export function fieldLabel(field: Field, lang: LocalReplyLanguage = 'en'): string {
+  return FIELD_LABELS[field]?.[lang] ?? field.replace(/_/g, ' ');
+}
+
+const YES_NO = {
+  yes: { en: 'Yes', hi: 'हाँ', ta: 'ஆம்' },
+  no: { en: 'No', hi: 'नहीं', ta: 'இல்லை' },
+};
+
+/** Display form of a slot value: ₹ amounts, Yes/No, or the raw value */
+export function formatFieldValue(field: Field, value: unknown, lang: LocalReplyLanguage = 'en'): string {
+  if (typeof value === 'boolean') return (value ? YES_NO.yes : YES_NO.no)[lang];
+  if (field === 'co_applicants') {
+    const members = (value as CoApplicant[] | undefined) ?? [];
+    return `₹${members.reduce((sum, m) => sum + m.monthly_income, 0).toLocaleString('en-IN')}`;
+  }
+  if (MONEY_FIELDS.includes(field)) return `₹${Number(value).toLocaleString('en-IN')}`;
+  return String(value);
+}
+
+/** "Label: value" line for the assumed-values list */
+export function describeAssumption(field: Field, data: LoanFormData, lang: LocalReplyLanguage = 'en'): string {
+  return `${fieldLabel(field, lang)}: ${formatFieldValue(field, data[field], lang)}`;
+}
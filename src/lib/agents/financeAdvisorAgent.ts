@@ -2,6 +2,9 @@
  * Finance Advisor Agent - Handles finance Q&A using structured prompts
  */
 
+import { comparePrepayment, generateAmortizationSchedule, summarizeByYear } from '@/utils/amortization';
+import type { LocalReplyLanguage } from '@/i18n/languages';
+
 interface FinanceContext {
   userProfile?: {
     age?: number;
@@ -12,7 +15,7 @@ interface FinanceContext {
 }
 
 export class FinanceAdvisorAgent {
-  private systemPrompts = {
+  private systemPrompts: Record<LocalReplyLanguage, string> = {
     en: `You are NidhiSaarthi AI, a professional financial advisor specializing in:
 - Loan eligibility and products
 - EMI calculations
@@ -50,12 +53,28 @@ FINANCIAL CALCULATION EXAMPLES:
 3. व्यावहारिक, कार्यान्वयन योग्य सलाह प्रदान करें
 4. प्रासंगिक पात्रता आवश्यकताओं का उल्लेख करें
 5. यह सलाह दें कि वास्तविक अनुमोदन बैंक के पूर्ण मूल्यांकन पर निर्भर करता है`,
+
+    ta: `நீங்கள் NidhiSaarthi AI, கீழ்க்கண்டவற்றில் நிபுணத்துவம் பெற்ற தொழில்முறை நிதி ஆலோசகர்:
+- கடன் தகுதி மற்றும் கடன் வகைகள்
+- EMI கணக்கீடுகள்
+- கிரெடிட் ஸ்கோர் மேம்பாடு
+- நிதித் திட்டமிடல்
+- அரசு நிதித் திட்டங்கள்
+
+முக்கிய விதிகள்:
+1. எப்போதும் உண்மைகளை மட்டும் கூறுங்கள், ஊகங்களைத் தவிருங்கள்
+2. குறிப்பிட்ட கடன் ஒப்புதல் பற்றி கேட்டால், கணக்கீட்டுக்குத் தேவையான விவரங்களைக் கேளுங்கள்
+3. நடைமுறையில் பின்பற்றக்கூடிய ஆலோசனை வழங்குங்கள்
+4. தொடர்புடைய தகுதி நிபந்தனைகளைக் குறிப்பிடுங்கள்
+5. உண்மையான ஒப்புதல் வங்கியின் முழு மதிப்பீட்டைப் பொறுத்தது என்பதைக் குறிப்பிடுங்கள்
+6. எடுத்துக்காட்டுகளுக்கு இந்திய நிதிச் சூழலைப் பயன்படுத்துங்கள் (₹, EMI, மாதங்களில் காலம்)
+7. இறுதி முடிவுக்கு வங்கி அதிகாரிகளை அணுகுமாறு எப்போதும் அறிவுறுத்துங்கள்`,
   };
 
   /**
    * Generate system prompt for finance advice
    */
-  getSystemPrompt(language: 'en' | 'hi' = 'en'): string {
+  getSystemPrompt(language: LocalReplyLanguage = 'en'): string {
     return this.systemPrompts[language] || this.systemPrompts.en;
   }
 
@@ -65,7 +84,7 @@ FINANCIAL CALCULATION EXAMPLES:
   createContextualPrompt(
     userMessage: string,
     context: FinanceContext,
-    language: 'en' | 'hi' = 'en'
+    language: LocalReplyLanguage = 'en'
   ): string {
     let prompt = this.getSystemPrompt(language);
 
@@ -76,11 +95,16 @@ FINANCIAL CALCULATION EXAMPLES:
 - Age: ${context.userProfile.age || 'Not provided'}
 - Monthly Income: ${context.userProfile.income ? `₹${context.userProfile.income}` : 'Not provided'}
 - Credit Score: ${context.userProfile.creditScore || 'Not provided'}`;
-      } else {
+      } else if (language === 'hi') {
         prompt += `\n\nउपयोगकर्ता संदर्भ:
 - आयु: ${context.userProfile.age || 'प्रदान नहीं की गई'}
 - मासिक आय: ${context.userProfile.income ? `₹${context.userProfile.income}` : 'प्रदान नहीं की गई'}
 - क्रेडिट स्कोर: ${context.userProfile.creditScore || 'प्रदान नहीं की गई'}`;
+      } else {
+        prompt += `\n\nபயனர் விவரம்:
+- வயது: ${context.userProfile.age || 'வழங்கப்படவில்லை'}
+- மாத வருமானம்: ${context.userProfile.income ? `₹${context.userProfile.income}` : 'வழங்கப்படவில்லை'}
+- கிரெடிட் ஸ்கோர்: ${context.userProfile.creditScore || 'வழங்கப்படவில்லை'}`;
       }
     }
 
@@ -94,15 +118,19 @@ FINANCIAL CALCULATION EXAMPLES:
     principalAmount: number,
     interestRate: number,
     tenureMonths: number,
-    language: 'en' | 'hi' = 'en'
+    language: LocalReplyLanguage = 'en'
   ): string {
-    const monthlyRate = interestRate / 100 / 12;
-    const emi =
-      (principalAmount * monthlyRate * Math.pow(1 + monthlyRate, tenureMonths)) /
-      (Math.pow(1 + monthlyRate, tenureMonths) - 1);
+    const loan = { principal: principalAmount, annualRate: interestRate, tenureMonths };
+    const schedule = generateAmortizationSchedule(loan);
+    const emi = schedule.initialEmi;
+    const totalAmount = schedule.totalPaid;
+    const totalInterest = schedule.totalInterest;
+    const [firstYear] = summarizeByYear(schedule);
 
-    const totalAmount = emi * tenureMonths;
-    const totalInterest = totalAmount - principalAmount;
+    // What a part-payment of 10% of the loan after year one would save
+    const partPayment = Math.round(principalAmount * 0.1);
+    const prepay = comparePrepayment({ ...loan, prepayments: [{ month: 12, amount: partPayment }] });
+    const fmt = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
 
     if (language === 'en') {
       return `📊 **EMI CALCULATION SUMMARY**
@@ -116,12 +144,35 @@ FINANCIAL CALCULATION EXAMPLES:
 Total Amount Payable: ₹${Math.round(totalAmount).toLocaleString('en-IN')}
 Total Interest: ₹${Math.round(totalInterest).toLocaleString('en-IN')}
 
+Year 1 split: ${fmt(firstYear?.principal ?? 0)} principal, ${fmt(firstYear?.interest ?? 0)} interest
+A ${fmt(partPayment)} part-payment after 12 months saves ${fmt(prepay.interestSaved)} interest and ${prepay.monthsSaved} months
+
 **Key Points:**
 - This is an approximate calculation
 - Actual EMI may vary based on bank policies
 - Prepayment penalties may apply
 - Interest rate depends on your credit profile
 - Consider your monthly budget before applying`;
+    } else if (language === 'ta') {
+      return `📊 **EMI கணக்கீட்டுச் சுருக்கம்**
+
+💰 கடன் தொகை: ₹${principalAmount.toLocaleString('en-IN')}
+📈 ஆண்டு வட்டி விகிதம்: ${interestRate}%
+⏱️ கடன் காலம்: ${tenureMonths} மாதங்கள் (${(tenureMonths / 12).toFixed(1)} ஆண்டுகள்)
+
+**மாத EMI: ₹${Math.round(emi).toLocaleString('en-IN')}**
+
+மொத்தம் செலுத்த வேண்டியது: ₹${Math.round(totalAmount).toLocaleString('en-IN')}
+மொத்த வட்டி: ₹${Math.round(totalInterest).toLocaleString('en-IN')}
+
+முதல் ஆண்டு: ${fmt(firstYear?.principal ?? 0)} அசல், ${fmt(firstYear?.interest ?? 0)} வட்டி
+12 மாதங்களுக்குப் பிறகு ${fmt(partPayment)} பகுதி முன்செலுத்தினால் ${fmt(prepay.interestSaved)} வட்டியும் ${prepay.monthsSaved} மாதங்களும் மிச்சமாகும்
+
+**முக்கியக் குறிப்புகள்:**
+- இது தோராயமான கணக்கீடு மட்டுமே
+- உண்மையான EMI வங்கிக் கொள்கைகளைப் பொறுத்து மாறலாம்
+- முன்கூட்டியே செலுத்துவதற்கு அபராதம் இருக்கலாம்
+- வட்டி விகிதம் உங்கள் கிரெடிட் சுயவிவரத்தைப் பொறுத்தது`;
     } else {
       return `📊 **EMI गणना सारांश**
 
@@ -134,6 +185,9 @@ Total Interest: ₹${Math.round(totalInterest).toLocaleString('en-IN')}
 कुल देय राशि: ₹${Math.round(totalAmount).toLocaleString('en-IN')}
 कुल ब्याज: ₹${Math.round(totalInterest).toLocaleString('en-IN')}
 
+पहले वर्ष: ${fmt(firstYear?.principal ?? 0)} मूलधन, ${fmt(firstYear?.interest ?? 0)} ब्याज
+12 महीने बाद ${fmt(partPayment)} का आंशिक भुगतान ${fmt(prepay.interestSaved)} ब्याज और ${prepay.monthsSaved} महीने बचाता है
+
 **मुख्य बिंदु:**
 - यह एक अनुमानित गणना है
 - वास्तविक EMI बैंक की नीति के आधार पर भिन्न हो सकता है
@@ -144,7 +198,7 @@ Total Interest: ₹${Math.round(totalInterest).toLocaleString('en-IN')}
   /**
    * Generate credit score improvement advice
    */
-  generateCreditScoreAdvice(currentScore: number, language: 'en' | 'hi' = 'en'): string {
+  generateCreditScoreAdvice(currentScore: number, language: LocalReplyLanguage = 'en'): string {
     if (language === 'en') {
       let advice = '📈 **CREDIT SCORE IMPROVEMENT STRATEGY**\n\n';
 
@@ -182,6 +236,35 @@ You should qualify for premium loan rates. Maintain:
 - Regular monitoring`;
       }
 
+      return advice;
+    } else if (language === 'ta') {
+      let advice = '📈 **கிரெடிட் ஸ்கோர் மேம்பாட்டு உத்தி**\n\n';
+      if (currentScore < 600) {
+        advice += `உங்கள் தற்போதைய ஸ்கோர் (${currentScore}) சராசரிக்குக் கீழே உள்ளது. செயல் திட்டம்:\n\n`;
+        advice += `**உடனடியாக (அடுத்த 1-2 மாதங்கள்):**
+1. ✅ எல்லா பில்களையும் சரியான நேரத்தில் செலுத்துங்கள் - தானியங்கி நினைவூட்டல் அமைக்கவும்
+2. ✅ கிரெடிட் கார்டு நிலுவையைக் குறையுங்கள் - 30% க்குக் கீழ் பயன்பாடு
+3. ✅ CIBIL அறிக்கையில் பிழைகளைச் சரிபாருங்கள்
+4. ✅ புதிய கடன் விண்ணப்பங்களை நிறுத்துங்கள்`;
+      } else if (currentScore < 700) {
+        advice += `உங்கள் தற்போதைய ஸ்கோர் (${currentScore}) நடுத்தரமானது. மேம்படுத்த முடியும்:\n\n`;
+        advice += `1. 📌 தொடர்ந்து சரியான நேரத்தில் செலுத்துங்கள்
+2. 📌 கிரெடிட் கார்டுகளைக் குறைவாகப் பயன்படுத்துங்கள்
+3. 📌 30% க்குக் குறைவான கிரெடிட் பயன்பாட்டை இலக்காகக் கொள்ளுங்கள்
+4. 📌 ஒரே நேரத்தில் பல கடன் விண்ணப்பங்களைத் தவிருங்கள்`;
+      } else if (currentScore < 750) {
+        advice += `உங்கள் தற்போதைய ஸ்கோர் (${currentScore}) நல்லது. சிறந்த நிலையை அடைய:\n\n`;
+        advice += `1. ✨ தவறாமல் செலுத்தும் பதிவைத் தொடருங்கள்
+2. ✨ கிரெடிட் பயன்பாட்டை 10% க்குக் கீழ் வைத்திருங்கள்
+3. ✨ பழைய கணக்குகளை மூடாதீர்கள்
+4. ✨ கார்டு நிலுவையை முழுமையாகச் செலுத்துங்கள்`;
+      } else {
+        advice += `🎉 உங்கள் தற்போதைய ஸ்கோர் (${currentScore}) மிகச் சிறந்தது!
+குறைந்த வட்டி விகிதங்களுக்கு நீங்கள் தகுதி பெறலாம். தொடர்ந்து:
+- சரியான நேரத்தில் செலுத்துங்கள்
+- கிரெடிட் பயன்பாட்டைக் குறைவாக வைத்திருங்கள்
+- அறிக்கையைத் தொடர்ந்து கண்காணியுங்கள்`;
+      }
       return advice;
     } else {
       // Hindi version
@@ -201,21 +284,23 @@ You should qualify for premium loan rates. Maintain:
   /**
    * Generate document requirement advice
    */
-  generateDocumentAdvice(loanType: string, language: 'en' | 'hi' = 'en'): string {
-    const documents = {
+  generateDocumentAdvice(loanType: string, language: LocalReplyLanguage = 'en'): string {
+    const documents: Record<string, Record<LocalReplyLanguage, string[]>> = {
       personal: {
         en: ['Identity Proof (Aadhar/PAN/Passport)', 'Address Proof (Recent utility bills)', 'Bank Statements (Last 6 months)', 'Income Proof (Salary slip/IT returns)', 'Employment Letter'],
         hi: ['पहचान प्रमाण (आधार/PAN/पासपोर्ट)', 'पता प्रमाण (हाल की बिल)', 'बैंक विवरण (पिछले 6 महीने)', 'आय प्रमाण (वेतन पर्ची/IT रिटर्न)', 'रोजगार पत्र'],
+        ta: ['அடையாளச் சான்று (ஆதார்/PAN/பாஸ்போர்ட்)', 'முகவரிச் சான்று (சமீபத்திய பில்கள்)', 'வங்கி அறிக்கைகள் (கடந்த 6 மாதங்கள்)', 'வருமானச் சான்று (சம்பளச் சீட்டு/IT ரிட்டர்ன்)', 'வேலை நியமனக் கடிதம்'],
       },
       home: {
         en: ['All of Personal + Property documents', 'Property papers', 'Property valuation report', 'NOC from society', 'Insurance certificate'],
         hi: ['सभी व्यक्तिगत दस्तावेज + संपत्ति दस्तावेज', 'संपत्ति के कागज', 'संपत्ति मूल्यांकन रिपोर्ट'],
+        ta: ['தனிநபர் கடன் ஆவணங்கள் அனைத்தும் + சொத்து ஆவணங்கள்', 'சொத்துப் பத்திரங்கள்', 'சொத்து மதிப்பீட்டு அறிக்கை', 'சங்கத்திடமிருந்து NOC', 'காப்பீட்டுச் சான்றிதழ்'],
       },
     };
 
-    const docList = documents[loanType as keyof typeof documents]?.[language as 'en' | 'hi'] || documents.personal[language as 'en' | 'hi'];
+    const docList = documents[loanType]?.[language] || documents.personal[language];
 
-    const title = language === 'en' ? '📋 REQUIRED DOCUMENTS' : '📋 आवश्यक दस्तावेज';
+    const title = { en: '📋 REQUIRED DOCUMENTS', hi: '📋 आवश्यक दस्तावेज', ta: '📋 தேவையான ஆவணங்கள்' }[language];
     return `${title}\n\n${docList.map((doc, i) => `${i + 1}. ${doc}`).join('\n')}`;
   }
 }
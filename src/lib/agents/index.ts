@@ -8,3 +8,6 @@ export { EligibilityAgent, getEligibilityAgent } from './eligibilityAgent';
 export { FinanceAdvisorAgent, getFinanceAdvisorAgent } from './financeAdvisorAgent';
 export { ChatbotOrchestrator, getChatbotOrchestrator, resetChatbotOrchestrator } from './orchestrator';
 export { extractFinancialData, getMissingCoreFields, getQuestionForField } from './dataExtractionAgent';
+export { assumeProfile, estimateConfidence, nextEligibilityField, pendingQuestions } from './eligibilityPlanner';
+export { detectSlotCorrections, isProfileSummaryRequest } from './slotCorrection';
+export { normalizeIndicText, normalizeNumbers } from './indicText';
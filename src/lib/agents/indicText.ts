@@ -0,0 +1,192 @@
+/**
+ * Indic Text - normalises Hindi, Tamil and code-mixed input for extraction
+ *
+ * The extraction patterns are written against English. Before matching, a
+ * message goes through three steps:
+ *   1. Devanagari (०-९) and Tamil (௦-௯) digits become ASCII digits
+ *   2. number phrases become plain numbers: "45 hazaar" → 45000,
+ *      "पचास हज़ार" → 50000, "5 லட்சம்" → 500000, "डेढ़ लाख" → 150000
+ *   3. common Hindi/Tamil/Hinglish/Tanglish keywords map to the English word
+ *      the patterns expect: "सैलरी" / "sambalam" → income, "கடன்" → loan
+ */
+
+/** Letters or combining marks, so boundaries work for Devanagari and Tamil too */
+const WORD_CHAR = String.raw`[\p{L}\p{M}\d]`;
+
+const DIGIT_BLOCKS = [0x0966, 0x0be6]; // Devanagari, Tamil
+
+export function normalizeDigits(text: string): string {
+  return text.replace(/[०-९௦-௯]/g, (ch) => {
+    const code = ch.charCodeAt(0);
+    const base = DIGIT_BLOCKS.find((start) => code >= start && code <= start + 9)!;
+    return String(code - base);
+  });
+}
+
+// ── Number words ──────────────────────────────────────────────
+
+/** Words that are only numbers in Devanagari or Tamil script, so always safe to convert */
+const SCRIPT_NUMBERS: Record<string, number> = {
+  एक: 1, दो: 2, तीन: 3, चार: 4, पाँच: 5, पांच: 5, छह: 6, छः: 6, सात: 7, आठ: 8, नौ: 9, दस: 10,
+  ग्यारह: 11, बारह: 12, पंद्रह: 15, बीस: 20, पच्चीस: 25, तीस: 30, पैंतीस: 35, चालीस: 40, पैंतालीस: 45,
+  पचास: 50, पचपन: 55, साठ: 60, पैंसठ: 65, सत्तर: 70, पचहत्तर: 75, अस्सी: 80, नब्बे: 90,
+  ஒன்று: 1, ஒரு: 1, இரண்டு: 2, மூன்று: 3, நான்கு: 4, ஐந்து: 5, ஆறு: 6, ஏழு: 7, எட்டு: 8, ஒன்பது: 9, பத்து: 10,
+  இருபது: 20, முப்பது: 30, நாற்பது: 40, ஐம்பது: 50, அறுபது: 60, எழுபது: 70, எண்பது: 80, தொண்ணூறு: 90,
+};
+
+/** Romanised number words; several are also English words ("do", "teen"), so they only count next to a scale word */
+const ROMAN_NUMBERS: Record<string, number> = {
+  ek: 1, do: 2, teen: 3, char: 4, chaar: 4, paanch: 5, panch: 5, chhe: 6, saat: 7, aath: 8, nau: 9, das: 10,
+  bees: 20, pachees: 25, tees: 30, chalis: 40, chaalis: 40, pachas: 50, pachaas: 50, saath: 60, sattar: 70, assi: 80, nabbe: 90,
+  onnu: 1, oru: 1, rendu: 2, moonu: 3, naalu: 4, anju: 5, aaru: 6, ezhu: 7, ettu: 8, onbadhu: 9, pathu: 10,
+  irubathu: 20, muppathu: 30, naarpathu: 40, aimbathu: 50, ambathu: 50, arubathu: 60, ezhubathu: 70, enbathu: 80,
+};
+
+/** Fractions that stand in for a number: डेढ़ लाख = 1.5 lakh */
+const FRACTIONS: Record<string, number> = { डेढ़: 1.5, डेढ: 1.5, dedh: 1.5, ढाई: 2.5, dhai: 2.5, adha: 0.5, आधा: 0.5 };
+/** "साढ़े तीन" = 3.5 */
+const PLUS_HALF = new Set(['साढ़े', 'साढे', 'sadhe', 'saadhe']);
+
+const HUNDRED = /^(sau|सौ|நூறு|நூற்று|nooru)$/;
+
+/** Scale words, with Tamil inflections (லட்சத்து, ஆயிரத்தில்) matched by prefix */
+function scaleOf(word: string): number | null {
+  if (/^(k|thousand|hazaa?r|hajaa?r|हज़ार|हजार|aayiram|ayiram)$/.test(word) || word.startsWith('ஆயிர')) return 1000;
+  if (/^(lakhs?|lacs?|laakh|लाख|latcham|lakham)$/.test(word) || word.startsWith('லட்ச')) return 100000;
+  if (/^(crores?|cr|करोड़|करोड|kodi)$/.test(word) || word.startsWith('கோடி')) return 10000000;
+  return null;
+}
+
+type NumberToken =
+  | { kind: 'value'; value: number; script: boolean }
+  | { kind: 'hundred' }
+  | { kind: 'scale'; value: number }
+  | { kind: 'plusHalf' };
+
+function classify(word: string): NumberToken | null {
+  const lower = word.toLowerCase();
+  if (/^\d[\d,]*(\.\d+)?$/.test(lower)) return { kind: 'value', value: parseFloat(lower.replace(/,/g, '')), script: true };
+  if (lower in SCRIPT_NUMBERS) return { kind: 'value', value: SCRIPT_NUMBERS[lower], script: true };
+  if (lower in FRACTIONS) return { kind: 'value', value: FRACTIONS[lower], script: !/^[a-z]+$/.test(lower) };
+  if (lower in ROMAN_NUMBERS) return { kind: 'value', value: ROMAN_NUMBERS[lower], script: false };
+  if (HUNDRED.test(lower)) return { kind: 'hundred' };
+  if (PLUS_HALF.has(lower)) return { kind: 'plusHalf' };
+  const scale = scaleOf(lower);
+  return scale ? { kind: 'scale', value: scale } : null;
+}
+
+/** Value of a run of number tokens, or null if it shouldn't be converted */
+function evaluateRun(run: NumberToken[]): number | null {
+  const hasMultiplier = run.some((t) => t.kind === 'scale' || t.kind === 'hundred');
+  const onlyScriptValues = run.every((t) => t.kind !== 'value' || t.script);
+  if (!hasMultiplier && !onlyScriptValues) return null;
+  if (!run.some((t) => t.kind === 'value' || t.kind === 'hundred')) return null;
+
+  let total = 0;
+  let current = 0;
+  let half = false;
+  for (const token of run) {
+    if (token.kind === 'plusHalf') half = true;
+    else if (token.kind === 'value') {
+      current += token.value + (half ? 0.5 : 0);
+      half = false;
+    } else if (token.kind === 'hundred') current = (current || 1) * 100;
+    else {
+      total += (current || 1) * token.value;
+      current = 0;
+    }
+  }
+  return Math.round((total + current) * 100) / 100;
+}
+
+/**
+ * Replace number phrases with digits. Digits glued to words ("45k",
+ * "5லட்சம்") are split first; plain digit runs are left as they are.
+ */
+export function normalizeNumbers(text: string): string {
+  const spaced = normalizeDigits(text).replace(/(\d)(?=[^\d\s.,%/-])/gu, '$1 ');
+  const parts = spaced.split(/(\s+)/);
+  const out: string[] = [];
+  let run: NumberToken[] = [];
+  let runText: string[] = [];
+
+  const flush = () => {
+    if (runText.length === 0) return;
+    const value = run.length > 1 || run[0].kind !== 'value' ? evaluateRun(run) : null;
+    const single = run.length === 1 && run[0].kind === 'value' && run[0].script ? String(run[0].value) : null;
+    out.push(value !== null ? String(value) : single ?? runText.join(''));
+    run = [];
+    runText = [];
+  };
+
+  for (const part of parts) {
+    if (/^\s+$/.test(part)) {
+      if (runText.length > 0) runText.push(part);
+      else out.push(part);
+      continue;
+    }
+    // Keep trailing punctuation ("हज़ार," / "lakh.") outside the number
+    const [, word, punct] = part.match(/^(.*?)([.,!?;:)]*)$/u)!;
+    const token = word ? classify(word) : null;
+    if (token) {
+      run.push(token);
+      runText.push(word);
+      if (punct) {
+        flush();
+        out.push(punct);
+      }
+    } else {
+      const trailingSpace = runText.length > 0 && /^\s+$/.test(runText[runText.length - 1]) ? runText.pop()! : '';
+      flush();
+      out.push(trailingSpace, part);
+    }
+  }
+  const trailingSpace = runText.length > 0 && /^\s+$/.test(runText[runText.length - 1]) ? runText.pop()! : '';
+  flush();
+  out.push(trailingSpace);
+  return out.join('');
+}
+
+// ── Keywords ──────────────────────────────────────────────────
+
+/** [alternatives, English replacement]; Tamil stems take any case suffix */
+const KEYWORDS: [string, string][] = [
+  ['सरकारी नौकरी|sarkari naukri|அரசு வேலை|arasu velai', 'government job'],
+  ['सैलरी|तनख्वाह|तनख़्वाह|वेतन|आमदनी|आय|कमाई|कमाता|कमाती|tankhwah|tankhah|kamai|kamata|kamati|aamdani|சம்பள[\\p{L}\\p{M}]*|வருமான[\\p{L}\\p{M}]*|sambalam|varumanam', 'income'],
+  ['लोन|ऋण|क़र्ज़|कर्ज़|कर्ज|karz|karza|கடன்[\\p{L}\\p{M}]*|லோன்[\\p{L}\\p{M}]*|kadan', 'loan'],
+  ['सिबिल|क्रेडिट स्कोर|சிபில்[\\p{L}\\p{M}]*|கிரெடிட் ஸ்கோர்[\\p{L}\\p{M}]*', 'cibil'],
+  ['उम्र|उमर|umar|umr|வயது|வயசு|vayasu|vayadhu', 'age'],
+  ['ईएमआई|ஈஎம்ஐ', 'emi'],
+  ['चल रहे|चल रही|चल रहा|chal rahe|chal rahi|chal raha|ஏற்கனவே|erkanave', 'existing'],
+  ['बचत|bachat|சேமிப்பு[\\p{L}\\p{M}]*|semippu', 'savings'],
+  ['खर्चा|खर्च|kharcha|kharch|செலவு[\\p{L}\\p{M}]*|selavu', 'expenses'],
+  ['महीने|महीना|mahine|mahina|மாத[\\p{L}\\p{M}]*|maadham|masam', 'months'],
+  ['साल|saal|வருட[\\p{L}\\p{M}]*|ஆண்டு[\\p{L}\\p{M}]*|varusham', 'years'],
+  ['अनुभव|anubhav|அனுபவ[\\p{L}\\p{M}]*', 'experience'],
+  ['नौकरी|naukri|வேலை|velai', 'salaried job'],
+  ['व्यापार|व्यवसाय|धंधा|vyapar|dhandha|தொழில்[\\p{L}\\p{M}]*|வியாபார[\\p{L}\\p{M}]*', 'business'],
+  ['चाहिए|chahiye|chahie|வேண்டும்|வேணும்|venum|vendum', 'need'],
+  ['पर्सनल|பர்சனல்', 'personal'],
+  ['होम|घर|ghar|வீடு|வீட்டு[\\p{L}\\p{M}]*|veedu|veetu', 'home'],
+  ['पढ़ाई|शिक्षा|padhai|கல்வி|படிப்பு', 'education'],
+  ['गाड़ी|कार|gaadi|gadi|கார்|வண்டி|vandi', 'car'],
+  ['रुपये|रुपए|रुपया|ரூபாய்|rupaye|rupay', 'rupees'],
+];
+
+const KEYWORD_PATTERNS = KEYWORDS.map(
+  ([alternatives, english]) => [new RegExp(`(?<!${WORD_CHAR})(?:${alternatives})(?!${WORD_CHAR})`, 'giu'), english] as const,
+);
+
+/** Hindi postpositions between a purpose and "loan": "ghar ke liye loan", "कार का लोन" */
+const PURPOSE_LINK = /\b(home|car|education|business)\s+(?:ke\s+liye|ka|ki|ke|के\s+लिए|का|की|के|க்கு)\s+(?=loan\b)/giu;
+
+export function canonicalizeKeywords(text: string): string {
+  let out = text;
+  for (const [pattern, english] of KEYWORD_PATTERNS) out = out.replace(pattern, english);
+  return out.replace(PURPOSE_LINK, '$1 ');
+}
+
+/** Full pipeline used before English pattern matching */
+export function normalizeIndicText(text: string): string {
+  return canonicalizeKeywords(normalizeNumbers(text));
+}
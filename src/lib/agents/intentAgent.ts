@@ -179,7 +179,7 @@ export class IntentAgent {
     // 2. Check for ELIGIBILITY ONLY when explicitly asked
     if (message.includes('eligible') || message.includes('qualify') || message.includes('can i get') || 
         message.includes('will i get') || message.includes('am i eligible') || message.includes('check eligibility') ||
-        message.includes('eligibility')) {
+        message.includes('eligibility') || /पात्रता|योग्य|தகுதி/.test(message)) {
       return {
         intent: 'eligibility_check',
         confidence: 0.9,
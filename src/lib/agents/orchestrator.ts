@@ -19,9 +19,27 @@
 import { getIntentAgent } from './intentAgent';
 import { getEligibilityAgent } from './eligibilityAgent';
 import { getConversationMemory } from './conversationMemory';
-import { extractFinancialData, getMissingCoreFields, getQuestionForField } from './dataExtractionAgent';
+import { extractFinancialData, getQuestionForField } from './dataExtractionAgent';
+import {
+  ELIGIBILITY_FIELDS,
+  assumeProfile,
+  coApplicantsFor,
+  describeAssumption,
+  estimateConfidence,
+  fieldLabel,
+  formatFieldValue,
+  nextEligibilityField,
+  parseSpecialAnswer,
+  pendingQuestions,
+  type EligibilityConfidence,
+} from './eligibilityPlanner';
+import { detectSlotCorrections, isProfileSummaryRequest, type SlotCorrection } from './slotCorrection';
+import { normalizeNumbers } from './indicText';
+import { localReplyLanguage, type Language, type LocalReplyLanguage } from '@/i18n/languages';
 import { streamChatResponse, type ChatMessage } from '@/lib/chatService';
 import { calculateLoanResult } from '@/utils/loanCalculator';
+import { fetchLenderCatalog } from '@/lib/lenderCatalog';
+import { BASE_ANNUAL_RATE, scoreProfile } from '@/lib/scoring';
 import type { LoanFormData } from '@/types/loan';
 
 export interface OrchestrationResult {
@@ -54,31 +72,38 @@ export class ChatbotOrchestrator {
    */
   async processMessage(
     userMessage: string,
-    language: 'en' | 'hi' | 'ta' = 'en',
+    language: Language = 'en',
     onToken?: StreamCallback,
     onDone?: DoneCallback,
   ): Promise<OrchestrationResult> {
-    const lang = (language === 'ta' ? 'en' : language) as 'en' | 'hi';
+    // Local replies exist in a few languages; the LLM answers in any registered one
+    const lang = localReplyLanguage(language);
     const normalised = userMessage.trim().toLowerCase();
 
     // -- Control commands --
-    if (['exit', 'stop', 'cancel'].includes(normalised)) {
+    if (STOP_COMMANDS.includes(normalised)) {
       this.memory.setContext('inEligibilityFlow', false);
       this.memory.setContext('eligStarted', false);
+      this.memory.setContext('eligCurrentField', undefined);
+      this.memory.setContext('eligSkipped', []);
       return mkLocal(
-        lang === 'en'
-          ? 'Eligibility flow stopped. Ask me anything - EMI, banks, credit score - or say "check eligibility" to restart.'
-          : 'पात्रता प्रक्रिया रोक दी गई है। कुछ भी पूछें या "check eligibility" लिखें।',
+        pick(lang, {
+          en: 'Eligibility flow stopped. Ask me anything - EMI, banks, credit score - or say "check eligibility" to restart.',
+          hi: 'पात्रता प्रक्रिया रोक दी गई है। कुछ भी पूछें या "check eligibility" लिखें।',
+          ta: 'தகுதிச் சரிபார்ப்பு நிறுத்தப்பட்டது. EMI, வங்கிகள், கிரெடிட் ஸ்கோர் - எதையும் கேளுங்கள், அல்லது மீண்டும் தொடங்க "check eligibility" என்று எழுதுங்கள்.',
+        }),
         'general',
         { intent: 'general_chat' },
       );
     }
-    if (['reset', 'start over', 'restart'].includes(normalised)) {
+    if (RESET_COMMANDS.includes(normalised)) {
       this.memory.reset();
       return mkLocal(
-        lang === 'en'
-          ? 'Session reset. Tell me what you need - e.g. "I need a loan of 5 lakh".'
-          : 'सत्र रीसेट। बताएं क्या चाहिए - जैसे "मुझे 5 लाख का लोन चाहिए"।',
+        pick(lang, {
+          en: 'Session reset. Tell me what you need - e.g. "I need a loan of 5 lakh".',
+          hi: 'सत्र रीसेट। बताएं क्या चाहिए - जैसे "मुझे 5 लाख का लोन चाहिए"।',
+          ta: 'அமர்வு மீட்டமைக்கப்பட்டது. உங்களுக்கு என்ன வேண்டும் என்று சொல்லுங்கள் - எ.கா. "எனக்கு 5 லட்சம் கடன் வேண்டும்".',
+        }),
         'general',
         { intent: 'general_chat' },
       );
@@ -87,6 +112,19 @@ export class ChatbotOrchestrator {
     // -- Memory --
     this.memory.addMessage('user', userMessage);
 
+    // -- Profile summary / corrections to earlier answers --
+    if (isProfileSummaryRequest(userMessage)) {
+      return this.summarizeProfile(lang);
+    }
+    const corrections = detectSlotCorrections(normalizeNumbers(userMessage), this.memory.getCollectedData());
+    if (corrections.length > 0) {
+      // New facts in the same message ("salary is 50k and I have 2 loans") go in with the edits
+      const extra = Object.entries(extractFinancialData(userMessage).extracted)
+        .filter(([field]) => !corrections.some((c) => c.field === field))
+        .map(([field, value]) => ({ field, value }) as SlotCorrection);
+      return this.applyCorrections([...corrections, ...extra], lang);
+    }
+
     // -- Extract data from the message --
     const extraction = extractFinancialData(userMessage);
     if (Object.keys(extraction.extracted).length > 0) {
@@ -114,7 +152,7 @@ export class ChatbotOrchestrator {
     }
 
     if (intent.intent === 'emi_calculation') {
-      const entities = this.extractEntities(userMessage);
+      const entities = this.extractEntities(normalizeNumbers(userMessage));
       if (entities.loanAmount) {
         return this.localEMICalc(entities, lang);
       }
@@ -128,128 +166,240 @@ export class ChatbotOrchestrator {
   //  ELIGIBILITY FLOW  (fully local, no LLM)
   // -----------------------------------------------
 
-  private async handleEligibilityFlow(userMessage: string, lang: 'en' | 'hi'): Promise<OrchestrationResult> {
+  private async handleEligibilityFlow(userMessage: string, lang: LocalReplyLanguage): Promise<OrchestrationResult> {
     const collected = this.memory.getCollectedData();
+    const skipped: (keyof LoanFormData)[] = this.memory.getContext('eligSkipped') ?? [];
 
-    // If this is the very first entry into the flow, return intro + first missing field
+    // If this is the very first entry into the flow, return intro + first question
     if (!this.memory.getContext('eligStarted')) {
       this.memory.setContext('eligStarted', true);
-      const missing = getMissingCoreFields(collected);
-      if (missing.length === 0) {
+      this.memory.setContext('eligSkipped', []);
+      const next = nextEligibilityField(collected);
+      if (!next) {
         return this.finishEligibility(lang);
       }
-      const intro = lang === 'en'
-        ? '🎯 **Instant Loan Eligibility Check**\n\nI\'ll ask a few quick questions and predict your approval chances.\n\n'
-        : '🎯 **तुरंत ऋण पात्रता जांच**\n\nकुछ सवाल पूछकर मैं आपकी स्वीकृति संभावना बताऊंगा।\n\n';
+      const intro = pick(lang, {
+        en: '🎯 **Instant Loan Eligibility Check**\n\nI\'ll only ask what changes your result. Say **skip** if you don\'t know an answer, or **show result** any time.\n\n',
+        hi: '🎯 **तुरंत ऋण पात्रता जांच**\n\nमैं सिर्फ वही पूछूंगा जो नतीजे पर असर डालता है। जवाब न पता हो तो **skip** लिखें, या कभी भी **show result** लिखें।\n\n',
+        ta: '🎯 **உடனடி கடன் தகுதிச் சரிபார்ப்பு**\n\nஉங்கள் முடிவை மாற்றும் கேள்விகளை மட்டுமே கேட்பேன். பதில் தெரியவில்லை என்றால் **skip** என்றும், எப்போது வேண்டுமானாலும் **show result** என்றும் எழுதுங்கள்.\n\n',
+      });
+      return this.askEligibilityField(next, collected, [], lang, intro);
+    }
 
-      const total = 7;
-      const answered = total - missing.length;
-      const progress = `⏳ Progress: ${answered}/${total}\n\n`;
-      return mkLocal(
-        intro + progress + getQuestionForField(missing[0], lang),
-        'eligibility',
-        { intent: 'eligibility_check', step: missing[0] },
-      );
+    if (FINISH_COMMANDS.includes(userMessage.trim().toLowerCase())) {
+      return this.finishEligibility(lang);
     }
 
-    // -- Parse user's answer for the current missing field --
-    const missingBefore = getMissingCoreFields(collected);
-    const currentField = missingBefore[0];
+    const currentField: keyof LoanFormData | undefined = this.memory.getContext('eligCurrentField');
 
-    if (currentField) {
-      const parsed = this.eligibilityAgent.parseInput(currentField, userMessage);
-      const validation = this.eligibilityAgent.validateField(currentField, parsed);
+    if (currentField && SKIP_PATTERN.test(userMessage.trim())) {
+      const nowSkipped = [...skipped, currentField];
+      this.memory.setContext('eligSkipped', nowSkipped);
+      const next = nextEligibilityField(collected, nowSkipped);
+      if (!next) {
+        return this.finishEligibility(lang);
+      }
+      const { data } = assumeProfile(collected);
+      const confidence = estimateConfidence(collected);
+      const assumption = describeAssumption(currentField, data, lang);
+      const note = pick(lang, {
+        en: `⏭️ Skipped - I'll assume ${assumption}.\n`,
+        hi: `⏭️ छोड़ दिया - मैं मानूंगा ${assumption}।\n`,
+        ta: `⏭️ தவிர்க்கப்பட்டது - ${assumption} என எடுத்துக்கொள்கிறேன்.\n`,
+      }) + confidenceLine(confidence, lang) + '\n\n';
+      return this.askEligibilityField(next, collected, nowSkipped, lang, note);
+    }
+
+    // -- Parse the answer, unless extraction already filled the field from this message --
+    if (currentField && collected[currentField] == null) {
+      const answer = normalizeNumbers(userMessage);
+      const special = parseSpecialAnswer(currentField, answer);
+      const parsed = special !== undefined ? special : this.eligibilityAgent.parseInput(currentField, answer);
+      const validation = this.eligibilityAgent.validateField(currentField, parsed, lang);
       if (!validation.valid) {
+        const error = validation.error || pick(lang, { en: 'Invalid answer', hi: 'अमान्य उत्तर', ta: 'தவறான பதில்' });
         return mkLocal(
-          (lang === 'en'
-            ? `❌ ${validation.error || 'Invalid answer'}\n\n`
-            : `❌ ${validation.error || 'अमान्य उत्तर'}\n\n`)
+          pick(lang, {
+            en: `❌ ${error} *(or say "skip")*\n\n`,
+            hi: `❌ ${error} *(या "skip" लिखें)*\n\n`,
+            ta: `❌ ${error} *(அல்லது "skip" என்று எழுதுங்கள்)*\n\n`,
+          })
           + getQuestionForField(currentField, lang),
           'eligibility',
           { intent: 'eligibility_check', error: true },
         );
       }
-      this.memory.updateCollectedData({ [currentField]: parsed } as any);
+      const value = currentField === 'co_applicants'
+        ? coApplicantsFor(assumeProfile(collected).data, parsed as number)
+        : parsed;
+      this.memory.updateCollectedData({ [currentField]: value } as Partial<LoanFormData>);
     }
 
-    // Check remaining
     const updatedCollected = this.memory.getCollectedData();
-    const missingAfter = getMissingCoreFields(updatedCollected);
-
-    if (missingAfter.length === 0) {
+    const next = nextEligibilityField(updatedCollected, skipped);
+    if (!next) {
       return this.finishEligibility(lang);
     }
+    return this.askEligibilityField(next, updatedCollected, skipped, lang);
+  }
 
-    const total = 7;
-    const answered = total - missingAfter.length;
-    const progress = `⏳ Progress: ${answered}/${total}\n\n`;
+  /** Question for `field`, with progress over the questions still worth asking */
+  private askEligibilityField(
+    field: keyof LoanFormData,
+    collected: Partial<LoanFormData>,
+    skipped: (keyof LoanFormData)[],
+    lang: LocalReplyLanguage,
+    prefix = '',
+  ): OrchestrationResult {
+    this.memory.setContext('eligCurrentField', field);
+    const remaining = pendingQuestions(collected, skipped).length;
+    const answered = ELIGIBILITY_FIELDS.filter((f) => collected[f] != null).length;
+    const progress = `⏳ ${pick(lang, { en: 'Progress', hi: 'प्रगति', ta: 'முன்னேற்றம்' })}: ${answered}/${answered + remaining}\n\n`;
     return mkLocal(
-      progress + getQuestionForField(missingAfter[0], lang),
+      prefix + progress + getQuestionForField(field, lang),
       'eligibility',
-      { intent: 'eligibility_check', step: missingAfter[0], collectedFields: updatedCollected },
+      { intent: 'eligibility_check', step: field, collectedFields: collected },
     );
   }
 
-  private finishEligibility(lang: 'en' | 'hi'): OrchestrationResult {
-    this.memory.setContext('inEligibilityFlow', false);
-    this.memory.setContext('eligStarted', false);
+  // -----------------------------------------------
+  //  CORRECTIONS & PROFILE SUMMARY
+  // -----------------------------------------------
 
+  private async applyCorrections(corrections: SlotCorrection[], lang: LocalReplyLanguage): Promise<OrchestrationResult> {
+    const before = this.memory.getCollectedData();
+    for (const { field, value } of corrections) {
+      const validation = this.eligibilityAgent.validateField(field, value, lang);
+      if (!validation.valid) {
+        return mkLocal(
+          `❌ ${fieldLabel(field, lang)}: ${validation.error || pick(lang, { en: 'Invalid value', hi: 'अमान्य वैल्यू', ta: 'தவறான மதிப்பு' })}`,
+          this.memory.isInEligibilityFlow() ? 'eligibility' : 'general',
+          { intent: 'slot_correction', error: true },
+        );
+      }
+    }
+
+    this.memory.updateCollectedData(Object.fromEntries(corrections.map((c) => [c.field, c.value])) as Partial<LoanFormData>);
+    // A stated co-borrower income moves with the co-borrower (and is dropped for "None")
+    if (before.co_applicants?.length && corrections.some((c) => c.field === 'co_borrower')) {
+      const income = before.co_applicants.reduce((sum, m) => sum + m.monthly_income, 0);
+      this.memory.updateCollectedData({ co_applicants: coApplicantsFor(assumeProfile(this.memory.getCollectedData()).data, income) });
+    }
+    const changes = corrections
+      .map(({ field, value }) => {
+        const old = before[field];
+        const from = old != null && old !== value ? `${formatFieldValue(field, old, lang)} → ` : '';
+        return `• ${fieldLabel(field, lang)}: ${from}${formatFieldValue(field, value, lang)}`;
+      })
+      .join('\n');
+    const note = pick(lang, { en: '✏️ **Updated:**\n', hi: '✏️ **अपडेट किया:**\n', ta: '✏️ **புதுப்பிக்கப்பட்டது:**\n' }) + changes + '\n\n';
     const collected = this.memory.getCollectedData();
 
-    const fullData: LoanFormData = {
-      age: collected.age ?? 30,
-      gender: collected.gender ?? 'Male',
-      marital_status: collected.marital_status ?? 'Single',
-      family_members: collected.family_members ?? 1,
-      dependent_children: collected.dependent_children ?? 0,
-      location_city: collected.location_city ?? '',
-      location_state: collected.location_state ?? '',
-      education: collected.education ?? 'Graduate',
-      job_type: collected.job_type ?? 'Salaried',
-      employer_name: collected.employer_name ?? '',
-      years_experience: collected.years_experience ?? 2,
-      monthly_income: collected.monthly_income ?? 30000,
-      income_stability: collected.income_stability ?? 'Stable',
-      secondary_income: collected.secondary_income ?? false,
-      monthly_savings: collected.monthly_savings ?? Math.round((collected.monthly_income ?? 30000) * 0.15),
-      monthly_rent: collected.monthly_rent ?? 0,
-      existing_loans: collected.existing_loans ?? 0,
-      total_monthly_expenses: collected.total_monthly_expenses ?? Math.round((collected.monthly_income ?? 30000) * 0.5),
-      credit_score: collected.credit_score ?? 650,
-      bank_balance: collected.bank_balance ?? Math.round((collected.monthly_income ?? 30000) * 2),
-      has_investments: collected.has_investments ?? false,
-      owns_house: collected.owns_house ?? false,
-      owns_car: collected.owns_car ?? false,
-      car_year: collected.car_year ?? 2020,
-      property_value: collected.property_value ?? 0,
-      has_health_insurance: collected.has_health_insurance ?? false,
-      has_life_insurance: collected.has_life_insurance ?? false,
-      has_vehicle_insurance: collected.has_vehicle_insurance ?? false,
-      loan_amount: collected.loan_amount ?? 500000,
-      loan_purpose: collected.loan_purpose ?? 'Personal',
-      co_borrower: collected.co_borrower ?? 'None',
-      loan_tenure: collected.loan_tenure ?? 60,
-      has_collateral: collected.has_collateral ?? false,
-    };
+    // Mid-flow: carry on with whatever is still worth asking
+    if (this.memory.isInEligibilityFlow() && this.memory.getContext('eligStarted')) {
+      const skipped: (keyof LoanFormData)[] = this.memory.getContext('eligSkipped') ?? [];
+      const next = nextEligibilityField(collected, skipped);
+      if (!next) {
+        return this.finishEligibility(lang, note);
+      }
+      return this.askEligibilityField(next, collected, skipped, lang, note);
+    }
+
+    // After a report: recompute it with the corrected values
+    if (this.memory.getContext('eligReported')) {
+      const recalculated = pick(lang, {
+        en: '🔄 Recalculated with your changes.\n\n',
+        hi: '🔄 आपके बदलावों के साथ फिर से गणना की गई।\n\n',
+        ta: '🔄 உங்கள் மாற்றங்களுடன் மீண்டும் கணக்கிடப்பட்டது.\n\n',
+      });
+      return this.finishEligibility(lang, note + recalculated);
+    }
+
+    return mkLocal(
+      note + pick(lang, {
+        en: 'Say **check eligibility** whenever you want a report with these details.',
+        hi: 'इन विवरणों के साथ रिपोर्ट के लिए **check eligibility** लिखें।',
+        ta: 'இந்த விவரங்களுடன் அறிக்கை வேண்டுமானால் **check eligibility** என்று எழுதுங்கள்.',
+      }),
+      'general',
+      { intent: 'slot_correction', collectedFields: collected },
+    );
+  }
 
-    const result = calculateLoanResult(fullData);
+  private summarizeProfile(lang: LocalReplyLanguage): OrchestrationResult {
+    const collected = this.memory.getCollectedData();
+    const known = (Object.keys(collected) as (keyof LoanFormData)[]).filter((f) => collected[f] != null && collected[f] !== '');
+    const inFlow = this.memory.isInEligibilityFlow() && this.memory.getContext('eligStarted');
+    const currentField: keyof LoanFormData | undefined = this.memory.getContext('eligCurrentField');
+
+    let response: string;
+    if (known.length === 0) {
+      response = pick(lang, {
+        en: "🗂️ I don't know anything about you yet. Say **check eligibility** to get started.",
+        hi: '🗂️ अभी मेरे पास आपकी कोई जानकारी नहीं है। शुरू करने के लिए **check eligibility** लिखें।',
+        ta: '🗂️ உங்களைப் பற்றி இன்னும் எதுவும் தெரியாது. தொடங்க **check eligibility** என்று எழுதுங்கள்.',
+      });
+    } else {
+      const assumed = assumeProfile(collected).assumed;
+      response = pick(lang, { en: '🗂️ **What you have told me:**\n', hi: '🗂️ **आपने मुझे बताया है:**\n', ta: '🗂️ **நீங்கள் சொன்னவை:**\n' })
+        + known.map((f) => `• ${fieldLabel(f, lang)}: ${formatFieldValue(f, collected[f], lang)}`).join('\n')
+        + (assumed.length > 0
+          ? pick(lang, { en: '\n\n📝 **Still assumed:** ', hi: '\n\n📝 **अभी मानी गई:** ', ta: '\n\n📝 **இன்னும் ஊகிக்கப்பட்டவை:** ' })
+            + assumed.map((f) => fieldLabel(f, lang)).join(', ')
+          : '')
+        + pick(lang, {
+          en: '\n\nTo fix anything, just say e.g. *"change income to 60k"* or *"tenure 5 years"*.',
+          hi: '\n\nकुछ बदलना हो तो लिखें, जैसे *"income 60k कर दो"* या *"change tenure to 5 years"*।',
+          ta: '\n\nஏதாவது திருத்த வேண்டுமானால் எழுதுங்கள், எ.கா. *"change income to 60k"* அல்லது *"tenure 5 years"*.',
+        });
+    }
+    if (inFlow && currentField) {
+      response += '\n\n' + getQuestionForField(currentField, lang);
+    }
+    return mkLocal(response, inFlow ? 'eligibility' : 'general', { intent: 'profile_summary', collectedFields: collected });
+  }
+
+  private async finishEligibility(lang: LocalReplyLanguage, prefix = ''): Promise<OrchestrationResult> {
+    this.memory.setContext('inEligibilityFlow', false);
+    this.memory.setContext('eligStarted', false);
+    this.memory.setContext('eligCurrentField', undefined);
+    this.memory.setContext('eligSkipped', []);
+    this.memory.setContext('eligReported', true);
+
+    const collected = this.memory.getCollectedData();
+    const { data: fullData, assumed } = assumeProfile(collected);
+    const confidence = estimateConfidence(collected);
+    const assumedList = assumed.length > 0
+      ? pick(lang, {
+        en: '📝 **Assumed values** (tell me the real ones to sharpen the estimate):\n',
+        hi: '📝 **मानी गई वैल्यू** (सही जानकारी दें तो अनुमान बेहतर होगा):\n',
+        ta: '📝 **ஊகிக்கப்பட்ட மதிப்புகள்** (உண்மையான விவரங்களைச் சொன்னால் மதிப்பீடு துல்லியமாகும்):\n',
+      })
+        + assumed.map((f) => `• ${describeAssumption(f, fullData, lang)}`).join('\n')
+      : '';
+
+    const result = calculateLoanResult(fullData, await fetchLenderCatalog());
+    const score = scoreProfile(fullData);
     const prob = result.approvalProbability;
-    const status = prob >= 70 ? (lang === 'en' ? 'HIGHLY ELIGIBLE' : 'अत्यधिक पात्र')
-      : prob >= 50 ? (lang === 'en' ? 'MODERATELY ELIGIBLE' : 'मध्यम पात्र')
-      : (lang === 'en' ? 'LOW ELIGIBILITY' : 'कम पात्रता');
+    const status = prob >= 70 ? pick(lang, { en: 'HIGHLY ELIGIBLE', hi: 'अत्यधिक पात्र', ta: 'அதிக தகுதி' })
+      : prob >= 50 ? pick(lang, { en: 'MODERATELY ELIGIBLE', hi: 'मध्यम पात्र', ta: 'மிதமான தகுதி' })
+      : pick(lang, { en: 'LOW ELIGIBILITY', hi: 'कम पात्रता', ta: 'குறைந்த தகுதி' });
+    const topBanks = result.recommendedBanks.slice(0, 3).map(b => b.name).join(', ');
+    const tip = result.factors.find(f => f.level === 'high')?.improvement;
 
-    const emi = this.calcEMI(fullData.loan_amount, 0.09 / 12, fullData.loan_tenure);
+    const emi = score.emi;
 
-    const response = lang === 'en'
-      ? `✅ **Your Instant Eligibility Report**
+    const response = pick(lang, {
+      en: `✅ **Your Instant Eligibility Report**
 
 📊 **Approval Probability:** ${prob}%
 🎯 **Status:** ${status}
 🔰 **Risk Level:** ${result.riskCategory}
+${confidenceLine(confidence, lang)}
 
 💰 **Loan Summary:**
 • Loan Amount: ₹${fmt(fullData.loan_amount)}
-• Monthly EMI: ₹${fmt(emi)} (at ~9%)
+• Monthly EMI: ₹${fmt(emi)} (at ~${BASE_ANNUAL_RATE}%)
 • Tenure: ${fullData.loan_tenure} months
 
 👤 **Your Profile:**
@@ -260,31 +410,60 @@ export class ChatbotOrchestrator {
 
 ${result.factors.length > 0 ? '📋 **Key Factors:**\n' + result.factors.slice(0, 4).map(f => `• ${f.name}: ${f.description}`).join('\n') : ''}
 
-${prob >= 70 ? '🏦 **Recommended Banks:** ' + result.recommendedBanks.slice(0, 3).map(b => b.name).join(', ') : '🛠️ **Tip:** ' + (result.factors.find(f => f.level === 'high')?.improvement || 'Improve your credit score and reduce existing debt.')}
+${assumedList}
+
+${prob >= 70 ? '🏦 **Recommended Banks:** ' + topBanks : '🛠️ **Tip:** ' + (tip || 'Improve your credit score and reduce existing debt.')}
 
-Would you like a **detailed report** or want to **continue chatting**?`
-      : `✅ **आपकी तुरंत पात्रता रिपोर्ट**
+Would you like a **detailed report** or want to **continue chatting**?`,
+      hi: `✅ **आपकी तुरंत पात्रता रिपोर्ट**
 
 📊 **स्वीकृति संभावना:** ${prob}%
 🎯 **स्थिति:** ${status}
+${confidenceLine(confidence, lang)}
 
 💰 **ऋण सारांश:**
 • ऋण राशि: ₹${fmt(fullData.loan_amount)}
-• मासिक EMI: ₹${fmt(emi)} (लगभग 9%)
+• मासिक EMI: ₹${fmt(emi)} (लगभग ${BASE_ANNUAL_RATE}%)
 
 👤 **प्रोफ़ाइल:**
 • आय: ₹${fmt(fullData.monthly_income)}/महीना
 • क्रेडिट स्कोर: ${fullData.credit_score}
 • रोजगार: ${fullData.job_type}
 
-क्या आप **विस्तृत रिपोर्ट** चाहते हैं या **चैट जारी** रखना चाहते हैं?`;
+${assumedList}
+
+क्या आप **विस्तृत रिपोर्ट** चाहते हैं या **चैट जारी** रखना चाहते हैं?`,
+      ta: `✅ **உங்கள் உடனடி தகுதி அறிக்கை**
+
+📊 **ஒப்புதல் வாய்ப்பு:** ${prob}%
+🎯 **நிலை:** ${status}
+🔰 **அபாய நிலை:** ${result.riskCategory}
+${confidenceLine(confidence, lang)}
+
+💰 **கடன் சுருக்கம்:**
+• கடன் தொகை: ₹${fmt(fullData.loan_amount)}
+• மாத EMI: ₹${fmt(emi)} (சுமார் ${BASE_ANNUAL_RATE}%)
+• காலம்: ${fullData.loan_tenure} மாதங்கள்
+
+👤 **உங்கள் சுயவிவரம்:**
+• வருமானம்: ₹${fmt(fullData.monthly_income)}/மாதம்
+• கிரெடிட் ஸ்கோர்: ${fullData.credit_score}
+• வேலை வகை: ${fullData.job_type}
+• தற்போதைய கடன்கள்: ${fullData.existing_loans}
+
+${assumedList}
+
+${prob >= 70 ? '🏦 **பரிந்துரைக்கப்படும் வங்கிகள்:** ' + topBanks : '🛠️ **ஆலோசனை:** கிரெடிட் ஸ்கோரை உயர்த்தி, தற்போதைய கடன்களைக் குறையுங்கள்.'}
+
+**விரிவான அறிக்கை** வேண்டுமா அல்லது **அரட்டையைத் தொடர** விரும்புகிறீர்களா?`,
+    });
 
     const analysisResult = {
       approval_probability: prob,
       risk_category: result.riskCategory,
-      financial_health_score: Math.round(prob * 0.9),
-      debt_to_income_ratio: fullData.total_monthly_expenses / fullData.monthly_income,
-      emi_affordability: emi < fullData.monthly_income * 0.4 ? 'Good' : emi < fullData.monthly_income * 0.6 ? 'Moderate' : 'Stretched',
+      financial_health_score: score.financialHealthScore,
+      debt_to_income_ratio: score.dti,
+      emi_affordability: score.emiAffordability,
       summary: `Approval probability ${prob}%. ${result.riskCategory} risk.`,
       factors: result.factors,
       eligibility_gaps: [],
@@ -297,18 +476,21 @@ Would you like a **detailed report** or want to **continue chatting**?`
         reasons: prob >= 55 ? ['Profile meets basic criteria'] : ['Consider improving credit score or reducing debt'],
       },
       documents_needed: ['PAN Card', 'Aadhaar Card', 'Salary Slips (3 months)', 'Bank Statements (6 months)', 'Address Proof'],
+      scoring_version: score.version,
     };
 
-    this.memory.addMessage('assistant', response);
+    this.memory.addMessage('assistant', prefix + response);
 
     return {
-      response,
+      response: prefix + response,
       agentType: 'eligibility',
       metadata: {
         intent: 'eligibility_check',
         isEligibilityComplete: true,
         eligibilityReport: analysisResult,
         collectedFields: fullData,
+        assumedFields: assumed,
+        confidence,
         actions: [
           { label: '📄 Get Detailed Report', action: 'detailed_report' },
           { label: '💬 Continue in Chat', action: 'continue_chat' },
@@ -323,7 +505,7 @@ Would you like a **detailed report** or want to **continue chatting**?`
 
   private async streamFromLLM(
     userMessage: string,
-    language: 'en' | 'hi' | 'ta',
+    language: Language,
     onToken?: StreamCallback,
     onDone?: DoneCallback,
     intent?: string,
@@ -348,14 +530,14 @@ Would you like a **detailed report** or want to **continue chatting**?`
           metadata: { intent: intent || 'finance_qa' },
         });
 
-        streamChatResponse(chatMessages, language as 'en' | 'hi' | 'ta', {
+        streamChatResponse(chatMessages, language, {
           onToken: (token) => onToken(token),
           onDone: (fullText) => {
             this.memory.addMessage('assistant', fullText);
             onDone(fullText, { intent: intent || 'finance_qa' });
           },
           onError: (_error) => {
-            const fallback = this.localFallback(userMessage, (language === 'ta' ? 'en' : language) as 'en' | 'hi');
+            const fallback = this.localFallback(userMessage, localReplyLanguage(language));
             this.memory.addMessage('assistant', fallback);
             onDone(fallback, { intent: intent || 'finance_qa', error: true });
           },
@@ -365,7 +547,7 @@ Would you like a **detailed report** or want to **continue chatting**?`
 
     // Non-streaming mode (fallback)
     return new Promise<OrchestrationResult>((resolve) => {
-      streamChatResponse(chatMessages, language as 'en' | 'hi' | 'ta', {
+      streamChatResponse(chatMessages, language, {
         onToken: () => {},
         onDone: (finalText) => {
           this.memory.addMessage('assistant', finalText);
@@ -376,7 +558,7 @@ Would you like a **detailed report** or want to **continue chatting**?`
           });
         },
         onError: (_error) => {
-          const fallback = this.localFallback(userMessage, (language === 'ta' ? 'en' : language) as 'en' | 'hi');
+          const fallback = this.localFallback(userMessage, localReplyLanguage(language));
           this.memory.addMessage('assistant', fallback);
           resolve({
             response: fallback,
@@ -392,7 +574,7 @@ Would you like a **detailed report** or want to **continue chatting**?`
   //  LOCAL EMI CALCULATOR
   // -----------------------------------------------
 
-  private localEMICalc(entities: any, lang: 'en' | 'hi'): OrchestrationResult {
+  private localEMICalc(entities: any, lang: LocalReplyLanguage): OrchestrationResult {
     const amount = entities.loanAmount;
     const rate = (entities.interestRate || 9) / 100 / 12;
     const tenure = entities.tenure || 60;
@@ -400,8 +582,8 @@ Would you like a **detailed report** or want to **continue chatting**?`
     const totalPayable = emi * tenure;
     const totalInterest = totalPayable - amount;
 
-    const response = lang === 'en'
-      ? `📊 **EMI Calculation**
+    const response = pick(lang, {
+      en: `📊 **EMI Calculation**
 
 💰 **Loan:** ₹${fmt(amount)} | **Rate:** ${(rate * 12 * 100).toFixed(1)}% | **Tenure:** ${tenure} months
 
@@ -410,13 +592,24 @@ Would you like a **detailed report** or want to **continue chatting**?`
 • Total Interest: ₹${fmt(totalInterest)}
 • Interest as % of Principal: ${((totalInterest / amount) * 100).toFixed(1)}%
 
-💡 EMI should be less than 40% of your monthly income for comfortable repayment.`
-      : `📊 **EMI गणना**
+💡 EMI should be less than 40% of your monthly income for comfortable repayment.`,
+      hi: `📊 **EMI गणना**
 
 💰 **ऋण:** ₹${fmt(amount)} | **दर:** ${(rate * 12 * 100).toFixed(1)}% | **अवधि:** ${tenure} महीने
 
 💵 **मासिक EMI: ₹${fmt(emi)}**
-• कुल राशि: ₹${fmt(totalPayable)} | कुल ब्याज: ₹${fmt(totalInterest)}`;
+• कुल राशि: ₹${fmt(totalPayable)} | कुल ब्याज: ₹${fmt(totalInterest)}`,
+      ta: `📊 **EMI கணக்கீடு**
+
+💰 **கடன்:** ₹${fmt(amount)} | **வட்டி:** ${(rate * 12 * 100).toFixed(1)}% | **காலம்:** ${tenure} மாதங்கள்
+
+💵 **மாத EMI: ₹${fmt(emi)}**
+• மொத்தம் செலுத்த வேண்டியது: ₹${fmt(totalPayable)}
+• மொத்த வட்டி: ₹${fmt(totalInterest)}
+• அசலில் வட்டியின் சதவீதம்: ${((totalInterest / amount) * 100).toFixed(1)}%
+
+💡 எளிதாகத் திருப்பிச் செலுத்த, EMI உங்கள் மாத வருமானத்தில் 40% க்குக் குறைவாக இருக்க வேண்டும்.`,
+    });
 
     this.memory.addMessage('assistant', response);
     return { response, agentType: 'finance', metadata: { intent: 'emi_calculation' } };
@@ -426,30 +619,38 @@ Would you like a **detailed report** or want to **continue chatting**?`
   //  LOCAL FALLBACK (when LLM is unavailable)
   // -----------------------------------------------
 
-  private localFallback(msg: string, lang: 'en' | 'hi'): string {
+  private localFallback(msg: string, lang: LocalReplyLanguage): string {
     const lower = msg.toLowerCase();
 
-    if (lower.includes('credit') || lower.includes('cibil')) {
-      return lang === 'en'
-        ? `📈 **Credit Score Tips**\n\n1. Pay all bills on time (biggest factor — 35%)\n2. Keep credit utilization below 30%\n3. Don't close old accounts\n4. Avoid multiple loan applications\n5. Check your CIBIL report at www.cibil.com\n\n**Ranges:** 750+ Excellent | 700-749 Good | 650-699 Fair | <650 Poor`
-        : `📈 **क्रेडिट स्कोर सुधार**\n\n1. समय पर बिल भुगतान करें\n2. क्रेडिट कार्ड का 30% से कम उपयोग करें\n3. पुराने खाते बंद न करें\n4. एक साथ कई लोन न लें`;
+    if (/credit|cibil|क्रेडिट|கிரெடிட்|சிபில்/.test(lower)) {
+      return pick(lang, {
+        en: `📈 **Credit Score Tips**\n\n1. Pay all bills on time (biggest factor — 35%)\n2. Keep credit utilization below 30%\n3. Don't close old accounts\n4. Avoid multiple loan applications\n5. Check your CIBIL report at www.cibil.com\n\n**Ranges:** 750+ Excellent | 700-749 Good | 650-699 Fair | <650 Poor`,
+        hi: `📈 **क्रेडिट स्कोर सुधार**\n\n1. समय पर बिल भुगतान करें\n2. क्रेडिट कार्ड का 30% से कम उपयोग करें\n3. पुराने खाते बंद न करें\n4. एक साथ कई लोन न लें`,
+        ta: `📈 **கிரெடிட் ஸ்கோர் குறிப்புகள்**\n\n1. எல்லா பில்களையும் சரியான நேரத்தில் செலுத்துங்கள் (மிகப் பெரிய காரணி — 35%)\n2. கிரெடிட் பயன்பாட்டை 30% க்குக் கீழ் வைத்திருங்கள்\n3. பழைய கணக்குகளை மூடாதீர்கள்\n4. ஒரே நேரத்தில் பல கடன் விண்ணப்பங்களைத் தவிருங்கள்\n5. www.cibil.com இல் உங்கள் CIBIL அறிக்கையைச் சரிபாருங்கள்\n\n**வரம்புகள்:** 750+ மிகச் சிறந்தது | 700-749 நல்லது | 650-699 பரவாயில்லை | <650 குறைவு`,
+      });
     }
 
-    if (lower.includes('document') || lower.includes('papers')) {
-      return lang === 'en'
-        ? `📋 **Documents for Loan**\n\n• PAN Card & Aadhaar\n• Salary slips (3 months)\n• Bank statements (6 months)\n• Address proof\n• Employment letter\n\n*Self-employed:* GST returns, business registration`
-        : `📋 **लोन दस्तावेज़**\n\n• पैन और आधार\n• सैलरी स्लिप (3 महीने)\n• बैंक स्टेटमेंट (6 महीने)\n• पता प्रमाण`;
+    if (/document|papers|दस्तावेज़|दस्तावेज|ஆவண/.test(lower)) {
+      return pick(lang, {
+        en: `📋 **Documents for Loan**\n\n• PAN Card & Aadhaar\n• Salary slips (3 months)\n• Bank statements (6 months)\n• Address proof\n• Employment letter\n\n*Self-employed:* GST returns, business registration`,
+        hi: `📋 **लोन दस्तावेज़**\n\n• पैन और आधार\n• सैलरी स्लिप (3 महीने)\n• बैंक स्टेटमेंट (6 महीने)\n• पता प्रमाण`,
+        ta: `📋 **கடனுக்கான ஆவணங்கள்**\n\n• PAN கார்டு & ஆதார்\n• சம்பளச் சீட்டுகள் (3 மாதங்கள்)\n• வங்கி அறிக்கைகள் (6 மாதங்கள்)\n• முகவரிச் சான்று\n• வேலை நியமனக் கடிதம்\n\n*சுயதொழில்:* GST ரிட்டர்ன்கள், தொழில் பதிவு`,
+      });
     }
 
-    if (lower.includes('bank') || lower.includes('compare')) {
-      return lang === 'en'
-        ? `🏦 **Top Banks for Personal Loans**\n\n1. **SBI** — 9-13% rate, best for govt employees\n2. **HDFC** — 9-11%, fast processing\n3. **Axis** — 9.5-12%, quick approvals\n4. **ICICI** — 10-12.5%, great for existing customers`
-        : `🏦 **शीर्ष बैंक**\n\n1. SBI — 9-13%\n2. HDFC — 9-11%\n3. Axis — 9.5-12%\n4. ICICI — 10-12.5%`;
+    if (/bank|compare|बैंक|வங்கி/.test(lower)) {
+      return pick(lang, {
+        en: `🏦 **Top Banks for Personal Loans**\n\n1. **SBI** — 9-13% rate, best for govt employees\n2. **HDFC** — 9-11%, fast processing\n3. **Axis** — 9.5-12%, quick approvals\n4. **ICICI** — 10-12.5%, great for existing customers`,
+        hi: `🏦 **शीर्ष बैंक**\n\n1. SBI — 9-13%\n2. HDFC — 9-11%\n3. Axis — 9.5-12%\n4. ICICI — 10-12.5%`,
+        ta: `🏦 **தனிநபர் கடனுக்கான சிறந்த வங்கிகள்**\n\n1. **SBI** — 9-13%, அரசு ஊழியர்களுக்குச் சிறந்தது\n2. **HDFC** — 9-11%, விரைவான செயலாக்கம்\n3. **Axis** — 9.5-12%, விரைவான ஒப்புதல்\n4. **ICICI** — 10-12.5%, தற்போதைய வாடிக்கையாளர்களுக்கு ஏற்றது`,
+      });
     }
 
-    return lang === 'en'
-      ? `👋 I'm **NidhiSaarthi AI**. I can help with:\n\n✅ Loan eligibility — say "check eligibility"\n💰 EMI calculations — say "calculate EMI for 5 lakh"\n📈 Credit score tips — say "improve credit"\n🏦 Bank comparison — say "compare banks"\n📋 Documents — say "what documents needed"\n\nWhat would you like help with?`
-      : `👋 मैं **NidhiSaarthi AI** हूं। मैं मदद कर सकता हूं:\n\n✅ पात्रता जांच — "check eligibility" लिखें\n💰 EMI गणना — "5 लाख का EMI निकालें"\n📈 क्रेडिट स्कोर — "क्रेडिट कैसे सुधारें"\n🏦 बैंक तुलना — "बैंक तुलना करें"`;
+    return pick(lang, {
+      en: `👋 I'm **NidhiSaarthi AI**. I can help with:\n\n✅ Loan eligibility — say "check eligibility"\n💰 EMI calculations — say "calculate EMI for 5 lakh"\n📈 Credit score tips — say "improve credit"\n🏦 Bank comparison — say "compare banks"\n📋 Documents — say "what documents needed"\n\nWhat would you like help with?`,
+      hi: `👋 मैं **NidhiSaarthi AI** हूं। मैं मदद कर सकता हूं:\n\n✅ पात्रता जांच — "check eligibility" लिखें\n💰 EMI गणना — "5 लाख का EMI निकालें"\n📈 क्रेडिट स्कोर — "क्रेडिट कैसे सुधारें"\n🏦 बैंक तुलना — "बैंक तुलना करें"`,
+      ta: `👋 நான் **NidhiSaarthi AI**. இவற்றில் உதவ முடியும்:\n\n✅ கடன் தகுதி — "check eligibility" என்று எழுதுங்கள்\n💰 EMI கணக்கீடு — "5 லட்சத்துக்கு EMI கணக்கிடு"\n📈 கிரெடிட் ஸ்கோர் — "கிரெடிட் ஸ்கோரை எப்படி உயர்த்துவது"\n🏦 வங்கி ஒப்பீடு — "வங்கிகளை ஒப்பிடு"\n📋 ஆவணங்கள் — "என்ன ஆவணங்கள் தேவை"\n\nஎதில் உதவ வேண்டும்?`,
+    });
   }
 
   // -----------------------------------------------
@@ -470,7 +671,7 @@ Would you like a **detailed report** or want to **continue chatting**?`
       if (/lakh|lac/i.test(msg)) amount *= 100000;
       if (amount > 10000) entities.loanAmount = amount;
     }
-    const tenureMatch = msg.match(/(\d+)\s*(?:months?|माह)/i);
+    const tenureMatch = msg.match(/(\d+)\s*(?:months?|माह|महीने|மாத)/i);
     if (tenureMatch) entities.tenure = parseInt(tenureMatch[1]);
     const rateMatch = msg.match(/(\d+\.?\d*)\s*%/);
     if (rateMatch) entities.interestRate = parseFloat(rateMatch[1]);
@@ -480,6 +681,33 @@ Would you like a **detailed report** or want to **continue chatting**?`
 
 // -- Helpers --
 
+const STOP_COMMANDS = ['exit', 'stop', 'cancel', 'रुको', 'बंद करो', 'நிறுத்து'];
+const RESET_COMMANDS = ['reset', 'start over', 'restart', 'फिर से शुरू करो', 'மீண்டும் தொடங்கு'];
+/** Finish the eligibility flow now, assuming whatever is still unknown */
+const FINISH_COMMANDS = ['skip all', 'show result', 'show results', 'finish', 'done', 'calculate', 'बस', 'रिजल्ट दिखाओ', 'முடிவைக் காட்டு', 'போதும்'];
+/** Skip only the current question */
+const SKIP_PATTERN = /^(skip|pass|next|not sure|don'?t know|dont know|no idea|idk|pata nahi|पता नहीं|मालूम नहीं|छोड़ो|theriyadhu|theriyathu|தெரியாது|தவிர்)(?![a-z])/i;
+
+const CONFIDENCE_LEVELS: Record<LocalReplyLanguage, Record<EligibilityConfidence['level'], string>> = {
+  en: { high: 'High', medium: 'Medium', low: 'Low' },
+  hi: { high: 'उच्च', medium: 'मध्यम', low: 'कम' },
+  ta: { high: 'அதிகம்', medium: 'நடுத்தரம்', low: 'குறைவு' },
+};
+
+function confidenceLine(c: EligibilityConfidence, lang: LocalReplyLanguage): string {
+  const level = CONFIDENCE_LEVELS[lang][c.level];
+  return pick(lang, {
+    en: `🎚️ **Estimate:** ${c.probability}% (likely ${c.low}-${c.high}%, confidence: ${level})`,
+    hi: `🎚️ **अनुमान:** ${c.probability}% (संभावित ${c.low}-${c.high}%, भरोसा: ${level})`,
+    ta: `🎚️ **மதிப்பீடு:** ${c.probability}% (சாத்தியம் ${c.low}-${c.high}%, நம்பகத்தன்மை: ${level})`,
+  });
+}
+
+/** The `lang` variant of a response; every language must be given */
+function pick<T>(lang: LocalReplyLanguage, variants: Record<LocalReplyLanguage, T>): T {
+  return variants[lang];
+}
+
 function fmt(n: number): string {
   return n.toLocaleString('en-IN');
 }
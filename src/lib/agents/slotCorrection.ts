@@ -0,0 +1,130 @@
+/**
+ * Slot Correction - recognises edits to answers the user already gave
+ *
+ * Handles messages like "actually my income is 60k, not 45k", "change tenure
+ * to 5 years" or "make the loan 8 lakh and CIBIL 760". Each clause that names
+ * a field and carries a new value becomes one correction; the old value in a
+ * "not ..." / "from ..." phrase is ignored.
+ */
+
+import type { LoanFormData } from '@/types/loan';
+import { parseSpecialAnswer } from './eligibilityPlanner';
+
+type Field = keyof LoanFormData;
+
+export interface SlotCorrection {
+  field: Field;
+  value: LoanFormData[Field];
+}
+
+/** Words that mark a message as a revision rather than a fresh answer */
+const CORRECTION_SIGNAL =
+  /\b(actually|change|changed|update|correct|correction|edit|instead|wrong|mistake|set|make\s+it|make\s+the|make\s+my|revise|should\s+be|galat|badlo|badal)\b|बदल|गलत|असल\s*में/i;
+
+/** Field names as users say them; more specific phrases first */
+const FIELD_ALIASES: [Field, RegExp][] = [
+  ['existing_loans', /\b(existing|active|running|current|other)\s+(loans?|emis?)\b|\bnumber\s+of\s+loans\b/i],
+  ['co_borrower', /\bco[-\s]?(borrower|applicant)\b|सह[-\s]?आवेदक/i],
+  ['loan_tenure', /\b(tenure|term|duration|repayment\s+period|period)\b|अवधि/i],
+  ['loan_purpose', /\b(purpose|loan\s+type|type\s+of\s+loan)\b|उद्देश्य/i],
+  ['credit_score', /\b(cibil|credit\s*score|score)\b|स्कोर/i],
+  ['monthly_income', /\b(income|salary|earnings?|earn)\b|आय|सैलरी|तनख्वाह/i],
+  ['monthly_savings', /\b(savings?|save)\b|बचत/i],
+  ['total_monthly_expenses', /\b(expenses?|spend(ing)?)\b|खर्च/i],
+  ['bank_balance', /\b(bank\s+)?balance\b|बैलेंस/i],
+  ['years_experience', /\b(experience|years?\s+(of\s+)?work(ing)?)\b|अनुभव/i],
+  ['job_type', /\b(job(\s+type)?|employment|occupation|profession)\b|नौकरी|रोजगार/i],
+  ['age', /\bage\b|उम्र/i],
+  ['owns_house', /\b(house|home|flat)\b|घर/i],
+  ['owns_car', /\bcar\b|कार/i],
+  ['has_collateral', /\bcollateral\b|गिरवी/i],
+  ['has_investments', /\binvestments?\b|निवेश/i],
+  ['loan_amount', /\b(loan\s+amount|amount|borrow|loan)\b|लोन|ऋण/i],
+];
+
+const MONEY_FIELDS: Field[] = ['monthly_income', 'loan_amount', 'monthly_savings', 'total_monthly_expenses', 'bank_balance'];
+const COUNT_FIELDS: Field[] = ['existing_loans', 'years_experience', 'age', 'credit_score'];
+const BOOLEAN_FIELDS: Field[] = ['owns_house', 'owns_car', 'has_collateral', 'has_investments'];
+
+const UNIT = String.raw`(?:k|thousand|lakhs?|lacs?|crores?|cr|months?|years?|yrs?|हज़ार|हजार|लाख|करोड़|महीने|साल)`;
+/** "not 45k", "from 45,000", "instead of 5 years": the value being replaced */
+const OLD_VALUE = new RegExp(String.raw`(?:\bnot|\bfrom|\binstead\s+of|\brather\s+than|नहीं)\s*(?:₹|rs\.?)?\s*[\d.,]+\s*${UNIT}?`, 'gi');
+const OWNERSHIP = /\b(own|owns|have|has|sold|bought|got)\b|है/i;
+const NEGATION = /\b(don'?t|do\s+not|doesn'?t|no\s+longer|not|no|sold)\b|नहीं/i;
+
+const MULTIPLIERS: [RegExp, number][] = [
+  [/^(crores?|cr|करोड़)/, 10000000],
+  [/^(lakhs?|lacs?|लाख)/, 100000],
+  [/^(k|thousand|हज़ार|हजार)/, 1000],
+];
+
+function parseAmount(text: string): number | null {
+  const m = text.match(new RegExp(String.raw`(\d[\d,]*(?:\.\d+)?)\s*(${UNIT})?`, 'i'));
+  if (!m) return null;
+  const base = parseFloat(m[1].replace(/,/g, ''));
+  const unit = (m[2] ?? '').toLowerCase();
+  const multiplier = MULTIPLIERS.find(([pattern]) => pattern.test(unit))?.[1] ?? 1;
+  return Math.round(base * multiplier);
+}
+
+function parseValue(field: Field, text: string): SlotCorrection['value'] | null {
+  if (BOOLEAN_FIELDS.includes(field)) return OWNERSHIP.test(text) ? !NEGATION.test(text) : null;
+  if (MONEY_FIELDS.includes(field)) return parseAmount(text);
+  if (field === 'loan_tenure') {
+    const m = text.match(/(\d+(?:\.\d+)?)\s*(months?|years?|yrs?|महीने|साल)?/i);
+    if (!m) return null;
+    return Math.round(parseFloat(m[1]) * (/^(years?|yrs?|साल)/i.test(m[2] ?? '') ? 12 : 1));
+  }
+  if (COUNT_FIELDS.includes(field)) {
+    const special = parseSpecialAnswer(field, text.replace(/^\s*(to|is|=|:|as|be)\s+/i, ''));
+    if (typeof special === 'number') return special;
+    const m = text.match(/\d+/);
+    return m ? parseInt(m[0], 10) : null;
+  }
+  const special = parseSpecialAnswer(field, text.replace(/^\s*(to|is|=|:|as|be|it's|its)\s+/i, '').trim());
+  return typeof special === 'string' ? special : null;
+}
+
+const QUESTION = /\?\s*$|^\s*(what|how|why|when|which|can|could|will|would|should|is|are|do|does)\b/i;
+
+/** Split on sentence ends so a question next to a statement is judged on its own */
+const sentencesOf = (message: string) => message.split(/(?<=[?!।])\s*|(?<=\.)\s+(?=[A-Z])/).filter(Boolean);
+
+/** Split "income 60k and tenure 5 years" into one clause per edit */
+const clausesOf = (message: string) => message.split(/\s*(?:,(?!\d)|;|\band\b|\balso\b|और)\s*/i).filter(Boolean);
+
+/**
+ * Corrections in `message`. A clause counts when it names a field and has a
+ * parseable value, and either the message uses a correction word or the field
+ * already has a different value. Clauses in questions never count, correction
+ * word or not: "how can I change my score from 600 to 750?" edits nothing.
+ */
+export function detectSlotCorrections(message: string, collected: Partial<LoanFormData> = {}): SlotCorrection[] {
+  const signalled = CORRECTION_SIGNAL.test(message);
+  const statements = sentencesOf(message).filter((sentence) => !QUESTION.test(sentence));
+  const corrections: SlotCorrection[] = [];
+
+  for (const clause of statements.flatMap((sentence) => clausesOf(sentence.replace(OLD_VALUE, ' ')))) {
+    const alias = FIELD_ALIASES.find(([, pattern]) => pattern.test(clause));
+    if (!alias) continue;
+    const [field, pattern] = alias;
+    if (corrections.some((c) => c.field === field)) continue;
+
+    const match = clause.match(pattern)!;
+    const after = clause.slice(match.index! + match[0].length);
+    const value = parseValue(field, BOOLEAN_FIELDS.includes(field) ? clause : after) ?? parseValue(field, clause);
+    if (value === null || Number.isNaN(value)) continue;
+
+    const revises = collected[field] != null && collected[field] !== value;
+    if (signalled || revises) corrections.push({ field, value });
+  }
+  return corrections;
+}
+
+const PROFILE_SUMMARY =
+  /\b(what\s+(do\s+)?you\s+know\s+about\s+me|show\s+(me\s+)?(what\s+you\s+know|my\s+(profile|details|data|info(rmation)?|answers))|my\s+(profile|details)\s+so\s+far|what\s+have\s+i\s+told\s+you)\b|मेरी\s+जानकारी|मेरे\s+बारे\s+में/i;
+
+/** "show what you know about me" and similar */
+export function isProfileSummaryRequest(message: string): boolean {
+  return PROFILE_SUMMARY.test(message);
+}
@@ -0,0 +1,5 @@
+/**
+ * Browser entry point for the shared analysis schema, JSON repair and rule-based fallback.
+ */
+
+export * from '../../supabase/functions/_shared/analysis.ts';
@@ -0,0 +1,126 @@
+/**
+ * Application History - a citizen's past submissions and their analyses
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { AnalysisResult, LoanFormData } from '@/types/loan';
+
+export type HistoryClient = Pick<SupabaseClient<Database>, 'from'>;
+
+type ApplicationRow = Database['public']['Tables']['loan_applications']['Row'];
+type AnalysisRow = Pick<
+  Database['public']['Tables']['analysis_results']['Row'],
+  'approval_probability' | 'financial_health_score' | 'risk_category' | 'created_at' | 'ai_explanation'
+>;
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: string;
+  loanAmount: number | null;
+  loanPurpose: string | null;
+  jobType: string | null;
+  approvalProbability: number | null;
+  financialHealthScore: number | null;
+  riskCategory: string | null;
+  /** Full analysis as returned by the edge function, for reopening the results page */
+  analysis: AnalysisResult | null;
+  formData: Partial<LoanFormData>;
+}
+
+export interface TrendPoint {
+  label: string;
+  date: string;
+  probability: number | null;
+  health: number | null;
+}
+
+const HISTORY_SELECT =
+  '*, analysis_results(approval_probability, financial_health_score, risk_category, created_at, ai_explanation)';
+
+/** Flat columns that map one-to-one onto LoanFormData, for rows saved before `form_data` existed */
+const FORM_COLUMNS = [
+  'age', 'gender', 'marital_status', 'family_members', 'dependent_children', 'location_city',
+  'location_state', 'education', 'job_type', 'employer_name', 'years_experience', 'monthly_income',
+  'income_stability', 'secondary_income', 'monthly_savings', 'existing_loans', 'total_monthly_expenses',
+  'credit_score', 'bank_balance', 'has_investments', 'owns_house', 'owns_car', 'car_year', 'property_value',
+  'has_health_insurance', 'has_life_insurance', 'has_vehicle_insurance', 'loan_amount', 'loan_purpose',
+  'loan_tenure', 'has_collateral',
+] as const satisfies readonly (keyof LoanFormData & keyof ApplicationRow)[];
+
+/**
+ * The form as it was submitted. Prefers the stored `form_data` snapshot and
+ * falls back to the flat columns; fields with no value are left for the form defaults.
+ */
+export function rowToFormData(row: ApplicationRow): Partial<LoanFormData> {
+  if (row.form_data && typeof row.form_data === 'object' && !Array.isArray(row.form_data)) {
+    return row.form_data as unknown as Partial<LoanFormData>;
+  }
+  const form: Record<string, unknown> = {};
+  for (const column of FORM_COLUMNS) {
+    if (row[column] !== null && row[column] !== undefined) form[column] = row[column];
+  }
+  return form as Partial<LoanFormData>;
+}
+
+/** Newest analysis for an application (re-runs insert further rows) */
+const latestAnalysis = (analyses: AnalysisRow[] | null | undefined): AnalysisRow | null =>
+  analyses && analyses.length > 0
+    ? [...analyses].sort((a, b) => b.created_at.localeCompare(a.created_at))[0]
+    : null;
+
+export function toHistoryEntry(row: ApplicationRow & { analysis_results?: AnalysisRow[] | null }): HistoryEntry {
+  const analysis = latestAnalysis(row.analysis_results);
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    loanAmount: row.loan_amount,
+    loanPurpose: row.loan_purpose,
+    jobType: row.job_type,
+    approvalProbability: analysis?.approval_probability ?? null,
+    financialHealthScore: analysis?.financial_health_score ?? null,
+    riskCategory: analysis?.risk_category ?? null,
+    analysis: (analysis?.ai_explanation as unknown as AnalysisResult) ?? null,
+    formData: rowToFormData(row),
+  };
+}
+
+/** Oldest-first series for the trend chart; unscored submissions are skipped */
+export function toTrendPoints(entries: HistoryEntry[]): TrendPoint[] {
+  return entries
+    .filter((e) => e.approvalProbability !== null || e.financialHealthScore !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    .map((e, i) => ({
+      label: `#${i + 1}`,
+      date: e.createdAt.slice(0, 10),
+      probability: e.approvalProbability,
+      health: e.financialHealthScore,
+    }));
+}
+
+/** The signed-in user's applications, newest first. RLS limits rows to the owner. */
+export async function fetchApplicationHistory(client: HistoryClient = supabase): Promise<HistoryEntry[]> {
+  const { data, error } = await client
+    .from('loan_applications')
+    .select(HISTORY_SELECT)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map((row) => toHistoryEntry(row as ApplicationRow & { analysis_results: AnalysisRow[] }));
+}
+
+/** Load one past application's form for editing */
+export async function fetchApplicationForm(id: string, client: HistoryClient = supabase): Promise<Partial<LoanFormData> | null> {
+  const { data, error } = await client.from('loan_applications').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? rowToFormData(data) : null;
+}
+
+export function useApplicationHistory(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['application-history', userId],
+    queryFn: () => fetchApplicationHistory(),
+    enabled: !!userId,
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Auth helpers - resolve the signed-in user and their role from Supabase Auth
+ */
+
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppRole = 'citizen' | 'admin';
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: AppRole;
+}
+
+/**
+ * The slice of the Supabase client the auth layer uses. Tests pass a local
+ * stand-in implementing the same methods.
+ */
+export type AuthClient = Pick<SupabaseClient<Database>, 'auth' | 'from'>;
+
+const isRole = (value: unknown): value is AppRole => value === 'citizen' || value === 'admin';
+
+/**
+ * Role carried in the signed `user_role` claim (set by the custom access token hook).
+ */
+export function roleFromClaims(claims: Record<string, unknown> | null | undefined): AppRole | null {
+  const role = claims?.user_role;
+  return isRole(role) ? role : null;
+}
+
+/**
+ * Build the app user for a session. The role comes from the verified JWT
+ * claims; if the access token hook is not enabled we read the caller's own
+ * `profiles` row, which RLS keeps read-only for the role column.
+ * Returns null when the token cannot be verified.
+ */
+export async function resolveAuthUser(client: AuthClient, session: Session | null): Promise<AuthUser | null> {
+  if (!session?.user) return null;
+
+  const { data, error } = await client.auth.getClaims(session.access_token);
+  if (error || !data?.claims || data.claims.sub !== session.user.id) {
+    console.error('[Auth] Could not verify session claims:', error);
+    return null;
+  }
+
+  let role = roleFromClaims(data.claims as Record<string, unknown>);
+  let name = session.user.user_metadata?.full_name as string | undefined;
+
+  if (!role) {
+    const { data: profile } = await client
+      .from('profiles')
+      .select('role, full_name')
+      .eq('id', session.user.id)
+      .maybeSingle();
+    role = isRole(profile?.role) ? profile.role : 'citizen';
+    name = name || profile?.full_name || undefined;
+  }
+
+  const email = session.user.email ?? (data.claims.email as string) ?? '';
+  return {
+    id: session.user.id,
+    email,
+    name: name || email.split('@')[0],
+    role,
+  };
+}
@@ -3,6 +3,7 @@
  */
 
 import { supabase } from '@/integrations/supabase/client';
+import type { Language } from '@/i18n/languages';
 
 export interface ChatMessage {
   role: 'user' | 'assistant' | 'system';
@@ -19,13 +20,17 @@ export interface StreamCallbacks {
 /**
  * Stream a response from the Supabase chat edge function (LLM + RAG).
  * Falls back to a local error message if the edge function is unreachable.
+ * Aborting `signal` stops the stream and the edge function's upstream call;
+ * `onDone` then receives whatever text had arrived.
  */
 export async function streamChatResponse(
   messages: ChatMessage[],
-  language: 'en' | 'hi' | 'ta',
+  language: Language,
   callbacks: StreamCallbacks,
   inputMode: 'text' | 'voice' = 'text',
+  signal?: AbortSignal,
 ): Promise<void> {
+  let fullText = '';
   try {
     const supabaseUrl = (supabase as any).supabaseUrl || import.meta.env.VITE_SUPABASE_URL;
     const supabaseKey = (supabase as any).supabaseKey || import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
@@ -42,6 +47,7 @@ export async function streamChatResponse(
         'apikey': supabaseKey,
       },
       body: JSON.stringify({ messages, language, inputMode }),
+      signal,
     });
 
     if (!response.ok) {
@@ -55,7 +61,6 @@ export async function streamChatResponse(
     }
 
     const decoder = new TextDecoder();
-    let fullText = '';
     let buffer = '';
 
     while (true) {
@@ -123,6 +128,10 @@ export async function streamChatResponse(
     fullText = cleanLLMOutput(fullText);
     callbacks.onDone(fullText);
   } catch (error: any) {
+    if (signal?.aborted) {
+      callbacks.onDone(cleanLLMOutput(fullText));
+      return;
+    }
     console.error('[ChatService] Error:', error);
     callbacks.onError(error.message || 'Failed to get AI response');
   }
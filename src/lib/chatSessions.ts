@@ -0,0 +1,153 @@
+/**
+ * Chat Sessions - conversations stored server-side per user
+ *
+ * A session row holds the title, language, collected slots and flow context;
+ * the transcript lives in `chat_messages` keyed by the session id. RLS limits
+ * both tables to the owner.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { ConversationState } from '@/lib/agents/conversationMemory';
+import type { LoanFormData } from '@/types/loan';
+import { DEFAULT_LANGUAGE, isLanguage, type Language } from '@/i18n/languages';
+
+export type ChatSessionClient = Pick<SupabaseClient<Database>, 'from'>;
+
+type SessionRow = Database['public']['Tables']['chat_sessions']['Row'];
+type MessageRow = Database['public']['Tables']['chat_messages']['Row'];
+
+export type ChatLanguage = Language;
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string;
+  language: ChatLanguage;
+  updatedAt: string;
+}
+
+export interface ChatTurnMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface StoredChatSession extends ChatSessionSummary {
+  messages: ChatTurnMessage[];
+  state: ConversationState;
+}
+
+const TITLE_LENGTH = 48;
+
+/** Sidebar title from the first thing the user asked */
+export function titleFromMessage(text: string): string {
+  const line = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1).trimEnd()}…` : line || 'New chat';
+}
+
+const asLanguage = (value: string): ChatLanguage => (isLanguage(value) ? value : DEFAULT_LANGUAGE);
+
+const asRecord = (value: Json): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+export function toSessionSummary(row: SessionRow): ChatSessionSummary {
+  return { id: row.id, title: row.title, language: asLanguage(row.language), updatedAt: row.updated_at };
+}
+
+/**
+ * Session row + transcript as a resumable conversation. Only user and
+ * assistant turns are kept; the memory's own timestamps come from the rows.
+ */
+export function toStoredSession(row: SessionRow, messages: MessageRow[]): StoredChatSession {
+  const turns = messages
+    .filter((m) => m.role === 'user' || m.role === 'assistant')
+    .map((m) => ({ role: m.role as ChatTurnMessage['role'], content: m.content, timestamp: Date.parse(m.created_at) }));
+  return {
+    ...toSessionSummary(row),
+    messages: turns.map(({ role, content }) => ({ role, content })),
+    state: {
+      messages: turns,
+      collectedData: asRecord(row.collected_data) as Partial<LoanFormData>,
+      context: asRecord(row.context),
+    },
+  };
+}
+
+/** The signed-in user's sessions, most recently active first */
+export async function fetchChatSessions(client: ChatSessionClient = supabase): Promise<ChatSessionSummary[]> {
+  const { data, error } = await client
+    .from('chat_sessions')
+    .select('*')
+    .order('updated_at', { ascending: false });
+  if (error) throw error;
+  return (data ?? []).map(toSessionSummary);
+}
+
+/** One session with its transcript, or null if it was deleted (or isn't ours) */
+export async function fetchChatSession(id: string, client: ChatSessionClient = supabase): Promise<StoredChatSession | null> {
+  const { data: row, error } = await client.from('chat_sessions').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  if (!row) return null;
+  const { data: messages, error: messagesError } = await client
+    .from('chat_messages')
+    .select('*')
+    .eq('session_id', id)
+    .order('created_at', { ascending: true });
+  if (messagesError) throw messagesError;
+  return toStoredSession(row, messages ?? []);
+}
+
+const stateColumns = (state: ConversationState) => ({
+  collected_data: state.collectedData as unknown as Json,
+  context: state.context as unknown as Json,
+});
+
+/**
+ * Store a finished exchange: creates the session on the first turn, appends
+ * the messages and saves the slots and flow context. Returns the session id.
+ */
+export async function saveChatTurn(
+  sessionId: string | null,
+  turn: ChatTurnMessage[],
+  state: ConversationState,
+  language: ChatLanguage,
+  client: ChatSessionClient = supabase,
+): Promise<string> {
+  let id = sessionId;
+  if (!id) {
+    const firstUser = turn.find((m) => m.role === 'user');
+    const { data, error } = await client
+      .from('chat_sessions')
+      .insert({ title: titleFromMessage(firstUser?.content ?? ''), language, ...stateColumns(state) })
+      .select('id')
+      .single();
+    if (error) throw error;
+    id = data.id;
+  } else {
+    const { error } = await client.from('chat_sessions').update({ language, ...stateColumns(state) }).eq('id', id);
+    if (error) throw error;
+  }
+
+  // Rows from one insert share now(); explicit timestamps keep the turn in order
+  const sentAt = Date.now();
+  const { error: insertError } = await client.from('chat_messages').insert(
+    turn.map((m, i) => ({ session_id: id, role: m.role, content: m.content, created_at: new Date(sentAt + i).toISOString() }))
+  );
+  if (insertError) throw insertError;
+  return id;
+}
+
+/** Delete a session; its messages go with it (database trigger) */
+export async function deleteChatSession(id: string, client: ChatSessionClient = supabase): Promise<void> {
+  const { error } = await client.from('chat_sessions').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export function useChatSessions(userId: string | undefined) {
+  return useQuery({
+    queryKey: ['chat-sessions', userId],
+    queryFn: () => fetchChatSessions(),
+    enabled: !!userId,
+  });
+}
@@ -0,0 +1,6 @@
+/**
+ * Browser entry point for the shared household model (co-applicants and
+ * income pooling rules).
+ */
+
+export * from '../../supabase/functions/_shared/household.ts';
@@ -0,0 +1,33 @@
+/**
+ * Lender Catalog Loader - reads lender products from Supabase
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { DEFAULT_LENDER_CATALOG, parseLenderRow, type LenderProduct } from '@/lib/lenders';
+
+let catalogPromise: Promise<LenderProduct[]> | null = null;
+
+/**
+ * Load active products from `lender_products`, cached for the page lifetime.
+ * Falls back to the bundled catalog if the table is empty or unreachable.
+ */
+export function fetchLenderCatalog(): Promise<LenderProduct[]> {
+  if (!catalogPromise) {
+    catalogPromise = (async () => {
+      try {
+        const { data, error } = await supabase
+          .from('lender_products')
+          .select('*')
+          .eq('is_active', true);
+        if (error) throw error;
+        if (!data || data.length === 0) return DEFAULT_LENDER_CATALOG;
+        return data.map((row) => parseLenderRow(row as Record<string, unknown>));
+      } catch (err) {
+        console.warn('[Lenders] Using bundled catalog:', err);
+        catalogPromise = null;
+        return DEFAULT_LENDER_CATALOG;
+      }
+    })();
+  }
+  return catalogPromise;
+}
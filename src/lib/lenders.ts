@@ -0,0 +1,6 @@
+/**
+ * Browser entry point for the shared lender catalog and recommender.
+ * Use `fetchLenderCatalog` from `@/lib/lenderCatalog` to load the live table.
+ */
+
+export * from '../../supabase/functions/_shared/lenders.ts';
@@ -0,0 +1,5 @@
+/**
+ * Browser entry point for the shared liabilities ledger.
+ */
+
+export * from '../../supabase/functions/_shared/liabilities.ts';
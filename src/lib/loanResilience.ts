@@ -0,0 +1,159 @@
+/**
+ * Loan Resilience - stress testing an applicant with and without the loan
+ * they are applying for, and the largest EMI each scenario can absorb.
+ */
+
+import type { LoanFormData } from '@/types/loan';
+import { EXISTING_LOAN_EMI_ESTIMATE } from '@/lib/scoring';
+import { combineHousehold } from '@/lib/household';
+import { ledgerTotals } from '@/lib/liabilities';
+import {
+  simulateTimeline,
+  type CustomScenario,
+  type FinancialProfile,
+  type ResilienceScenario,
+  type ScenarioShock,
+  type TimelineResult,
+} from '@/lib/resilienceEngine';
+
+export const STRESS_SCENARIOS: ResilienceScenario[] = ['job_loss', 'medical_emergency', 'market_crash', 'inflation_surge', 'combined'];
+
+/** Months each crisis lasts; an EMI is safe if it is still paid when the crisis is over */
+export const SAFE_RUNWAY_MONTHS = 6;
+
+const crisis = (target: ScenarioShock['target'], value: number): ScenarioShock => ({
+  target,
+  mode: 'percent',
+  value,
+  startMonth: 1,
+  durationMonths: SAFE_RUNWAY_MONTHS,
+});
+
+/**
+ * The preset scenarios as month-by-month timelines, so income that keeps
+ * coming in pays its share and only savings and investments form the buffer.
+ * Property is left out: a house cannot be sold in time to pay an EMI.
+ */
+const SCENARIO_TIMELINES: Record<ResilienceScenario, CustomScenario> = {
+  job_loss: {
+    id: 'job_loss',
+    name: 'Job loss',
+    shocks: [crisis('income', -100), crisis('expenses', 10)],
+  },
+  medical_emergency: {
+    id: 'medical_emergency',
+    name: 'Medical emergency',
+    shocks: [crisis('savings', -30), crisis('investments', -30), crisis('expenses', 15)],
+  },
+  market_crash: {
+    id: 'market_crash',
+    name: 'Market crash',
+    shocks: [crisis('investments', -40), crisis('expenses', 5)],
+  },
+  inflation_surge: {
+    id: 'inflation_surge',
+    name: 'Inflation surge',
+    shocks: [crisis('expenses', 20)],
+  },
+  combined: {
+    id: 'combined',
+    name: 'Combined',
+    shocks: [crisis('income', -100), crisis('expenses', 35), crisis('savings', -50), crisis('investments', -70)],
+  },
+};
+
+export interface LoanStressComparison {
+  scenario: ResilienceScenario;
+  before: TimelineResult;
+  after: TimelineResult;
+  /** Largest EMI the household keeps paying through this scenario; 0 if none */
+  maxSafeEmi: number;
+}
+
+function jobStability(form: LoanFormData): FinancialProfile['job_stability'] {
+  if (form.job_type === 'Government' || form.income_stability === 'Very Stable') return 'High';
+  if (form.income_stability === 'Unstable' || form.job_type === 'Student') return 'Low';
+  if (form.income_stability === 'Moderate' || form.years_experience < 2) return 'Medium';
+  return form.job_type === 'Salaried' ? 'High' : 'Medium';
+}
+
+/**
+ * Resilience profile for a form submission. `candidateEmi` is the new loan's
+ * EMI and is added to the existing obligations, so stress results describe
+ * life after the loan is disbursed.
+ */
+export function profileFromLoanForm(form: LoanFormData, candidateEmi = 0): FinancialProfile {
+  // A household with pooled co-applicants earns and repays together
+  const household = combineHousehold(form);
+  const income = Math.max(household.monthlyIncome, 0);
+  const ledger = ledgerTotals(form.liabilities);
+  const existingLoans = ledger.count > 0 ? ledger.count : Math.max(form.existing_loans || 0, 0);
+  const existingEmi = (ledger.count > 0 ? ledger.monthlyObligation : existingLoans * EXISTING_LOAN_EMI_ESTIMATE)
+    + household.coApplicantEmi;
+  return {
+    monthly_income: income,
+    // Expenses are optional on the form; half of income is the usual planning figure
+    monthly_expenses: form.total_monthly_expenses > 0 ? form.total_monthly_expenses : Math.round(income * 0.5),
+    savings_liquid: Math.max(form.bank_balance || 0, 0),
+    // The form only asks whether there are investments, not how much; assume a year of savings
+    investments: form.has_investments ? Math.max(form.monthly_savings || 0, 0) * 12 : 0,
+    property_value: form.owns_house ? Math.max(form.property_value || 0, 0) : 0,
+    debt_monthly: existingEmi + Math.max(candidateEmi, 0),
+    credit_score: form.credit_score,
+    existing_loans: existingLoans + (candidateEmi > 0 ? 1 : 0),
+    job_stability: jobStability(form),
+    age: form.age,
+    dependents: form.dependent_children || 0,
+    has_insurance: form.has_health_insurance || form.has_life_insurance,
+    investment_diversification: form.has_investments ? 50 : 0,
+  };
+}
+
+/** Months simulated for a form: the loan's tenure, and never shorter than the crisis */
+const horizonFor = (form: LoanFormData) => Math.max(Math.round(form.loan_tenure || 0), SAFE_RUNWAY_MONTHS);
+
+/** `scenario` played out month by month on `profile` for `horizonMonths` */
+export function simulateLoanStress(
+  profile: FinancialProfile,
+  scenario: ResilienceScenario,
+  horizonMonths: number,
+): TimelineResult {
+  return simulateTimeline(profile, { ...SCENARIO_TIMELINES[scenario], horizonMonths });
+}
+
+/**
+ * Largest EMI (rounded down to ₹100) the household keeps paying for the
+ * whole tenure with `scenario` hitting at the start. Survival falls as the
+ * EMI rises, so a bisection finds it.
+ */
+export function maxSafeEmi(form: LoanFormData, scenario: ResilienceScenario): number {
+  const horizonMonths = horizonFor(form);
+  const survives = (emi: number) => simulateLoanStress(profileFromLoanForm(form, emi), scenario, horizonMonths).survived;
+  if (!survives(0)) return 0;
+
+  let low = 0;
+  let high = Math.max(form.monthly_income || 0, 100);
+  while (survives(high)) {
+    low = high;
+    high *= 2;
+  }
+  while (high - low > 100) {
+    const mid = (low + high) / 2;
+    if (survives(mid)) low = mid;
+    else high = mid;
+  }
+  return Math.floor(low / 100) * 100;
+}
+
+/** Every scenario before and after taking on `candidateEmi` */
+export function compareLoanStress(form: LoanFormData, candidateEmi: number): LoanStressComparison[] {
+  const before = profileFromLoanForm(form);
+  const after = profileFromLoanForm(form, candidateEmi);
+  const horizonMonths = horizonFor(form);
+  return STRESS_SCENARIOS.map((scenario) => ({
+    scenario,
+    before: simulateLoanStress(before, scenario, horizonMonths),
+    after: simulateLoanStress(after, scenario, horizonMonths),
+    maxSafeEmi: maxSafeEmi(form, scenario),
+  }));
+}
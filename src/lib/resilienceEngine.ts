@@ -122,14 +122,17 @@ export function simulateStressTest(
   }
 
   const survivalMonths = monthlyObligation > 0 ? Math.floor(remainingAssets / monthlyObligation) : 0;
-  
-  let impactLevel: 'Low' | 'Medium' | 'High' | 'Critical';
-  if (survivalMonths >= 12) impactLevel = 'Low';
-  else if (survivalMonths >= 6) impactLevel = 'Medium';
-  else if (survivalMonths >= 2) impactLevel = 'High';
-  else impactLevel = 'Critical';
 
-  return { survivalMonths: Math.max(0, survivalMonths), impactLevel, affectedAssets };
+  return { survivalMonths: Math.max(0, survivalMonths), impactLevel: impactLevelFor(survivalMonths), affectedAssets };
+}
+
+export type ImpactLevel = 'Low' | 'Medium' | 'High' | 'Critical';
+
+export function impactLevelFor(survivalMonths: number): ImpactLevel {
+  if (survivalMonths >= 12) return 'Low';
+  if (survivalMonths >= 6) return 'Medium';
+  if (survivalMonths >= 2) return 'High';
+  return 'Critical';
 }
 
 export function identifyRiskFactors(profile: FinancialProfile): string[] {
@@ -291,3 +294,331 @@ export function calculateResilienceMetrics(profile: FinancialProfile): Resilienc
     scenarioResults,
   };
 }
+
+// ---------------------------------------------------------------------------
+// Monte Carlo stress test
+//
+// Instead of one fixed shock per scenario, simulate many monthly cash-flow
+// paths where job loss, medical bills, inflation and market returns are drawn
+// at random. A path "defaults" in the first month its liquid buffer (savings,
+// then investments) cannot cover that month's shortfall. Property is left out:
+// it cannot be sold fast enough to pay a missed EMI.
+// ---------------------------------------------------------------------------
+
+export interface StressAssumptions {
+  /** Chance of losing income in any month, by job stability */
+  monthlyJobLossProbability: Record<FinancialProfile['job_stability'], number>;
+  /** Average months to find work again after a job loss */
+  meanMonthsUnemployed: number;
+  /** Chance of a medical event in any month */
+  monthlyMedicalProbability: number;
+  /** Median medical bill, in months of expenses; bills are log-normally spread */
+  medicalCostMedianMonths: number;
+  medicalCostSpread: number;
+  /** Share of a medical bill paid by insurance when the household has cover */
+  insuranceCoverage: number;
+  /** Annual expense inflation: each path draws its own rate */
+  inflationMean: number;
+  inflationVolatility: number;
+  /** Annual investment return and volatility */
+  returnMean: number;
+  returnVolatility: number;
+}
+
+export const DEFAULT_STRESS_ASSUMPTIONS: StressAssumptions = {
+  monthlyJobLossProbability: { High: 0.004, Medium: 0.01, Low: 0.025 },
+  meanMonthsUnemployed: 5,
+  monthlyMedicalProbability: 0.01,
+  medicalCostMedianMonths: 2,
+  medicalCostSpread: 0.8,
+  insuranceCoverage: 0.7,
+  inflationMean: 0.06,
+  inflationVolatility: 0.02,
+  returnMean: 0.1,
+  returnVolatility: 0.18,
+};
+
+export interface MonteCarloOptions {
+  /** Number of simulated paths */
+  paths?: number;
+  /** Months simulated per path, usually the loan tenure */
+  horizonMonths?: number;
+  /** Same seed, same result; lets a chart stay put between renders */
+  seed?: number;
+  /** EMI of the loan being applied for, on top of `debt_monthly` */
+  proposedEmi?: number;
+  assumptions?: Partial<StressAssumptions>;
+}
+
+export interface SurvivalPercentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  horizonMonths: number;
+  seed: number;
+  /** Months until the buffer runs out; paths that never run out count as `horizonMonths` */
+  survivalPercentiles: SurvivalPercentiles;
+  /**
+   * Share of paths that run out of money within the horizon, 0–1. Every
+   * obligation including the proposed EMI is due monthly, so this is the
+   * chance of missing a payment on the new loan.
+   */
+  probabilityOfDefault: number;
+  /** Share of paths still paying at the end of each month, starting at month 0 */
+  survivalCurve: { month: number; solvent: number }[];
+}
+
+/** mulberry32: small, fast and good enough for simulation */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box-Muller) */
+function normal(random: () => number): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/** Months one path lasts before it cannot pay, or `horizon` if it never fails */
+function simulatePath(
+  profile: FinancialProfile,
+  emi: number,
+  horizon: number,
+  a: StressAssumptions,
+  random: () => number,
+): number {
+  let savings = profile.savings_liquid;
+  let investments = profile.investments;
+  let expenses = profile.monthly_expenses;
+  let employed = true;
+
+  const monthlyInflation = Math.max(-0.05, a.inflationMean + a.inflationVolatility * normal(random)) / 12;
+  const jobLoss = a.monthlyJobLossProbability[profile.job_stability] ?? a.monthlyJobLossProbability.Medium;
+  const rehire = a.meanMonthsUnemployed > 0 ? 1 / a.meanMonthsUnemployed : 1;
+  const returnMean = a.returnMean / 12;
+  const returnVolatility = a.returnVolatility / Math.sqrt(12);
+
+  for (let month = 1; month <= horizon; month++) {
+    employed = employed ? random() >= jobLoss : random() < rehire;
+    expenses *= 1 + monthlyInflation;
+    investments *= Math.max(0, 1 + returnMean + returnVolatility * normal(random));
+
+    let medical = 0;
+    if (random() < a.monthlyMedicalProbability) {
+      const bill = profile.monthly_expenses * a.medicalCostMedianMonths * Math.exp(a.medicalCostSpread * normal(random));
+      medical = profile.has_insurance ? bill * (1 - a.insuranceCoverage) : bill;
+    }
+
+    const income = employed ? profile.monthly_income : 0;
+    savings += income - expenses - profile.debt_monthly - emi - medical;
+
+    if (savings < 0) {
+      investments += savings;
+      savings = 0;
+      if (investments < 0) return month - 1;
+    }
+  }
+  return horizon;
+}
+
+/**
+ * Run `paths` seeded cash-flow simulations and summarise how long the
+ * household keeps paying and how often the proposed loan goes unpaid.
+ */
+export function runMonteCarloStressTest(profile: FinancialProfile, options: MonteCarloOptions = {}): MonteCarloResult {
+  const paths = Math.max(1, Math.round(options.paths ?? 2000));
+  const horizonMonths = Math.max(1, Math.round(options.horizonMonths ?? 36));
+  const seed = options.seed ?? 1;
+  const emi = Math.max(0, options.proposedEmi ?? 0);
+  const assumptions = { ...DEFAULT_STRESS_ASSUMPTIONS, ...options.assumptions };
+  const random = seededRandom(seed);
+
+  const survival: number[] = [];
+  for (let i = 0; i < paths; i++) {
+    survival.push(simulatePath(profile, emi, horizonMonths, assumptions, random));
+  }
+  survival.sort((x, y) => x - y);
+
+  const defaulted = survival.filter((months) => months < horizonMonths).length;
+  const survivalCurve: MonteCarloResult['survivalCurve'] = [];
+  let failed = 0;
+  for (let month = 0; month <= horizonMonths; month++) {
+    while (failed < survival.length && survival[failed] < month) failed++;
+    survivalCurve.push({ month, solvent: (paths - failed) / paths });
+  }
+
+  return {
+    paths,
+    horizonMonths,
+    seed,
+    survivalPercentiles: {
+      p10: percentile(survival, 10),
+      p25: percentile(survival, 25),
+      p50: percentile(survival, 50),
+      p75: percentile(survival, 75),
+      p90: percentile(survival, 90),
+    },
+    probabilityOfDefault: defaulted / paths,
+    survivalCurve,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Custom timeline scenarios
+//
+// A scenario is a list of shocks, each hitting one part of the household's
+// finances from a given month. Flows (income, expenses, debt) change for the
+// months a shock lasts; balances (savings, investments) take a one-off hit in
+// the month it starts. The timeline keeps the household's normal income, so
+// unlike the presets above it answers "do we get through this", not "how long
+// could we live on savings alone".
+// ---------------------------------------------------------------------------
+
+export type ShockTarget = 'income' | 'expenses' | 'debt' | 'savings' | 'investments';
+
+export interface ScenarioShock {
+  target: ShockTarget;
+  /** `percent` of the baseline (flows) or current balance (savings, investments), or a rupee `amount` */
+  mode: 'percent' | 'amount';
+  /** -100 percent stops income; +30 percent raises expenses by 30%; -50000 amount removes ₹50,000 */
+  value: number;
+  /** First month affected, 1-based */
+  startMonth: number;
+  /** Months a flow shock lasts; balance shocks apply once */
+  durationMonths: number;
+}
+
+export interface CustomScenario {
+  id: string;
+  name: string;
+  description?: string;
+  shocks: ScenarioShock[];
+  /** Months to simulate; defaults to the end of the last shock plus a year */
+  horizonMonths?: number;
+}
+
+export interface TimelineMonth {
+  month: number;
+  income: number;
+  outflow: number;
+  /** Savings plus what the investments would fetch, at the end of the month */
+  buffer: number;
+}
+
+export interface TimelineResult {
+  /** Months paid in full before the buffer ran out; the horizon if it never does */
+  survivalMonths: number;
+  impactLevel: ImpactLevel;
+  /** True when the household got through the whole horizon */
+  survived: boolean;
+  lowestBuffer: number;
+  timeline: TimelineMonth[];
+}
+
+const FLOW_TARGETS: ShockTarget[] = ['income', 'expenses', 'debt'];
+/** Share of market value realised when investments are sold in a hurry */
+const INVESTMENT_LIQUIDATION = 0.8;
+
+export function isFlowShock(shock: ScenarioShock): boolean {
+  return FLOW_TARGETS.includes(shock.target);
+}
+
+export function scenarioHorizon(scenario: CustomScenario): number {
+  if (scenario.horizonMonths) return Math.max(1, Math.round(scenario.horizonMonths));
+  const lastMonth = scenario.shocks.reduce(
+    (end, shock) => Math.max(end, shock.startMonth + (isFlowShock(shock) ? shock.durationMonths : 1) - 1),
+    0,
+  );
+  return lastMonth + 12;
+}
+
+function isActive(shock: ScenarioShock, month: number): boolean {
+  if (!isFlowShock(shock)) return month === shock.startMonth;
+  return month >= shock.startMonth && month < shock.startMonth + Math.max(1, shock.durationMonths);
+}
+
+/** A monthly flow after every shock active this month */
+function shockedFlow(base: number, target: ShockTarget, shocks: ScenarioShock[], month: number): number {
+  let value = base;
+  for (const shock of shocks) {
+    if (shock.target !== target || !isActive(shock, month)) continue;
+    value += shock.mode === 'percent' ? (base * shock.value) / 100 : shock.value;
+  }
+  return Math.max(0, value);
+}
+
+/** Balance change from shocks starting this month */
+function balanceShock(balance: number, target: ShockTarget, shocks: ScenarioShock[], month: number): number {
+  let change = 0;
+  for (const shock of shocks) {
+    if (shock.target !== target || !isActive(shock, month)) continue;
+    change += shock.mode === 'percent' ? (balance * shock.value) / 100 : shock.value;
+  }
+  return change;
+}
+
+/**
+ * Walk `scenario` month by month: apply the month's shocks, add income, pay
+ * expenses and EMIs from savings, and sell investments once savings run out.
+ */
+export function simulateTimeline(profile: FinancialProfile, scenario: CustomScenario): TimelineResult {
+  const horizon = scenarioHorizon(scenario);
+  let savings = profile.savings_liquid;
+  let investments = profile.investments;
+  let survivalMonths = horizon;
+  let lowestBuffer = savings + investments * INVESTMENT_LIQUIDATION;
+  const timeline: TimelineMonth[] = [];
+
+  for (let month = 1; month <= horizon; month++) {
+    savings += balanceShock(savings, 'savings', scenario.shocks, month);
+    investments = Math.max(0, investments + balanceShock(investments, 'investments', scenario.shocks, month));
+
+    const income = shockedFlow(profile.monthly_income, 'income', scenario.shocks, month);
+    const outflow =
+      shockedFlow(profile.monthly_expenses, 'expenses', scenario.shocks, month) +
+      shockedFlow(profile.debt_monthly, 'debt', scenario.shocks, month);
+    savings += income - outflow;
+
+    if (savings < 0) {
+      investments += savings / INVESTMENT_LIQUIDATION;
+      savings = 0;
+    }
+    // Goes negative in the month investments run out: the part left unpaid
+    const buffer = Math.round(savings + investments * INVESTMENT_LIQUIDATION);
+    timeline.push({ month, income: Math.round(income), outflow: Math.round(outflow), buffer });
+    lowestBuffer = Math.min(lowestBuffer, buffer);
+
+    if (investments < 0) {
+      survivalMonths = month - 1;
+      break;
+    }
+  }
+
+  return {
+    survivalMonths,
+    impactLevel: survivalMonths >= horizon ? 'Low' : impactLevelFor(survivalMonths),
+    survived: survivalMonths >= horizon,
+    lowestBuffer: Math.round(lowestBuffer),
+    timeline,
+  };
+}
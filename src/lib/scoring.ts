@@ -0,0 +1,6 @@
+/**
+ * Browser entry point for the shared loan scoring engine.
+ * The engine lives with the edge functions so Deno can deploy it unchanged.
+ */
+
+export * from '../../supabase/functions/_shared/scoring.ts';
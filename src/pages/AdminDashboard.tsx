@@ -1,53 +1,105 @@
 import { useNavigate } from 'react-router-dom';
-import { useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import Header from '@/components/layout/Header';
 import Footer from '@/components/layout/Footer';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/i18n/LanguageContext';
+import { isLanguage, languageInfo } from '@/i18n/languages';
 import { motion } from 'framer-motion';
-import { BarChart3, Users, CheckCircle, XCircle, Clock } from 'lucide-react';
+import { BarChart3, Users, CheckCircle, XCircle, Clock, Filter, X, Loader2 } from 'lucide-react';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Progress } from '@/components/ui/progress';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip } from 'recharts';
-
-const approvalData = [
-  { name: 'Approved', value: 342, color: 'hsl(152, 50%, 42%)' },
-  { name: 'Rejected', value: 158, color: 'hsl(0, 70%, 55%)' },
-  { name: 'Pending', value: 67, color: 'hsl(35, 90%, 52%)' },
-];
-
-const languageData = [
-  { name: 'English', users: 285 },
-  { name: 'Hindi', users: 198 },
-  { name: 'Tamil', users: 84 },
-];
-
-const riskData = [
-  { name: 'Low Risk', value: 210, color: 'hsl(152, 50%, 42%)' },
-  { name: 'Medium Risk', value: 224, color: 'hsl(35, 90%, 52%)' },
-  { name: 'High Risk', value: 133, color: 'hsl(0, 70%, 55%)' },
-];
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, LineChart, Line } from 'recharts';
+import {
+  OUTCOMES,
+  toChartSlices,
+  useApplicationList,
+  useApplicationStats,
+  type AnalyticsDimension,
+  type AnalyticsFilters,
+  type DrillDown,
+} from '@/lib/adminAnalytics';
+
+const outcomeColors: Record<string, string> = {
+  Approved: 'hsl(152, 50%, 42%)',
+  Rejected: 'hsl(0, 70%, 55%)',
+  Pending: 'hsl(35, 90%, 52%)',
+};
+
+const riskColors: Record<string, string> = {
+  Low: 'hsl(152, 50%, 42%)',
+  Medium: 'hsl(35, 90%, 52%)',
+  High: 'hsl(0, 70%, 55%)',
+};
+
+const ALL = 'all';
 
 const AdminDashboard = () => {
-  const { user } = useAuth();
+  const { user, isAdmin, isLoading } = useAuth();
   const { t } = useLanguage();
   const navigate = useNavigate();
+  const [filters, setFilters] = useState<AnalyticsFilters>({});
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
 
+  // Role comes from the verified JWT claims, never from client input
   useEffect(() => {
-    if (!user || user.role !== 'admin') {
-      navigate('/login');
+    if (!isLoading && !isAdmin) {
+      navigate('/', { replace: true });
     }
-  }, [user, navigate]);
+  }, [isAdmin, isLoading, navigate]);
+
+  const ready = !!user && isAdmin;
+  const { data: stats, isLoading: statsLoading, isError } = useApplicationStats(filters, ready);
+  // Unfiltered totals supply the filter options, so picking one value doesn't hide the others
+  const { data: facets } = useApplicationStats({}, ready);
+  const { data: applications, isFetching: listLoading } = useApplicationList(filters, drillDown);
+
+  if (!user || !isAdmin) return null;
+
+  const setFilter = (key: keyof AnalyticsFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value && value !== ALL ? value : undefined }));
+    setDrillDown(null);
+  };
+
+  const drill = (dimension: AnalyticsDimension, value: string) => setDrillDown({ dimension, value });
 
-  if (!user || user.role !== 'admin') return null;
+  const outcomeLabel = (key: string) =>
+    key === 'Approved' ? t('admin_approved') : key === 'Rejected' ? t('admin_rejected') : t('admin_pending');
+  const languageLabel = (code: string) => (isLanguage(code) ? languageInfo(code).name : code);
+  const bucketLabel = (key: string) => (key === 'Unscored' ? t('admin_unscored') : key);
 
-  const stats = [
-    { icon: Users, label: t('admin_total'), value: '567', color: 'bg-primary/10 text-primary' },
-    { icon: CheckCircle, label: t('admin_approved'), value: '342', color: 'bg-risk-low/10 text-risk-low' },
-    { icon: XCircle, label: t('admin_rejected'), value: '158', color: 'bg-risk-high/10 text-risk-high' },
-    { icon: Clock, label: t('admin_pending'), value: '67', color: 'bg-risk-medium/10 text-risk-medium' },
+  const total = stats?.total ?? 0;
+  const approvalData = toChartSlices(stats?.byOutcome ?? {}, OUTCOMES).filter(s => s.value > 0);
+  const languageData = toChartSlices(stats?.byLanguage ?? {}).map(s => ({ ...s, name: languageLabel(s.key) }));
+  const riskData = toChartSlices(stats?.byRisk ?? {}, ['Low', 'Medium', 'High']);
+
+  const statCards = [
+    { icon: Users, label: t('admin_total'), value: total, color: 'bg-primary/10 text-primary' },
+    { icon: CheckCircle, label: t('admin_approved'), value: stats?.byOutcome.Approved ?? 0, color: 'bg-risk-low/10 text-risk-low', outcome: 'Approved' },
+    { icon: XCircle, label: t('admin_rejected'), value: stats?.byOutcome.Rejected ?? 0, color: 'bg-risk-high/10 text-risk-high', outcome: 'Rejected' },
+    { icon: Clock, label: t('admin_pending'), value: stats?.byOutcome.Pending ?? 0, color: 'bg-risk-medium/10 text-risk-medium', outcome: 'Pending' },
+  ];
+
+  const filterSelects: { key: keyof AnalyticsFilters; label: string; options: string[]; format?: (v: string) => string }[] = [
+    { key: 'state', label: t('admin_state'), options: Object.keys(facets?.byState ?? {}).filter(k => k !== 'Unknown').sort() },
+    { key: 'purpose', label: t('admin_purpose'), options: Object.keys(facets?.byPurpose ?? {}).filter(k => k !== 'Unknown').sort() },
+    { key: 'jobType', label: t('admin_job'), options: Object.keys(facets?.byJobType ?? {}).filter(k => k !== 'Unknown').sort() },
+    { key: 'language', label: t('admin_lang_filter'), options: Object.keys(facets?.byLanguage ?? {}).sort(), format: languageLabel },
   ];
 
+  const drillLabel = drillDown
+    ? drillDown.dimension === 'outcome'
+      ? outcomeLabel(drillDown.value)
+      : drillDown.dimension === 'language'
+        ? languageLabel(drillDown.value)
+        : bucketLabel(drillDown.value)
+    : '';
+
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -63,24 +115,83 @@ const AdminDashboard = () => {
           </Badge>
         </motion.div>
 
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8 rounded-xl border border-border bg-card p-5 shadow-card"
+        >
+          <div className="mb-4 flex items-center justify-between">
+            <h3 className="flex items-center gap-2 font-semibold text-foreground">
+              <Filter className="h-4 w-4 text-saffron" /> {t('admin_filters')}
+            </h3>
+            <Button variant="ghost" size="sm" onClick={() => { setFilters({}); setDrillDown(null); }}>
+              {t('admin_reset')}
+            </Button>
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+            <div className="space-y-1">
+              <Label htmlFor="admin-from">{t('admin_from')}</Label>
+              <Input id="admin-from" type="date" value={filters.from ?? ''} onChange={e => setFilter('from', e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="admin-to">{t('admin_to')}</Label>
+              <Input id="admin-to" type="date" value={filters.to ?? ''} onChange={e => setFilter('to', e.target.value)} />
+            </div>
+            {filterSelects.map(f => (
+              <div key={f.key} className="space-y-1">
+                <Label>{f.label}</Label>
+                <Select value={filters[f.key] ?? ALL} onValueChange={v => setFilter(f.key, v)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>{t('admin_all')}</SelectItem>
+                    {f.options.map(o => <SelectItem key={o} value={o}>{f.format ? f.format(o) : o}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </motion.div>
+
+        {isError && (
+          <p className="mb-8 rounded-lg border border-destructive/30 bg-destructive/5 p-4 text-sm text-destructive">
+            {t('admin_load_error')}
+          </p>
+        )}
+
         <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4 mb-8">
-          {stats.map((stat, i) => (
-            <motion.div
+          {statCards.map((stat, i) => (
+            <motion.button
               key={stat.label}
+              type="button"
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: i * 0.08 }}
-              className="rounded-xl border border-border bg-card p-5 shadow-card"
+              disabled={!stat.outcome}
+              onClick={() => stat.outcome && drill('outcome', stat.outcome)}
+              className="rounded-xl border border-border bg-card p-5 text-left shadow-card enabled:hover:border-saffron/50"
             >
               <div className={`mb-3 flex h-10 w-10 items-center justify-center rounded-lg ${stat.color}`}>
                 <stat.icon className="h-5 w-5" />
               </div>
               <p className="text-sm text-muted-foreground">{stat.label}</p>
-              <p className="text-2xl font-bold text-foreground">{stat.value}</p>
-            </motion.div>
+              <p className="text-2xl font-bold text-foreground">
+                {statsLoading ? <Loader2 className="h-5 w-5 animate-spin" /> : stat.value.toLocaleString('en-IN')}
+              </p>
+            </motion.button>
           ))}
         </div>
 
+        {stats?.avgProbability != null && (
+          <p className="mb-4 text-sm text-muted-foreground">
+            {t('admin_avg_prob')}: <span className="font-semibold text-foreground">{stats.avgProbability}%</span>
+          </p>
+        )}
+        <p className="mb-4 text-xs text-muted-foreground">{t('admin_drill_hint')}</p>
+
+        {!statsLoading && !isError && total === 0 && (
+          <p className="mb-8 rounded-lg border border-border bg-muted/40 p-4 text-sm text-muted-foreground">{t('admin_no_data')}</p>
+        )}
+
         <div className="grid gap-8 lg:grid-cols-2 mb-8">
           <motion.div
             initial={{ opacity: 0, y: 20 }}
@@ -92,12 +203,24 @@ const AdminDashboard = () => {
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
                 <PieChart>
-                  <Pie data={approvalData} cx="50%" cy="50%" innerRadius={50} outerRadius={90} paddingAngle={4} dataKey="value" label={({ name, value }) => `${name}: ${value}`}>
-                    {approvalData.map((entry, i) => (
-                      <Cell key={i} fill={entry.color} />
+                  <Pie
+                    data={approvalData}
+                    cx="50%"
+                    cy="50%"
+                    innerRadius={50}
+                    outerRadius={90}
+                    paddingAngle={4}
+                    dataKey="value"
+                    nameKey="key"
+                    label={({ key, value }) => `${outcomeLabel(key)}: ${value}`}
+                    onClick={(slice: { key: string }) => drill('outcome', slice.key)}
+                    className="cursor-pointer"
+                  >
+                    {approvalData.map(entry => (
+                      <Cell key={entry.key} fill={outcomeColors[entry.key]} />
                     ))}
                   </Pie>
-                  <Tooltip />
+                  <Tooltip formatter={(value: number, key: string) => [value, outcomeLabel(key)]} />
                 </PieChart>
               </ResponsiveContainer>
             </div>
@@ -115,34 +238,129 @@ const AdminDashboard = () => {
                 <BarChart data={languageData}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                   <XAxis dataKey="name" tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
-                  <YAxis tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
                   <Tooltip />
-                  <Bar dataKey="users" fill="hsl(var(--saffron))" radius={[4, 4, 0, 0]} />
+                  <Bar
+                    dataKey="value"
+                    name={t('admin_total')}
+                    fill="hsl(var(--saffron))"
+                    radius={[4, 4, 0, 0]}
+                    className="cursor-pointer"
+                    onClick={(bar: { key: string }) => drill('language', bar.key)}
+                  />
                 </BarChart>
               </ResponsiveContainer>
             </div>
           </motion.div>
         </div>
 
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.5 }}
-          className="rounded-xl border border-border bg-card p-6 shadow-card"
-        >
-          <h3 className="mb-4 text-lg font-semibold text-foreground">{t('admin_risk')}</h3>
-          <div className="space-y-4">
-            {riskData.map(item => (
-              <div key={item.name}>
-                <div className="mb-1 flex items-center justify-between text-sm">
-                  <span className="text-foreground">{item.name}</span>
-                  <span className="font-medium text-muted-foreground">{item.value} ({Math.round(item.value / 567 * 100)}%)</span>
-                </div>
-                <Progress value={item.value / 567 * 100} className="h-2" />
-              </div>
-            ))}
-          </div>
-        </motion.div>
+        <div className="grid gap-8 lg:grid-cols-2 mb-8">
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.5 }}
+            className="rounded-xl border border-border bg-card p-6 shadow-card"
+          >
+            <h3 className="mb-4 text-lg font-semibold text-foreground">{t('admin_risk')}</h3>
+            <div className="space-y-4">
+              {riskData.map(item => (
+                <button
+                  key={item.key}
+                  type="button"
+                  className="block w-full text-left"
+                  onClick={() => drill('risk_category', item.key)}
+                >
+                  <div className="mb-1 flex items-center justify-between text-sm">
+                    <span className="flex items-center gap-2 text-foreground">
+                      <span className="h-2 w-2 rounded-full" style={{ backgroundColor: riskColors[item.key] ?? 'hsl(var(--muted-foreground))' }} />
+                      {bucketLabel(item.key)}
+                    </span>
+                    <span className="font-medium text-muted-foreground">{item.value} ({Math.round(item.share)}%)</span>
+                  </div>
+                  <Progress value={item.share} className="h-2" />
+                </button>
+              ))}
+            </div>
+          </motion.div>
+
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.6 }}
+            className="rounded-xl border border-border bg-card p-6 shadow-card"
+          >
+            <h3 className="mb-4 text-lg font-semibold text-foreground">{t('admin_daily')}</h3>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={stats?.daily ?? []}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                  <Tooltip />
+                  <Line type="monotone" dataKey="total" name={t('admin_total')} stroke="hsl(var(--saffron))" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="approved" name={t('admin_approved')} stroke={outcomeColors.Approved} strokeWidth={2} dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </motion.div>
+        </div>
+
+        {drillDown && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="rounded-xl border border-border bg-card p-6 shadow-card"
+          >
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="text-lg font-semibold text-foreground">
+                {t('admin_drill_title')}: <span className="text-saffron">{drillLabel}</span>
+              </h3>
+              <Button variant="ghost" size="sm" onClick={() => setDrillDown(null)}>
+                <X className="mr-1 h-4 w-4" /> {t('admin_drill_close')}
+              </Button>
+            </div>
+            {listLoading ? (
+              <div className="flex justify-center py-8"><Loader2 className="h-6 w-6 animate-spin text-muted-foreground" /></div>
+            ) : !applications?.length ? (
+              <p className="text-sm text-muted-foreground">{t('admin_no_data')}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('admin_col_date')}</TableHead>
+                    <TableHead>{t('admin_state')}</TableHead>
+                    <TableHead>{t('admin_purpose')}</TableHead>
+                    <TableHead>{t('admin_job')}</TableHead>
+                    <TableHead>{t('admin_lang_filter')}</TableHead>
+                    <TableHead className="text-right">{t('admin_col_amount')}</TableHead>
+                    <TableHead className="text-right">{t('admin_col_income')}</TableHead>
+                    <TableHead className="text-right">{t('admin_col_prob')}</TableHead>
+                    <TableHead>{t('admin_col_outcome')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {applications.map(app => (
+                    <TableRow key={app.application_id}>
+                      <TableCell>{app.created_on}</TableCell>
+                      <TableCell>{app.location_state ?? '—'}</TableCell>
+                      <TableCell>{app.loan_purpose ?? '—'}</TableCell>
+                      <TableCell>{app.job_type ?? '—'}</TableCell>
+                      <TableCell>{languageLabel(app.language ?? 'en')}</TableCell>
+                      <TableCell className="text-right">₹{(app.loan_amount ?? 0).toLocaleString('en-IN')}</TableCell>
+                      <TableCell className="text-right">₹{(app.monthly_income ?? 0).toLocaleString('en-IN')}</TableCell>
+                      <TableCell className="text-right">{app.approval_probability != null ? `${app.approval_probability}%` : '—'}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" style={{ color: outcomeColors[app.outcome ?? 'Pending'] }}>
+                          {outcomeLabel(app.outcome ?? 'Pending')}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </motion.div>
+        )}
       </main>
       <Footer />
     </div>
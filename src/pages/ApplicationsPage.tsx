@@ -0,0 +1,141 @@
+import { useNavigate } from 'react-router-dom';
+import Header from '@/components/layout/Header';
+import Footer from '@/components/layout/Footer';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/i18n/LanguageContext';
+import { motion } from 'framer-motion';
+import { History, Loader2, Eye, RefreshCw, ArrowRight } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { toTrendPoints, useApplicationHistory, type HistoryEntry } from '@/lib/applicationHistory';
+
+const riskClass = (risk: string | null) =>
+  risk === 'Low' ? 'text-risk-low' : risk === 'Medium' ? 'text-risk-medium' : risk === 'High' ? 'text-risk-high' : 'text-muted-foreground';
+
+const ApplicationsPage = () => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+  const { data: entries = [], isLoading, isError } = useApplicationHistory(user?.id);
+
+  const trend = toTrendPoints(entries);
+
+  const viewResults = (entry: HistoryEntry) => {
+    if (!entry.analysis) return;
+    sessionStorage.setItem('analysisResult', JSON.stringify(entry.analysis));
+    sessionStorage.setItem('formData', JSON.stringify(entry.formData));
+    navigate('/results');
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container py-8 md:py-12">
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="mb-8">
+          <div className="flex items-center gap-3 mb-2">
+            <History className="h-6 w-6 text-saffron" />
+            <h1 className="text-2xl font-bold text-foreground md:text-3xl">{t('history_title')}</h1>
+          </div>
+          <p className="text-muted-foreground">{t('history_subtitle')}</p>
+        </motion.div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-20">
+            <Loader2 className="h-8 w-8 animate-spin text-saffron" />
+          </div>
+        ) : isError ? (
+          <p className="rounded-lg border border-destructive/30 bg-destructive/5 p-4 text-sm text-destructive">
+            {t('history_load_error')}
+          </p>
+        ) : entries.length === 0 ? (
+          <div className="rounded-xl border border-border bg-card p-10 text-center shadow-card">
+            <p className="mb-4 text-muted-foreground">{t('history_empty')}</p>
+            <Button variant="saffron" onClick={() => navigate('/eligibility')}>
+              {t('history_start')} <ArrowRight className="ml-2 h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <>
+            {trend.length > 1 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 }}
+                className="mb-8 rounded-xl border border-border bg-card p-6 shadow-card"
+              >
+                <h3 className="mb-4 text-lg font-semibold text-foreground">{t('history_trend')}</h3>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={trend}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                      <XAxis dataKey="date" tick={{ fontSize: 11, fill: 'hsl(var(--muted-foreground))' }} />
+                      <YAxis domain={[0, 100]} tick={{ fontSize: 12, fill: 'hsl(var(--muted-foreground))' }} />
+                      <Tooltip />
+                      <Legend />
+                      <Line type="monotone" dataKey="probability" name={t('history_probability')} stroke="hsl(var(--saffron))" strokeWidth={2} connectNulls />
+                      <Line type="monotone" dataKey="health" name={t('history_health')} stroke="hsl(152, 50%, 42%)" strokeWidth={2} connectNulls />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </motion.div>
+            )}
+
+            <div className="space-y-4">
+              {entries.map((entry, i) => (
+                <motion.div
+                  key={entry.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: 0.15 + i * 0.04 }}
+                  className="flex flex-col gap-4 rounded-xl border border-border bg-card p-5 shadow-card md:flex-row md:items-center md:justify-between"
+                >
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-semibold text-foreground">
+                        ₹{(entry.loanAmount ?? 0).toLocaleString('en-IN')} · {entry.loanPurpose ?? '—'}
+                      </span>
+                      {entry.jobType && <Badge variant="outline">{entry.jobType}</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(entry.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-6">
+                    <div className="text-center">
+                      <p className="text-xs text-muted-foreground">{t('history_probability')}</p>
+                      <p className="text-lg font-bold text-foreground">
+                        {entry.approvalProbability !== null ? `${entry.approvalProbability}%` : '—'}
+                      </p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-xs text-muted-foreground">{t('history_health')}</p>
+                      <p className="text-lg font-bold text-foreground">
+                        {entry.financialHealthScore !== null ? `${entry.financialHealthScore}/100` : '—'}
+                      </p>
+                    </div>
+                    <div className="text-center">
+                      <p className="text-xs text-muted-foreground">{t('result_risk')}</p>
+                      <p className={`font-bold ${riskClass(entry.riskCategory)}`}>{entry.riskCategory ?? t('history_unscored')}</p>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" disabled={!entry.analysis} onClick={() => viewResults(entry)}>
+                      <Eye className="mr-1 h-4 w-4" /> {t('history_view')}
+                    </Button>
+                    <Button variant="saffron" size="sm" onClick={() => navigate(`/eligibility?from=${entry.id}`)}>
+                      <RefreshCw className="mr-1 h-4 w-4" /> {t('history_rerun')}
+                    </Button>
+                  </div>
+                </motion.div>
+              ))}
+            </div>
+          </>
+        )}
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default ApplicationsPage;
@@ -7,6 +7,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Send, Bot, User, Mic, MicOff, Loader2, Volume2, Sparkles, CheckCircle2, ArrowRight } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useLanguage } from '@/i18n/LanguageContext';
+import { languageInfo } from '@/i18n/languages';
 import { useNavigate } from 'react-router-dom';
 import ReactMarkdown from 'react-markdown';
 import ResilienceDashboard from '@/components/resilience/ResilienceDashboard';
@@ -85,6 +86,28 @@ const normalizeApprovalPercent = (value?: number): number => {
   return Math.max(0, Math.min(100, Math.round(percent)));
 };
 
+const parseRupees = (match: RegExpMatchArray | null): number | undefined =>
+  match ? parseInt(match[1].replace(/,/g, ''), 10) : undefined;
+
+type ReportedLoan = {
+  emi: number;
+  tenureMonths?: number;
+  /** EMIs already being paid before this loan */
+  existingEmi: number;
+};
+
+/** The requested loan in a quick eligibility report, or null if `content` isn't one */
+const reportedLoan = (content: string): ReportedLoan | null => {
+  const emi = parseRupees(content.match(/Est\.\s*Monthly EMI:\*{0,2}\s*₹([\d,]+)/));
+  if (emi === undefined) return null;
+  const tenure = content.match(/Tenure:\s*(\d+)/);
+  return {
+    emi,
+    tenureMonths: tenure ? parseInt(tenure[1], 10) : undefined,
+    existingEmi: parseRupees(content.match(/\|\s*EMI:\s*₹([\d,]+)/)) ?? 0,
+  };
+};
+
 const ChatPage = () => {
   const { t, language } = useLanguage();
   const navigate = useNavigate();
@@ -126,9 +149,10 @@ const ChatPage = () => {
         savings_liquid: Math.round((data.monthly_income || 50000) * 3), // 3 months
         investments: Math.round((data.monthly_income || 50000) * 6), // 6 months savings invested
         property_value: 2500000, // default estimate
-        debt_monthly: (data.loan_amount || 500000) / 60, // estimate 5-year loan
+        // The requested loan is passed to the dashboard as its own EMI, not as existing debt
+        debt_monthly: data.existing_emi || 0,
         credit_score: data.credit_score || 700,
-        existing_loans: 1,
+        existing_loans: data.existing_emi > 0 ? 1 : 0,
         job_stability: (data.credit_score || 700) >= 750 ? 'High' : 'Medium',
         age: 30,
         dependents: 1,
@@ -140,13 +164,27 @@ const ChatPage = () => {
     }
   };
 
+  // The loan the stress test should include: the latest report before `index`, else the stored one
+  const candidateLoan = (index: number): { proposedEmi?: number; horizonMonths?: number } => {
+    for (let i = index - 1; i >= 0; i--) {
+      const loan = messages[i].role === 'assistant' ? reportedLoan(messages[i].content) : null;
+      if (loan) return { proposedEmi: loan.emi, horizonMonths: loan.tenureMonths };
+    }
+    try {
+      const data = JSON.parse(sessionStorage.getItem('eligibility_chat_data') ?? '{}');
+      return { proposedEmi: data.emi, horizonMonths: data.loan_tenure };
+    } catch {
+      return {};
+    }
+  };
+
   // Parse eligibility data from simple report and navigate
   const extractEligibilityDataAndNavigate = (reportContent: string) => {
     try {
       // Extract values using regex patterns from the simple report format
+      const loan = reportedLoan(reportContent);
       const approvalMatch = reportContent.match(/Approval Chances:\s*(\d+)%/);
       const riskMatch = reportContent.match(/Risk Level:\s*(\w+)/);
-      const emiMatch = reportContent.match(/Est\.\s*Monthly EMI:\s*₹([\d,]+)/);
       const incomeMatch = reportContent.match(/Income:\s*₹([\d,]+)/);
       const loanMatch = reportContent.match(/Loan:\s*₹([\d,]+)/);
       const scoreMatch = reportContent.match(/Score:\s*(\d+|N\/A)/);
@@ -159,6 +197,7 @@ const ChatPage = () => {
         loan_amount: loanMatch ? parseInt(loanMatch[1].replace(/,/g, '')) : 0,
         credit_score: scoreMatch && scoreMatch[1] !== 'N/A' ? parseInt(scoreMatch[1]) : null,
         job_type: typeMatch ? typeMatch[1] : 'N/A',
+        ...(loan && { emi: loan.emi, loan_tenure: loan.tenureMonths, existing_emi: loan.existingEmi }),
       };
 
       // Store in sessionStorage for the Check Eligibility page
@@ -321,7 +360,7 @@ const ChatPage = () => {
     }
 
     const recognition = new SpeechRecognition();
-    recognition.lang = language === 'hi' ? 'hi-IN' : language === 'ta' ? 'ta-IN' : 'en-IN';
+    recognition.lang = languageInfo(language).speechLocale;
     recognition.continuous = false;
     recognition.interimResults = true;
     recognition.maxAlternatives = 1;
@@ -393,7 +432,7 @@ const ChatPage = () => {
 
       window.speechSynthesis.cancel();
       const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = language === 'hi' ? 'hi-IN' : language === 'ta' ? 'ta-IN' : 'en-IN';
+      utterance.lang = languageInfo(language).speechLocale;
       utterance.rate = 0.95;
       window.speechSynthesis.speak(utterance);
     },
@@ -419,7 +458,7 @@ const ChatPage = () => {
 
         <ScrollArea className="flex-1 rounded-xl border border-border bg-card p-4 mb-4" style={{ height: 'calc(100vh - 280px)' }}>
           <div className="space-y-4">
-            {messages.map((msg) => (
+            {messages.map((msg, index) => (
               <motion.div
                 key={msg.id}
                 initial={{ opacity: 0, y: 8 }}
@@ -448,7 +487,7 @@ const ChatPage = () => {
                               </div>
                               {buildFinancialProfile() && (
                                 <div className="mt-4 max-w-2xl">
-                                  <ResilienceDashboard financialProfile={buildFinancialProfile()!} />
+                                  <ResilienceDashboard financialProfile={buildFinancialProfile()!} {...candidateLoan(index)} />
                                 </div>
                               )}
                             </>
@@ -7,8 +7,21 @@ import { Input } from '@/components/ui/input';
 import { Send, Bot, User, Mic, MicOff, Loader2, CheckCircle, TrendingUp, Calculator, FileText, Volume2, Zap } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useLanguage } from '@/i18n/LanguageContext';
+import { languageInfo } from '@/i18n/languages';
 import ReactMarkdown from 'react-markdown';
 import { getChatbotOrchestrator } from '@/lib/agents/orchestrator';
+import { getConversationMemory } from '@/lib/agents/conversationMemory';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import ChatSessionSidebar from '@/components/chat/ChatSessionSidebar';
+import {
+  deleteChatSession,
+  fetchChatSession,
+  saveChatTurn,
+  useChatSessions,
+  type ChatLanguage,
+} from '@/lib/chatSessions';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -24,17 +37,25 @@ const defaultOptions = [
   { icon: Calculator, label: 'Calculate EMI', action: 'emi', color: 'text-purple-600' },
 ];
 
+/** Session open in this tab, so a reload resumes it */
+const ACTIVE_SESSION_KEY = 'activeChatSession';
+
 const ChatPageNew = () => {
   const { t, language } = useLanguage();
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
   const orchestrator = getChatbotOrchestrator();
+  const memory = getConversationMemory();
+  const { data: sessions = [], isLoading: sessionsLoading } = useChatSessions(user?.id);
 
-  const getWelcomeMessage = () => {
+  const getWelcomeMessage = useCallback(() => {
     if (language === 'hi') {
       return `👋 नमस्ते! मैं **NidhiSaarthi AI** हूँ, आपका व्यक्तिगत वित्तीय सलाहकार।\n\nमैं आपकी मदद कर सकता हूँ:\n✅ ऋण पात्रता और स्वीकृति संभावना\n💰 EMI गणना और योजना\n📈 क्रेडिट स्कोर में सुधार की रणनीति\n🏦 बैंक का चयन और तुलना\n📋 आवश्यक दस्तावेज़\n💡 वित्तीय योजना सलाह\n\nमैं आपकी कैसे मदद कर सकता हूँ?`;
     }
     return `👋 Namaste! I'm **NidhiSaarthi AI**, your personal financial advisor powered by AI.\n\nI can help you with:\n✅ Loan eligibility & approval chances\n💰 EMI calculations & planning\n📈 Credit score improvement strategies\n🏦 Bank selection & comparison\n📋 Document requirements\n💡 Financial planning advice\n\nHow can I assist you today?`;
-  };
+  }, [language]);
 
   const [messages, setMessages] = useState<Message[]>([
     { role: 'assistant', content: getWelcomeMessage() },
@@ -49,6 +70,11 @@ const ChatPageNew = () => {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const recognitionRef = useRef<any>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  // Callbacks outlive renders; the ref always holds the current session
+  const sessionIdRef = useRef<string | null>(null);
+  // Saves run one after another so a new session is created only once
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   // Scroll to bottom
   const scrollToBottom = useCallback(() => {
@@ -59,12 +85,97 @@ const ChatPageNew = () => {
     });
   }, []);
 
-  // Update welcome message when language changes
-  useEffect(() => {
+  const bindSession = useCallback((id: string | null) => {
+    sessionIdRef.current = id;
+    setSessionId(id);
+    if (id) sessionStorage.setItem(ACTIVE_SESSION_KEY, id);
+    else sessionStorage.removeItem(ACTIVE_SESSION_KEY);
+  }, []);
+
+  // ──────────────────────────────────────────────
+  //  SERVER-SIDE SESSIONS
+  // ──────────────────────────────────────────────
+
+  const persistTurn = useCallback((userText: string, assistantText: string) => {
+    if (!user) return;
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      try {
+        const id = await saveChatTurn(
+          sessionIdRef.current,
+          [{ role: 'user', content: userText }, { role: 'assistant', content: assistantText }],
+          memory.exportState(),
+          language as ChatLanguage,
+        );
+        if (id !== sessionIdRef.current) bindSession(id);
+        queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+      } catch (error) {
+        console.error('Chat save error:', error);
+        toast({ title: t('chat_sessions_save_error'), variant: 'destructive' });
+      }
+    });
+  }, [user, memory, language, bindSession, queryClient, toast, t]);
+
+  const startNewChat = useCallback(() => {
+    memory.reset();
+    bindSession(null);
     setMessages([{ role: 'assistant', content: getWelcomeMessage() }]);
     setShowOptions(true);
     setEligibilityComplete(false);
-  }, [language]);
+  }, [memory, bindSession, getWelcomeMessage]);
+
+  const openSession = useCallback(async (id: string) => {
+    try {
+      const stored = await fetchChatSession(id);
+      if (!stored) {
+        bindSession(null);
+        queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+        return;
+      }
+      memory.restore(stored.state);
+      bindSession(stored.id);
+      setMessages([{ role: 'assistant', content: getWelcomeMessage() }, ...stored.messages]);
+      setShowOptions(stored.messages.length === 0);
+      setEligibilityComplete(false);
+    } catch (error) {
+      console.error('Chat load error:', error);
+      toast({ title: t('chat_sessions_load_error'), variant: 'destructive' });
+    }
+  }, [memory, bindSession, queryClient, toast, t, getWelcomeMessage]);
+
+  const handleDeleteSession = useCallback(async (id: string) => {
+    try {
+      await deleteChatSession(id);
+      if (id === sessionIdRef.current) startNewChat();
+      queryClient.invalidateQueries({ queryKey: ['chat-sessions'] });
+    } catch (error) {
+      console.error('Chat delete error:', error);
+      toast({ title: t('chat_sessions_delete_error'), variant: 'destructive' });
+    }
+  }, [startNewChat, queryClient, toast, t]);
+
+  // On a language change, reload the bound session (after pending saves) so the
+  // screen keeps matching it; an unsaved chat starts over with the new welcome
+  const languageRef = useRef(language);
+  useEffect(() => {
+    if (languageRef.current === language) return;
+    languageRef.current = language;
+    const id = sessionIdRef.current;
+    if (id) saveQueueRef.current = saveQueueRef.current.then(() => openSession(id));
+    else startNewChat();
+  }, [language, openSession, startNewChat]);
+
+  // Resume the session this tab had open before a reload, once per signed-in user
+  const resumedForRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!user) {
+      resumedForRef.current = null;
+      return;
+    }
+    if (resumedForRef.current === user.id) return;
+    resumedForRef.current = user.id;
+    const active = sessionStorage.getItem(ACTIVE_SESSION_KEY);
+    if (active) openSession(active);
+  }, [user, openSession]);
 
   // Scroll on new messages
   useEffect(() => {
@@ -123,12 +234,14 @@ const ChatPageNew = () => {
           });
           setIsLoading(false);
           scrollToBottom();
+          persistTurn(trimmedText, fullText);
         },
       );
 
       // If the result was NOT streamed (local response), display it with typewriter
       if (!result.isStreaming) {
         await streamLocalResponse(result.response, result.metadata);
+        persistTurn(trimmedText, result.response);
       }
 
       // Handle eligibility completion
@@ -152,7 +265,7 @@ const ChatPageNew = () => {
       }]);
       setIsLoading(false);
     }
-  }, [language, isLoading, orchestrator, scrollToBottom]);
+  }, [language, isLoading, orchestrator, scrollToBottom, persistTurn]);
 
   // Typewriter effect for local (non-LLM) responses
   const streamLocalResponse = useCallback(async (text: string, metadata?: any) => {
@@ -233,8 +346,7 @@ const ChatPageNew = () => {
       return;
     }
     const recognition = new SpeechRecognition();
-    const voiceLangMap: Record<string, string> = { en: 'en-US', hi: 'hi-IN', ta: 'ta-IN' };
-    recognition.lang = voiceLangMap[language] || 'en-US';
+    recognition.lang = languageInfo(language).speechLocale;
     recognition.continuous = false;    // Single utterance - stops after natural pause
     recognition.interimResults = true; // Show live preview while speaking
     recognition.maxAlternatives = 1;
@@ -287,8 +399,7 @@ const ChatPageNew = () => {
     if ('speechSynthesis' in window) {
       window.speechSynthesis.cancel();
       const utterance = new SpeechSynthesisUtterance(text.replace(/[*#_\[\]]/g, ''));
-      const ttsLangMap: Record<string, string> = { en: 'en-US', hi: 'hi-IN', ta: 'ta-IN' };
-      utterance.lang = ttsLangMap[language] || 'en-US';
+      utterance.lang = languageInfo(language).speechLocale;
       utterance.rate = 0.9;
       window.speechSynthesis.speak(utterance);
     }
@@ -301,174 +412,186 @@ const ChatPageNew = () => {
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Header />
-      <main className="flex-1 container py-4 flex flex-col max-w-3xl">
-        {/* Title bar */}
-        <div className="flex items-center gap-3 mb-4">
-          <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-saffron/10">
-            <Bot className="h-5 w-5 text-saffron" />
-          </div>
-          <div>
-            <h1 className="text-xl font-bold text-foreground">{t('chat_title')}</h1>
-            <p className="text-xs text-muted-foreground">{t('chat_subtitle')}</p>
+      <main className="flex-1 container py-4 flex flex-col gap-4 md:flex-row max-w-5xl">
+        {user && (
+          <ChatSessionSidebar
+            sessions={sessions}
+            activeId={sessionId}
+            isLoading={sessionsLoading}
+            onSelect={openSession}
+            onNew={startNewChat}
+            onDelete={handleDeleteSession}
+          />
+        )}
+        <div className="flex min-w-0 flex-1 flex-col">
+          {/* Title bar */}
+          <div className="flex items-center gap-3 mb-4">
+            <div className="flex h-9 w-9 items-center justify-center rounded-lg bg-saffron/10">
+              <Bot className="h-5 w-5 text-saffron" />
+            </div>
+            <div>
+              <h1 className="text-xl font-bold text-foreground">{t('chat_title')}</h1>
+              <p className="text-xs text-muted-foreground">{t('chat_subtitle')}</p>
+            </div>
           </div>
-        </div>
 
-        {/* Messages */}
-        <div
-          ref={scrollContainerRef}
-          className="flex-1 rounded-xl border border-border bg-card p-4 mb-4 overflow-y-auto"
-          style={{ height: 'calc(100vh - 280px)' }}
-        >
-          <div className="space-y-4">
-            {messages.map((msg, i) => (
-              <motion.div
-                key={i}
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
-              >
-                {msg.role === 'assistant' && (
-                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-saffron/10">
-                    <Bot className="h-4 w-4 text-saffron" />
-                  </div>
-                )}
-                <div className={`max-w-[80%] rounded-xl px-4 py-3 text-sm ${
-                  msg.role === 'user'
-                    ? 'bg-primary text-primary-foreground'
-                    : 'bg-secondary text-foreground'
-                }`}>
-                  <div className="flex items-start justify-between gap-2">
-                    <div className="flex-1">
-                      {msg.role === 'assistant' ? (
-                        <div className="prose prose-sm dark:prose-invert max-w-none">
-                          <ReactMarkdown>{msg.content}</ReactMarkdown>
-                        </div>
-                      ) : (
-                        msg.content
+          {/* Messages */}
+          <div
+            ref={scrollContainerRef}
+            className="flex-1 rounded-xl border border-border bg-card p-4 mb-4 overflow-y-auto"
+            style={{ height: 'calc(100vh - 280px)' }}
+          >
+            <div className="space-y-4">
+              {messages.map((msg, i) => (
+                <motion.div
+                  key={i}
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className={`flex gap-3 ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                >
+                  {msg.role === 'assistant' && (
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-saffron/10">
+                      <Bot className="h-4 w-4 text-saffron" />
+                    </div>
+                  )}
+                  <div className={`max-w-[80%] rounded-xl px-4 py-3 text-sm ${
+                    msg.role === 'user'
+                      ? 'bg-primary text-primary-foreground'
+                      : 'bg-secondary text-foreground'
+                  }`}>
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="flex-1">
+                        {msg.role === 'assistant' ? (
+                          <div className="prose prose-sm dark:prose-invert max-w-none">
+                            <ReactMarkdown>{msg.content}</ReactMarkdown>
+                          </div>
+                        ) : (
+                          msg.content
+                        )}
+                      </div>
+                      {msg.role === 'assistant' && !msg.streaming && (
+                        <button
+                          onClick={() => speakResponse(msg.content)}
+                          className="shrink-0 p-1 hover:bg-primary/10 rounded transition-colors"
+                          title="Speak response"
+                        >
+                          <Volume2 className="h-4 w-4 text-saffron" />
+                        </button>
                       )}
                     </div>
-                    {msg.role === 'assistant' && !msg.streaming && (
-                      <button
-                        onClick={() => speakResponse(msg.content)}
-                        className="shrink-0 p-1 hover:bg-primary/10 rounded transition-colors"
-                        title="Speak response"
-                      >
-                        <Volume2 className="h-4 w-4 text-saffron" />
-                      </button>
+                    {/* Action buttons from metadata */}
+                    {msg.role === 'assistant' && Array.isArray(msg.metadata?.actions) && msg.metadata.actions.length > 0 && !msg.streaming && (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {msg.metadata.actions.map((action: { label: string; action: string }) => (
+                          <Button
+                            key={action.action}
+                            size="sm"
+                            variant="outline"
+                            className="h-8"
+                            onClick={() => handleInlineAction(action.action)}
+                          >
+                            {action.label}
+                          </Button>
+                        ))}
+                      </div>
                     )}
                   </div>
-                  {/* Action buttons from metadata */}
-                  {msg.role === 'assistant' && Array.isArray(msg.metadata?.actions) && msg.metadata.actions.length > 0 && !msg.streaming && (
-                    <div className="mt-3 flex flex-wrap gap-2">
-                      {msg.metadata.actions.map((action: { label: string; action: string }) => (
-                        <Button
-                          key={action.action}
-                          size="sm"
-                          variant="outline"
-                          className="h-8"
-                          onClick={() => handleInlineAction(action.action)}
-                        >
-                          {action.label}
-                        </Button>
-                      ))}
+                  {msg.role === 'user' && (
+                    <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary">
+                      <User className="h-4 w-4 text-primary-foreground" />
                     </div>
                   )}
-                </div>
-                {msg.role === 'user' && (
-                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary">
-                    <User className="h-4 w-4 text-primary-foreground" />
+                </motion.div>
+              ))}
+
+              {/* Loading indicator */}
+              {isLoading && !messages.some(m => m.streaming) && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex gap-3"
+                >
+                  <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-saffron/10">
+                    <Loader2 className="h-4 w-4 text-saffron animate-spin" />
+                  </div>
+                  <div className="bg-secondary text-foreground rounded-xl px-4 py-3">
+                    <p className="text-sm">Thinking...</p>
+                  </div>
+                </motion.div>
+              )}
+
+              {/* Quick actions */}
+              {showOptions && messages.length === 1 && (
+                <div className="grid gap-2 mt-6">
+                  <p className="text-xs text-muted-foreground font-medium">Quick actions:</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {defaultOptions.map((option, i) => (
+                      <button
+                        key={i}
+                        onClick={() => handleOptionClick(option)}
+                        className="flex items-center gap-2 rounded-lg border border-border bg-card p-3 hover:bg-secondary transition-colors text-left text-sm"
+                      >
+                        <option.icon className={`h-4 w-4 ${option.color}`} />
+                        <span>{option.label}</span>
+                      </button>
+                    ))}
                   </div>
-                )}
-              </motion.div>
-            ))}
-
-            {/* Loading indicator */}
-            {isLoading && !messages.some(m => m.streaming) && (
-              <motion.div
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="flex gap-3"
-              >
-                <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-saffron/10">
-                  <Loader2 className="h-4 w-4 text-saffron animate-spin" />
-                </div>
-                <div className="bg-secondary text-foreground rounded-xl px-4 py-3">
-                  <p className="text-sm">Thinking...</p>
-                </div>
-              </motion.div>
-            )}
-
-            {/* Quick actions */}
-            {showOptions && messages.length === 1 && (
-              <div className="grid gap-2 mt-6">
-                <p className="text-xs text-muted-foreground font-medium">Quick actions:</p>
-                <div className="grid grid-cols-2 gap-2">
-                  {defaultOptions.map((option, i) => (
-                    <button
-                      key={i}
-                      onClick={() => handleOptionClick(option)}
-                      className="flex items-center gap-2 rounded-lg border border-border bg-card p-3 hover:bg-secondary transition-colors text-left text-sm"
-                    >
-                      <option.icon className={`h-4 w-4 ${option.color}`} />
-                      <span>{option.label}</span>
-                    </button>
-                  ))}
                 </div>
-              </div>
-            )}
-
-            {/* Eligibility complete actions */}
-            {eligibilityComplete && (
-              <motion.div
-                initial={{ opacity: 0, y: 10 }}
-                animate={{ opacity: 1, y: 0 }}
-                className="flex gap-2 mt-6 pt-4 border-t border-border"
-              >
-                <Button
-                  onClick={handleGetDetailedReport}
-                  className="flex-1 bg-saffron hover:bg-saffron/90 text-saffron-foreground font-semibold"
+              )}
+
+              {/* Eligibility complete actions */}
+              {eligibilityComplete && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="flex gap-2 mt-6 pt-4 border-t border-border"
                 >
-                  <FileText className="h-4 w-4 mr-2" />
-                  Get Detailed Report
-                </Button>
-                <Button onClick={handleContinueChat} variant="outline" className="flex-1">
-                  Continue in Chat
-                </Button>
-              </motion.div>
-            )}
-
-            <div ref={messagesEndRef} />
+                  <Button
+                    onClick={handleGetDetailedReport}
+                    className="flex-1 bg-saffron hover:bg-saffron/90 text-saffron-foreground font-semibold"
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Get Detailed Report
+                  </Button>
+                  <Button onClick={handleContinueChat} variant="outline" className="flex-1">
+                    Continue in Chat
+                  </Button>
+                </motion.div>
+              )}
+
+              <div ref={messagesEndRef} />
+            </div>
           </div>
-        </div>
 
-        {/* Input area */}
-        <div className="flex gap-2">
-          <button
-            onClick={toggleVoice}
-            className={`p-2.5 rounded-lg transition-colors ${
-              isListening
-                ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
-                : 'bg-secondary hover:bg-secondary/80'
-            }`}
-            title={isListening ? 'Stop listening' : 'Voice input'}
-          >
-            {isListening ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
-          </button>
-          <Input
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendMessage(input); } }}
-            placeholder={isListening ? 'Listening...' : (t('chat_placeholder') || 'Type your question...')}
-            className="flex-1"
-            disabled={isLoading}
-          />
-          <button
-            onClick={() => sendMessage(input)}
-            disabled={!input.trim() || isLoading}
-            className="p-2.5 rounded-lg bg-saffron text-saffron-foreground hover:shadow-lg transition-all disabled:opacity-50"
-          >
-            <Send className="h-5 w-5" />
-          </button>
+          {/* Input area */}
+          <div className="flex gap-2">
+            <button
+              onClick={toggleVoice}
+              className={`p-2.5 rounded-lg transition-colors ${
+                isListening
+                  ? 'bg-red-500 text-white hover:bg-red-600 animate-pulse'
+                  : 'bg-secondary hover:bg-secondary/80'
+              }`}
+              title={isListening ? 'Stop listening' : 'Voice input'}
+            >
+              {isListening ? <MicOff className="h-5 w-5" /> : <Mic className="h-5 w-5" />}
+            </button>
+            <Input
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); sendMessage(input); } }}
+              placeholder={isListening ? 'Listening...' : (t('chat_placeholder') || 'Type your question...')}
+              className="flex-1"
+              disabled={isLoading}
+            />
+            <button
+              onClick={() => sendMessage(input)}
+              disabled={!input.trim() || isLoading}
+              className="p-2.5 rounded-lg bg-saffron text-saffron-foreground hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              <Send className="h-5 w-5" />
+            </button>
+          </div>
         </div>
       </main>
       <Footer />
@@ -11,6 +11,9 @@ import { Brain, Loader2 } from 'lucide-react';
 import { useLanguage } from '@/i18n/LanguageContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useQueryClient } from '@tanstack/react-query';
+import { fetchApplicationForm } from '@/lib/applicationHistory';
+import type { Json } from '@/integrations/supabase/types';
 
 const EligibilityPage = () => {
   const [searchParams] = useSearchParams();
@@ -19,13 +22,22 @@ const EligibilityPage = () => {
   const { t, language } = useLanguage();
   const navigate = useNavigate();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   const demoId = searchParams.get('demo');
+  const cloneId = searchParams.get('from');
   const sampleCase = demoId ? sampleCases.find(c => c.id === demoId) : null;
 
   useEffect(() => {
     if (sampleCase) {
       setFormData(sampleCase.formData as LoanFormData);
+    } else if (cloneId) {
+      // Re-running a past application from My Applications
+      fetchApplicationForm(cloneId)
+        .then((saved) => {
+          if (saved) setFormData(saved as LoanFormData);
+        })
+        .catch((e) => console.error('Error loading saved application:', e));
     } else {
       // Try to load pre-filled data from chat
       const chatDataStr = sessionStorage.getItem('eligibility_chat_data');
@@ -47,7 +59,7 @@ const EligibilityPage = () => {
         }
       }
     }
-  }, [demoId]);
+  }, [demoId, cloneId]);
 
   const handleSubmit = async (data: LoanFormData) => {
     setIsSubmitting(true);
@@ -76,6 +88,7 @@ const EligibilityPage = () => {
           secondary_income: data.secondary_income,
           monthly_savings: data.monthly_savings,
           existing_loans: data.existing_loans,
+          liabilities: (data.liabilities ?? []) as unknown as Json,
           total_monthly_expenses: data.total_monthly_expenses,
           credit_score: data.credit_score,
           bank_balance: data.bank_balance,
@@ -91,7 +104,9 @@ const EligibilityPage = () => {
           loan_purpose: data.loan_purpose,
           loan_tenure: data.loan_tenure,
           has_collateral: data.has_collateral,
+          co_applicants: (data.co_applicants ?? []) as unknown as Json,
           language: language,
+          form_data: data as unknown as Json,
         })
         .select()
         .single();
@@ -121,6 +136,8 @@ const EligibilityPage = () => {
         });
       }
 
+      queryClient.invalidateQueries({ queryKey: ['application-history'] });
+
       // Store in sessionStorage and navigate to results
       sessionStorage.setItem('analysisResult', JSON.stringify(analysisData));
       sessionStorage.setItem('formData', JSON.stringify(data));
@@ -147,6 +164,11 @@ const EligibilityPage = () => {
             <h1 className="text-2xl font-bold text-foreground md:text-3xl">{t('elig_title')}</h1>
           </div>
           <p className="text-muted-foreground">{t('elig_subtitle')}</p>
+          {cloneId && !sampleCase && (
+            <Badge variant="outline" className="mt-2 bg-saffron/10 text-saffron border-saffron/20">
+              {t('history_editing')}
+            </Badge>
+          )}
           {sampleCase && (
             <Badge variant="outline" className="mt-2 bg-saffron/10 text-saffron border-saffron/20">
               📋 {t('elig_sample_label')}: {sampleCase.title} — {sampleCase.description}
@@ -43,7 +43,7 @@ const LoanApplicationPage = () => {
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3">
           {banks.map((bank, i) => (
             <motion.div
-              key={bank.name}
+              key={`${bank.name}-${bank.product_name ?? i}`}
               initial={{ opacity: 0, y: 20 }}
               animate={{ opacity: 1, y: 0 }}
               transition={{ delay: i * 0.1 }}
@@ -55,6 +55,9 @@ const LoanApplicationPage = () => {
                 </div>
                 <div>
                   <h3 className="font-semibold text-foreground">{bank.name}</h3>
+                  {bank.product_name && (
+                    <p className="text-xs text-muted-foreground">{bank.product_name}</p>
+                  )}
                   <Badge variant="outline" className="bg-secondary text-muted-foreground text-xs">
                     {bank.interest_rate || bank.interestRate}
                   </Badge>
@@ -75,6 +78,15 @@ const LoanApplicationPage = () => {
                 ))}
               </div>
 
+              {bank.reasons && bank.reasons.length > 0 && (
+                <div className="mb-4">
+                  <p className="mb-1 text-xs font-medium text-foreground">{t('banks_why')}</p>
+                  <ul className="list-disc space-y-0.5 pl-4 text-xs text-muted-foreground">
+                    {bank.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                  </ul>
+                </div>
+              )}
+
               {bank.eligibility_notes && (
                 <p className="text-xs text-muted-foreground mb-4 italic">{bank.eligibility_notes}</p>
               )}
@@ -5,7 +5,7 @@ import Footer from '@/components/layout/Footer';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Shield, User, Lock } from 'lucide-react';
+import { Shield, User, Lock, Mail } from 'lucide-react';
 import { motion } from 'framer-motion';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/i18n/LanguageContext';
@@ -15,28 +15,74 @@ import { useToast } from '@/hooks/use-toast';
 const LoginPage = () => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
+  const [fullName, setFullName] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+  const [otpSent, setOtpSent] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
-  const { login } = useAuth();
+  const { signInWithPassword, signUp, sendOtp, verifyOtp } = useAuth();
   const { t } = useLanguage();
   const { toast } = useToast();
 
-  const handleLogin = async (role: 'citizen' | 'admin') => {
+  const run = async (action: () => Promise<void>, failureTitle: string) => {
+    try {
+      setIsLoading(true);
+      await action();
+    } catch (error) {
+      toast({ title: failureTitle, description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const requireCredentials = () => {
     if (!email || !password) {
       toast({ title: 'Error', description: 'Please enter email and password', variant: 'destructive' });
-      return;
+      return false;
     }
+    return true;
+  };
 
-    try {
-      setIsLoading(true);
-      await login(email, password, role);
+  const handleSignIn = () => {
+    if (!requireCredentials()) return;
+    run(async () => {
+      await signInWithPassword(email, password);
       toast({ title: 'Success', description: `Welcome, ${email}` });
       navigate('/');
-    } catch (error) {
-      toast({ title: 'Login failed', description: (error as Error).message, variant: 'destructive' });
-    } finally {
-      setIsLoading(false);
+    }, 'Login failed');
+  };
+
+  const handleRegister = () => {
+    if (!requireCredentials()) return;
+    run(async () => {
+      const active = await signUp(email, password, fullName || undefined);
+      if (active) {
+        toast({ title: 'Success', description: `Welcome, ${email}` });
+        navigate('/');
+      } else {
+        toast({ title: 'Check your email', description: 'Confirm your address to finish creating your account' });
+      }
+    }, 'Registration failed');
+  };
+
+  const handleSendOtp = () => {
+    if (!email) {
+      toast({ title: 'Error', description: 'Please enter your email', variant: 'destructive' });
+      return;
     }
+    run(async () => {
+      await sendOtp(email);
+      setOtpSent(true);
+      toast({ title: 'Code sent', description: `We emailed a sign-in code to ${email}` });
+    }, 'Could not send code');
+  };
+
+  const handleVerifyOtp = () => {
+    run(async () => {
+      await verifyOtp(email, otpCode.trim());
+      toast({ title: 'Success', description: `Welcome, ${email}` });
+      navigate('/');
+    }, 'Invalid code');
   };
 
   return (
@@ -62,6 +108,10 @@ const LoginPage = () => {
                   <Lock className="mr-1.5 h-4 w-4" />
                   Sign In
                 </TabsTrigger>
+                <TabsTrigger value="otp" className="flex-1">
+                  <Mail className="mr-1.5 h-4 w-4" />
+                  Email Code
+                </TabsTrigger>
                 <TabsTrigger value="register" className="flex-1">
                   <User className="mr-1.5 h-4 w-4" />
                   Register
@@ -79,15 +129,49 @@ const LoginPage = () => {
                     <Label htmlFor="signin-pass">Password</Label>
                     <Input id="signin-pass" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="••••••••" />
                   </div>
-                  <Button variant="saffron" className="w-full" onClick={() => handleLogin('citizen')} disabled={isLoading}>
+                  <Button variant="saffron" className="w-full" onClick={handleSignIn} disabled={isLoading}>
                     {isLoading ? 'Signing in...' : 'Sign In'}
                   </Button>
                 </div>
               </TabsContent>
 
+              <TabsContent value="otp">
+                <p className="mb-4 text-sm text-muted-foreground">Get a one-time sign-in code by email</p>
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="otp-email">Email</Label>
+                    <Input id="otp-email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="your@email.com" />
+                  </div>
+                  {otpSent && (
+                    <div className="space-y-2">
+                      <Label htmlFor="otp-code">Code</Label>
+                      <Input id="otp-code" inputMode="numeric" autoComplete="one-time-code" value={otpCode} onChange={e => setOtpCode(e.target.value)} placeholder="123456" />
+                    </div>
+                  )}
+                  {otpSent ? (
+                    <div className="flex gap-2">
+                      <Button variant="outline" className="flex-1" onClick={handleSendOtp} disabled={isLoading}>
+                        Resend
+                      </Button>
+                      <Button variant="saffron" className="flex-1" onClick={handleVerifyOtp} disabled={isLoading || !otpCode}>
+                        {isLoading ? 'Verifying...' : 'Verify'}
+                      </Button>
+                    </div>
+                  ) : (
+                    <Button variant="saffron" className="w-full" onClick={handleSendOtp} disabled={isLoading}>
+                      {isLoading ? 'Sending...' : 'Send Code'}
+                    </Button>
+                  )}
+                </div>
+              </TabsContent>
+
               <TabsContent value="register">
                 <p className="mb-4 text-sm text-muted-foreground">Create your LoansAathi account</p>
                 <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="register-name">Full name</Label>
+                    <Input id="register-name" value={fullName} onChange={e => setFullName(e.target.value)} placeholder="Your name" />
+                  </div>
                   <div className="space-y-2">
                     <Label htmlFor="register-email">Email</Label>
                     <Input id="register-email" type="email" value={email} onChange={e => setEmail(e.target.value)} placeholder="your@email.com" />
@@ -96,7 +180,7 @@ const LoginPage = () => {
                     <Label htmlFor="register-pass">Password</Label>
                     <Input id="register-pass" type="password" value={password} onChange={e => setPassword(e.target.value)} placeholder="••••••••" />
                   </div>
-                  <Button variant="saffron" className="w-full" onClick={() => handleLogin('citizen')} disabled={isLoading}>
+                  <Button variant="saffron" className="w-full" onClick={handleRegister} disabled={isLoading}>
                     {isLoading ? 'Creating account...' : 'Register'}
                   </Button>
                 </div>
@@ -5,11 +5,15 @@ import Footer from '@/components/layout/Footer';
 import ApprovalMeter from '@/components/eligibility/ApprovalMeter';
 import ExplainableAI from '@/components/eligibility/ExplainableAI';
 import WhatIfSimulator from '@/components/eligibility/WhatIfSimulator';
+import ScenarioComparison from '@/components/eligibility/ScenarioComparison';
 import RoadmapSection from '@/components/eligibility/RoadmapSection';
+import AmortizationSchedule from '@/components/eligibility/AmortizationSchedule';
+import LoanStressTest from '@/components/eligibility/LoanStressTest';
 import DocumentChecklist from '@/components/eligibility/DocumentChecklist';
 import EligibilityGaps from '@/components/eligibility/EligibilityGaps';
 import ReadinessIndicator from '@/components/eligibility/ReadinessIndicator';
 import type { LoanFormData, AnalysisResult } from '@/types/loan';
+import { scoreProfile } from '@/lib/scoring';
 import { motion } from 'framer-motion';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
@@ -112,7 +116,7 @@ const ResultsPage = () => {
         {/* Explainable AI */}
         {result.factors && result.factors.length > 0 && (
           <div className="mb-8">
-            <ExplainableAI factors={result.factors} />
+            <ExplainableAI factors={result.factors} contributions={scoreProfile(formData).contributions} />
           </div>
         )}
 
@@ -122,13 +126,30 @@ const ResultsPage = () => {
           <WhatIfSimulator originalData={formData} originalProbability={prob} />
         </div>
 
-        {/* Roadmap */}
-        {result.roadmap && result.roadmap.length > 0 && (
+        {/* Scenario comparison */}
+        <div className="mb-8">
+          <ScenarioComparison baseData={formData} />
+        </div>
+
+        {/* Repayment schedule */}
+        {formData.loan_amount > 0 && formData.loan_tenure > 0 && (
+          <div className="mb-8">
+            <AmortizationSchedule loanAmount={formData.loan_amount} tenureMonths={formData.loan_tenure} />
+          </div>
+        )}
+
+        {/* Survival under stress, with and without this loan */}
+        {formData.loan_amount > 0 && formData.loan_tenure > 0 && (
           <div className="mb-8">
-            <RoadmapSection steps={result.roadmap} />
+            <LoanStressTest formData={formData} emi={scoreProfile(formData).emi} />
           </div>
         )}
 
+        {/* Roadmap */}
+        <div className="mb-8">
+          <RoadmapSection steps={result.roadmap ?? []} formData={formData} />
+        </div>
+
         {/* Docs + Readiness */}
         <div className="grid gap-8 lg:grid-cols-2 mb-8">
           <DocumentChecklist formData={formData} />
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const {
+  fetchApplicationList,
+  fetchApplicationStats,
+  parseApplicationStats,
+  toChartSlices,
+  toStatsParams,
+} = await import('@/lib/adminAnalytics');
+type AnalyticsClient = import('@/lib/adminAnalytics').AnalyticsClient;
+
+/** Records the PostgREST calls a query builder receives */
+function recordingClient(result: { data: unknown; error: unknown }) {
+  const calls: [string, ...unknown[]][] = [];
+  const builder: Record<string, unknown> = {};
+  for (const method of ['select', 'order', 'limit', 'gte', 'lte', 'eq', 'is']) {
+    builder[method] = (...args: unknown[]) => {
+      calls.push([method, ...args]);
+      return builder;
+    };
+  }
+  builder.then = (resolve: (v: unknown) => unknown) => resolve(result);
+  const client = {
+    from: (table: string) => {
+      calls.push(['from', table]);
+      return builder;
+    },
+    rpc: async (fn: string, args: unknown) => {
+      calls.push(['rpc', fn, args]);
+      return result;
+    },
+  } as unknown as AnalyticsClient;
+  return { client, calls };
+}
+
+describe('toStatsParams', () => {
+  it('passes only the filters that are set', () => {
+    expect(toStatsParams({})).toEqual({});
+    expect(toStatsParams({ from: '2026-01-01', state: 'Tamil Nadu', jobType: 'Farmer', language: 'ta' })).toEqual({
+      p_from: '2026-01-01',
+      p_state: 'Tamil Nadu',
+      p_job_type: 'Farmer',
+      p_language: 'ta',
+    });
+  });
+});
+
+describe('parseApplicationStats', () => {
+  it('fills missing outcome buckets and coerces numbers', () => {
+    const stats = parseApplicationStats({
+      total: 3,
+      avg_probability: '61.5',
+      by_outcome: { Approved: 2, Pending: 1 },
+      by_language: { hi: 2, en: 1 },
+      daily: [{ date: '2026-03-01', total: 3, approved: 2 }],
+    });
+    expect(stats.total).toBe(3);
+    expect(stats.avgProbability).toBe(61.5);
+    expect(stats.byOutcome).toEqual({ Approved: 2, Rejected: 0, Pending: 1 });
+    expect(stats.byLanguage).toEqual({ hi: 2, en: 1 });
+    expect(stats.byRisk).toEqual({});
+    expect(stats.daily).toEqual([{ date: '2026-03-01', total: 3, approved: 2 }]);
+  });
+
+  it('returns empty stats for a null payload', () => {
+    expect(parseApplicationStats(null).total).toBe(0);
+    expect(parseApplicationStats(null).avgProbability).toBeNull();
+  });
+});
+
+describe('toChartSlices', () => {
+  it('keeps the given order, then sorts the rest by count', () => {
+    const slices = toChartSlices({ High: 1, Unscored: 2, Low: 5 }, ['Low', 'Medium', 'High']);
+    expect(slices.map((s) => s.key)).toEqual(['Low', 'Medium', 'High', 'Unscored']);
+    expect(slices.map((s) => s.value)).toEqual([5, 0, 1, 2]);
+    expect(slices[0].share).toBe(62.5);
+  });
+
+  it('reports zero shares when there is no data', () => {
+    expect(toChartSlices({}, ['Approved'])).toEqual([{ key: 'Approved', value: 0, share: 0 }]);
+  });
+});
+
+describe('fetchers', () => {
+  it('calls the stats RPC with the mapped filters', async () => {
+    const { client, calls } = recordingClient({ data: { total: 4, by_outcome: { Rejected: 4 } }, error: null });
+    const stats = await fetchApplicationStats({ purpose: 'Education' }, client);
+    expect(calls).toEqual([['rpc', 'admin_application_stats', { p_purpose: 'Education' }]]);
+    expect(stats.byOutcome.Rejected).toBe(4);
+  });
+
+  it('surfaces RPC errors, e.g. a non-admin caller', async () => {
+    const { client } = recordingClient({ data: null, error: new Error('admin role required') });
+    await expect(fetchApplicationStats({}, client)).rejects.toThrow('admin role required');
+  });
+
+  it('drills into a slice with the active filters applied', async () => {
+    const { client, calls } = recordingClient({ data: [{ application_id: 'a1' }], error: null });
+    const rows = await fetchApplicationList({ to: '2026-03-31', language: 'hi' }, { dimension: 'outcome', value: 'Approved' }, client);
+    expect(rows).toEqual([{ application_id: 'a1' }]);
+    expect(calls).toContainEqual(['from', 'application_analytics']);
+    expect(calls).toContainEqual(['lte', 'created_on', '2026-03-31']);
+    expect(calls).toContainEqual(['eq', 'language', 'hi']);
+    expect(calls).toContainEqual(['eq', 'outcome', 'Approved']);
+  });
+
+  it('maps placeholder buckets back to missing values', async () => {
+    const { client, calls } = recordingClient({ data: [], error: null });
+    await fetchApplicationList({}, { dimension: 'risk_category', value: 'Unscored' }, client);
+    expect(calls).toContainEqual(['is', 'risk_category', null]);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  comparePrepayment,
+  emiFor,
+  generateAmortizationSchedule,
+  scheduleToCSV,
+  summarizeByYear,
+} from '@/utils/amortization';
+import { calculateEMI } from '@/lib/scoring';
+
+const loan = { principal: 500000, annualRate: 10, tenureMonths: 60 };
+
+describe('amortization schedule', () => {
+  it('matches the engine EMI and clears the balance on time', () => {
+    const schedule = generateAmortizationSchedule(loan);
+    expect(Math.round(schedule.initialEmi)).toBe(calculateEMI(500000, 10, 60));
+    expect(schedule.months).toBe(60);
+    expect(schedule.rows[59].closingBalance).toBe(0);
+  });
+
+  it('splits each EMI into interest on the opening balance and principal', () => {
+    const [first, second] = generateAmortizationSchedule(loan).rows;
+    expect(first.interest).toBeCloseTo((500000 * 0.1) / 12, 2);
+    expect(first.principal + first.interest).toBeCloseTo(first.emi, 1);
+    expect(second.openingBalance).toBe(first.closingBalance);
+    expect(second.interest).toBeLessThan(first.interest);
+  });
+
+  it('sums principal repayments to the loan amount', () => {
+    const schedule = generateAmortizationSchedule(loan);
+    const principal = schedule.rows.reduce((sum, r) => sum + r.principal, 0);
+    expect(principal).toBeCloseTo(500000, 0);
+    expect(schedule.totalPaid).toBeCloseTo(500000 + schedule.totalInterest, 0);
+  });
+
+  it('shortens the loan when a prepayment reduces tenure', () => {
+    const result = comparePrepayment({ ...loan, prepayments: [{ month: 18, amount: 50000 }] });
+    expect(result.monthsSaved).toBeGreaterThan(0);
+    expect(result.interestSaved).toBeGreaterThan(0);
+    expect(result.withPrepayment.rows[18].emi).toBeCloseTo(result.baseline.rows[18].emi, 2);
+    expect(result.withPrepayment.totalPrepaid).toBe(50000);
+  });
+
+  it('lowers the EMI but keeps the end date when a prepayment reduces EMI', () => {
+    const result = comparePrepayment({
+      ...loan,
+      prepayments: [{ month: 18, amount: 50000 }],
+      prepaymentMode: 'reduce_emi',
+    });
+    expect(result.monthsSaved).toBe(0);
+    expect(result.withPrepayment.rows[18].emi).toBeLessThan(result.baseline.rows[18].emi);
+    expect(result.interestSaved).toBeGreaterThan(0);
+  });
+
+  it('saves more interest by reducing tenure than by reducing EMI', () => {
+    const prepayments = [{ month: 24, amount: 50000 }];
+    const tenure = comparePrepayment({ ...loan, prepayments });
+    const emi = comparePrepayment({ ...loan, prepayments, prepaymentMode: 'reduce_emi' });
+    expect(tenure.interestSaved).toBeGreaterThan(emi.interestSaved);
+  });
+
+  it('re-prices the EMI on a floating-rate reset', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, rateResets: [{ month: 13, annualRate: 12 }] });
+    const row12 = schedule.rows[11];
+    const row13 = schedule.rows[12];
+    expect(row13.annualRate).toBe(12);
+    expect(row13.emi).toBeCloseTo(emiFor(row12.closingBalance, 12, 48), 0);
+    expect(schedule.months).toBe(60);
+  });
+
+  it('extends the tenure on a reset when the EMI is held', () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      rateResets: [{ month: 13, annualRate: 12 }],
+      rateResetMode: 'adjust_tenure',
+    });
+    expect(schedule.rows[12].emi).toBeCloseTo(schedule.rows[0].emi, 2);
+    expect(schedule.months).toBeGreaterThan(60);
+    expect(schedule.rows[schedule.months - 1].closingBalance).toBe(0);
+  });
+
+  it('closes the loan when a prepayment covers the balance', () => {
+    const schedule = generateAmortizationSchedule({ ...loan, prepayments: [{ month: 6, amount: 1000000 }] });
+    expect(schedule.months).toBe(6);
+    expect(schedule.totalPrepaid).toBeLessThan(500000);
+  });
+
+  it('rolls months up into yearly totals and exports CSV', () => {
+    const schedule = generateAmortizationSchedule(loan);
+    const years = summarizeByYear(schedule);
+    expect(years).toHaveLength(5);
+    expect(years[4].closingBalance).toBe(0);
+
+    const csv = scheduleToCSV(schedule).split('\n');
+    expect(csv).toHaveLength(61);
+    expect(csv[0]).toMatch(/^Month,/);
+    expect(csv[1].split(',')[0]).toBe('1');
+  });
+});
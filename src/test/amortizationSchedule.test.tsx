@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+
+vi.mock('@/i18n/LanguageContext', () => ({ useLanguage: () => ({ t: (key: string) => key }) }));
+
+const { default: AmortizationSchedule } = await import('@/components/eligibility/AmortizationSchedule');
+
+beforeAll(() => {
+  // recharts' ResponsiveContainer measures its parent
+  vi.stubGlobal('ResizeObserver', class {
+    observe() {}
+    unobserve() {}
+    disconnect() {}
+  });
+});
+
+/** Rate column of the exported CSV, one entry per month */
+async function exportedRates(): Promise<number[]> {
+  let blob: Blob | undefined;
+  // jsdom has no object URLs
+  URL.createObjectURL = (b: Blob) => {
+    blob = b;
+    return 'blob:schedule';
+  };
+  URL.revokeObjectURL = () => {};
+  vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+  fireEvent.click(screen.getByText('amort_export'));
+  // ...and its Blob has no text()
+  const csv = await new Promise<string>((resolve) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob!);
+  });
+  const [, ...rows] = csv.split('\n');
+  return rows.map((row) => Number(row.split(',')[1]));
+}
+
+describe('AmortizationSchedule', () => {
+  it('keeps a flat schedule when only the rate is changed', async () => {
+    render(<AmortizationSchedule loanAmount={500000} tenureMonths={60} annualRate={10.5} />);
+    fireEvent.change(screen.getByLabelText('amort_rate'), { target: { value: '12' } });
+
+    const rates = await exportedRates();
+    expect(rates).toHaveLength(60);
+    expect(new Set(rates)).toEqual(new Set([12]));
+  });
+
+  it('applies a rate reset once the user enters one', async () => {
+    render(<AmortizationSchedule loanAmount={500000} tenureMonths={60} annualRate={10.5} />);
+    fireEvent.change(screen.getByLabelText('amort_reset_rate'), { target: { value: '9' } });
+
+    const rates = await exportedRates();
+    expect(rates.slice(0, 12)).toEqual(Array(12).fill(10.5));
+    expect(rates[12]).toBe(9);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import { sampleCases } from '@/data/mockData';
+import { scoreProfile, applyScoreToAnalysis } from '@/lib/scoring';
+import { DEFAULT_LENDER_CATALOG, recommendLenders } from '@/lib/lenders';
+import {
+  ANALYSIS_FIELDS,
+  buildRuleBasedAnalysis,
+  parseModelJson,
+  summarizeSources,
+  validateAnalysis,
+} from '@/lib/analysis';
+
+const data = { co_borrower: 'None', ...sampleCases.find((c) => c.id === 'farmer')!.formData } as LoanFormData;
+const score = scoreProfile(data);
+const banks = recommendLenders(data, DEFAULT_LENDER_CATALOG, { approvalProbability: score.approvalProbability });
+const fallback = buildRuleBasedAnalysis(data, score, banks);
+
+const modelOutput = {
+  approval_probability: 64,
+  risk_category: 'Medium',
+  financial_health_score: 58,
+  debt_to_income_ratio: 31.5,
+  emi_affordability: 'Comfortable',
+  summary: 'Moderate profile held back by existing loans.',
+  factors: [{ name: 'Credit Score', level: 'medium', description: 'Score 690', improvement: 'Pay on time', impact_percent: 30 }],
+  eligibility_gaps: [{ gap: 'Two active loans', severity: 'moderate', fix: 'Close one loan' }],
+  improvement_suggestions: [{ action: 'Close a loan', impact: '+8%', timeline: '3 months' }],
+  roadmap: [{ step: 1, title: 'Close a loan', description: 'Repay the smaller loan', duration: '3 months' }],
+  recommended_banks: [{ name: 'Invented Bank' }],
+  readiness: { can_apply_now: false, wait_days: 90, reasons: ['Debt burden'] },
+  documents_needed: ['PAN Card'],
+};
+
+describe('buildRuleBasedAnalysis', () => {
+  it('produces a complete analysis that validates cleanly', () => {
+    const { analysis, sources } = validateAnalysis(fallback, fallback);
+    expect(analysis).toEqual(fallback);
+    for (const field of ANALYSIS_FIELDS) expect(fallback[field]).toBeDefined();
+    expect(Object.values(sources).filter((s) => s === 'rules')).toEqual([]);
+  });
+
+  it('carries the engine verdict and the catalog lenders', () => {
+    expect(fallback.approval_probability).toBe(score.approvalProbability);
+    expect(fallback.recommended_banks).toBe(banks);
+    expect(applyScoreToAnalysis({ ...fallback }, score)).toMatchObject({ approval_probability: score.approvalProbability });
+  });
+});
+
+describe('parseModelJson', () => {
+  it('extracts an object surrounded by prose and code fences', () => {
+    const parsed = parseModelJson('Here you go:\n```json\n{"summary": "ok", "note": "a } in text"}\n```\nThanks');
+    expect(parsed).toEqual({ value: { summary: 'ok', note: 'a } in text' }, repaired: false });
+  });
+
+  it('drops trailing commas', () => {
+    const parsed = parseModelJson('{"documents_needed": ["PAN",], "summary": "ok",}');
+    expect(parsed.value).toEqual({ documents_needed: ['PAN'], summary: 'ok' });
+    expect(parsed.repaired).toBe(true);
+  });
+
+  it('recovers the complete fields of truncated output', () => {
+    const full = JSON.stringify(modelOutput);
+    const parsed = parseModelJson(full.slice(0, full.indexOf('"readiness"') + 30));
+    expect(parsed.repaired).toBe(true);
+    expect(parsed.value?.summary).toBe(modelOutput.summary);
+    expect(parsed.value?.roadmap).toEqual(modelOutput.roadmap);
+  });
+
+  it('returns null when there is no object at all', () => {
+    expect(parseModelJson('Sorry, I cannot help with that.').value).toBeNull();
+    expect(parseModelJson('').value).toBeNull();
+  });
+});
+
+describe('validateAnalysis', () => {
+  it('keeps valid model fields and always takes banks from the catalog', () => {
+    const { analysis, sources } = validateAnalysis(modelOutput, fallback);
+    expect(analysis.summary).toBe(modelOutput.summary);
+    expect(analysis.factors).toEqual(modelOutput.factors);
+    expect(sources.summary).toBe('llm');
+    expect(analysis.recommended_banks).toBe(banks);
+    expect(sources.recommended_banks).toBe('catalog');
+    expect(summarizeSources(sources)).toBe('llm');
+  });
+
+  it('clamps ranges and normalises enums, marking the fields repaired', () => {
+    const { analysis, sources } = validateAnalysis(
+      { ...modelOutput, approval_probability: '140%', risk_category: 'low risk', readiness: { can_apply_now: 'true', wait_days: -5, reasons: ['x'] } },
+      fallback
+    );
+    expect(analysis.approval_probability).toBe(100);
+    expect(analysis.risk_category).toBe('Low');
+    expect(analysis.readiness).toEqual({ can_apply_now: true, wait_days: 0, reasons: ['x'] });
+    expect(sources.approval_probability).toBe('repaired');
+    expect(sources.readiness).toBe('repaired');
+  });
+
+  it('drops invalid list items and renumbers roadmap steps', () => {
+    const { analysis, sources } = validateAnalysis(
+      {
+        ...modelOutput,
+        factors: [...modelOutput.factors, { name: 'Broken', level: 'extreme' }],
+        roadmap: [
+          { step: 4, title: 'A', description: 'a', duration: '1w' },
+          { step: 9, title: 'B', description: 'b', duration: '2w' },
+        ],
+      },
+      fallback
+    );
+    expect(analysis.factors).toEqual(modelOutput.factors);
+    expect(analysis.roadmap.map((s) => s.step)).toEqual([1, 2]);
+    expect(sources.factors).toBe('repaired');
+    expect(sources.roadmap).toBe('repaired');
+  });
+
+  it('fills missing or unusable fields from the rules', () => {
+    const { analysis, sources, issues } = validateAnalysis(
+      { ...modelOutput, summary: '', eligibility_gaps: 'none', documents_needed: undefined },
+      fallback
+    );
+    expect(analysis.summary).toBe(fallback.summary);
+    expect(analysis.eligibility_gaps).toEqual(fallback.eligibility_gaps);
+    expect(analysis.documents_needed).toEqual(fallback.documents_needed);
+    expect(sources).toMatchObject({ summary: 'rules', eligibility_gaps: 'rules', documents_needed: 'rules', factors: 'llm' });
+    expect(issues).toContain('documents_needed: missing, using rules');
+    expect(summarizeSources(sources)).toBe('mixed');
+  });
+
+  it('falls back completely when the output is unusable', () => {
+    const { analysis, sources } = validateAnalysis(parseModelJson('not json').value, fallback);
+    expect(analysis).toEqual(fallback);
+    expect(summarizeSources(sources)).toBe('rules');
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const { rowToFormData, toHistoryEntry, toTrendPoints, fetchApplicationHistory } = await import('@/lib/applicationHistory');
+type HistoryClient = import('@/lib/applicationHistory').HistoryClient;
+type Row = Parameters<typeof toHistoryEntry>[0];
+
+const row = (overrides: Partial<Row>): Row => ({
+  id: 'app-1',
+  created_at: '2026-03-01T10:00:00Z',
+  session_id: 's',
+  user_id: 'u',
+  age: 34,
+  job_type: 'Salaried',
+  monthly_income: 42000,
+  credit_score: 710,
+  loan_amount: 500000,
+  loan_purpose: 'Home',
+  location_state: null,
+  form_data: null,
+  analysis_results: [],
+  ...overrides,
+} as Row);
+
+describe('rowToFormData', () => {
+  it('prefers the stored form snapshot', () => {
+    const form = rowToFormData(row({ form_data: { monthly_rent: 9000, co_borrower: 'Spouse', loan_amount: 450000 } }));
+    expect(form).toEqual({ monthly_rent: 9000, co_borrower: 'Spouse', loan_amount: 450000 });
+  });
+
+  it('rebuilds older rows from the flat columns, skipping nulls', () => {
+    const form = rowToFormData(row({}));
+    expect(form).toMatchObject({ age: 34, job_type: 'Salaried', monthly_income: 42000, loan_purpose: 'Home' });
+    expect(form).not.toHaveProperty('location_state');
+    expect(form).not.toHaveProperty('session_id');
+  });
+});
+
+describe('toHistoryEntry', () => {
+  it('uses the newest analysis when an application was scored more than once', () => {
+    const entry = toHistoryEntry(row({
+      analysis_results: [
+        { approval_probability: 52, financial_health_score: 40, risk_category: 'High', created_at: '2026-03-01T10:00:05Z', ai_explanation: { approval_probability: 52 } },
+        { approval_probability: 61, financial_health_score: 48, risk_category: 'Medium', created_at: '2026-03-02T09:00:00Z', ai_explanation: { approval_probability: 61 } },
+      ],
+    } as Partial<Row>));
+    expect(entry.approvalProbability).toBe(61);
+    expect(entry.financialHealthScore).toBe(48);
+    expect(entry.analysis?.approval_probability).toBe(61);
+  });
+
+  it('leaves unscored applications empty', () => {
+    const entry = toHistoryEntry(row({}));
+    expect(entry.approvalProbability).toBeNull();
+    expect(entry.analysis).toBeNull();
+  });
+});
+
+describe('toTrendPoints', () => {
+  it('orders submissions oldest first and drops unscored ones', () => {
+    const entries = [
+      toHistoryEntry(row({ id: 'c', created_at: '2026-05-01T00:00:00Z', analysis_results: [{ approval_probability: 74, financial_health_score: 60, risk_category: 'Medium', created_at: '2026-05-01T00:00:00Z', ai_explanation: null }] } as Partial<Row>)),
+      toHistoryEntry(row({ id: 'b', created_at: '2026-04-01T00:00:00Z' })),
+      toHistoryEntry(row({ id: 'a', created_at: '2026-03-01T00:00:00Z', analysis_results: [{ approval_probability: 58, financial_health_score: 44, risk_category: 'Medium', created_at: '2026-03-01T00:00:00Z', ai_explanation: null }] } as Partial<Row>)),
+    ];
+    expect(toTrendPoints(entries)).toEqual([
+      { label: '#1', date: '2026-03-01', probability: 58, health: 44 },
+      { label: '#2', date: '2026-05-01', probability: 74, health: 60 },
+    ]);
+  });
+});
+
+describe('fetchApplicationHistory', () => {
+  it('reads applications with their analyses, newest first', async () => {
+    const calls: unknown[][] = [];
+    const client = {
+      from: (table: string) => {
+        calls.push(['from', table]);
+        const builder = {
+          select: (columns: string) => {
+            calls.push(['select', columns]);
+            return builder;
+          },
+          order: async (column: string, opts: unknown) => {
+            calls.push(['order', column, opts]);
+            return { data: [row({})], error: null };
+          },
+        };
+        return builder;
+      },
+    } as unknown as HistoryClient;
+
+    const entries = await fetchApplicationHistory(client);
+    expect(entries).toHaveLength(1);
+    expect(calls[0]).toEqual(['from', 'loan_applications']);
+    expect(String(calls[1][1])).toContain('analysis_results(');
+    expect(calls[2]).toEqual(['order', 'created_at', { ascending: false }]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ReactNode } from 'react';
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import type { Session } from '@supabase/supabase-js';
+import { createSupabaseStandIn } from './supabaseStandIn';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const { AuthProvider, useAuth } = await import('@/contexts/AuthContext');
+const { default: ProtectedRoute } = await import('@/components/ProtectedRoute');
+
+function setup(options?: Parameters<typeof createSupabaseStandIn>[0]) {
+  const standIn = createSupabaseStandIn(options);
+  const wrapper = ({ children }: { children: ReactNode }) => (
+    <AuthProvider client={standIn.client}>{children}</AuthProvider>
+  );
+  return { standIn, wrapper };
+}
+
+async function renderAuth(options?: Parameters<typeof createSupabaseStandIn>[0]) {
+  const { standIn, wrapper } = setup(options);
+  const hook = renderHook(() => useAuth(), { wrapper });
+  await waitFor(() => expect(hook.result.current.isLoading).toBe(false));
+  return { standIn, ...hook };
+}
+
+describe('AuthContext', () => {
+  it('signs in with email and password and reads the role from verified claims', async () => {
+    const { standIn, result } = await renderAuth();
+    standIn.addUser({ email: 'officer@gov.in', password: 'secret', role: 'admin' });
+
+    await act(() => result.current.signInWithPassword('officer@gov.in', 'secret'));
+
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(result.current.isAdmin).toBe(true);
+    expect(result.current.user?.email).toBe('officer@gov.in');
+    expect(result.current.token).toMatch(/^standin\./);
+  });
+
+  it('rejects wrong passwords', async () => {
+    const { standIn, result } = await renderAuth();
+    standIn.addUser({ email: 'a@b.in', password: 'right', role: 'citizen' });
+
+    await expect(result.current.signInWithPassword('a@b.in', 'wrong')).rejects.toThrow('Invalid login credentials');
+    expect(result.current.isAuthenticated).toBe(false);
+  });
+
+  it('falls back to the profiles table when the token hook is off', async () => {
+    const { standIn, result } = await renderAuth({ accessTokenHook: false });
+    standIn.addUser({ email: 'officer@gov.in', password: 'secret', role: 'admin' });
+
+    await act(() => result.current.signInWithPassword('officer@gov.in', 'secret'));
+    expect(result.current.isAdmin).toBe(true);
+  });
+
+  it('does not trust a stored session whose token fails verification', async () => {
+    const { standIn, wrapper } = setup();
+    standIn.injectSession({
+      access_token: 'forged.token',
+      user: { id: 'user-1', email: 'x@y.in', user_metadata: { role: 'admin' } },
+    } as unknown as Session);
+
+    const { result } = renderHook(() => useAuth(), { wrapper });
+    await waitFor(() => expect(result.current.isLoading).toBe(false));
+    expect(result.current.isAuthenticated).toBe(false);
+    expect(result.current.isAdmin).toBe(false);
+  });
+
+  it('signs in with an emailed one-time code', async () => {
+    const { standIn, result } = await renderAuth();
+
+    await act(() => result.current.sendOtp('new@user.in'));
+    await expect(result.current.verifyOtp('new@user.in', '000000')).rejects.toThrow();
+    await act(() => result.current.verifyOtp('new@user.in', standIn.otpFor('new@user.in')!));
+
+    expect(result.current.isAuthenticated).toBe(true);
+    expect(result.current.user?.role).toBe('citizen');
+  });
+
+  it('registers citizens and reports pending email confirmation', async () => {
+    const { result } = await renderAuth({ confirmEmail: true });
+    let active = true;
+    await act(async () => {
+      active = await result.current.signUp('c@d.in', 'pw', 'Citizen');
+    });
+    expect(active).toBe(false);
+    expect(result.current.isAuthenticated).toBe(false);
+  });
+
+  it('picks up role changes when the session refreshes', async () => {
+    const { standIn, result } = await renderAuth();
+    const id = standIn.addUser({ email: 'staff@gov.in', password: 'pw', role: 'citizen' });
+    await act(() => result.current.signInWithPassword('staff@gov.in', 'pw'));
+    expect(result.current.isAdmin).toBe(false);
+
+    standIn.setRole(id, 'admin');
+    const before = result.current.token;
+    await act(async () => {
+      await standIn.refreshSession();
+    });
+
+    await waitFor(() => expect(result.current.isAdmin).toBe(true));
+    expect(result.current.token).not.toBe(before);
+  });
+
+  it('clears the user on sign-out', async () => {
+    const { standIn, result } = await renderAuth();
+    standIn.addUser({ email: 'a@b.in', password: 'pw', role: 'citizen' });
+    await act(() => result.current.signInWithPassword('a@b.in', 'pw'));
+
+    await act(() => result.current.logout());
+    expect(result.current.user).toBeNull();
+    expect(result.current.isAuthenticated).toBe(false);
+  });
+});
+
+describe('ProtectedRoute', () => {
+  async function renderAdminRoute(role?: 'citizen' | 'admin') {
+    const standIn = createSupabaseStandIn();
+    if (role) {
+      standIn.addUser({ email: 'u@x.in', password: 'pw', role });
+      await standIn.client.auth.signInWithPassword({ email: 'u@x.in', password: 'pw' });
+    }
+    render(
+      <AuthProvider client={standIn.client}>
+        <MemoryRouter initialEntries={['/admin']}>
+          <Routes>
+            <Route path="/intro" element={<p>intro page</p>} />
+            <Route path="/" element={<p>home page</p>} />
+            <Route path="/admin" element={<ProtectedRoute element={<p>admin page</p>} requireRole="admin" />} />
+          </Routes>
+        </MemoryRouter>
+      </AuthProvider>
+    );
+  }
+
+  it('sends anonymous visitors to the intro page', async () => {
+    await renderAdminRoute();
+    expect(await screen.findByText('intro page')).toBeInTheDocument();
+  });
+
+  it('keeps citizens out of admin routes', async () => {
+    await renderAdminRoute('citizen');
+    expect(await screen.findByText('home page')).toBeInTheDocument();
+  });
+
+  it('lets admins through', async () => {
+    await renderAdminRoute('admin');
+    expect(await screen.findByText('admin page')).toBeInTheDocument();
+  });
+});
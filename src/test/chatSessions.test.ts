@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+const { titleFromMessage, toStoredSession, saveChatTurn, deleteChatSession, fetchChatSession } = await import('@/lib/chatSessions');
+const { getConversationMemory } = await import('@/lib/agents/conversationMemory');
+type ChatSessionClient = import('@/lib/chatSessions').ChatSessionClient;
+type SessionRow = Parameters<typeof toStoredSession>[0];
+type MessageRow = Parameters<typeof toStoredSession>[1][number];
+
+const sessionRow = (overrides: Partial<SessionRow> = {}): SessionRow => ({
+  id: 'sess-1',
+  user_id: 'u',
+  title: 'Home loan',
+  language: 'hi',
+  collected_data: { monthly_income: 40000 },
+  context: { inEligibilityFlow: true, eligCurrentField: 'loan_amount' },
+  created_at: '2026-03-12T10:00:00Z',
+  updated_at: '2026-03-12T10:05:00Z',
+  ...overrides,
+});
+
+const messageRow = (role: string, content: string, created_at: string): MessageRow => ({
+  id: `${role}-${created_at}`, session_id: 'sess-1', user_id: 'u', role, content, created_at,
+});
+
+/** Records every builder call; each terminal call resolves with `result` */
+function recordingClient(result: { data: unknown; error: unknown } = { data: null, error: null }) {
+  const calls: unknown[][] = [];
+  const client = {
+    from: (table: string) => {
+      calls.push(['from', table]);
+      const builder: Record<string, unknown> = {};
+      for (const method of ['select', 'insert', 'update', 'delete', 'eq', 'order']) {
+        builder[method] = (...args: unknown[]) => {
+          calls.push([method, ...args]);
+          return builder;
+        };
+      }
+      builder.single = async () => ({ data: { id: 'new-session' }, error: null });
+      builder.maybeSingle = async () => result;
+      builder.then = (resolve: (value: unknown) => void) => resolve(result);
+      return builder;
+    },
+  } as unknown as ChatSessionClient;
+  return { client, calls };
+}
+
+describe('titleFromMessage', () => {
+  it('uses the first line and shortens long questions', () => {
+    expect(titleFromMessage('  I need a   home loan\nfor 20 lakh')).toBe('I need a home loan');
+    const title = titleFromMessage('How much personal loan can I get if my salary is 35000 and I have one car loan?');
+    expect(title.length).toBeLessThanOrEqual(48);
+    expect(title.endsWith('…')).toBe(true);
+    expect(titleFromMessage('   ')).toBe('New chat');
+  });
+});
+
+describe('toStoredSession', () => {
+  it('rebuilds the transcript and the conversation state', () => {
+    const stored = toStoredSession(sessionRow(), [
+      messageRow('user', 'check eligibility', '2026-03-12T10:00:00.000Z'),
+      messageRow('assistant', 'What is your monthly income?', '2026-03-12T10:00:00.001Z'),
+      messageRow('system', 'internal', '2026-03-12T10:00:00.002Z'),
+    ]);
+    expect(stored.language).toBe('hi');
+    expect(stored.messages).toEqual([
+      { role: 'user', content: 'check eligibility' },
+      { role: 'assistant', content: 'What is your monthly income?' },
+    ]);
+    expect(stored.state.collectedData).toEqual({ monthly_income: 40000 });
+    expect(stored.state.context).toMatchObject({ eligCurrentField: 'loan_amount' });
+    expect(stored.state.messages[1].timestamp).toBe(Date.parse('2026-03-12T10:00:00.001Z'));
+  });
+
+  it('tolerates malformed JSON columns', () => {
+    const stored = toStoredSession(sessionRow({ collected_data: null, context: [1, 2], language: 'fr' }), []);
+    expect(stored.state.collectedData).toEqual({});
+    expect(stored.state.context).toEqual({});
+    expect(stored.language).toBe('en');
+  });
+});
+
+describe('saveChatTurn', () => {
+  const turn = [
+    { role: 'user' as const, content: 'I need a home loan' },
+    { role: 'assistant' as const, content: 'What is your monthly income?' },
+  ];
+  const state = { messages: [], collectedData: { loan_purpose: 'Home' }, context: { inEligibilityFlow: true } };
+
+  it('creates the session on the first turn and stores the messages in order', async () => {
+    const { client, calls } = recordingClient();
+    const id = await saveChatTurn(null, turn, state, 'en', client);
+    expect(id).toBe('new-session');
+    expect(calls[1]).toEqual(['insert', {
+      title: 'I need a home loan', language: 'en', collected_data: { loan_purpose: 'Home' }, context: { inEligibilityFlow: true },
+    }]);
+
+    const [, rows] = calls.find((c) => c[0] === 'insert' && Array.isArray(c[1])) as [string, { session_id: string; role: string; created_at: string }[]];
+    expect(rows.map((r) => [r.session_id, r.role])).toEqual([['new-session', 'user'], ['new-session', 'assistant']]);
+    expect(rows[0].created_at < rows[1].created_at).toBe(true);
+  });
+
+  it('updates the state of an existing session', async () => {
+    const { client, calls } = recordingClient();
+    expect(await saveChatTurn('sess-1', turn, state, 'hi', client)).toBe('sess-1');
+    expect(calls.slice(0, 3)).toEqual([
+      ['from', 'chat_sessions'],
+      ['update', { language: 'hi', collected_data: { loan_purpose: 'Home' }, context: { inEligibilityFlow: true } }],
+      ['eq', 'id', 'sess-1'],
+    ]);
+  });
+
+  it('surfaces database errors', async () => {
+    const { client } = recordingClient({ data: null, error: new Error('permission denied') });
+    await expect(saveChatTurn('sess-1', turn, state, 'en', client)).rejects.toThrow('permission denied');
+    await expect(deleteChatSession('sess-1', client)).rejects.toThrow('permission denied');
+  });
+});
+
+describe('fetchChatSession', () => {
+  it('returns null for a session that no longer exists', async () => {
+    const { client, calls } = recordingClient({ data: null, error: null });
+    expect(await fetchChatSession('gone', client)).toBeNull();
+    expect(calls.some((c) => c[1] === 'chat_messages')).toBe(false);
+  });
+});
+
+describe('resuming on another device', () => {
+  it('continues the eligibility flow from the restored slots and context', async () => {
+    const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+    const memory = getConversationMemory();
+    const first = new ChatbotOrchestrator();
+    await first.processMessage('reset');
+    await first.processMessage('check eligibility');
+    await first.processMessage('45000');
+    const saved = JSON.parse(JSON.stringify(memory.exportState()));
+
+    memory.reset();
+    expect(memory.getCollectedData()).toEqual({});
+
+    memory.restore(saved);
+    const resumed = await new ChatbotOrchestrator().processMessage('6 lakh');
+    expect(resumed.agentType).toBe('eligibility');
+    expect(resumed.metadata?.collectedFields).toMatchObject({ monthly_income: 45000, loan_amount: 600000 });
+  });
+});
@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createChatHandler } from '../../supabase/functions/chat/handler.ts';
+import { EDGE_URL, chunkText, createMockLlm, parseSse, routeToEdge, type MockTurn } from './mockLlm';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { supabaseUrl: 'http://edge.test', supabaseKey: 'anon-key' },
+}));
+
+type Message = { role: 'user' | 'assistant'; content: string };
+
+/** Edge handler wired to a scripted LLM */
+function setup(turns: MockTurn[], providers: ('huggingface' | 'openai')[] = ['huggingface']) {
+  const llm = createMockLlm(turns);
+  const handler = createChatHandler({ providers: () => providers.map((id) => llm.provider(id)) });
+  const post = (messages: Message[], extra: Record<string, unknown> = {}) =>
+    handler(
+      new Request(`${EDGE_URL}/functions/v1/chat`, {
+        method: 'POST',
+        body: JSON.stringify({ messages, language: 'en', ...extra }),
+      })
+    );
+  return { llm, handler, post };
+}
+
+const user = (content: string): Message => ({ role: 'user', content });
+
+describe('chat edge function', () => {
+  it('streams LLM tokens as OpenAI chunks after the RAG event', async () => {
+    const { llm, post } = setup([{ tokens: ['Keep ', 'utilisation ', 'below 30%.'] }]);
+    const response = await post([user('How do I improve my CIBIL score?')]);
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+    const frames = parseSse(await response.text());
+    expect(frames[0].event).toBe('rag');
+    expect(JSON.parse(frames[0].data).usedDocs.length).toBeGreaterThan(0);
+    expect(chunkText(frames)).toEqual(['Keep ', 'utilisation ', 'below 30%.']);
+    expect(frames.at(-1)).toEqual({ data: '[DONE]' });
+
+    expect(llm.requests).toHaveLength(1);
+    expect(String((llm.requests[0].body as { inputs: string }).inputs)).toContain('User: How do I improve my CIBIL score?');
+  });
+
+  it('answers the eligibility flow locally without calling the LLM', async () => {
+    const { llm, post } = setup([]);
+    const first = parseSse(await (await post([user('Am I eligible for a loan?')])).text());
+    const question = chunkText(first).join('');
+    expect(question).toContain('Eligibility Check Assistant');
+    expect(question).toContain('monthly take-home income');
+
+    const second = parseSse(
+      await (await post([user('Am I eligible for a loan?'), { role: 'assistant', content: question }, user('50000')])).text()
+    );
+    expect(chunkText(second).join('')).toContain('total monthly expenses');
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it('switches to the resilience flow on a stress-test request', async () => {
+    const { llm, post } = setup([]);
+    const text = chunkText(parseSse(await (await post([user('Can you stress test my finances?')])).text())).join('');
+    expect(text).toContain('Financial Resilience Assessment');
+    expect(llm.requests).toHaveLength(0);
+  });
+
+  it('hands an off-topic question during eligibility to the LLM', async () => {
+    const { llm, post } = setup([{ tokens: ['Namaste!'] }]);
+    const history: Message[] = [
+      user('Check my eligibility'),
+      { role: 'assistant', content: '🎯 **Eligibility Check Assistant**\nWhat is your monthly take-home income in ₹?' },
+      user('What does RBI stand for?'),
+    ];
+    const frames = parseSse(await (await post(history)).text());
+    expect(chunkText(frames)).toEqual(['Namaste!']);
+    expect(llm.requests).toHaveLength(1);
+  });
+
+  it('fails over to the next provider before streaming starts', async () => {
+    const { llm, post } = setup([{ status: 503 }, { tokens: ['from ', 'backup'] }], ['huggingface', 'openai']);
+    const frames = parseSse(await (await post([user('What is an EMI?')])).text());
+    expect(chunkText(frames)).toEqual(['from ', 'backup']);
+    expect(llm.requests.map((r) => r.url)).toEqual(['http://huggingface.mock/v1/mock', 'http://openai.mock/v1/chat/completions']);
+  });
+
+  it('returns a JSON error when every provider is rate limited', async () => {
+    const { post } = setup([{ status: 429 }]);
+    const response = await post([user('What is an EMI?')]);
+    expect(response.status).toBe(429);
+    expect(await response.json()).toEqual({ error: 'Rate limit exceeded. Please retry in a few seconds.' });
+  });
+
+  it('emits an error event when the LLM drops mid-stream', async () => {
+    const { post } = setup([{ tokens: ['Part'], failMidStream: true }]);
+    const frames = parseSse(await (await post([user('What is an EMI?')])).text());
+    expect(chunkText(frames)).toEqual(['Part']);
+    expect(frames.at(-2)).toEqual({ event: 'error', data: JSON.stringify({ error: 'Streaming failed' }) });
+    expect(frames.at(-1)).toEqual({ data: '[DONE]' });
+  });
+
+  it('cancels the upstream LLM call when the client disconnects', async () => {
+    const { llm, post } = setup([{ tokens: ['one ', 'two '], hang: true }]);
+    const reader = (await post([user('What is an EMI?')])).body!.getReader();
+    await reader.read();
+    await reader.cancel();
+    await vi.waitFor(() => expect(llm.requests[0].signal?.aborted).toBe(true));
+  });
+
+  it('rejects bad requests', async () => {
+    const { handler, post } = setup([]);
+    expect((await post([])).status).toBe(400);
+    expect((await handler(new Request(`${EDGE_URL}/functions/v1/chat`))).status).toBe(405);
+  });
+});
+
+describe('chat client end to end', () => {
+  let llm: ReturnType<typeof createMockLlm>;
+
+  const serve = (turns: MockTurn[]) => {
+    llm = createMockLlm(turns);
+    vi.stubGlobal('fetch', routeToEdge(createChatHandler({ providers: () => [llm.provider()] })));
+  };
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('streamChatResponse', () => {
+    it('relays tokens and cleans the final text', async () => {
+      serve([{ tokens: ['Pay on time.', '\n\n\n\nKeep usage low.', '\nUser:'] }]);
+      const { streamChatResponse } = await import('@/lib/chatService');
+      const tokens: string[] = [];
+      const ragDocs = vi.fn();
+      const fullText = await new Promise<string>((resolve, reject) =>
+        streamChatResponse([user('How do I improve my credit score?')], 'en', {
+          onToken: (t) => tokens.push(t),
+          onDone: resolve,
+          onError: reject,
+          onRagDocs: ragDocs,
+        })
+      );
+      expect(tokens).toHaveLength(3);
+      expect(fullText).toBe('Pay on time.\n\nKeep usage low.');
+      expect(ragDocs).toHaveBeenCalledWith(expect.arrayContaining([expect.objectContaining({ id: expect.any(String) })]));
+    });
+
+    it('stops on abort, keeps the partial text and cancels the LLM call', async () => {
+      serve([{ tokens: ['Partial ', 'answer'], hang: true }]);
+      const { streamChatResponse } = await import('@/lib/chatService');
+      const controller = new AbortController();
+      const onError = vi.fn();
+      const fullText = await new Promise<string>((resolve) => {
+        const tokens: string[] = [];
+        streamChatResponse(
+          [user('What is an EMI?')],
+          'en',
+          {
+            onToken: (t) => {
+              tokens.push(t);
+              if (tokens.length === 2) controller.abort();
+            },
+            onDone: resolve,
+            onError,
+          },
+          'text',
+          controller.signal
+        );
+      });
+      expect(fullText).toBe('Partial answer');
+      expect(onError).not.toHaveBeenCalled();
+      await vi.waitFor(() => expect(llm.requests[0].signal?.aborted).toBe(true));
+    });
+  });
+
+  describe('ChatbotOrchestrator.processMessage', () => {
+    let orchestrator: import('@/lib/agents/orchestrator').ChatbotOrchestrator;
+
+    beforeEach(async () => {
+      const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+      orchestrator = new ChatbotOrchestrator();
+      await orchestrator.processMessage('reset');
+    });
+
+    it('streams finance questions through the edge function', async () => {
+      serve([{ tokens: ['Banks ', 'check ', 'CIBIL.'] }]);
+      const tokens: string[] = [];
+      const done = new Promise<[string, unknown]>((resolve) => {
+        orchestrator.processMessage('Why do banks check credit history?', 'en', (t) => tokens.push(t), (text, meta) =>
+          resolve([text, meta])
+        );
+      });
+      const [text] = await done;
+      expect(tokens.join('')).toBe('Banks check CIBIL.');
+      expect(text).toBe('Banks check CIBIL.');
+      expect(llm.requests).toHaveLength(1);
+    });
+
+    it('runs the eligibility flow locally', async () => {
+      serve([]);
+      const result = await orchestrator.processMessage('check eligibility', 'en');
+      expect(result.agentType).toBe('eligibility');
+      expect(result.isStreaming).toBeFalsy();
+      expect(llm.requests).toHaveLength(0);
+
+      const stopped = await orchestrator.processMessage('exit', 'en');
+      expect(stopped.response).toContain('Eligibility flow stopped');
+    });
+
+    it('falls back to a local answer when the LLM is down', async () => {
+      serve([{ status: 500 }]);
+      const result = await orchestrator.processMessage('Which bank should I compare?', 'en');
+      expect(result.agentType).toBe('finance');
+      expect(result.metadata?.error).toBe(true);
+      expect(result.response).toContain('Top Banks');
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import {
+  assumeProfile,
+  estimateConfidence,
+  fieldImpact,
+  IMPACT_THRESHOLD,
+  nextEligibilityField,
+  parseSpecialAnswer,
+  pendingQuestions,
+} from '@/lib/agents/eligibilityPlanner';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+const anchors: Partial<LoanFormData> = { monthly_income: 40000, loan_amount: 800000 };
+
+describe('eligibility planner', () => {
+  it('fills unknown fields with income-scaled assumptions and lists them', () => {
+    const { data, assumed } = assumeProfile({ monthly_income: 60000 });
+    expect(data.monthly_income).toBe(60000);
+    expect(data.monthly_savings).toBe(9000);
+    expect(data.bank_balance).toBe(120000);
+    expect(data.credit_score).toBe(650);
+    expect(assumed).toContain('credit_score');
+    expect(assumed).not.toContain('monthly_income');
+  });
+
+  it('asks income and loan amount first, then only fields that move the result', () => {
+    expect(nextEligibilityField({})).toBe('monthly_income');
+    expect(nextEligibilityField({ monthly_income: 40000 })).toBe('loan_amount');
+
+    const pending = pendingQuestions(anchors);
+    pending.forEach((f) => expect(fieldImpact(anchors, f)).toBeGreaterThanOrEqual(IMPACT_THRESHOLD));
+    expect(pending).toContain('credit_score');
+    expect(pending).not.toContain('loan_tenure');
+    expect(pending).not.toContain('age');
+    expect(pending).not.toContain('job_type');
+  });
+
+  it('orders questions by impact', () => {
+    const impacts = pendingQuestions(anchors).map((f) => fieldImpact(anchors, f));
+    expect(impacts).toEqual([...impacts].sort((a, b) => b - a));
+  });
+
+  it('only asks about a co-borrower once the loan is for education', () => {
+    expect(pendingQuestions(anchors)).not.toContain('co_borrower');
+    const weakStudent = { monthly_income: 15000, loan_amount: 1500000, loan_purpose: 'Education', credit_score: 600 };
+    expect(pendingQuestions(weakStudent)).toContain('co_borrower');
+  });
+
+  it('never re-asks a skipped field', () => {
+    const first = nextEligibilityField(anchors)!;
+    expect(pendingQuestions(anchors, [first])).not.toContain(first);
+  });
+
+  it('narrows the confidence range as answers replace assumptions', () => {
+    const rough = estimateConfidence(anchors);
+    const detailed = estimateConfidence({
+      ...anchors, credit_score: 780, existing_loans: 0, years_experience: 6, loan_purpose: 'Home',
+      co_borrower: 'None', monthly_savings: 10000, bank_balance: 300000,
+      owns_house: true, has_investments: true, owns_car: false, has_collateral: true, loan_tenure: 120,
+    });
+    expect(rough.low).toBeLessThanOrEqual(rough.probability);
+    expect(rough.high).toBeGreaterThanOrEqual(rough.probability);
+    expect(detailed.high - detailed.low).toBeLessThan(rough.high - rough.low);
+    expect(detailed.level).toBe('high');
+    expect(rough.level).not.toBe('high');
+  });
+
+  it('parses yes/no, choices, zero counts and lakh amounts', () => {
+    expect(parseSpecialAnswer('owns_house', 'हाँ')).toBe(true);
+    expect(parseSpecialAnswer('owns_house', 'nahi')).toBe(false);
+    expect(parseSpecialAnswer('has_collateral', 'maybe')).toBeNull();
+    expect(parseSpecialAnswer('loan_purpose', 'a home loan')).toBe('Home');
+    expect(parseSpecialAnswer('co_borrower', 'my father')).toBe('Parent/Guardian');
+    expect(parseSpecialAnswer('existing_loans', 'none')).toBe(0);
+    expect(parseSpecialAnswer('loan_amount', '7.5 lakh')).toBe(750000);
+    expect(parseSpecialAnswer('bank_balance', '2 लाख')).toBe(200000);
+    expect(parseSpecialAnswer('credit_score', '750')).toBeUndefined();
+  });
+});
+
+describe('ChatbotOrchestrator eligibility flow', () => {
+  let orchestrator: import('@/lib/agents/orchestrator').ChatbotOrchestrator;
+  const say = (text: string, lang: 'en' | 'hi' = 'en') => orchestrator.processMessage(text, lang);
+
+  beforeEach(async () => {
+    const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+    orchestrator = new ChatbotOrchestrator();
+    await orchestrator.processMessage('reset');
+  });
+
+  it('asks adaptive follow-ups and reports assumed values after a skip', async () => {
+    expect((await say('check eligibility')).metadata?.step).toBe('monthly_income');
+    expect((await say('40000')).metadata?.step).toBe('loan_amount');
+
+    const afterAmount = await say('8 lakh');
+    const skippedField = afterAmount.metadata?.step;
+    expect(skippedField).toBe(nextEligibilityField(anchors));
+
+    const afterSkip = await say("don't know");
+    expect(afterSkip.response).toContain('Skipped');
+    expect(afterSkip.response).toMatch(/Estimate:\*\* \d+% \(likely \d+-\d+%/);
+    expect(afterSkip.metadata?.step).not.toBe(skippedField);
+
+    const report = await say('show result');
+    expect(report.metadata?.isEligibilityComplete).toBe(true);
+    expect(report.metadata?.collectedFields).toMatchObject({ monthly_income: 40000, loan_amount: 800000 });
+    expect(report.metadata?.assumedFields).toContain(skippedField);
+    expect(report.metadata?.confidence).toEqual(estimateConfidence(anchors));
+    expect(report.response).toContain('Assumed values');
+    expect(report.metadata?.eligibilityReport.approval_probability).toBe(report.metadata?.confidence.probability);
+  });
+
+  it('re-asks with a skip hint on an invalid answer', async () => {
+    await say('check eligibility');
+    const invalid = await say('a fair amount');
+    expect(invalid.metadata?.error).toBe(true);
+    expect(invalid.response).toContain('or say "skip"');
+    expect(invalid.response).toContain('monthly income');
+  });
+
+  it('accepts a zero answer for existing loans', async () => {
+    await say('check eligibility');
+    await say('40000');
+    await say('8 lakh');
+    let result = await say('skip');
+    while (result.metadata?.step && result.metadata.step !== 'existing_loans') {
+      result = await say('skip');
+    }
+    expect(result.metadata?.step).toBe('existing_loans');
+    const next = await say('none');
+    expect(next.metadata?.error).toBeUndefined();
+  });
+
+  it('finishes in Hindi with the confidence line', async () => {
+    await say('check eligibility', 'hi');
+    await say('40000', 'hi');
+    await say('8 लाख', 'hi');
+    const report = await say('skip all', 'hi');
+    expect(report.response).toContain('अनुमान');
+    expect(report.response).toContain('मानी गई वैल्यू');
+  });
+});
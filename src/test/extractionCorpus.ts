@@ -0,0 +1,45 @@
+import type { LoanFormData } from '@/types/loan';
+
+/** A user message and the fields extractFinancialData should pull out of it */
+export interface LabelledUtterance {
+  text: string;
+  expected: Partial<LoanFormData>;
+}
+
+/** Labelled messages per language, as users actually type them */
+export const EXTRACTION_CORPUS: Record<'en' | 'hi' | 'hinglish' | 'ta' | 'tanglish', LabelledUtterance[]> = {
+  en: [
+    { text: 'I earn 50000 per month, age 28, want 5 lakh loan, CIBIL is 720', expected: { monthly_income: 50000, age: 28, loan_amount: 500000, credit_score: 720 } },
+    { text: 'need a 2.5 lakh personal loan', expected: { loan_amount: 250000, loan_purpose: 'Personal' } },
+    { text: 'my salary is 45k and I have 2 existing loans', expected: { monthly_income: 45000, existing_loans: 2 } },
+    { text: 'home loan of 1.2 crore for 20 years tenure', expected: { loan_amount: 12000000, loan_purpose: 'Home', loan_tenure: 240 } },
+    { text: 'looking for an auto loan of 6 lakh', expected: { loan_amount: 600000, loan_purpose: 'Vehicle' } },
+  ],
+  hi: [
+    { text: 'मेरी सैलरी पचास हज़ार है', expected: { monthly_income: 50000 } },
+    { text: 'मुझे पाँच लाख का लोन चाहिए', expected: { loan_amount: 500000 } },
+    { text: 'मेरी उम्र ३२ साल है और सिबिल ७४० है', expected: { age: 32, credit_score: 740 } },
+    { text: 'मुझे डेढ़ लाख का पर्सनल लोन चाहिए', expected: { loan_amount: 150000, loan_purpose: 'Personal' } },
+    { text: 'मेरे 2 लोन चल रहे हैं', expected: { existing_loans: 2 } },
+    { text: 'कोई लोन नहीं है, 30 लाख का होम लोन चाहिए', expected: { existing_loans: 0, loan_amount: 3000000, loan_purpose: 'Home' } },
+  ],
+  hinglish: [
+    { text: 'meri salary 45 hazaar hai', expected: { monthly_income: 45000 } },
+    { text: 'mujhe 5 lakh ka loan chahiye, cibil 760', expected: { loan_amount: 500000, credit_score: 760 } },
+    { text: 'sarkari naukri hai, tankhwah saadhe teen lakh', expected: { job_type: 'Salaried', monthly_income: 350000 } },
+    { text: 'mera 60k income hai aur 1 loan chal raha hai, umar 29', expected: { monthly_income: 60000, existing_loans: 1, age: 29 } },
+    { text: '8 saal ka experience, do lakh ka car ka loan', expected: { years_experience: 8, loan_amount: 200000, loan_purpose: 'Vehicle' } },
+  ],
+  ta: [
+    { text: '5 லட்சம் கடன் வேண்டும்', expected: { loan_amount: 500000 } },
+    { text: 'என் மாத சம்பளம் ௪௫௦௦௦', expected: { monthly_income: 45000 } },
+    { text: 'என் வயது 30, சம்பளம் 60 ஆயிரம்', expected: { age: 30, monthly_income: 60000 } },
+    { text: 'பத்து லட்சம் வீட்டுக் கடன் வேண்டும், சிபில் 780', expected: { loan_amount: 1000000, loan_purpose: 'Home', credit_score: 780 } },
+    { text: 'ஏற்கனவே 2 கடன் உள்ளது', expected: { existing_loans: 2 } },
+  ],
+  tanglish: [
+    { text: 'en sambalam 40 aayiram', expected: { monthly_income: 40000 } },
+    { text: 'rendu lakh kadan venum', expected: { loan_amount: 200000 } },
+    { text: 'arasu velai, varumanam 75k, cibil 720', expected: { job_type: 'Salaried', monthly_income: 75000, credit_score: 720 } },
+  ],
+};
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import { sampleCases } from '@/data/mockData';
+import { scoreProfile } from '@/lib/scoring';
+import { solveForTarget } from '@/utils/goalSeek';
+
+const sample = (id: string) => ({ co_borrower: 'None', ...sampleCases.find((c) => c.id === id)!.formData }) as LoanFormData;
+const probability = (data: LoanFormData) => scoreProfile(data).approvalProbability;
+
+describe('solveForTarget', () => {
+  it('returns an empty plan when the target is already met', () => {
+    const data = sample('auto-driver');
+    const plan = solveForTarget(data, probability(data));
+    expect(plan.reached).toBe(true);
+    expect(plan.changes).toEqual([]);
+  });
+
+  it('reaches the target and the plan really scores that high', () => {
+    const data = sample('farmer');
+    const plan = solveForTarget(data, 75);
+    expect(plan.reached).toBe(true);
+    expect(plan.finalProbability).toBeGreaterThanOrEqual(75);
+    expect(probability(plan.data)).toBe(plan.finalProbability);
+  });
+
+  it('marginal gains add up to the total improvement', () => {
+    const plan = solveForTarget(sample('farmer'), 80);
+    const total = plan.changes.reduce((sum, c) => sum + c.gain, 0);
+    expect(total).toBe(plan.finalProbability - plan.baseProbability);
+    plan.changes.forEach((c) => expect(c.gain).toBeGreaterThan(0));
+  });
+
+  it('uses the fewest levers possible', () => {
+    const data = sample('farmer');
+    const plan = solveForTarget(data, 75);
+    // No single lever on its own gets there if the plan needed more than one
+    if (plan.changes.length > 1) {
+      const single = solveForTarget(data, 75, { levers: [plan.changes[0].lever] });
+      expect(single.reached).toBe(false);
+    }
+    expect(new Set(plan.changes.map((c) => c.lever)).size).toBe(plan.changes.length);
+  });
+
+  it('prefers the smallest change on a single lever', () => {
+    const data = { ...sample('auto-driver'), credit_score: 650 };
+    const target = probability({ ...data, credit_score: 700 });
+    const plan = solveForTarget(data, target, { levers: ['credit_score'] });
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0].to).toBe(700);
+  });
+
+  it('suggests a parent co-borrower for education loans', () => {
+    const data = sample('student');
+    const plan = solveForTarget(data, Math.min(96, probability(data) + 10), { levers: ['co_borrower'] });
+    expect(plan.reached).toBe(true);
+    expect(plan.changes[0]).toMatchObject({ lever: 'co_borrower', to: 'Parent/Guardian' });
+  });
+
+  it('reports the closest plan when the target is out of reach', () => {
+    const data = sample('farmer');
+    const plan = solveForTarget(data, 99, { levers: ['loan_tenure', 'existing_loans'] });
+    expect(plan.reached).toBe(false);
+    expect(plan.finalProbability).toBeGreaterThan(plan.baseProbability);
+    // Tenure does not move the score, so it is left out of the plan
+    expect(plan.changes.map((c) => c.lever)).toEqual(['existing_loans']);
+    expect(plan.changes[0].to).toBe(0);
+  });
+});
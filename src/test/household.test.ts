@@ -0,0 +1,138 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import {
+  MAX_CO_APPLICANTS,
+  combineHousehold,
+  parseCoApplicants,
+  type CoApplicant,
+} from '@/lib/household';
+import { scoreProfile } from '@/lib/scoring';
+import { DEFAULT_LENDER_CATALOG, evaluateLender } from '@/lib/lenders';
+import { sampleCases } from '@/data/mockData';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+const { coApplicantsFor, parseSpecialAnswer, pendingQuestions } = await import('@/lib/agents/eligibilityPlanner');
+
+const member = (overrides: Partial<CoApplicant> = {}): CoApplicant => ({
+  relationship: 'Spouse',
+  monthly_income: 30000,
+  job_type: 'Salaried',
+  credit_score: 740,
+  existing_emi: 0,
+  ...overrides,
+});
+
+const applicant: LoanFormData = {
+  ...(sampleCases[0].formData as LoanFormData),
+  job_type: 'Salaried',
+  monthly_income: 20000,
+  credit_score: 760,
+  existing_loans: 0,
+  loan_amount: 600000,
+  loan_purpose: 'Personal',
+  loan_tenure: 60,
+  co_borrower: 'None',
+};
+
+describe('combineHousehold', () => {
+  it('pools close relatives and takes the lowest credit score', () => {
+    const household = combineHousehold({
+      ...applicant,
+      co_applicants: [member(), member({ relationship: 'Parent/Guardian', monthly_income: 15000, credit_score: 690, existing_emi: 3000 })],
+    });
+    expect(household.monthlyIncome).toBe(65000);
+    expect(household.applicantIncome).toBe(20000);
+    expect(household.coApplicantEmi).toBe(3000);
+    expect(household.creditScore).toBe(690);
+    expect(household.excluded).toEqual([]);
+  });
+
+  it('follows lender rules on who can be pooled', () => {
+    const household = combineHousehold({
+      ...applicant,
+      co_applicants: [
+        member({ relationship: 'Sibling' }),
+        member({ relationship: 'Other' }),
+        member({ credit_score: 580 }),
+      ],
+    });
+    expect(household.pooled).toEqual([]);
+    expect(household.monthlyIncome).toBe(20000);
+    expect(household.creditScore).toBe(760);
+    expect(household.excluded.map((e) => e.reason)).toEqual([
+      'Sibling income only counts for Home loans',
+      "Lenders don't club income from other co-applicants",
+      'Credit score 580 is below 600',
+    ]);
+
+    const home = combineHousehold({ ...applicant, loan_purpose: 'Home', co_applicants: [member({ relationship: 'Sibling' })] });
+    expect(home.pooled).toHaveLength(1);
+  });
+
+  it(`pools at most ${MAX_CO_APPLICANTS} members`, () => {
+    const household = combineHousehold({ ...applicant, co_applicants: Array.from({ length: MAX_CO_APPLICANTS + 1 }, () => member()) });
+    expect(household.pooled).toHaveLength(MAX_CO_APPLICANTS);
+    expect(household.excluded).toHaveLength(1);
+  });
+});
+
+describe('parseCoApplicants', () => {
+  it('drops malformed members and clamps the rest', () => {
+    expect(parseCoApplicants('nope')).toEqual([]);
+    expect(parseCoApplicants([
+      { relationship: 'Spouse', monthly_income: 25000, credit_score: 1200, job_type: 'Government', name: ' Meena ' },
+      { relationship: 'Cousin', monthly_income: 25000, credit_score: 700 },
+      { relationship: 'Child', monthly_income: '25000', credit_score: 700 },
+    ])).toEqual([
+      { name: 'Meena', relationship: 'Spouse', monthly_income: 25000, job_type: 'Government', credit_score: 900, existing_emi: 0 },
+    ]);
+  });
+});
+
+describe('household scoring and lender matching', () => {
+  it('scores pooled income, co-applicant EMIs and the lowest score', () => {
+    const solo = scoreProfile(applicant);
+    const joint = scoreProfile({ ...applicant, co_applicants: [member({ existing_emi: 2000 })] });
+    expect(joint.householdIncome).toBe(50000);
+    expect(joint.hasCoBorrower).toBe(true);
+    expect(joint.existingEMI).toBe(solo.existingEMI + 2000);
+    expect(joint.approvalProbability).toBeGreaterThan(solo.approvalProbability);
+
+    const excluded = scoreProfile({ ...applicant, co_applicants: [member({ relationship: 'Other' })] });
+    expect(excluded.approvalProbability).toBe(solo.approvalProbability);
+  });
+
+  it('lets pooled income clear a lender minimum', () => {
+    const hdfc = DEFAULT_LENDER_CATALOG.find((p) => p.id === 'hdfc-personal')!;
+    expect(evaluateLender(hdfc, { ...applicant, loan_amount: 400000 }, 60).blockers).toContainEqual(expect.stringMatching(/income/));
+    const joint = evaluateLender(hdfc, { ...applicant, loan_amount: 400000, co_applicants: [member()] }, 60);
+    expect(joint.eligible).toBe(true);
+    expect(joint.reasons).toContain('Includes ₹30,000/month from Spouse');
+  });
+});
+
+describe('chat co-applicant question', () => {
+  const collected: Partial<LoanFormData> = { monthly_income: 20000, loan_amount: 600000 };
+
+  it('is only asked once a co-borrower is named', () => {
+    expect(pendingQuestions(collected)).not.toContain('co_applicants');
+    expect(pendingQuestions({ ...collected, co_borrower: 'Spouse' })).toContain('co_applicants');
+    expect(pendingQuestions({ ...collected, co_borrower: 'None' })).not.toContain('co_applicants');
+  });
+
+  it('turns the stated income into a co-applicant', () => {
+    expect(parseSpecialAnswer('co_applicants', '25k')).toBe(25000);
+    expect(parseSpecialAnswer('co_applicants', 'none')).toBe(0);
+    const data = { ...applicant, co_borrower: 'Parent/Guardian' };
+    expect(coApplicantsFor(data, 25000)).toEqual([
+      { relationship: 'Parent/Guardian', monthly_income: 25000, job_type: 'Salaried', credit_score: 760, existing_emi: 0 },
+    ]);
+    expect(coApplicantsFor({ ...data, co_borrower: 'None' }, 25000)).toEqual([]);
+    expect(coApplicantsFor(data, 0)).toEqual([]);
+  });
+});
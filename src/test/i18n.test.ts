@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { fallbackBundle, loadBundle, translate } from '@/i18n/translations';
+import { UI_COVERAGE_THRESHOLD, completenessReport, expectedKeys } from '@/i18n/completeness';
+import { LANGUAGES, isLanguage, isUiLanguage, llmInstruction, localReplyLanguage } from '@/i18n/languages';
+
+describe('translate', () => {
+  it('interpolates params', () => {
+    expect(translate('en', fallbackBundle, 'whatif_income_result', { income: '60,000', probability: 72 })).toBe(
+      'If income changes to ₹60,000 → approval becomes 72%',
+    );
+  });
+
+  it('picks the plural variant for count', () => {
+    expect(translate('en', fallbackBundle, 'goal_summary', { count: 1 })).toBe('One change gets you to your target:');
+    expect(translate('en', fallbackBundle, 'goal_summary', { count: 3 })).toContain('(3 steps)');
+  });
+
+  it('falls back to English, then to the key', async () => {
+    const bengali = await loadBundle('bn');
+    expect(translate('bn', bengali, 'nav_home')).toBe('হোম');
+    expect(translate('bn', { nav_home: 'হোম' }, 'how_subtitle')).toBe(fallbackBundle.how_subtitle);
+    expect(translate('bn', bengali, 'no_such_key' as never)).toBe('no_such_key');
+  });
+
+  it('loads each registered bundle once', async () => {
+    for (const { code } of LANGUAGES) {
+      expect(loadBundle(code)).toBe(loadBundle(code));
+      expect(Object.keys(await loadBundle(code)).length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('completeness', () => {
+  it('every bundle has every key and nothing stale', () => {
+    for (const entry of completenessReport()) {
+      expect(entry).toMatchObject({ missing: [], extra: [], coverage: 100 });
+    }
+  });
+
+  it('offers exactly the languages whose bundles clear the UI threshold', () => {
+    for (const { language, coverage } of completenessReport()) {
+      expect([language, isUiLanguage(language)]).toEqual([language, coverage >= UI_COVERAGE_THRESHOLD]);
+    }
+  });
+
+  it('no bundle carries keys English has dropped', () => {
+    for (const entry of completenessReport()) expect(entry.extra).toEqual([]);
+  });
+
+  it('expects plural variants per language', () => {
+    expect(expectedKeys('en')).toEqual(expect.arrayContaining(['goal_summary_one', 'goal_summary_other']));
+    expect(expectedKeys('en')).not.toContain('goal_summary');
+  });
+});
+
+describe('language registry', () => {
+  it('gives every language an LLM instruction and a local reply language', () => {
+    expect(isLanguage('kn')).toBe(true);
+    expect(isLanguage('fr')).toBe(false);
+    expect(llmInstruction('bn')).toMatch(/Bengali/);
+    expect(localReplyLanguage('ta')).toBe('ta');
+    expect(localReplyLanguage('te')).toBe('en');
+  });
+});
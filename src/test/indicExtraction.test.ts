@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { normalizeDigits, normalizeNumbers, normalizeIndicText } from '@/lib/agents/indicText';
+import { extractFinancialData } from '@/lib/agents/dataExtractionAgent';
+import { loanPurposeOptions } from '@/data/formOptions';
+import { EXTRACTION_CORPUS } from './extractionCorpus';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+describe('normalizeNumbers', () => {
+  it('converts Devanagari and Tamil digits', () => {
+    expect(normalizeDigits('₹४५,००० / ௭௫௦')).toBe('₹45,000 / 750');
+  });
+
+  it.each([
+    ['45 hazaar', '45000'],
+    ['पचास हज़ार', '50000'],
+    ['5 லட்சம்', '500000'],
+    ['10 லட்சத்து', '1000000'],
+    ['डेढ़ लाख', '150000'],
+    ['saadhe teen lakh', '350000'],
+    ['2.5 crore', '25000000'],
+    ['45k', '45000'],
+    ['do lakh,', '200000,'],
+    ['ek sau bees', '120'],
+  ])('%s → %s', (input, expected) => {
+    expect(normalizeNumbers(input)).toBe(expected);
+  });
+
+  it('leaves English words that double as Hindi numbers alone', () => {
+    expect(normalizeNumbers('do you know a teen who can char it')).toBe('do you know a teen who can char it');
+    expect(normalizeNumbers('I need 50000 to pay fees')).toBe('I need 50000 to pay fees');
+  });
+});
+
+describe('normalizeIndicText', () => {
+  it('maps Hindi and Tamil keywords to the English extraction vocabulary', () => {
+    expect(normalizeIndicText('मेरी सैलरी 40 हज़ार')).toBe('मेरी income 40000');
+    expect(normalizeIndicText('கடன் வேண்டும்')).toBe('loan need');
+    expect(normalizeIndicText('ghar ke liye loan')).toBe('home loan');
+  });
+});
+
+describe('extractFinancialData corpus', () => {
+  for (const [language, corpus] of Object.entries(EXTRACTION_CORPUS)) {
+    it.each(corpus)(`${language}: $text`, ({ text, expected }) => {
+      expect(extractFinancialData(text).extracted).toMatchObject(expected);
+    });
+  }
+
+  it('flags Hindi and Tamil eligibility questions', () => {
+    expect(extractFinancialData('क्या मुझे लोन मिलेगा?').isEligibilityQuery).toBe(true);
+    expect(extractFinancialData('எனக்கு கடன் கிடைக்குமா?').isEligibilityQuery).toBe(true);
+  });
+
+  it('only extracts purposes the form and lender catalog use', () => {
+    for (const utterance of Object.values(EXTRACTION_CORPUS).flat()) {
+      const purpose = extractFinancialData(utterance.text).extracted.loan_purpose;
+      if (purpose) expect(loanPurposeOptions).toContain(purpose);
+    }
+  });
+});
+
+describe('ChatbotOrchestrator with Indic answers', () => {
+  let orchestrator: import('@/lib/agents/orchestrator').ChatbotOrchestrator;
+
+  beforeEach(async () => {
+    const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+    orchestrator = new ChatbotOrchestrator();
+    await orchestrator.processMessage('reset');
+  });
+
+  it('accepts number words as answers in the eligibility flow', async () => {
+    await orchestrator.processMessage('check eligibility', 'hi');
+    await orchestrator.processMessage('पचास हज़ार', 'hi');
+    const next = await orchestrator.processMessage('10 லட்சம்', 'ta');
+    expect(next.metadata?.collectedFields).toMatchObject({ monthly_income: 50000, loan_amount: 1000000 });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+const {
+  detectLanguage,
+  initialLanguage,
+  loadStoredLanguage,
+  storeLanguage,
+  fetchProfileLanguage,
+  saveProfileLanguage,
+} = await import('@/i18n/preference');
+type PreferenceClient = import('@/i18n/preference').PreferenceClient;
+
+/** One profiles row behind the select/update chains the preference module uses */
+function profileClient(preferred: string | null) {
+  const row = { id: 'u1', preferred_language: preferred };
+  const client = {
+    from: () => ({
+      select: () => ({
+        eq: (_column: string, id: string) => ({
+          maybeSingle: async () => ({ data: id === row.id ? { preferred_language: row.preferred_language } : null, error: null }),
+        }),
+      }),
+      update: (patch: { preferred_language: string }) => ({
+        eq: async () => {
+          row.preferred_language = patch.preferred_language;
+          return { error: null };
+        },
+      }),
+    }),
+  } as unknown as PreferenceClient;
+  return { client, row };
+}
+
+describe('detectLanguage', () => {
+  it('takes the first UI language, ignoring region', () => {
+    expect(detectLanguage(['fr-FR', 'ta-IN', 'hi'])).toBe('ta');
+    expect(detectLanguage(['KN-in'])).toBe('kn');
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(detectLanguage(['fr', 'de-DE'])).toBeNull();
+    expect(detectLanguage([])).toBeNull();
+  });
+});
+
+describe('stored preference', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('round-trips through storage and ignores unknown codes', () => {
+    expect(loadStoredLanguage()).toBeNull();
+    storeLanguage('mr');
+    expect(loadStoredLanguage()).toBe('mr');
+    localStorage.setItem('ui_language', 'xx');
+    expect(loadStoredLanguage()).toBeNull();
+  });
+
+  it('prefers the saved choice, then the browser, then English', () => {
+    expect(initialLanguage(localStorage, ['bn-IN', 'en'])).toBe('bn');
+    expect(initialLanguage(localStorage, ['fr'])).toBe('en');
+    storeLanguage('hi');
+    expect(initialLanguage(localStorage, ['bn-IN'])).toBe('hi');
+  });
+
+  it('survives storage that throws', () => {
+    const broken = {
+      getItem: () => {
+        throw new Error('denied');
+      },
+      setItem: () => {
+        throw new Error('denied');
+      },
+    } as unknown as Storage;
+    expect(() => storeLanguage('ta', broken)).not.toThrow();
+    expect(initialLanguage(broken, ['te'])).toBe('te');
+  });
+});
+
+describe('profile preference', () => {
+  it('reads and writes the profile column', async () => {
+    const { client, row } = profileClient(null);
+    expect(await fetchProfileLanguage('u1', client)).toBeNull();
+    await saveProfileLanguage('u1', 'te', client);
+    expect(row.preferred_language).toBe('te');
+    expect(await fetchProfileLanguage('u1', client)).toBe('te');
+  });
+
+  it('ignores codes that are no longer registered', async () => {
+    const { client } = profileClient('xx');
+    expect(await fetchProfileLanguage('u1', client)).toBeNull();
+  });
+});
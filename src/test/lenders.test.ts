@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_LENDER_CATALOG,
+  evaluateLender,
+  parseLenderRow,
+  processingFee,
+  rateBandFor,
+  recommendLenders,
+  type LenderMatchProfile,
+} from '@/lib/lenders';
+import { calculateLoanResult } from '@/utils/loanCalculator';
+import { sampleCases } from '@/data/mockData';
+import type { LoanFormData } from '@/types/loan';
+
+const product = (id: string) => DEFAULT_LENDER_CATALOG.find((p) => p.id === id)!;
+
+const salaried: LoanFormData = {
+  ...(sampleCases[0].formData as LoanFormData),
+  job_type: 'Salaried',
+  monthly_income: 60000,
+  credit_score: 770,
+  loan_amount: 500000,
+  loan_purpose: 'Personal',
+  loan_tenure: 48,
+  co_borrower: 'None',
+};
+
+describe('lender catalog', () => {
+  it('picks the highest rate band the credit score qualifies for', () => {
+    const sbi = product('sbi-personal');
+    expect(rateBandFor(sbi, 700)?.min_rate).toBe(11.15);
+    expect(rateBandFor(sbi, 780)?.min_rate).toBe(10.3);
+    expect(rateBandFor(sbi, 600)).toBeNull();
+  });
+
+  it('clamps processing fees to the product limits', () => {
+    const sbi = product('sbi-personal');
+    expect(processingFee(sbi, 50000)).toBe(1000);
+    expect(processingFee(sbi, 500000)).toBe(5000);
+    expect(processingFee(sbi, 5000000)).toBe(15000);
+  });
+
+  it('lists blockers for each unmet rule', () => {
+    const profile: LenderMatchProfile = { ...salaried, job_type: 'Student', monthly_income: 10000, credit_score: 600 };
+    const evaluation = evaluateLender(product('hdfc-personal'), profile, 50);
+    expect(evaluation.eligible).toBe(false);
+    expect(evaluation.blockers.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('only recommends lenders whose rules the profile meets, one product each', () => {
+    const recs = recommendLenders(salaried, DEFAULT_LENDER_CATALOG, { approvalProbability: 80, limit: 10 });
+    const names = recs.map((r) => r.name);
+    expect(new Set(names).size).toBe(names.length);
+    expect(names).toContain('State Bank of India');
+    expect(names).not.toContain('Axis Bank');
+    for (const rec of recs) {
+      expect(rec.reasons.length).toBeGreaterThan(0);
+      expect(rec.eligibility_notes).not.toMatch(/^Not yet eligible/);
+    }
+    const scores = recs.map((r) => r.match_score);
+    expect([...scores].sort((a, b) => b - a)).toEqual(scores);
+  });
+
+  it('routes purpose-specific loans to dedicated products', () => {
+    const student = sampleCases.find((c) => c.id === 'student')!.formData as LoanFormData;
+    const recs = recommendLenders(student, DEFAULT_LENDER_CATALOG, { approvalProbability: 60 });
+    expect(recs[0].product_name).toBe('Student Loan Scheme');
+
+    const farmer = sampleCases.find((c) => c.id === 'farmer')!.formData as LoanFormData;
+    expect(recommendLenders(farmer, DEFAULT_LENDER_CATALOG, { approvalProbability: 60 })[0].product_name)
+      .toBe('Kisan Credit Card');
+  });
+
+  it('pads with near-misses explaining what blocks them', () => {
+    const weak: LenderMatchProfile = { ...salaried, monthly_income: 8000, credit_score: 550 };
+    const recs = recommendLenders(weak, DEFAULT_LENDER_CATALOG, { approvalProbability: 20 });
+    expect(recs).toHaveLength(2);
+    expect(recs[0].eligibility_notes).toMatch(/^Not yet eligible/);
+  });
+
+  it('parses table rows with string numerics', () => {
+    const row = parseLenderRow({
+      id: 'x', lender_name: 'Test Bank', product_name: 'Loan', lender_type: 'PSU',
+      loan_purposes: ['Home'], job_types: null, min_income: '15000', max_lti: '4.5',
+      min_credit_score: 650, max_tenure_months: 240,
+      rate_bands: [{ min_credit_score: '650', min_rate: '9.1', max_rate: '9.9' }],
+      processing_fee_percent: '0.5', processing_fee_min: '1000', processing_fee_max: null,
+      features: ['Fast'], is_active: true,
+    });
+    expect(row.min_income).toBe(15000);
+    expect(row.max_lti).toBe(4.5);
+    expect(row.job_types).toEqual([]);
+    expect(row.rate_bands[0].min_rate).toBe(9.1);
+    expect(row.processing_fee_max).toBeNull();
+  });
+
+  it('feeds calculateLoanResult recommendations from the catalog', () => {
+    const result = calculateLoanResult(salaried, [product('bob-general')]);
+    expect(result.recommendedBanks).toHaveLength(1);
+    expect(result.recommendedBanks[0].name).toBe('Bank of Baroda');
+    expect(result.recommendedBanks[0].reasons?.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import {
+  ledgerTotals,
+  monthlyObligation,
+  parseLiabilities,
+  payDownAdvice,
+  payoffPlan,
+  type Liability,
+} from '@/lib/liabilities';
+import { EXISTING_LOAN_EMI_ESTIMATE, scoreProfile } from '@/lib/scoring';
+import { profileFromLoanForm } from '@/lib/loanResilience';
+import { solveForTarget } from '@/utils/goalSeek';
+import { sampleCases } from '@/data/mockData';
+
+const debt = (overrides: Partial<Liability> = {}): Liability => ({
+  type: 'personal',
+  outstanding: 100000,
+  emi: 5000,
+  annual_rate: 14,
+  remaining_months: 24,
+  ...overrides,
+});
+
+const card = debt({ type: 'credit_card', lender: 'SBI Card', outstanding: 40000, emi: 0, annual_rate: 42 });
+const gold = debt({ type: 'gold_loan', outstanding: 200000, emi: 3000, annual_rate: 9 });
+const bike = debt({ type: 'vehicle', outstanding: 60000, emi: 4500, annual_rate: 11 });
+
+const applicant: LoanFormData = {
+  ...(sampleCases[0].formData as LoanFormData),
+  job_type: 'Salaried',
+  monthly_income: 40000,
+  credit_score: 720,
+  existing_loans: 3,
+  loan_amount: 500000,
+  loan_purpose: 'Personal',
+  loan_tenure: 60,
+  co_borrower: 'None',
+  co_applicants: [],
+};
+
+describe('ledger totals', () => {
+  it('counts a revolving minimum due when no instalment is given', () => {
+    expect(monthlyObligation(card)).toBe(2000);
+    expect(monthlyObligation(debt({ emi: 0 }))).toBe(0);
+  });
+
+  it('ignores paid-off rows', () => {
+    expect(ledgerTotals([card, gold, debt({ outstanding: 0, emi: 0 })])).toEqual({
+      count: 2,
+      monthlyObligation: 5000,
+      outstanding: 240000,
+    });
+  });
+});
+
+describe('payoffPlan', () => {
+  it('clears the debts that free the most EMI per rupee first', () => {
+    const plan = payoffPlan([gold, bike, card], 6000);
+    expect(plan.cleared).toEqual([bike, card]);
+    expect(plan.emiFreed).toBe(6500);
+    expect(plan.outstanding).toBe(100000);
+  });
+
+  it('names the debts in pay-down advice', () => {
+    expect(payDownAdvice([gold, bike, card], 4000)).toBe(
+      'Pay off Vehicle loan (₹60,000 outstanding), freeing ₹4,500/month',
+    );
+    expect(payDownAdvice([], 4000)).toBe('Cut existing EMIs by ₹4,000/month');
+  });
+});
+
+describe('parseLiabilities', () => {
+  it('drops malformed rows and clamps the rest', () => {
+    expect(parseLiabilities({ type: 'personal' })).toEqual([]);
+    expect(parseLiabilities([
+      { type: 'gold_loan', lender: ' Muthoot ', outstanding: 80000, emi: -10, annual_rate: 250, remaining_months: 11.6 },
+      { type: 'mortgage', outstanding: 80000, emi: 2000 },
+      'card',
+    ])).toEqual([
+      { type: 'gold_loan', lender: 'Muthoot', outstanding: 80000, emi: 0, annual_rate: 100, remaining_months: 12 },
+    ]);
+  });
+});
+
+describe('ledger in scoring, resilience and goal seek', () => {
+  it('uses the ledger EMIs instead of the per-loan estimate', () => {
+    const estimated = scoreProfile(applicant);
+    expect(estimated.existingEMI).toBe(3 * EXISTING_LOAN_EMI_ESTIMATE);
+
+    const itemised = scoreProfile({ ...applicant, existing_loans: 0, liabilities: [card, gold] });
+    expect(itemised.existingEMI).toBe(5000);
+    expect(itemised.approvalProbability).toBeGreaterThan(estimated.approvalProbability);
+  });
+
+  it('feeds the ledger into the stress profile', () => {
+    const profile = profileFromLoanForm({ ...applicant, liabilities: [card, gold] }, 10000);
+    expect(profile.debt_monthly).toBe(15000);
+    expect(profile.existing_loans).toBe(3);
+  });
+
+  it('clears real debts instead of lowering the loan count', () => {
+    const data = { ...applicant, monthly_income: 30000, existing_loans: 3, liabilities: [gold, bike, debt()] };
+    const plan = solveForTarget(data, 80, { levers: ['existing_loans', 'liabilities'] });
+    expect(plan.changes.map((c) => c.lever)).toEqual(['liabilities']);
+    expect((plan.changes[0].to as Liability[]).length).toBeLessThan(3);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  LlmError,
+  completeWithFailover,
+  createProvider,
+  loadLlmConfig,
+  streamWithFailover,
+  toPrompt,
+  type LlmProviderConfig,
+  type LlmRequest,
+} from '../../supabase/functions/_shared/llm.ts';
+
+const env = (values: Record<string, string>) => (key: string) => values[key];
+
+const request: LlmRequest = {
+  system: 'You are a loan advisor.',
+  messages: [{ role: 'user', content: 'Hi' }],
+  maxTokens: 64,
+  temperature: 0.5,
+};
+
+const config = (id: LlmProviderConfig['id'], overrides: Partial<LlmProviderConfig> = {}): LlmProviderConfig => ({
+  id,
+  model: 'test-model',
+  baseUrl: `http://${id}.test`,
+  timeoutMs: 1000,
+  ...overrides,
+});
+
+/** Response whose body streams the given chunks */
+const streamed = (chunks: string[]) =>
+  new Response(
+    new ReadableStream<Uint8Array>({
+      start(controller) {
+        const encoder = new TextEncoder();
+        chunks.forEach((c) => controller.enqueue(encoder.encode(c)));
+        controller.close();
+      },
+    })
+  );
+
+const collect = async (tokens: AsyncIterable<string>) => {
+  const out: string[] = [];
+  for await (const t of tokens) out.push(t);
+  return out;
+};
+
+describe('loadLlmConfig', () => {
+  it('defaults to Hugging Face when a token is set', () => {
+    const { providers, warnings } = loadLlmConfig(env({ HUGGING_FACE_TOKEN: 'hf' }));
+    expect(providers).toEqual([
+      expect.objectContaining({ id: 'huggingface', apiKey: 'hf', model: 'DragonLLM/Llama-Open-Finance-8B' }),
+    ]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('keeps the configured failover order and reports unusable entries', () => {
+    const { providers, warnings } = loadLlmConfig(
+      env({ LLM_PROVIDERS: 'ollama, openai, huggingface, llamacpp, gpt9', OPENAI_MODEL: 'gpt-4o-mini', LLM_TIMEOUT_MS: '5000' })
+    );
+    expect(providers.map((p) => p.id)).toEqual(['ollama', 'openai', 'llamacpp']);
+    expect(providers.every((p) => p.timeoutMs === 5000)).toBe(true);
+    expect(warnings).toEqual(['huggingface: HUGGING_FACE_TOKEN is not configured', 'gpt9: unknown provider']);
+  });
+});
+
+describe('provider adapters', () => {
+  it('sends Hugging Face a single prompt and streams token events', async () => {
+    const fetchImpl = vi.fn(async () =>
+      streamed([
+        'data: {"token":{"text":"Hel"}}\n\ndata: {"token":',
+        '{"text":"lo"}}\n\n',
+        'data: {"token":{"text":""},"generated_text":"Hello","details":{"finish_reason":"eos_token"}}\n\n',
+      ])
+    );
+    const provider = createProvider(config('huggingface', { apiKey: 'hf' }), fetchImpl);
+    expect(await collect(await provider.stream(request))).toEqual(['Hel', 'lo']);
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://huggingface.test/test-model');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer hf');
+    const body = JSON.parse(init.body as string);
+    expect(body.inputs).toBe(toPrompt(request));
+    expect(body.parameters).toMatchObject({ max_new_tokens: 64, stream: true, return_full_text: false });
+  });
+
+  it('streams OpenAI-compatible chat chunks', async () => {
+    const fetchImpl = vi.fn(async () =>
+      streamed(['data: {"choices":[{"delta":{"content":"Na"}}]}\n\n', 'data: {"choices":[{"delta":{"content":"maste"}}]}\n\ndata: [DONE]\n\n'])
+    );
+    const provider = createProvider(config('llamacpp'), fetchImpl);
+    expect(await collect(await provider.stream(request))).toEqual(['Na', 'maste']);
+
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://llamacpp.test/chat/completions');
+    expect(JSON.parse(init.body as string).messages[0]).toEqual({ role: 'system', content: request.system });
+  });
+
+  it('reads Ollama newline-delimited JSON and plain completions', async () => {
+    const fetchImpl = vi
+      .fn()
+      .mockResolvedValueOnce(streamed(['{"message":{"content":"A"},"done":false}\n{"message":{"content":"B"},"done":true}\n']))
+      .mockResolvedValueOnce(Response.json({ message: { content: 'full answer' } }));
+    const provider = createProvider(config('ollama'), fetchImpl);
+    expect(await collect(await provider.stream(request))).toEqual(['A', 'B']);
+    expect(await provider.complete(request)).toBe('full answer');
+    expect(fetchImpl.mock.calls[0][0]).toBe('http://ollama.test/api/chat');
+  });
+
+  it('times out a provider that never answers', async () => {
+    const fetchImpl = vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal!.addEventListener('abort', () => reject(new DOMException('aborted', 'AbortError')));
+        })
+    );
+    const provider = createProvider(config('openai', { timeoutMs: 20 }), fetchImpl as typeof fetch);
+    await expect(provider.complete(request)).rejects.toMatchObject({ name: 'LlmError', status: 504 });
+  });
+});
+
+describe('failover', () => {
+  it('falls through to the next provider and reports which one answered', async () => {
+    const fetchImpl = vi.fn(async (url: string) =>
+      url.startsWith('http://huggingface.test')
+        ? new Response('overloaded', { status: 503 })
+        : Response.json({ choices: [{ message: { content: 'from openai' } }] })
+    );
+    const providers = [createProvider(config('huggingface'), fetchImpl), createProvider(config('openai'), fetchImpl)];
+    const { provider, text } = await completeWithFailover(providers, request);
+    expect(provider.id).toBe('openai');
+    expect(text).toBe('from openai');
+  });
+
+  it('keeps a status every provider agreed on', async () => {
+    const fetchImpl = vi.fn(async () => new Response('slow down', { status: 429 }));
+    const providers = [createProvider(config('huggingface'), fetchImpl), createProvider(config('ollama'), fetchImpl)];
+    const error = await streamWithFailover(providers, request).catch((e) => e);
+    expect(error).toBeInstanceOf(LlmError);
+    expect(error.status).toBe(429);
+    expect(error.attempts).toHaveLength(2);
+  });
+
+  it('fails cleanly with no providers configured', async () => {
+    await expect(completeWithFailover([], request)).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('does not fail over when the caller aborts', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetchImpl = vi.fn(async (_url: string, init?: RequestInit) => {
+      if (init?.signal?.aborted) throw new DOMException('aborted', 'AbortError');
+      return Response.json({ choices: [{ message: { content: 'x' } }] });
+    });
+    const providers = [createProvider(config('openai'), fetchImpl), createProvider(config('llamacpp'), fetchImpl)];
+    await expect(completeWithFailover(providers, { ...request, signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import { EXISTING_LOAN_EMI_ESTIMATE } from '@/lib/scoring';
+import { sampleCases } from '@/data/mockData';
+import {
+  STRESS_SCENARIOS,
+  compareLoanStress,
+  maxSafeEmi,
+  profileFromLoanForm,
+  simulateLoanStress,
+} from '@/lib/loanResilience';
+
+const form = {
+  age: 31,
+  dependent_children: 1,
+  job_type: 'Salaried',
+  income_stability: 'Stable',
+  years_experience: 6,
+  monthly_income: 80000,
+  monthly_savings: 15000,
+  existing_loans: 1,
+  total_monthly_expenses: 35000,
+  credit_score: 760,
+  bank_balance: 400000,
+  has_investments: true,
+  owns_house: false,
+  property_value: 0,
+  has_health_insurance: true,
+  has_life_insurance: false,
+  loan_amount: 500000,
+  loan_tenure: 60,
+} as LoanFormData;
+
+describe('profileFromLoanForm', () => {
+  it('maps form fields and adds the candidate EMI to obligations', () => {
+    const before = profileFromLoanForm(form);
+    const after = profileFromLoanForm(form, 10000);
+    expect(before).toMatchObject({
+      monthly_income: 80000,
+      monthly_expenses: 35000,
+      savings_liquid: 400000,
+      investments: 180000,
+      debt_monthly: EXISTING_LOAN_EMI_ESTIMATE,
+      job_stability: 'High',
+      dependents: 1,
+      has_insurance: true,
+    });
+    expect(after.debt_monthly).toBe(before.debt_monthly + 10000);
+    expect(after.existing_loans).toBe(before.existing_loans + 1);
+  });
+
+  it('fills gaps conservatively', () => {
+    const sparse = profileFromLoanForm({ ...form, total_monthly_expenses: 0, has_investments: false, income_stability: 'Unstable' });
+    expect(sparse.monthly_expenses).toBe(40000);
+    expect(sparse.investments).toBe(0);
+    expect(sparse.job_stability).toBe('Low');
+  });
+});
+
+describe('maxSafeEmi', () => {
+  it.each(STRESS_SCENARIOS)('is the largest EMI paid for the whole tenure through %s', (scenario) => {
+    const limit = maxSafeEmi(form, scenario);
+    const survived = (emi: number) => simulateLoanStress(profileFromLoanForm(form, emi), scenario, form.loan_tenure).survived;
+    expect(limit % 100).toBe(0);
+    if (limit === 0) {
+      expect(survived(0)).toBe(false);
+      return;
+    }
+    expect(survived(limit)).toBe(true);
+    expect(survived(limit + 200)).toBe(false);
+  });
+
+  it('is zero when the applicant is already short of runway', () => {
+    expect(maxSafeEmi({ ...form, bank_balance: 10000, has_investments: false }, 'job_loss')).toBe(0);
+  });
+
+  it('is tightest when every shock hits at once', () => {
+    const combined = maxSafeEmi(form, 'combined');
+    for (const scenario of STRESS_SCENARIOS) expect(combined).toBeLessThanOrEqual(maxSafeEmi(form, scenario));
+  });
+
+  it('leaves property out of the buffer', () => {
+    const farmer = sampleCases.find(c => c.id === 'farmer')!.formData as LoanFormData;
+    for (const scenario of STRESS_SCENARIOS) {
+      expect(maxSafeEmi(farmer, scenario)).toBe(maxSafeEmi({ ...farmer, owns_house: false, property_value: 0 }, scenario));
+    }
+  });
+
+  it('stays near the monthly surplus for the sample applicants', () => {
+    const limits = (id: string, overrides: Partial<LoanFormData> = {}) => {
+      const data = { ...(sampleCases.find(c => c.id === id)!.formData as LoanFormData), ...overrides };
+      return Object.fromEntries(STRESS_SCENARIOS.map(s => [s, maxSafeEmi(data, s)]));
+    };
+    // ₹4,000 left after expenses; a few months without income would empty ₹25,000 of savings
+    expect(limits('student')).toEqual({
+      job_loss: 0, medical_emergency: 4000, market_crash: 4200, inflation_surge: 4100, combined: 0,
+    });
+    // The estimated EMIs on their existing loans already take more than is left after expenses...
+    expect(limits('auto-driver')).toEqual({
+      job_loss: 0, medical_emergency: 0, market_crash: 0, inflation_surge: 0, combined: 0,
+    });
+    expect(limits('farmer')).toEqual({
+      job_loss: 0, medical_emergency: 0, market_crash: 0, inflation_surge: 0, combined: 0,
+    });
+    // ...and without them the ₹4,000 and ₹6,000 surpluses set the limit
+    expect(limits('auto-driver', { existing_loans: 0 })).toEqual({
+      job_loss: 0, medical_emergency: 3500, market_crash: 4200, inflation_surge: 3600, combined: 0,
+    });
+    expect(limits('farmer', { existing_loans: 0 })).toEqual({
+      job_loss: 0, medical_emergency: 6100, market_crash: 6300, inflation_surge: 6100, combined: 0,
+    });
+  });
+});
+
+describe('compareLoanStress', () => {
+  it('never shows the loan improving survival', () => {
+    const rows = compareLoanStress(form, 12000);
+    expect(rows.map(r => r.scenario)).toEqual(STRESS_SCENARIOS);
+    for (const row of rows) {
+      expect(row.after.survivalMonths).toBeLessThanOrEqual(row.before.survivalMonths);
+    }
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Offline harness for the chat path: a scripted fake LLM speaking the
+ * Hugging Face / OpenAI streaming wire formats, a `fetch` that routes
+ * `/functions/v1/chat` to the edge handler in-process, and an SSE frame reader.
+ */
+
+import { createProvider, type LlmProvider, type LlmProviderConfig } from '../../supabase/functions/_shared/llm.ts';
+
+export interface MockTurn {
+  /** Tokens streamed one per chunk */
+  tokens?: string[];
+  /** Non-2xx status returned instead of a stream */
+  status?: number;
+  /** Keep the stream open after the tokens until the request is aborted */
+  hang?: boolean;
+  /** Break the connection after the tokens */
+  failMidStream?: boolean;
+}
+
+export interface MockLlmRequest {
+  url: string;
+  body: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** Fake LLM that answers each request with the next scripted turn */
+export function createMockLlm(turns: MockTurn[]) {
+  const requests: MockLlmRequest[] = [];
+  const encoder = new TextEncoder();
+
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    requests.push({ url, body: JSON.parse(String(init?.body ?? '{}')), signal: init?.signal ?? undefined });
+    const turn = turns[requests.length - 1] ?? { status: 500 };
+    if (turn.status) return new Response(JSON.stringify({ error: 'scripted failure' }), { status: turn.status });
+
+    const openAi = url.endsWith('/chat/completions');
+    const frame = (text: string) =>
+      openAi
+        ? `data: ${JSON.stringify({ choices: [{ delta: { content: text } }] })}\n\n`
+        : `data: ${JSON.stringify({ token: { text } })}\n\n`;
+    const finish = openAi
+      ? 'data: [DONE]\n\n'
+      : `data: ${JSON.stringify({ token: { text: '' }, generated_text: (turn.tokens ?? []).join(''), details: { finish_reason: 'eos_token' } })}\n\n`;
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const token of turn.tokens ?? []) {
+          await tick();
+          if (init?.signal?.aborted) return;
+          controller.enqueue(encoder.encode(frame(token)));
+        }
+        if (turn.failMidStream) {
+          controller.error(new TypeError('connection reset'));
+          return;
+        }
+        if (turn.hang) {
+          init?.signal?.addEventListener('abort', () => controller.error(new DOMException('aborted', 'AbortError')));
+          return;
+        }
+        controller.enqueue(encoder.encode(finish));
+        controller.close();
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+  }) as typeof fetch;
+
+  const provider = (id: LlmProviderConfig['id'] = 'huggingface'): LlmProvider =>
+    createProvider({ id, model: 'mock', baseUrl: `http://${id}.mock/v1`, timeoutMs: 1000 }, fetchImpl);
+
+  return { fetch: fetchImpl, requests, provider };
+}
+
+export const EDGE_URL = 'http://edge.test';
+
+/**
+ * `fetch` that serves the chat function in-process. Aborting the caller's
+ * signal cancels the handler's response body, like a dropped connection.
+ */
+export function routeToEdge(handler: (req: Request) => Promise<Response>): typeof fetch {
+  return (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url !== `${EDGE_URL}/functions/v1/chat`) throw new TypeError(`unexpected fetch ${url}`);
+    const signal = init?.signal ?? undefined;
+    if (signal?.aborted) throw new DOMException('aborted', 'AbortError');
+
+    const response = await handler(new Request(url, { ...init, signal }));
+    if (!response.body || !signal) return response;
+
+    const upstream = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        signal.addEventListener('abort', () => {
+          upstream.cancel();
+          controller.error(new DOMException('aborted', 'AbortError'));
+        });
+      },
+      async pull(controller) {
+        try {
+          const { done, value } = await upstream.read();
+          if (done) controller.close();
+          else controller.enqueue(value);
+        } catch (e) {
+          controller.error(e);
+        }
+      },
+    });
+    return new Response(body, { status: response.status, headers: response.headers });
+  }) as typeof fetch;
+}
+
+export interface SseFrame {
+  event?: string;
+  data: string;
+}
+
+/** Split an SSE body into frames; throws if a frame is not blank-line terminated */
+export function parseSse(raw: string): SseFrame[] {
+  if (raw.length > 0 && !raw.endsWith('\n\n')) throw new Error('SSE body does not end with a blank line');
+  return raw
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block) => {
+      const frame: SseFrame = { data: '' };
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event: ')) frame.event = line.slice(7);
+        else if (line.startsWith('data: ')) frame.data += line.slice(6);
+        else throw new Error(`unexpected SSE line: ${line}`);
+      }
+      return frame;
+    });
+}
+
+/** Text content of the OpenAI-style chunks in a list of frames */
+export const chunkText = (frames: SseFrame[]) =>
+  frames
+    .filter((f) => !f.event && f.data !== '[DONE]')
+    .map((f) => JSON.parse(f.data).choices[0].delta.content as string);
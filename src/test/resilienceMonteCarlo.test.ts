@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { runMonteCarloStressTest, type FinancialProfile } from '@/lib/resilienceEngine';
+
+const profile: FinancialProfile = {
+  monthly_income: 60000,
+  monthly_expenses: 30000,
+  savings_liquid: 150000,
+  investments: 100000,
+  property_value: 0,
+  debt_monthly: 5000,
+  credit_score: 720,
+  existing_loans: 1,
+  job_stability: 'Medium',
+  age: 32,
+  dependents: 1,
+  has_insurance: true,
+  investment_diversification: 40,
+};
+
+describe('runMonteCarloStressTest', () => {
+  it('is reproducible for a seed', () => {
+    const a = runMonteCarloStressTest(profile, { seed: 42, proposedEmi: 15000 });
+    const b = runMonteCarloStressTest(profile, { seed: 42, proposedEmi: 15000 });
+    expect(a).toEqual(b);
+    expect(runMonteCarloStressTest(profile, { seed: 7, proposedEmi: 15000 })).not.toEqual(a);
+  });
+
+  it('returns ordered percentiles within the horizon', () => {
+    const { survivalPercentiles: p, horizonMonths } = runMonteCarloStressTest(profile, { proposedEmi: 20000, horizonMonths: 48 });
+    expect(horizonMonths).toBe(48);
+    expect(p.p10).toBeLessThanOrEqual(p.p25);
+    expect(p.p25).toBeLessThanOrEqual(p.p50);
+    expect(p.p50).toBeLessThanOrEqual(p.p75);
+    expect(p.p75).toBeLessThanOrEqual(p.p90);
+    expect(p.p90).toBeLessThanOrEqual(48);
+    expect(p.p10).toBeGreaterThanOrEqual(0);
+  });
+
+  it('defaults more often as the EMI grows', () => {
+    const pod = (emi: number) => runMonteCarloStressTest(profile, { proposedEmi: emi }).probabilityOfDefault;
+    expect(pod(5000)).toBeLessThan(pod(20000));
+    expect(pod(20000)).toBeLessThan(pod(28000));
+    // Obligations above income: every path runs dry
+    expect(pod(40000)).toBe(1);
+  });
+
+  it('never defaults without income risk, medical bills or market swings', () => {
+    const result = runMonteCarloStressTest(profile, {
+      proposedEmi: 10000,
+      assumptions: {
+        monthlyJobLossProbability: { High: 0, Medium: 0, Low: 0 },
+        monthlyMedicalProbability: 0,
+        inflationVolatility: 0,
+        returnVolatility: 0,
+      },
+    });
+    expect(result.probabilityOfDefault).toBe(0);
+    expect(result.survivalPercentiles.p10).toBe(result.horizonMonths);
+  });
+
+  it('survival curve starts full and matches the default rate', () => {
+    const result = runMonteCarloStressTest(profile, { proposedEmi: 25000, paths: 500 });
+    expect(result.survivalCurve).toHaveLength(result.horizonMonths + 1);
+    expect(result.survivalCurve[0].solvent).toBe(1);
+    for (let i = 1; i < result.survivalCurve.length; i++) {
+      expect(result.survivalCurve[i].solvent).toBeLessThanOrEqual(result.survivalCurve[i - 1].solvent);
+    }
+    expect(result.survivalCurve.at(-1)!.solvent).toBeCloseTo(1 - result.probabilityOfDefault, 10);
+  });
+
+  it('insurance lowers the default rate', () => {
+    const options = { proposedEmi: 18000, assumptions: { monthlyMedicalProbability: 0.05 } };
+    const insured = runMonteCarloStressTest(profile, options).probabilityOfDefault;
+    const uninsured = runMonteCarloStressTest({ ...profile, has_insurance: false }, options).probabilityOfDefault;
+    expect(insured).toBeLessThan(uninsured);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { LoanFormData } from '@/types/loan';
+import type { Liability } from '@/lib/liabilities';
+import { sampleCases } from '@/data/mockData';
+import { scoreProfile } from '@/lib/scoring';
+import {
+  SCENARIO_PRESETS,
+  bestScenario,
+  changedFields,
+  evaluateScenario,
+  loadScenarios,
+  saveScenarios,
+  scenarioFields,
+} from '@/utils/scenarios';
+
+const base = { ...sampleCases.find((c) => c.id === 'auto-driver')!.formData, co_borrower: 'None' } as LoanFormData;
+const preset = (id: string) => SCENARIO_PRESETS.find((p) => p.id === id)!;
+
+describe('scenarios', () => {
+  it('scores an empty scenario exactly like the base profile', () => {
+    const outcome = evaluateScenario(base, { id: 'b', name: 'Base', overrides: {} });
+    const score = scoreProfile(base);
+    expect(outcome.approvalProbability).toBe(score.approvalProbability);
+    expect(outcome.emi).toBe(score.emi);
+    expect(outcome.dti).toBe(score.dti);
+    expect(outcome.changedFields).toEqual([]);
+    expect(outcome.banks.length).toBeGreaterThan(0);
+  });
+
+  it('lets any LoanFormData field be overridden and reports only real changes', () => {
+    expect(changedFields(base, { credit_score: 760, job_type: base.job_type, has_collateral: true })).toEqual([
+      'credit_score',
+      'has_collateral',
+    ]);
+  });
+
+  it('longer tenure lowers the EMI', () => {
+    const overrides = preset('longer-tenure').build(base)!;
+    const outcome = evaluateScenario(base, { id: 't', name: 'Tenure', overrides });
+    expect(outcome.data.loan_tenure).toBe(base.loan_tenure + 24);
+    expect(outcome.emi).toBeLessThan(scoreProfile(base).emi);
+  });
+
+  it('closing an existing loan lowers DTI', () => {
+    const overrides = preset('close-one-loan').build(base)!;
+    expect(overrides.existing_loans).toBe(base.existing_loans - 1);
+    expect(evaluateScenario(base, { id: 'c', name: 'Close', overrides }).dti).toBeLessThan(scoreProfile(base).dti);
+  });
+
+  it('pays off a ledger debt instead of lowering the loan count', () => {
+    const ledger: Liability[] = [
+      { type: 'vehicle', outstanding: 60000, emi: 4500, annual_rate: 11, remaining_months: 14 },
+      { type: 'gold_loan', outstanding: 200000, emi: 3000, annual_rate: 9, remaining_months: 70 },
+    ];
+    const withLedger = { ...base, existing_loans: 2, liabilities: ledger };
+    const overrides = preset('close-one-loan').build(withLedger)!;
+    expect(overrides).toEqual({ liabilities: [ledger[1]] });
+
+    const outcome = evaluateScenario(withLedger, { id: 'c', name: 'Close', overrides });
+    expect(outcome.data.existing_loans).toBe(1);
+    expect(outcome.changedFields).toEqual(['liabilities']);
+    expect(outcome.dti).toBeLessThan(scoreProfile(withLedger).dti);
+  });
+
+  it('derives the loan count from a ledger', () => {
+    const withLedger = {
+      ...base,
+      liabilities: [{ type: 'personal', outstanding: 50000, emi: 2500, annual_rate: 14, remaining_months: 20 }] as Liability[],
+    };
+    expect(scenarioFields(withLedger).map((f) => f.key)).not.toContain('existing_loans');
+    expect(scenarioFields(base).map((f) => f.key)).toContain('existing_loans');
+    expect(changedFields(withLedger, { existing_loans: 0 })).toEqual([]);
+  });
+
+  it('skips presets that would not change anything', () => {
+    expect(preset('credit-750').build({ ...base, credit_score: 780 })).toBeNull();
+    expect(preset('close-one-loan').build({ ...base, existing_loans: 0 })).toBeNull();
+    expect(preset('parent-co-borrower').build({ ...base, co_borrower: 'Parent/Guardian' })).toBeNull();
+  });
+
+  it('picks the highest probability, breaking ties on EMI', () => {
+    const outcomes = [
+      evaluateScenario(base, { id: 'a', name: 'A', overrides: { credit_score: 800 } }),
+      evaluateScenario(base, { id: 'b', name: 'B', overrides: { credit_score: 800, loan_tenure: base.loan_tenure + 12 } }),
+      evaluateScenario(base, { id: 'c', name: 'C', overrides: { credit_score: 500 } }),
+    ];
+    const best = bestScenario(outcomes)!;
+    expect(best.approvalProbability).toBe(Math.max(...outcomes.map((o) => o.approvalProbability)));
+    if (outcomes[0].approvalProbability === outcomes[1].approvalProbability) expect(best.scenario.id).toBe('b');
+  });
+
+  it('round-trips saved scenarios and ignores corrupt storage', () => {
+    const scenarios = [{ id: 'x', name: 'Raise score', overrides: { credit_score: 750 } }];
+    saveScenarios(scenarios);
+    expect(loadScenarios()).toEqual(scenarios);
+    localStorage.setItem('loan_scenarios', '{not json');
+    expect(loadScenarios()).toEqual([]);
+  });
+});
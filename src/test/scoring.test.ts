@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import {
+  SCORING_VERSION,
+  type ScoredAnalysisFields,
+  applyScoreToAnalysis,
+  quickEligibilityToScoringInput,
+  scoreProfile,
+} from '@/lib/scoring';
+import { calculateLoanResult } from '@/utils/loanCalculator';
+import { sampleCases } from '@/data/mockData';
+import type { LoanFormData } from '@/types/loan';
+
+/**
+ * Golden profiles pin the engine's output. If a change here is intentional,
+ * bump SCORING_VERSION alongside the new expectations.
+ */
+const golden: Record<string, {
+  approvalProbability: number;
+  riskCategory: string;
+  bankFit: string;
+  financialHealthScore: number;
+  emi: number;
+  dti: number;
+  emiAffordability: string;
+}> = {
+  'auto-driver': { approvalProbability: 73, riskCategory: 'Medium', bankFit: 'Good', financialHealthScore: 30, emi: 4930, dti: 52, emiAffordability: 'Comfortable' },
+  student: { approvalProbability: 86, riskCategory: 'Low', bankFit: 'Good', financialHealthScore: 25, emi: 7918, dti: 66, emiAffordability: 'Unaffordable' },
+  farmer: { approvalProbability: 69, riskCategory: 'Medium', bankFit: 'Good', financialHealthScore: 23, emi: 6155, dti: 69, emiAffordability: 'Comfortable' },
+};
+
+function caseData(id: string): LoanFormData {
+  const found = sampleCases.find((c) => c.id === id);
+  return { co_borrower: 'None', ...found!.formData } as LoanFormData;
+}
+
+describe('scoring engine', () => {
+  it('reports its version', () => {
+    expect(scoreProfile(caseData('farmer')).version).toBe(SCORING_VERSION);
+  });
+
+  for (const [id, expected] of Object.entries(golden)) {
+    it(`matches the golden result for ${id}`, () => {
+      expect(scoreProfile(caseData(id))).toMatchObject(expected);
+    });
+
+    it(`agrees with calculateLoanResult for ${id}`, () => {
+      const result = calculateLoanResult(caseData(id));
+      expect(result.approvalProbability).toBe(expected.approvalProbability);
+      expect(result.riskCategory).toBe(expected.riskCategory);
+      expect(result.bankFit).toBe(expected.bankFit);
+      expect(result.scoringVersion).toBe(SCORING_VERSION);
+    });
+  }
+
+  it('boosts education loans with a parent co-borrower', () => {
+    const alone = scoreProfile(caseData('student'));
+    const withParent = scoreProfile({ ...caseData('student'), credit_score: 550, co_borrower: 'Parent/Guardian' });
+    const withSibling = scoreProfile({ ...caseData('student'), credit_score: 550, co_borrower: 'Sibling' });
+    const withoutCoBorrower = scoreProfile({ ...caseData('student'), credit_score: 550 });
+    expect(alone.isEducationLoan).toBe(true);
+    expect(withParent.hasCoBorrower).toBe(true);
+    expect(withParent.approvalProbability).toBeGreaterThan(withSibling.approvalProbability);
+    expect(withSibling.approvalProbability).toBeGreaterThan(withoutCoBorrower.approvalProbability);
+  });
+
+  it('keeps weak profiles in the high-risk band', () => {
+    const weak = scoreProfile({
+      ...caseData('auto-driver'),
+      credit_score: 300,
+      loan_amount: 50000000,
+      monthly_savings: 0,
+      bank_balance: 0,
+      years_experience: 0,
+      existing_loans: 5,
+    });
+    expect(weak.approvalProbability).toBeGreaterThanOrEqual(12);
+    expect(weak.approvalProbability).toBeLessThan(55);
+    expect(weak.riskCategory).toBe('High');
+  });
+
+  it('scores chat slots with the same engine', () => {
+    const score = scoreProfile(quickEligibilityToScoringInput({
+      monthly_income: 60000,
+      monthly_expenses: 25000,
+      loan_amount: 500000,
+      credit_score: 760,
+      existing_loans: 1,
+      existing_emi_amount: 6000,
+      employment_stability: 'High',
+      loan_tenure: 60,
+    }));
+    expect(score).toMatchObject({
+      approvalProbability: 85,
+      riskCategory: 'Low',
+      emi: 10258,
+      existingEMI: 6000,
+      dti: 27,
+      emiAffordability: 'Comfortable',
+    });
+  });
+
+  it('overrides LLM-provided numbers with the engine verdict', () => {
+    const score = scoreProfile(caseData('farmer'));
+    const analysis = applyScoreToAnalysis(
+      { approval_probability: 99, risk_category: 'Low', debt_to_income_ratio: 5, summary: 'ok' } as ScoredAnalysisFields & { summary: string },
+      score,
+    );
+    expect(analysis.approval_probability).toBe(69);
+    expect(analysis.risk_category).toBe('Medium');
+    expect(analysis.debt_to_income_ratio).toBe(69);
+    expect(analysis.scoring_version).toBe(SCORING_VERSION);
+    expect(analysis.summary).toBe('ok');
+  });
+});
+
+describe('score contributions', () => {
+  const sum = (data: LoanFormData) => scoreProfile(data).contributions.reduce((total, c) => total + c.points, 0);
+
+  for (const id of Object.keys(golden)) {
+    it(`add up to the approval probability for ${id}`, () => {
+      const score = scoreProfile(caseData(id));
+      expect(sum(caseData(id))).toBeCloseTo(score.approvalProbability, 9);
+    });
+  }
+
+  it('weights each sub-score and never exceeds the weight', () => {
+    const { contributions } = scoreProfile(caseData('auto-driver'));
+    const credit = contributions.find((c) => c.key === 'credit')!;
+    expect(credit.max).toBe(35);
+    expect(credit.points).toBeCloseTo(credit.score! * 35, 9);
+    contributions.filter((c) => c.max !== undefined).forEach((c) => {
+      expect(c.points).toBeGreaterThanOrEqual(0);
+      expect(c.points).toBeLessThanOrEqual(c.max! + 1e-9);
+    });
+  });
+
+  it('itemises the education and parent co-borrower uplifts', () => {
+    const { contributions } = scoreProfile({ ...caseData('student'), co_borrower: 'Parent/Guardian' });
+    expect(contributions.find((c) => c.key === 'education_uplift')?.points).toBe(10);
+    expect(contributions.find((c) => c.key === 'co_borrower_uplift')?.points).toBe(12);
+  });
+
+  it('records the clamp at the ceiling and the floor', () => {
+    const strong = { ...caseData('student'), co_borrower: 'Parent/Guardian', credit_score: 900 };
+    const top = scoreProfile(strong);
+    expect(top.approvalProbability).toBe(96);
+    expect(top.contributions.find((c) => c.key === 'clamp')!.points).toBeLessThan(0);
+    expect(sum(strong)).toBeCloseTo(96, 9);
+
+    const weak = { ...caseData('farmer'), credit_score: 300, monthly_income: 3000, loan_amount: 5000000, existing_loans: 6, years_experience: 0, monthly_savings: 0 };
+    const bottom = scoreProfile(weak);
+    expect(bottom.approvalProbability).toBeGreaterThanOrEqual(12);
+    expect(sum(weak)).toBeCloseTo(bottom.approvalProbability, 9);
+  });
+
+  it('fills impact_percent on the local factors', () => {
+    const result = calculateLoanResult(caseData('farmer'));
+    result.factors.forEach((f) => expect(typeof f.impact_percent).toBe('number'));
+  });
+});
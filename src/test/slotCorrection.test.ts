@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { detectSlotCorrections, isProfileSummaryRequest } from '@/lib/agents/slotCorrection';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+describe('detectSlotCorrections', () => {
+  it.each([
+    ['actually my income is 60k, not 45k', { field: 'monthly_income', value: 60000 }],
+    ['change income from 45,000 to 60,000', { field: 'monthly_income', value: 60000 }],
+    ['change tenure to 5 years', { field: 'loan_tenure', value: 60 }],
+    ['update tenure to 36 months', { field: 'loan_tenure', value: 36 }],
+    ['make the loan 8 lakh', { field: 'loan_amount', value: 800000 }],
+    ['sorry my CIBIL should be 760', { field: 'credit_score', value: 760 }],
+    ['change existing loans to none', { field: 'existing_loans', value: 0 }],
+    ['actually the purpose is education', { field: 'loan_purpose', value: 'Education' }],
+    ['actually I do not own a car', { field: 'owns_car', value: false }],
+    ['सैलरी 55 हज़ार कर दो, गलत बताया था', { field: 'monthly_income', value: 55000 }],
+  ])('%s', (message, expected) => {
+    expect(detectSlotCorrections(message)).toEqual([expected]);
+  });
+
+  it('handles several edits in one message', () => {
+    expect(detectSlotCorrections('change income to 60k and tenure to 3 years')).toEqual([
+      { field: 'monthly_income', value: 60000 },
+      { field: 'loan_tenure', value: 36 },
+    ]);
+  });
+
+  it('treats a different value for a known field as a correction without a keyword', () => {
+    expect(detectSlotCorrections('my salary is 52000', { monthly_income: 45000 })).toEqual([
+      { field: 'monthly_income', value: 52000 },
+    ]);
+    expect(detectSlotCorrections('my salary is 45000', { monthly_income: 45000 })).toEqual([]);
+  });
+
+  it('leaves fresh answers and questions alone', () => {
+    expect(detectSlotCorrections('my salary is 45000')).toEqual([]);
+    expect(detectSlotCorrections('what EMI for a 5 lakh loan?', { loan_amount: 800000 })).toEqual([]);
+    expect(detectSlotCorrections('home loan')).toEqual([]);
+    expect(detectSlotCorrections('can I change banks later?')).toEqual([]);
+  });
+
+  it('ignores questions even when they use a correction word', () => {
+    expect(detectSlotCorrections('How can I change my credit score from 600 to 750?', { credit_score: 600 })).toEqual([]);
+    expect(detectSlotCorrections('how do I update my salary to 60k')).toEqual([]);
+    expect(detectSlotCorrections('Actually my income is 60k. How can I change my credit score to 750?')).toEqual([
+      { field: 'monthly_income', value: 60000 },
+    ]);
+  });
+});
+
+describe('isProfileSummaryRequest', () => {
+  it('recognises summary commands', () => {
+    expect(isProfileSummaryRequest('show what you know about me')).toBe(true);
+    expect(isProfileSummaryRequest('What do you know about me?')).toBe(true);
+    expect(isProfileSummaryRequest('मेरी जानकारी दिखाओ')).toBe(true);
+    expect(isProfileSummaryRequest('what do banks know about my credit?')).toBe(false);
+  });
+});
+
+describe('ChatbotOrchestrator corrections', () => {
+  let orchestrator: import('@/lib/agents/orchestrator').ChatbotOrchestrator;
+  const say = (text: string, lang: 'en' | 'hi' = 'en') => orchestrator.processMessage(text, lang);
+
+  beforeEach(async () => {
+    const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+    orchestrator = new ChatbotOrchestrator();
+    await orchestrator.processMessage('reset');
+  });
+
+  it('revises an earlier answer mid-flow and keeps asking', async () => {
+    await say('check eligibility');
+    await say('45000');
+    const corrected = await say('actually my income is 60k, not 45k');
+    expect(corrected.agentType).toBe('eligibility');
+    expect(corrected.response).toContain('Monthly income: ₹45,000 → ₹60,000');
+    expect(corrected.metadata?.step).toBe('loan_amount');
+    expect(corrected.metadata?.collectedFields).toMatchObject({ monthly_income: 60000 });
+  });
+
+  it('keeps new facts given alongside a correction', async () => {
+    await say('check eligibility');
+    await say('45000');
+    const corrected = await say('My salary is 50000 and I have 2 existing loans');
+    expect(corrected.response).toContain('Monthly income: ₹45,000 → ₹50,000');
+    expect(corrected.metadata?.collectedFields).toMatchObject({ monthly_income: 50000, existing_loans: 2 });
+  });
+
+  it('recomputes the report after a correction', async () => {
+    await say('check eligibility');
+    await say('40000');
+    await say('8 lakh');
+    const first = await say('show result');
+    const before = first.metadata?.eligibilityReport.approval_probability;
+
+    const updated = await say('change income to 1.2 lakh');
+    expect(updated.metadata?.isEligibilityComplete).toBe(true);
+    expect(updated.response).toContain('Recalculated');
+    expect(updated.metadata?.collectedFields).toMatchObject({ monthly_income: 120000, loan_amount: 800000 });
+    expect(updated.metadata?.eligibilityReport.approval_probability).toBeGreaterThan(before);
+  });
+
+  it('rejects an out-of-range correction without changing the slot', async () => {
+    await say('check my eligibility: I earn 45000, need a 5 lakh loan, CIBIL is 750');
+    const rejected = await say('change credit score to 990');
+    expect(rejected.metadata?.error).toBe(true);
+    const summary = await say('show what you know about me');
+    expect(summary.response).toContain('Credit score: 750');
+  });
+
+  it('summarises known values and re-asks the current question', async () => {
+    await say('check eligibility');
+    await say('45000');
+    const summary = await say('what do you know about me?');
+    expect(summary.metadata?.intent).toBe('profile_summary');
+    expect(summary.response).toContain('Monthly income: ₹45,000');
+    expect(summary.response).toContain('Still assumed');
+    expect(summary.response).toContain('How much loan do you need');
+
+    const next = await say('5 lakh');
+    expect(next.metadata?.collectedFields).toMatchObject({ loan_amount: 500000 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { scenarioHorizon, simulateTimeline, type CustomScenario, type FinancialProfile } from '@/lib/resilienceEngine';
+import {
+  STRESS_SCENARIO_PRESETS,
+  decodeStressScenario,
+  encodeStressScenario,
+  loadStressScenarios,
+  parseStressScenario,
+  saveStressScenarios,
+} from '@/utils/stressScenarios';
+
+const profile: FinancialProfile = {
+  monthly_income: 40000,
+  monthly_expenses: 30000,
+  savings_liquid: 60000,
+  investments: 50000,
+  property_value: 0,
+  debt_monthly: 5000,
+  credit_score: 700,
+  existing_loans: 1,
+  job_stability: 'Medium',
+  age: 40,
+  dependents: 2,
+  has_insurance: false,
+  investment_diversification: 30,
+};
+
+const scenario = (shocks: CustomScenario['shocks'], horizonMonths?: number): CustomScenario => ({
+  id: 's1',
+  name: 'Test',
+  shocks,
+  horizonMonths,
+});
+
+describe('simulateTimeline', () => {
+  it('grows the buffer by the monthly surplus when nothing happens', () => {
+    const result = simulateTimeline(profile, scenario([{ target: 'income', mode: 'percent', value: 0, startMonth: 1, durationMonths: 1 }], 6));
+    expect(result.survived).toBe(true);
+    expect(result.timeline).toHaveLength(6);
+    expect(result.timeline.map((m) => m.buffer)).toEqual([1, 2, 3, 4, 5, 6].map((n) => 60000 + 40000 + n * 5000));
+  });
+
+  it('applies flow shocks only while they last', () => {
+    const result = simulateTimeline(profile, scenario([{ target: 'income', mode: 'percent', value: -100, startMonth: 3, durationMonths: 2 }]));
+    expect(result.timeline.map((m) => m.income).slice(0, 6)).toEqual([40000, 40000, 0, 0, 40000, 40000]);
+    expect(scenarioHorizon(scenario([{ target: 'income', mode: 'percent', value: -100, startMonth: 3, durationMonths: 2 }]))).toBe(16);
+  });
+
+  it('draws savings first, then investments at a discount, then fails', () => {
+    const result = simulateTimeline(profile, scenario([{ target: 'income', mode: 'percent', value: -100, startMonth: 1, durationMonths: 12 }]));
+    // 35,000 a month against 60,000 savings and 40,000 of sellable investments
+    expect(result.survived).toBe(false);
+    expect(result.survivalMonths).toBe(2);
+    expect(result.timeline.at(-1)!.buffer).toBeLessThan(0);
+    expect(result.impactLevel).toBe('High');
+  });
+
+  it('hits balances once, in the start month', () => {
+    const result = simulateTimeline(profile, scenario([{ target: 'savings', mode: 'amount', value: -50000, startMonth: 2, durationMonths: 6 }], 4));
+    expect(result.timeline.map((m) => m.buffer)).toEqual([105000, 60000, 65000, 70000]);
+  });
+
+  it('runs every preset', () => {
+    for (const preset of STRESS_SCENARIO_PRESETS) {
+      const result = simulateTimeline(profile, preset);
+      expect(result.timeline.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('stress scenario storage and sharing', () => {
+  beforeEach(() => localStorage.clear());
+
+  const custom = scenario([
+    { target: 'income', mode: 'percent', value: -70, startMonth: 1, durationMonths: 6 },
+    { target: 'expenses', mode: 'amount', value: 8000, startMonth: 4, durationMonths: 3 },
+  ]);
+
+  it('round-trips through localStorage', () => {
+    saveStressScenarios([custom]);
+    expect(loadStressScenarios()).toEqual([custom]);
+  });
+
+  it('round-trips through a share code, including non-Latin names', () => {
+    const named = { ...custom, name: 'फसल खराब — दो सीज़न' };
+    const code = encodeStressScenario(named);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeStressScenario(code)).toEqual(named);
+  });
+
+  it('rejects garbage and repairs out-of-range shocks', () => {
+    expect(decodeStressScenario('not-a-scenario')).toBeNull();
+    expect(parseStressScenario({ id: 'x', name: 'Empty', shocks: [] })).toBeNull();
+    const repaired = parseStressScenario({
+      id: 'x',
+      name: ' Big ',
+      shocks: [{ target: 'income', mode: 'percent', value: -250, startMonth: 0, durationMonths: 999 }, { target: 'pets' }],
+    });
+    expect(repaired).toEqual({
+      id: 'x',
+      name: 'Big',
+      description: undefined,
+      horizonMonths: undefined,
+      shocks: [{ target: 'income', mode: 'percent', value: -100, startMonth: 1, durationMonths: 120 }],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * In-memory stand-in for the parts of the Supabase client used by the app.
+ * Tokens are opaque strings; only tokens this stand-in issued verify, which
+ * mirrors `auth.getClaims` rejecting anything not signed by the project.
+ */
+
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js';
+import type { AuthClient } from '@/lib/auth';
+
+interface StandInUser {
+  id: string;
+  email: string;
+  password?: string;
+  role: 'citizen' | 'admin';
+  full_name?: string;
+}
+
+type Listener = (event: AuthChangeEvent, session: Session | null) => void;
+
+export interface StandInOptions {
+  /** Whether the custom access token hook adds `user_role` to the claims */
+  accessTokenHook?: boolean;
+  /** Require email confirmation on sign-up (no session returned) */
+  confirmEmail?: boolean;
+}
+
+export function createSupabaseStandIn({ accessTokenHook = true, confirmEmail = false }: StandInOptions = {}) {
+  const users = new Map<string, StandInUser>();
+  const tokens = new Map<string, { sub: string; email: string; user_role: string }>();
+  const otps = new Map<string, string>();
+  const listeners = new Set<Listener>();
+  let current: Session | null = null;
+  let seq = 0;
+
+  const emit = (event: AuthChangeEvent, session: Session | null) => listeners.forEach((l) => l(event, session));
+
+  const issue = (user: StandInUser): Session => {
+    const access_token = `standin.${user.id}.${++seq}`;
+    tokens.set(access_token, { sub: user.id, email: user.email, user_role: user.role });
+    return {
+      access_token,
+      refresh_token: `refresh.${seq}`,
+      expires_in: 3600,
+      token_type: 'bearer',
+      user: {
+        id: user.id,
+        email: user.email,
+        aud: 'authenticated',
+        app_metadata: {},
+        user_metadata: user.full_name ? { full_name: user.full_name } : {},
+        created_at: new Date(0).toISOString(),
+      },
+    } as Session;
+  };
+
+  const signIn = (user: StandInUser) => {
+    current = issue(user);
+    emit('SIGNED_IN', current);
+    return { data: { user: current.user, session: current }, error: null };
+  };
+
+  const fail = (message: string) => ({ data: { user: null, session: null }, error: new Error(message) });
+
+  const auth = {
+    getSession: async () => ({ data: { session: current }, error: null }),
+    onAuthStateChange: (listener: Listener) => {
+      listeners.add(listener);
+      queueMicrotask(() => listener('INITIAL_SESSION', current));
+      return { data: { subscription: { unsubscribe: () => listeners.delete(listener) } } };
+    },
+    getClaims: async (jwt?: string) => {
+      const token = jwt ?? current?.access_token;
+      const claims = token ? tokens.get(token) : undefined;
+      if (!claims) return { data: null, error: new Error('invalid JWT') };
+      const { user_role, ...rest } = claims;
+      return {
+        data: { claims: accessTokenHook ? { ...rest, user_role } : rest, header: {}, signature: new Uint8Array() },
+        error: null,
+      };
+    },
+    signInWithPassword: async ({ email, password }: { email: string; password: string }) => {
+      const user = [...users.values()].find((u) => u.email === email);
+      if (!user || user.password !== password) return fail('Invalid login credentials');
+      return signIn(user);
+    },
+    signUp: async ({ email, password, options }: { email: string; password: string; options?: { data?: { full_name?: string } } }) => {
+      if ([...users.values()].some((u) => u.email === email)) return fail('User already registered');
+      const user: StandInUser = { id: `user-${users.size + 1}`, email, password, role: 'citizen', full_name: options?.data?.full_name };
+      users.set(user.id, user);
+      if (confirmEmail) return { data: { user: null, session: null }, error: null };
+      return signIn(user);
+    },
+    signInWithOtp: async ({ email }: { email: string }) => {
+      otps.set(email, '123456');
+      return { data: { user: null, session: null }, error: null };
+    },
+    verifyOtp: async ({ email, token }: { email: string; token: string }) => {
+      if (otps.get(email) !== token) return fail('Token has expired or is invalid');
+      otps.delete(email);
+      let user = [...users.values()].find((u) => u.email === email);
+      if (!user) {
+        user = { id: `user-${users.size + 1}`, email, role: 'citizen' };
+        users.set(user.id, user);
+      }
+      return signIn(user);
+    },
+    refreshSession: async () => {
+      if (!current) return fail('No session');
+      const user = users.get(current.user.id)!;
+      current = issue(user);
+      emit('TOKEN_REFRESHED', current);
+      return { data: { user: current.user, session: current }, error: null };
+    },
+    signOut: async () => {
+      current = null;
+      emit('SIGNED_OUT', null);
+      return { error: null };
+    },
+  };
+
+  const from = (table: string) => {
+    if (table !== 'profiles') throw new Error(`stand-in has no table ${table}`);
+    let id: string | undefined;
+    const query = {
+      select: () => query,
+      eq: (_column: string, value: string) => {
+        id = value;
+        return query;
+      },
+      maybeSingle: async () => {
+        const user = id ? users.get(id) : undefined;
+        return { data: user ? { role: user.role, full_name: user.full_name ?? null } : null, error: null };
+      },
+    };
+    return query;
+  };
+
+  return {
+    client: { auth, from } as unknown as AuthClient,
+    /** Seed an account directly, as the `profiles` trigger + an admin would */
+    addUser: (user: Omit<StandInUser, 'id'>) => {
+      const id = `user-${users.size + 1}`;
+      users.set(id, { ...user, id });
+      return id;
+    },
+    setRole: (id: string, role: StandInUser['role']) => {
+      users.get(id)!.role = role;
+    },
+    /** Put a session in storage without it being issued here, e.g. a tampered token */
+    injectSession: (session: Session) => {
+      current = session;
+    },
+    refreshSession: () => auth.refreshSession(),
+    otpFor: (email: string) => otps.get(email),
+  };
+}
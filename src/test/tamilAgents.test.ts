@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ELIGIBILITY_FIELDS, REPORTED_FIELDS, fieldLabel, formatFieldValue } from '@/lib/agents/eligibilityPlanner';
+import { getMissingCoreFields, getQuestionForField } from '@/lib/agents/dataExtractionAgent';
+import { EligibilityAgent } from '@/lib/agents/eligibilityAgent';
+import { FinanceAdvisorAgent } from '@/lib/agents/financeAdvisorAgent';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({ select: () => ({ eq: async () => ({ data: [], error: null }) }) }),
+  },
+}));
+
+// The LLM is unreachable, so finance questions use the local fallback
+vi.mock('@/lib/chatService', () => ({
+  streamChatResponse: async (_messages: unknown, _language: unknown, callbacks: { onError: (e: Error) => void }) => {
+    callbacks.onError(new Error('offline'));
+  },
+}));
+
+const TAMIL = /[஀-௿]/;
+const DEVANAGARI = /[ऀ-ॿ]/;
+/** English UI words that would show up if a Tamil variant fell back to English */
+const ENGLISH_LEAK = /\b(Progress|Skipped|Updated|Estimate|Recalculated|Invalid|Loan Amount|Monthly EMI|Please provide|What you have told me|Still assumed|Assumed values)\b/;
+
+function expectTamil(text: string | undefined) {
+  expect(text).toBeTruthy();
+  expect(text).toMatch(TAMIL);
+  expect(text).not.toMatch(DEVANAGARI);
+  expect(text).not.toMatch(ENGLISH_LEAK);
+  expect(text).not.toContain('undefined');
+}
+
+const allFields = [...new Set([...ELIGIBILITY_FIELDS, ...REPORTED_FIELDS, ...getMissingCoreFields({})])];
+
+describe('Tamil agent strings', () => {
+  it.each(allFields)('has a Tamil question and label for %s', (field) => {
+    expectTamil(getQuestionForField(field, 'ta'));
+    expectTamil(fieldLabel(field, 'ta'));
+  });
+
+  it('formats yes/no answers in Tamil', () => {
+    expect(formatFieldValue('owns_car', true, 'ta')).toBe('ஆம்');
+    expect(formatFieldValue('owns_car', false, 'ta')).toBe('இல்லை');
+  });
+
+  it.each([
+    ['age', 12],
+    ['credit_score', 990],
+    ['monthly_income', -1],
+    ['loan_amount', 0],
+    ['loan_tenure', 400],
+    ['existing_loans', -2],
+    ['monthly_income', null],
+  ] as const)('validation error for %s = %s', (field, value) => {
+    const result = new EligibilityAgent().validateField(field, value, 'ta');
+    expect(result.valid).toBe(false);
+    expectTamil(result.error);
+  });
+
+  it('finance advisor prompts, EMI summary, credit advice and documents', () => {
+    const advisor = new FinanceAdvisorAgent();
+    expectTamil(advisor.getSystemPrompt('ta'));
+    expectTamil(advisor.createContextualPrompt('?', { userProfile: { age: 30 } }, 'ta'));
+    expectTamil(advisor.generateEMIExplanation(500000, 10, 60, 'ta'));
+    for (const score of [550, 650, 720, 800]) expectTamil(advisor.generateCreditScoreAdvice(score, 'ta'));
+    expectTamil(advisor.generateDocumentAdvice('personal', 'ta'));
+    expectTamil(advisor.generateDocumentAdvice('home', 'ta'));
+  });
+});
+
+describe('ChatbotOrchestrator in Tamil', () => {
+  let orchestrator: import('@/lib/agents/orchestrator').ChatbotOrchestrator;
+  const say = async (text: string) => (await orchestrator.processMessage(text, 'ta')).response;
+
+  beforeEach(async () => {
+    const { ChatbotOrchestrator } = await import('@/lib/agents/orchestrator');
+    orchestrator = new ChatbotOrchestrator();
+    await orchestrator.processMessage('reset');
+  });
+
+  it('runs the eligibility flow in Tamil from intro to report', async () => {
+    expectTamil(await say('show what you know about me'));
+    expectTamil(await say('எனக்கு கடன் தகுதி உள்ளதா?'));
+    expectTamil(await say('abc'));
+    expectTamil(await say('50 ஆயிரம்'));
+    expectTamil(await say('தெரியாது'));
+    expectTamil(await say('actually my income is 60k'));
+    expectTamil(await say('show what you know about me'));
+
+    const report = await orchestrator.processMessage('show result', 'ta');
+    expect(report.metadata?.isEligibilityComplete).toBe(true);
+    expect(report.metadata?.collectedFields).toMatchObject({ monthly_income: 60000 });
+    expectTamil(report.response);
+
+    expectTamil(await say('change credit score to 990'));
+    expectTamil(await say('change credit score to 780'));
+  });
+
+  it('answers EMI, fallback and control commands in Tamil', async () => {
+    expectTamil(await say('EMI for 5 லட்சம் for 60 மாதம்'));
+    expectTamil(await say('what documents are needed?'));
+    expectTamil(await say('how do banks compare?'));
+    expectTamil(await say('சிபில் ஸ்கோர் என்ன?'));
+    expectTamil(await say('hello there'));
+    expectTamil(await say('stop'));
+    expectTamil(await say('reset'));
+  });
+});
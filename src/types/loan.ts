@@ -1,3 +1,7 @@
+import type { FieldSource } from '@/lib/analysis';
+import type { CoApplicant } from '@/lib/household';
+import type { Liability } from '@/lib/liabilities';
+
 export interface LoanFormData {
   // Personal Profile
   age: number;
@@ -19,6 +23,8 @@ export interface LoanFormData {
   monthly_savings: number;
   monthly_rent: number;
   existing_loans: number;
+  /** Itemised existing debts; when present, existing_loans is their count */
+  liabilities?: Liability[];
   total_monthly_expenses: number;
   credit_score: number;
   bank_balance: number;
@@ -37,6 +43,8 @@ export interface LoanFormData {
   co_borrower: string;
   loan_tenure: number;
   has_collateral: boolean;
+  // Household
+  co_applicants?: CoApplicant[];
 }
 
 // Legacy types kept for backward compat
@@ -65,6 +73,11 @@ export interface BankRecommendation {
   features: string[];
   apply_url?: string;
   eligibility_notes?: string;
+  /** Catalog product the match was made against */
+  product_name?: string;
+  processing_fee?: number;
+  /** Criteria the applicant meets (or, for near-misses, what blocks them) */
+  reasons?: string[];
 }
 
 export interface EligibilityGap {
@@ -97,6 +110,12 @@ export interface AnalysisResult {
     reasons: string[];
   };
   documents_needed: string[];
+  /** Version of the shared scoring engine that produced the numeric verdict */
+  scoring_version?: string;
+  /** Where each field came from: the model, the model after repair, rules, the engine or the lender catalog */
+  field_sources?: Partial<Record<keyof AnalysisResult, FieldSource>>;
+  /** 'rules' when the model output was unusable and the whole analysis is rule-based */
+  analysis_source?: 'llm' | 'rules' | 'mixed';
 }
 
 export interface LoanResult {
@@ -106,6 +125,7 @@ export interface LoanResult {
   factors: RiskFactor[];
   roadmap: RoadmapStep[];
   recommendedBanks: BankRecommendation[];
+  scoringVersion?: string;
 }
 
 export interface SampleCase {
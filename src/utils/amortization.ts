@@ -0,0 +1,226 @@
+/**
+ * Amortization schedule generator
+ *
+ * Produces month-by-month principal / interest / balance rows for a
+ * reducing-balance loan, with optional lump-sum prepayments and
+ * floating-rate resets.
+ */
+
+export type PrepaymentMode = 'reduce_tenure' | 'reduce_emi';
+export type RateResetMode = 'adjust_emi' | 'adjust_tenure';
+
+export interface Prepayment {
+  /** 1-based month in which the lump sum is paid, after that month's EMI */
+  month: number;
+  amount: number;
+  /** Overrides AmortizationOptions.prepaymentMode for this payment */
+  mode?: PrepaymentMode;
+}
+
+export interface RateReset {
+  /** 1-based month from which the new rate applies */
+  month: number;
+  annualRate: number;
+}
+
+export interface AmortizationOptions {
+  principal: number;
+  annualRate: number;
+  tenureMonths: number;
+  prepayments?: Prepayment[];
+  rateResets?: RateReset[];
+  /** Keep the EMI and finish early, or keep the end date and lower the EMI */
+  prepaymentMode?: PrepaymentMode;
+  /** On a rate reset, re-price the EMI (default) or keep it and move the end date */
+  rateResetMode?: RateResetMode;
+}
+
+export interface AmortizationRow {
+  month: number;
+  annualRate: number;
+  openingBalance: number;
+  emi: number;
+  interest: number;
+  principal: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[];
+  /** EMI at the start of the loan */
+  initialEmi: number;
+  months: number;
+  totalInterest: number;
+  totalPrepaid: number;
+  /** Every rupee paid: EMIs plus prepayments */
+  totalPaid: number;
+}
+
+export interface YearSummary {
+  year: number;
+  principal: number;
+  interest: number;
+  prepayment: number;
+  closingBalance: number;
+}
+
+export interface PrepaymentComparison {
+  baseline: AmortizationSchedule;
+  withPrepayment: AmortizationSchedule;
+  interestSaved: number;
+  monthsSaved: number;
+}
+
+/** Hard stop so a non-amortizing input can never loop forever */
+const MAX_MONTHS = 1200;
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Unrounded EMI for a balance over the remaining months.
+ */
+export function emiFor(balance: number, annualRate: number, months: number): number {
+  if (months <= 0) return balance;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return balance / months;
+  const factor = Math.pow(1 + r, months);
+  return (balance * r * factor) / (factor - 1);
+}
+
+/**
+ * Months needed to clear a balance at a fixed EMI (rounded up).
+ */
+export function monthsToRepay(balance: number, annualRate: number, emi: number): number {
+  if (balance <= 0) return 0;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return Math.ceil(balance / emi);
+  if (emi <= balance * r) return Infinity;
+  return Math.ceil(-Math.log(1 - (r * balance) / emi) / Math.log(1 + r) - 1e-9);
+}
+
+export function generateAmortizationSchedule(options: AmortizationOptions): AmortizationSchedule {
+  const {
+    principal,
+    tenureMonths,
+    prepayments = [],
+    rateResets = [],
+    prepaymentMode = 'reduce_tenure',
+    rateResetMode = 'adjust_emi',
+  } = options;
+
+  let rate = options.annualRate;
+  let balance = Math.max(0, principal);
+  let emi = emiFor(balance, rate, tenureMonths);
+  const initialEmi = emi;
+  // Month the loan is currently scheduled to close
+  let plannedEnd = tenureMonths;
+
+  const rows: AmortizationRow[] = [];
+  let totalInterest = 0;
+  let totalPrepaid = 0;
+  let totalPaid = 0;
+
+  for (let month = 1; balance > 0.005 && month <= MAX_MONTHS; month++) {
+    const reset = rateResets.find((r) => r.month === month);
+    if (reset && reset.annualRate !== rate) {
+      rate = reset.annualRate;
+      const remaining = Math.max(1, plannedEnd - month + 1);
+      const monthlyInterest = (balance * rate) / 100 / 12;
+      // Keeping the EMI only works while it still covers the interest
+      if (rateResetMode === 'adjust_emi' || emi <= monthlyInterest) {
+        emi = emiFor(balance, rate, remaining);
+      } else {
+        plannedEnd = month - 1 + monthsToRepay(balance, rate, emi);
+      }
+    }
+
+    const openingBalance = balance;
+    const interest = (balance * rate) / 100 / 12;
+    const payment = Math.min(emi, balance + interest);
+    const principalPaid = payment - interest;
+    balance -= principalPaid;
+
+    const lumpSums = prepayments.filter((p) => p.month === month && p.amount > 0);
+    let prepaid = 0;
+    for (const p of lumpSums) {
+      const amount = Math.min(p.amount, balance);
+      if (amount <= 0) continue;
+      balance -= amount;
+      prepaid += amount;
+      if (balance <= 0.005) continue;
+      if ((p.mode ?? prepaymentMode) === 'reduce_emi') {
+        emi = emiFor(balance, rate, Math.max(1, plannedEnd - month));
+      } else {
+        plannedEnd = month + monthsToRepay(balance, rate, emi);
+      }
+    }
+
+    totalInterest += interest;
+    totalPrepaid += prepaid;
+    totalPaid += payment + prepaid;
+
+    rows.push({
+      month,
+      annualRate: rate,
+      openingBalance: round2(openingBalance),
+      emi: round2(payment),
+      interest: round2(interest),
+      principal: round2(principalPaid),
+      prepayment: round2(prepaid),
+      closingBalance: round2(Math.max(0, balance)),
+    });
+
+    if (month >= plannedEnd && balance > 0.005) plannedEnd = month + 1;
+  }
+
+  return {
+    rows,
+    initialEmi: round2(initialEmi),
+    months: rows.length,
+    totalInterest: round2(totalInterest),
+    totalPrepaid: round2(totalPrepaid),
+    totalPaid: round2(totalPaid),
+  };
+}
+
+/**
+ * Run the same loan with and without prepayments to show what they save.
+ */
+export function comparePrepayment(options: AmortizationOptions): PrepaymentComparison {
+  const baseline = generateAmortizationSchedule({ ...options, prepayments: [] });
+  const withPrepayment = generateAmortizationSchedule(options);
+  return {
+    baseline,
+    withPrepayment,
+    interestSaved: round2(baseline.totalInterest - withPrepayment.totalInterest),
+    monthsSaved: baseline.months - withPrepayment.months,
+  };
+}
+
+export function summarizeByYear(schedule: AmortizationSchedule): YearSummary[] {
+  const years: YearSummary[] = [];
+  for (const row of schedule.rows) {
+    const year = Math.ceil(row.month / 12);
+    let summary = years[years.length - 1];
+    if (!summary || summary.year !== year) {
+      summary = { year, principal: 0, interest: 0, prepayment: 0, closingBalance: 0 };
+      years.push(summary);
+    }
+    summary.principal = round2(summary.principal + row.principal);
+    summary.interest = round2(summary.interest + row.interest);
+    summary.prepayment = round2(summary.prepayment + row.prepayment);
+    summary.closingBalance = row.closingBalance;
+  }
+  return years;
+}
+
+export function scheduleToCSV(schedule: AmortizationSchedule): string {
+  const header = 'Month,Rate (%),Opening Balance,EMI,Interest,Principal,Prepayment,Closing Balance';
+  const lines = schedule.rows.map((r) =>
+    [r.month, r.annualRate, r.openingBalance, r.emi, r.interest, r.principal, r.prepayment, r.closingBalance]
+      .map((v) => v.toFixed(2).replace(/\.00$/, ''))
+      .join(',')
+  );
+  return [header, ...lines].join('\n');
+}
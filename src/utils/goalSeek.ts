@@ -0,0 +1,261 @@
+/**
+ * Goal-seek solver - the fewest profile changes that lift approval probability to a target
+ */
+
+import type { LoanFormData } from '@/types/loan';
+import { PROBABILITY_CEILING, scoreProfile } from '@/lib/scoring';
+import { activeLiabilities, payoffPlan } from '@/lib/liabilities';
+
+export type LeverId =
+  | 'loan_amount'
+  | 'loan_tenure'
+  | 'co_borrower'
+  | 'existing_loans'
+  | 'liabilities'
+  | 'monthly_savings'
+  | 'credit_score';
+
+interface LeverOption {
+  value: LoanFormData[keyof LoanFormData];
+  /** 0-1, how big an ask this change is relative to the lever's full range */
+  effort: number;
+}
+
+interface Lever {
+  id: LeverId;
+  field: keyof LoanFormData;
+  /** Typical time to put the change in place */
+  duration: string;
+  options: (base: LoanFormData) => LeverOption[];
+}
+
+export interface GoalSeekChange {
+  lever: LeverId;
+  field: keyof LoanFormData;
+  from: LoanFormData[keyof LoanFormData];
+  to: LoanFormData[keyof LoanFormData];
+  duration: string;
+  /** Probability points this change adds, applied in plan order */
+  gain: number;
+  probabilityAfter: number;
+}
+
+export interface GoalSeekPlan {
+  target: number;
+  baseProbability: number;
+  finalProbability: number;
+  /** False when even every lever at its limit falls short; the plan is then the best reachable */
+  reached: boolean;
+  changes: GoalSeekChange[];
+  data: LoanFormData;
+}
+
+export interface GoalSeekOptions {
+  levers?: LeverId[];
+}
+
+const roundTo = (value: number, step: number) => Math.round(value / step) * step;
+
+const LEVERS: Lever[] = [
+  {
+    id: 'loan_amount',
+    field: 'loan_amount',
+    duration: 'Immediate',
+    options: (base) => {
+      const step = base.loan_amount >= 100000 ? 10000 : 1000;
+      const seen = new Set<number>();
+      const options: LeverOption[] = [];
+      // Borrow 10% to 60% less
+      for (let cut = 0.1; cut <= 0.6 + 1e-9; cut += 0.1) {
+        const value = roundTo(base.loan_amount * (1 - cut), step);
+        if (value > 0 && value < base.loan_amount && !seen.has(value)) {
+          seen.add(value);
+          options.push({ value, effort: cut / 0.6 });
+        }
+      }
+      return options;
+    },
+  },
+  {
+    id: 'loan_tenure',
+    field: 'loan_tenure',
+    duration: 'Immediate',
+    options: (base) =>
+      [12, 24, 36, 60]
+        .map((extra) => ({ value: Math.min(360, base.loan_tenure + extra), effort: extra / 60 }))
+        .filter((o) => o.value > base.loan_tenure),
+  },
+  {
+    id: 'co_borrower',
+    field: 'co_borrower',
+    duration: '3-7 days',
+    options: (base) =>
+      ['Spouse', 'Parent/Guardian']
+        .filter((v) => v !== base.co_borrower)
+        .map((value) => ({ value, effort: 0.5 })),
+  },
+  {
+    id: 'existing_loans',
+    field: 'existing_loans',
+    duration: '30-90 days',
+    options: (base) => {
+      // An itemised ledger sets the count; the liabilities lever clears real debts instead
+      if (activeLiabilities(base.liabilities).length > 0) return [];
+      const options: LeverOption[] = [];
+      for (let n = base.existing_loans - 1; n >= 0; n--) {
+        options.push({ value: n, effort: (base.existing_loans - n) / Math.max(base.existing_loans, 1) });
+      }
+      return options;
+    },
+  },
+  {
+    id: 'liabilities',
+    field: 'liabilities',
+    duration: '30-90 days',
+    options: (base) => {
+      // Clear debts in payoff order; effort is the share of the total balance repaid
+      const active = activeLiabilities(base.liabilities);
+      const order = payoffPlan(active, Infinity).cleared;
+      const total = Math.max(order.reduce((sum, l) => sum + l.outstanding, 0), 1);
+      let repaid = 0;
+      return order.map((liability, i) => {
+        repaid += liability.outstanding;
+        const cleared = order.slice(0, i + 1);
+        return { value: active.filter((l) => !cleared.includes(l)), effort: repaid / total };
+      });
+    },
+  },
+  {
+    id: 'monthly_savings',
+    field: 'monthly_savings',
+    duration: '60-180 days',
+    options: (base) => {
+      // Savings can't exceed what's left after expenses
+      const ceiling = Math.max(base.monthly_savings, base.monthly_income - base.total_monthly_expenses);
+      const seen = new Set<number>();
+      const options: LeverOption[] = [];
+      for (const rate of [0.1, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5]) {
+        const value = Math.min(ceiling, roundTo(base.monthly_income * rate, 500));
+        if (value > base.monthly_savings && !seen.has(value)) {
+          seen.add(value);
+          options.push({ value, effort: rate / 0.5 });
+        }
+      }
+      return options;
+    },
+  },
+  {
+    id: 'credit_score',
+    field: 'credit_score',
+    duration: '60-120 days',
+    options: (base) => {
+      const options: LeverOption[] = [];
+      for (let score = Math.ceil((base.credit_score + 1) / 25) * 25; score <= 800; score += 25) {
+        options.push({ value: score, effort: (score - base.credit_score) / 200 });
+      }
+      return options;
+    },
+  },
+];
+
+const probabilityOf = (data: LoanFormData) => scoreProfile(data).approvalProbability;
+
+/** Every non-empty combination of the given size */
+function combinations<T>(items: T[], size: number): T[][] {
+  if (size === 0) return [[]];
+  if (items.length < size) return [];
+  const [first, ...rest] = items;
+  return [
+    ...combinations(rest, size - 1).map((c) => [first, ...c]),
+    ...combinations(rest, size),
+  ];
+}
+
+interface Candidate {
+  picks: { lever: Lever; option: LeverOption }[];
+  probability: number;
+  effort: number;
+}
+
+/** Cheapest assignment of options to the given levers that reaches the target */
+function bestAssignment(base: LoanFormData, levers: { lever: Lever; options: LeverOption[] }[], target: number): Candidate | null {
+  let best: Candidate | null = null;
+  const walk = (i: number, picks: Candidate['picks'], effort: number) => {
+    if (best && effort >= best.effort) return;
+    if (i === levers.length) {
+      const data = { ...base };
+      for (const { lever, option } of picks) (data as Record<string, unknown>)[lever.field] = option.value;
+      const probability = probabilityOf(data);
+      if (probability >= target) best = { picks, probability, effort };
+      return;
+    }
+    for (const option of levers[i].options) {
+      walk(i + 1, [...picks, { lever: levers[i].lever, option }], effort + option.effort);
+    }
+  };
+  walk(0, [], 0);
+  return best;
+}
+
+/**
+ * Order the chosen changes by standalone impact and record each one's
+ * marginal gain, so the gains add up to the total improvement.
+ */
+function toPlan(base: LoanFormData, picks: Candidate['picks'], target: number, reached: boolean): GoalSeekPlan {
+  const baseProbability = probabilityOf(base);
+  const standalone = picks.map((p) => ({
+    ...p,
+    impact: probabilityOf({ ...base, [p.lever.field]: p.option.value }) - baseProbability,
+  }));
+  standalone.sort((a, b) => b.impact - a.impact || a.option.effort - b.option.effort);
+
+  let data = { ...base };
+  let previous = baseProbability;
+  const changes: GoalSeekChange[] = standalone.map(({ lever, option }) => {
+    data = { ...data, [lever.field]: option.value };
+    const probabilityAfter = probabilityOf(data);
+    const change: GoalSeekChange = {
+      lever: lever.id,
+      field: lever.field,
+      from: base[lever.field],
+      to: option.value,
+      duration: lever.duration,
+      gain: probabilityAfter - previous,
+      probabilityAfter,
+    };
+    previous = probabilityAfter;
+    return change;
+  });
+
+  return { target, baseProbability, finalProbability: previous, reached, changes, data };
+}
+
+/**
+ * Find the smallest set of lever changes that reaches `target` probability.
+ * Fewer levers always wins; among equal-sized sets the least drastic changes win.
+ */
+export function solveForTarget(base: LoanFormData, target: number, options: GoalSeekOptions = {}): GoalSeekPlan {
+  const goal = Math.min(target, PROBABILITY_CEILING);
+  const baseProbability = probabilityOf(base);
+  if (baseProbability >= goal) return toPlan(base, [], target, true);
+
+  const levers = LEVERS
+    .filter((l) => !options.levers || options.levers.includes(l.id))
+    .map((lever) => ({ lever, options: lever.options(base) }))
+    .filter((l) => l.options.length > 0);
+
+  for (let size = 1; size <= levers.length; size++) {
+    let best: Candidate | null = null;
+    for (const subset of combinations(levers, size)) {
+      const candidate = bestAssignment(base, subset, goal);
+      if (candidate && (!best || candidate.effort < best.effort)) best = candidate;
+    }
+    if (best) return toPlan(base, best.picks, target, true);
+  }
+
+  // Out of reach: push every lever that helps to its limit
+  const maxed = levers
+    .map(({ lever, options: opts }) => ({ lever, option: opts.reduce((a, b) => (b.effort > a.effort ? b : a)) }))
+    .filter(({ lever, option }) => probabilityOf({ ...base, [lever.field]: option.value }) > baseProbability);
+  return toPlan(base, maxed, target, false);
+}
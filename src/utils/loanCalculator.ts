@@ -1,4 +1,7 @@
 import type { LoanFormData, LoanResult, RiskFactor, RoadmapStep, BankRecommendation } from '@/types/loan';
+import { scoreProfile, type ContributionKey } from '@/lib/scoring';
+import { DEFAULT_LENDER_CATALOG, recommendLenders, type LenderProduct } from '@/lib/lenders';
+import { payDownAdvice } from '@/lib/liabilities';
 
 // Structured logger
 const logger = {
@@ -23,136 +26,26 @@ function validateLoanData(data: Partial<LoanFormData>): { valid: boolean; errors
   return { valid: errors.length === 0, errors };
 }
 
-/**
- * Calculate accurate EMI: [P × r × (1+r)^n] / [(1+r)^n - 1]
- */
-function calculateEMI(principal: number, annualRate: number, months: number): number {
-  const monthlyRate = annualRate / 100 / 12;
-  if (monthlyRate === 0 || months === 0) return principal / Math.max(months, 1);
-  const numerator = principal * monthlyRate * Math.pow(1 + monthlyRate, months);
-  const denominator = Math.pow(1 + monthlyRate, months) - 1;
-  return Math.round(numerator / denominator);
-}
-
-/**
- * Calculate precise DTI ratio
- */
-function calculateDTIRatio(data: LoanFormData): number {
-  try {
-    const existingEMI = Math.max(data.existing_loans * 4500, 0);
-    const newEMI = calculateEMI(data.loan_amount, 8.5, data.loan_tenure);
-    return Math.min(Math.round((existingEMI + newEMI) / data.monthly_income * 100), 150);
-  } catch {
-    return 50;
-  }
-}
-
-/**
- * Score employment stability (0-1)
- */
-function getEmploymentScore(years: number): number {
-  if (years >= 10) return 1.0;
-  if (years >= 5) return 0.9;
-  if (years >= 2) return 0.75;
-  if (years >= 1) return 0.6;
-  return 0.4;
-}
-
-export function calculateLoanResult(data: LoanFormData): LoanResult {
+export function calculateLoanResult(
+  data: LoanFormData,
+  catalog: LenderProduct[] = DEFAULT_LENDER_CATALOG
+): LoanResult {
   try {
     const validation = validateLoanData(data);
     if (!validation.valid) logger.warn('Invalid data', validation.errors);
 
-    // Calculate core metrics
-    const annualIncome = data.monthly_income * 12;
-    const isEducationLoan = data.loan_purpose?.toLowerCase() === 'education';
-    const hasCoBorrower = !!data.co_borrower && data.co_borrower !== 'None';
-    const isParentCoBorrower = data.co_borrower === 'Parent/Guardian';
-
-    const rawIncomeRatio = data.loan_amount / annualIncome;
-    const incomeRatio = isEducationLoan ? rawIncomeRatio * 0.75 : rawIncomeRatio;
-    
-    // For education loans, boost credit score leverage (students may have lower scores but education is lower-risk)
-    let creditScore = Math.min(data.credit_score / 750, 1);
-    if (isEducationLoan) {
-      creditScore = Math.min(1, creditScore * 1.25); // 25% boost for education loans
-    }
-    
-    const employmentBase = getEmploymentScore(data.years_experience);
-    const empStability = isEducationLoan
-      ? Math.max(0.65, employmentBase)
-      : employmentBase;
-    const savingsRate = Math.min(data.monthly_savings / data.monthly_income, 0.5);
-    const ltiScore = Math.max(0, 1 - (incomeRatio / (isEducationLoan ? 8 : 6)));
-    
-    // Enhanced debt burden scoring
-    let debtScore = 1.0;
-    if (data.existing_loans === 0) debtScore = 1.0;
-    else if (data.existing_loans === 1) debtScore = 0.85;
-    else if (data.existing_loans === 2) debtScore = 0.65;
-    else if (data.existing_loans === 3) debtScore = 0.45;
-    else debtScore = Math.max(0.2, 0.4 - (data.existing_loans - 3) * 0.05);
-
-    if (isEducationLoan) {
-      debtScore = Math.min(1, debtScore + 0.1);
-    }
-    
-    // Asset score contribution
-    let assetScore = (
-      (data.owns_house ? 0.3 : 0) +
-      (data.owns_car ? 0.1 : 0) +
-      (data.has_investments ? 0.2 : 0) +
-      (data.bank_balance >= annualIncome ? 0.1 : 0)
-    ) / 0.7;
-    
-    // For education loans without assets, boost LTI contribution to offset risk
-    if (isEducationLoan && assetScore < 0.3) {
-      assetScore = Math.max(assetScore, 0.4);
-    }
-    
-    // Weighted probability (100% total weight)
-    // For education loans, boost LTI weight (from 25 to 30) and reduce credit score weight slightly (35 to 30)
-    let probability;
-    if (isEducationLoan) {
-      probability = Math.round(
-        creditScore * 30 +
-        ltiScore * 30 +  // Higher LTI weight for education (already relaxed thresholds)
-        empStability * 15 +
-        debtScore * 15 +
-        savingsRate * 0.5 * 5 +
-        assetScore * 0.5 * 5
-      );
-    } else {
-      probability = Math.round(
-        creditScore * 35 +
-        ltiScore * 25 +
-        empStability * 15 +
-        debtScore * 15 +
-        savingsRate * 0.5 * 5 +
-        assetScore * 0.5 * 5
-      );
-    }
-
-    // Base uplift for education loans (post-weighting)
-    if (isEducationLoan) {
-      probability += 10;  // Increased from 6
-    }
-    
-    // Co-borrower uplift
-    if (isEducationLoan && hasCoBorrower) {
-      probability += isParentCoBorrower ? 12 : 8;  // Increased from 8/5
-    }
-    
-    probability = Math.max(12, Math.min(96, probability));
-
-    // Determine risk category with nuanced assessment
-    let riskCategory: LoanResult['riskCategory'];
-    if (probability >= 75) riskCategory = 'Low';
-    else if (probability >= 55) riskCategory = 'Medium';
-    else riskCategory = 'High';
-
-    // Bank fit based on multiple factors
-    const bankFit: LoanResult['bankFit'] = probability >= 65 ? 'Good' : probability >= 40 ? 'Moderate' : 'Poor';
+    // Core metrics come from the shared scoring engine so every surface agrees
+    const score = scoreProfile(data);
+    const probability = score.approvalProbability;
+    const riskCategory = score.riskCategory;
+    const bankFit = score.bankFit;
+    const empStability = score.employmentStability;
+    const savingsRate = score.savingsRate;
+    const isEducationLoan = score.isEducationLoan;
+    const hasCoBorrower = score.hasCoBorrower;
+    // Probability points each factor contributes, from the engine's breakdown
+    const impact = (...keys: ContributionKey[]) =>
+      Math.round(score.contributions.filter(c => keys.includes(c.key)).reduce((sum, c) => sum + c.points, 0));
 
     // Dynamic risk factors based on actual profile
     const factors: RiskFactor[] = [];
@@ -167,16 +60,18 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       level: creditLevel,
       description: `Score: ${data.credit_score}/900 - ${creditLevel === 'low' ? '✓ Excellent' : creditLevel === 'medium' ? '⚠ Needs Work' : '✗ Critical'}`,
       improvement: data.credit_score < 700 ? 'Pay 100% on time. Keep utilization <30%. Avoid hard inquiries.' : 'Maintain payment discipline',
+      impact_percent: impact('credit'),
     });
     
     // Income & DTI factor
-    const dti = calculateDTIRatio(data);
+    const dti = score.dti;
     const dtiLevel: 'low' | 'medium' | 'high' = dti < 40 ? 'low' : dti < 60 ? 'medium' : 'high';
     factors.push({
       name: 'Debt-to-Income Ratio',
       level: dtiLevel,
       description: `DTI: ${dti}% - ${dtiLevel === 'low' ? '✓ Healthy' : dtiLevel === 'medium' ? '⚠ Moderate' : '✗ High'}`,
       improvement: dti > 40 ? 'Reduce existing debt or increase income' : 'Maintain current ratio',
+      impact_percent: impact('lti', 'debt'),
     });
     
     // Employment stability factor
@@ -186,6 +81,7 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       level: empLevel,
       description: `${data.years_experience}y ${data.job_type} - ${empLevel === 'low' ? '✓ Stable' : empLevel === 'medium' ? '⚠ Developing' : '✗ Risky'}`,
       improvement: empLevel !== 'low' ? 'Build continuous employment record' : 'Keep current job',
+      impact_percent: impact('employment'),
     });
     
     // Savings & financial health
@@ -195,6 +91,7 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       level: savingsLevel,
       description: `Savings: ${Math.round(savingsRate * 100)}% - ${savingsLevel === 'low' ? '✓ Strong' : savingsLevel === 'medium' ? '⚠ Fair' : '✗ Weak'}`,
       improvement: savingsLevel !== 'low' ? `Target 20% monthly savings (₹${Math.round(data.monthly_income * 0.2)})` : 'Excellent financial discipline',
+      impact_percent: impact('savings', 'assets'),
     });
 
     if (isEducationLoan) {
@@ -207,6 +104,7 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
         improvement: hasCoBorrower
           ? 'Maintain co-borrower income and KYC documents ready for underwriting'
           : 'Add a parent/guardian co-borrower to improve education loan approval odds',
+        impact_percent: impact('co_borrower_uplift'),
       });
     }
     
@@ -218,7 +116,7 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       roadmap.push({
         step: stepNum++,
         title: 'Reduce Debt Burden',
-        description: `Pay down ₹${Math.round(data.existing_loans * 15000)} to improve DTI below 50%`,
+        description: `${payDownAdvice(data.liabilities, score.existingEMI + score.emi - score.householdIncome * 0.5)} to bring DTI toward 50%`,
         duration: '30-90 days',
       });
     }
@@ -264,71 +162,10 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       duration: '7-14 days',
     });
     
-    // Intelligent bank recommendations based on profile
-    const emi = calculateEMI(data.loan_amount, 8.5, data.loan_tenure);
-    const emiAffordability = Math.round((emi / data.monthly_income) * 100);
-    
-    const recommendedBanks: BankRecommendation[] = [];
-    
-    // SBI - best for salaried/stable
-    if (empStability >= 0.75 && data.credit_score >= 650) {
-      recommendedBanks.push({
-        name: 'State Bank of India',
-        interestRate: '8.5% – 10.5%',
-        matchScore: Math.min(98, probability + 8),
-        features: [
-          `EMI: ₹${emi}/month (${emiAffordability}% of income)`,
-          'Govt employee benefits',
-          'Doorstep disbursal',
-          'Zero processing fee for premium',
-        ],
-      });
-    }
-    
-    // BoB - good for balanced profiles
-    if (probability >= 40) {
-      recommendedBanks.push({
-        name: 'Bank of Baroda',
-        interestRate: '9.0% – 11.0%',
-        matchScore: Math.min(95, probability + 3),
-        features: [
-          'Quick approval (3-5 days)',
-          'Flexible EMI options',
-          'Rural-friendly schemes',
-          'Competitive interest rates',
-        ],
-      });
-    }
-    
-    // PNB - alternative option
-    if (probability >= 35) {
-      recommendedBanks.push({
-        name: 'Punjab National Bank',
-        interestRate: '9.5% – 11.5%',
-        matchScore: Math.max(35, probability - 8),
-        features: [
-          'Special schemes for farmers',
-          'Business loan options',
-          'Doorstep service',
-          'Flexible repayment',
-        ],
-      });
-    }
-    
-    // Ensure at least 2 options
-    if (recommendedBanks.length < 2) {
-      recommendedBanks.push({
-        name: 'HDFC Bank',
-        interestRate: '8.99% – 11.99%',
-        matchScore: Math.max(50, probability - 5),
-        features: [
-          'Premium service quality',
-          'Online application',
-          'Instant pre-approval',
-          'Multiple tenure options',
-        ],
-      });
-    }
+    // Rank catalog products against the profile
+    const recommendedBanks: BankRecommendation[] = recommendLenders(data, catalog, {
+      approvalProbability: probability,
+    });
 
     return {
       approvalProbability: probability,
@@ -337,6 +174,7 @@ export function calculateLoanResult(data: LoanFormData): LoanResult {
       factors,
       roadmap,
       recommendedBanks,
+      scoringVersion: score.version,
     };
   } catch (error) {
     logger.error('Calculation failed', error);
@@ -0,0 +1,175 @@
+/**
+ * Scenario comparison - named sets of LoanFormData overrides scored side by side
+ */
+
+import type { LoanFormData } from '@/types/loan';
+import type { TranslationKey } from '@/i18n/translations';
+import { scoreProfile, type RiskCategory } from '@/lib/scoring';
+import { DEFAULT_LENDER_CATALOG, recommendLenders, type LenderProduct } from '@/lib/lenders';
+import { activeLiabilities, payoffPlan } from '@/lib/liabilities';
+import { coBorrowerOptions, educationOptions, incomeStabilityOptions, jobTypeOptions, loanPurposeOptions } from '@/data/formOptions';
+
+export type ScenarioOverrides = Partial<LoanFormData>;
+
+export interface Scenario {
+  id: string;
+  name: string;
+  /** Any LoanFormData field; the editor only offers SCENARIO_FIELDS, presets may set others */
+  overrides: ScenarioOverrides;
+}
+
+export interface ScenarioOutcome {
+  scenario: Scenario;
+  data: LoanFormData;
+  approvalProbability: number;
+  emi: number;
+  dti: number;
+  riskCategory: RiskCategory;
+  /** Top lender names, best match first */
+  banks: string[];
+  /** Fields whose value differs from the base profile */
+  changedFields: (keyof LoanFormData)[];
+}
+
+export type ScenarioFieldKind = 'number' | 'boolean' | 'select';
+
+export interface ScenarioField {
+  key: keyof LoanFormData;
+  label: TranslationKey;
+  kind: ScenarioFieldKind;
+  options?: string[];
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Fields the scenario editor offers. This is deliberately a subset of
+ * LoanFormData: scalar fields that move the score or lender match. Identity
+ * fields (name, city, gender) don't, and structured ones (liabilities,
+ * co_applicants) have their own editors on the form; presets and saved
+ * scenarios can still override any field.
+ */
+export const SCENARIO_FIELDS: ScenarioField[] = [
+  { key: 'monthly_income', label: 'form_income', kind: 'number', min: 0 },
+  { key: 'loan_amount', label: 'form_loan_amount', kind: 'number', min: 0 },
+  { key: 'loan_tenure', label: 'form_tenure', kind: 'number', min: 1, max: 360 },
+  { key: 'credit_score', label: 'form_credit_score', kind: 'number', min: 300, max: 900 },
+  { key: 'existing_loans', label: 'form_existing_loans', kind: 'number', min: 0 },
+  { key: 'total_monthly_expenses', label: 'form_expenses', kind: 'number', min: 0 },
+  { key: 'monthly_savings', label: 'form_savings', kind: 'number', min: 0 },
+  { key: 'bank_balance', label: 'form_bank_balance', kind: 'number', min: 0 },
+  { key: 'years_experience', label: 'form_experience', kind: 'number', min: 0 },
+  { key: 'age', label: 'form_age', kind: 'number', min: 18, max: 75 },
+  { key: 'co_borrower', label: 'form_co_borrower', kind: 'select', options: coBorrowerOptions },
+  { key: 'job_type', label: 'form_job_type', kind: 'select', options: jobTypeOptions },
+  { key: 'income_stability', label: 'form_income_stability', kind: 'select', options: incomeStabilityOptions },
+  { key: 'loan_purpose', label: 'form_loan_purpose', kind: 'select', options: loanPurposeOptions },
+  { key: 'education', label: 'form_education', kind: 'select', options: educationOptions },
+  { key: 'has_collateral', label: 'form_collateral', kind: 'boolean' },
+  { key: 'secondary_income', label: 'form_secondary_income', kind: 'boolean' },
+  { key: 'has_investments', label: 'form_investments', kind: 'boolean' },
+];
+
+const hasLedger = (data: LoanFormData) => activeLiabilities(data.liabilities).length > 0;
+
+/** SCENARIO_FIELDS for `base`; with an itemised ledger the loan count follows the ledger, so it isn't offered */
+export const scenarioFields = (base: LoanFormData): ScenarioField[] =>
+  hasLedger(base) ? SCENARIO_FIELDS.filter((f) => f.key !== 'existing_loans') : SCENARIO_FIELDS;
+
+export interface ScenarioPreset {
+  id: string;
+  label: TranslationKey;
+  /** Overrides relative to the base profile, or null when the preset doesn't apply */
+  build: (base: LoanFormData) => ScenarioOverrides | null;
+}
+
+export const SCENARIO_PRESETS: ScenarioPreset[] = [
+  {
+    id: 'longer-tenure',
+    label: 'scenario_preset_tenure',
+    build: (base) => (base.loan_tenure >= 360 ? null : { loan_tenure: Math.min(360, base.loan_tenure + 24) }),
+  },
+  {
+    id: 'parent-co-borrower',
+    label: 'scenario_preset_parent',
+    build: (base) => (base.co_borrower === 'Parent/Guardian' ? null : { co_borrower: 'Parent/Guardian' }),
+  },
+  {
+    id: 'close-one-loan',
+    label: 'scenario_preset_close_loan',
+    build: (base) => {
+      // With a ledger, pay off the debt that frees the most EMI per rupee, as the goal-seek lever does
+      if (hasLedger(base)) {
+        const active = activeLiabilities(base.liabilities);
+        const [first] = payoffPlan(active, Infinity).cleared;
+        return { liabilities: active.filter((l) => l !== first) };
+      }
+      return base.existing_loans > 0 ? { existing_loans: base.existing_loans - 1 } : null;
+    },
+  },
+  {
+    id: 'credit-750',
+    label: 'scenario_preset_credit',
+    build: (base) => (base.credit_score >= 750 ? null : { credit_score: 750 }),
+  },
+];
+
+export function applyScenario(base: LoanFormData, overrides: ScenarioOverrides): LoanFormData {
+  const data = { ...base, ...overrides };
+  // The count is derived from an itemised ledger, as on the form
+  return hasLedger(data) || overrides.liabilities ? { ...data, existing_loans: activeLiabilities(data.liabilities).length } : data;
+}
+
+/** Overridden fields whose applied value differs; a count the ledger overrules is not a change */
+export function changedFields(base: LoanFormData, overrides: ScenarioOverrides): (keyof LoanFormData)[] {
+  const data = applyScenario(base, overrides);
+  return (Object.keys(overrides) as (keyof LoanFormData)[]).filter(
+    (key) => overrides[key] !== undefined && data[key] !== base[key]
+  );
+}
+
+export function evaluateScenario(
+  base: LoanFormData,
+  scenario: Scenario,
+  catalog: LenderProduct[] = DEFAULT_LENDER_CATALOG
+): ScenarioOutcome {
+  const data = applyScenario(base, scenario.overrides);
+  const score = scoreProfile(data);
+  const banks = recommendLenders(data, catalog, { approvalProbability: score.approvalProbability, limit: 3 });
+  return {
+    scenario,
+    data,
+    approvalProbability: score.approvalProbability,
+    emi: score.emi,
+    dti: score.dti,
+    riskCategory: score.riskCategory,
+    banks: banks.map((b) => b.name),
+    changedFields: changedFields(base, scenario.overrides),
+  };
+}
+
+/** Best scenario by probability, ties broken by the lower EMI */
+export function bestScenario(outcomes: ScenarioOutcome[]): ScenarioOutcome | null {
+  return outcomes.reduce<ScenarioOutcome | null>((best, o) => {
+    if (!best) return o;
+    if (o.approvalProbability !== best.approvalProbability) return o.approvalProbability > best.approvalProbability ? o : best;
+    return o.emi < best.emi ? o : best;
+  }, null);
+}
+
+const STORAGE_KEY = 'loan_scenarios';
+
+export function loadScenarios(storage: Storage = localStorage): Scenario[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.filter((s) => s && typeof s.id === 'string' && typeof s.name === 'string' && s.overrides)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveScenarios(scenarios: Scenario[], storage: Storage = localStorage): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
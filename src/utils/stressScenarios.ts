@@ -0,0 +1,108 @@
+/**
+ * Custom stress scenarios - timelines of shocks written by counsellors,
+ * kept in localStorage and passed around as share links
+ */
+
+import type { CustomScenario, ScenarioShock, ShockTarget } from '@/lib/resilienceEngine';
+
+export const SHOCK_TARGETS: ShockTarget[] = ['income', 'expenses', 'debt', 'savings', 'investments'];
+
+/** Longest timeline a scenario may describe */
+export const MAX_SCENARIO_MONTHS = 120;
+
+export const STRESS_SCENARIO_PRESETS: CustomScenario[] = [
+  {
+    id: 'preset-crop-failure',
+    name: 'Crop failure for 2 seasons',
+    description: 'Farm income falls by 70% for a year while the household keeps spending',
+    shocks: [{ target: 'income', mode: 'percent', value: -70, startMonth: 1, durationMonths: 12 }],
+  },
+  {
+    id: 'preset-earner-job-loss',
+    name: 'One earner loses job for 4 months',
+    description: 'Household income halves for 4 months',
+    shocks: [{ target: 'income', mode: 'percent', value: -50, startMonth: 1, durationMonths: 4 }],
+  },
+  {
+    id: 'preset-rent-rise',
+    name: 'Rent goes up 30%',
+    description: 'Rent taken as 40% of expenses, so expenses rise 12% from the first month',
+    shocks: [{ target: 'expenses', mode: 'percent', value: 12, startMonth: 1, durationMonths: 36 }],
+    horizonMonths: 36,
+  },
+];
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clampMonth = (value: number) => Math.min(MAX_SCENARIO_MONTHS, Math.max(1, Math.round(value)));
+
+function parseShock(value: unknown): ScenarioShock | null {
+  if (!value || typeof value !== 'object') return null;
+  const shock = value as Record<string, unknown>;
+  if (!SHOCK_TARGETS.includes(shock.target as ShockTarget)) return null;
+  if (shock.mode !== 'percent' && shock.mode !== 'amount') return null;
+  if (!isFiniteNumber(shock.value) || !isFiniteNumber(shock.startMonth)) return null;
+  return {
+    target: shock.target as ShockTarget,
+    mode: shock.mode,
+    // Nothing can fall by more than all of it
+    value: shock.mode === 'percent' ? Math.max(-100, shock.value) : shock.value,
+    startMonth: clampMonth(shock.startMonth),
+    durationMonths: isFiniteNumber(shock.durationMonths) ? clampMonth(shock.durationMonths) : 1,
+  };
+}
+
+/** A scenario from untrusted JSON (storage, share links), or null if it isn't one */
+export function parseStressScenario(value: unknown): CustomScenario | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.id !== 'string' || typeof raw.name !== 'string' || !raw.name.trim()) return null;
+  if (!Array.isArray(raw.shocks)) return null;
+  const shocks = raw.shocks.map(parseShock).filter((s): s is ScenarioShock => s !== null);
+  if (shocks.length === 0) return null;
+  return {
+    id: raw.id,
+    name: raw.name.trim().slice(0, 80),
+    description: typeof raw.description === 'string' ? raw.description.slice(0, 200) : undefined,
+    shocks,
+    horizonMonths: isFiniteNumber(raw.horizonMonths) ? clampMonth(raw.horizonMonths) : undefined,
+  };
+}
+
+const STORAGE_KEY = 'stress_scenarios';
+
+export function loadStressScenarios(storage: Storage = localStorage): CustomScenario[] {
+  try {
+    const parsed = JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed)
+      ? parsed.map(parseStressScenario).filter((s): s is CustomScenario => s !== null)
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveStressScenarios(scenarios: CustomScenario[], storage: Storage = localStorage): void {
+  storage.setItem(STORAGE_KEY, JSON.stringify(scenarios));
+}
+
+/** URL-safe code carrying the whole scenario, for share links */
+export function encodeStressScenario(scenario: CustomScenario): string {
+  const bytes = new TextEncoder().encode(JSON.stringify(scenario));
+  let binary = '';
+  bytes.forEach((b) => (binary += String.fromCharCode(b)));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeStressScenario(code: string): CustomScenario | null {
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (c) => c.charCodeAt(0));
+    return parseStressScenario(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch {
+    return null;
+  }
+}
+
+/** Share link query parameter */
+export const SHARE_PARAM = 'stress';
@@ -0,0 +1,486 @@
+/**
+ * Analysis payload — schema validation, JSON repair and the rule-based fallback
+ * for the financial-analysis function.
+ *
+ * Pure TypeScript like the scoring engine, so the browser tests can import it
+ * through `@/lib/analysis`. The LLM only supplies explanatory text; anything it
+ * returns is checked field by field and replaced from the rule-based analysis
+ * when missing or unusable.
+ */
+
+import type { ScoreResult, ScoringInput } from './scoring.ts';
+import type { LenderRecommendation } from './lenders.ts';
+import { ledgerTotals, payDownAdvice } from './liabilities.ts';
+
+export type FactorLevel = 'low' | 'medium' | 'high';
+export type GapSeverity = 'critical' | 'moderate' | 'minor';
+
+export interface AnalysisFactor {
+  name: string;
+  level: FactorLevel;
+  description: string;
+  improvement: string;
+  impact_percent?: number;
+}
+
+export interface AnalysisGap {
+  gap: string;
+  severity: GapSeverity;
+  fix: string;
+}
+
+export interface AnalysisSuggestion {
+  action: string;
+  impact: string;
+  timeline: string;
+}
+
+export interface AnalysisStep {
+  step: number;
+  title: string;
+  description: string;
+  duration: string;
+}
+
+export interface AnalysisReadiness {
+  can_apply_now: boolean;
+  wait_days: number;
+  reasons: string[];
+}
+
+/** Server-side mirror of the browser's `AnalysisResult` */
+export interface AnalysisPayload {
+  approval_probability: number;
+  risk_category: string;
+  financial_health_score: number;
+  debt_to_income_ratio: number;
+  emi_affordability: string;
+  summary: string;
+  factors: AnalysisFactor[];
+  eligibility_gaps: AnalysisGap[];
+  improvement_suggestions: AnalysisSuggestion[];
+  roadmap: AnalysisStep[];
+  recommended_banks: LenderRecommendation[];
+  readiness: AnalysisReadiness;
+  documents_needed: string[];
+}
+
+export type AnalysisField = keyof AnalysisPayload;
+
+/**
+ * Where a response field came from: the model as-is, the model after
+ * clamping/coercion, the rule-based fallback, the scoring engine or the lender catalog.
+ */
+export type FieldSource = 'llm' | 'repaired' | 'rules' | 'engine' | 'catalog';
+
+export interface AnalysisValidation {
+  analysis: AnalysisPayload;
+  sources: Record<AnalysisField, FieldSource>;
+  /** Human-readable reasons for every repair or replacement, for logs */
+  issues: string[];
+}
+
+export const ANALYSIS_FIELDS: AnalysisField[] = [
+  'approval_probability',
+  'risk_category',
+  'financial_health_score',
+  'debt_to_income_ratio',
+  'emi_affordability',
+  'summary',
+  'factors',
+  'eligibility_gaps',
+  'improvement_suggestions',
+  'roadmap',
+  'recommended_banks',
+  'readiness',
+  'documents_needed',
+];
+
+/** Numeric verdict fields `applyScoreToAnalysis` always overwrites */
+export const ENGINE_FIELDS: AnalysisField[] = [
+  'approval_probability',
+  'risk_category',
+  'financial_health_score',
+  'debt_to_income_ratio',
+  'emi_affordability',
+];
+
+// ── JSON extraction and repair ───────────────────────────────────
+
+interface ScanState {
+  stack: string[];
+  inString: boolean;
+  /** Index just past the first complete top-level object, if any */
+  end: number | null;
+}
+
+function scan(text: string): ScanState {
+  const stack: string[] = [];
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+    else if (ch === '}' || ch === ']') {
+      stack.pop();
+      if (stack.length === 0) return { stack, inString, end: i + 1 };
+    }
+  }
+  return { stack, inString, end: null };
+}
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    try {
+      // Trailing commas are the most common model slip
+      return JSON.parse(text.replace(/,\s*([}\]])/g, '$1'));
+    } catch {
+      return undefined;
+    }
+  }
+};
+
+/**
+ * Close a truncated object: finish an open string, drop the dangling
+ * key/value, and append the missing brackets. Cuts back one comma at a time
+ * until something parses.
+ */
+function closeTruncated(fragment: string): unknown {
+  let text = fragment;
+  for (let attempt = 0; attempt < 200 && text.length > 1; attempt++) {
+    const state = scan(text);
+    let candidate = state.inString ? `${text}"` : text;
+    candidate = candidate.replace(/[\s,:]+$/, '');
+    candidate += [...state.stack].reverse().join('');
+    const parsed = tryParse(candidate);
+    if (parsed !== undefined) return parsed;
+    const cut = text.lastIndexOf(',');
+    if (cut <= 0) break;
+    text = text.slice(0, cut);
+  }
+  return undefined;
+}
+
+export interface ParsedModelJson {
+  value: Record<string, unknown> | null;
+  /** True when the object had to be fixed up (fences, trailing commas, truncation) */
+  repaired: boolean;
+}
+
+/** Pull the first JSON object out of free-form model output, repairing it if needed */
+export function parseModelJson(content: string): ParsedModelJson {
+  const text = content.replace(/```(?:json)?/gi, '');
+  const start = text.indexOf('{');
+  if (start < 0) return { value: null, repaired: false };
+  const body = text.slice(start);
+  const state = scan(body);
+
+  if (state.end !== null) {
+    const slice = body.slice(0, state.end);
+    try {
+      const value = JSON.parse(slice);
+      return { value: isRecord(value) ? value : null, repaired: false };
+    } catch {
+      const value = tryParse(slice);
+      if (isRecord(value)) return { value, repaired: true };
+    }
+  }
+
+  const value = closeTruncated(state.end !== null ? body.slice(0, state.end - 1) : body);
+  return { value: isRecord(value) ? value : null, repaired: true };
+}
+
+// ── Field validators ─────────────────────────────────────────────
+
+const isRecord = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+/** A validated value plus whether it needed fixing; null when unusable */
+type Checked<T> = { value: T; repaired: boolean } | null;
+
+function checkNumber(v: unknown, min: number, max: number): Checked<number> {
+  let n = v;
+  let repaired = false;
+  if (typeof n === 'string') {
+    n = Number.parseFloat(n.replace(/[%,₹\s]/g, ''));
+    repaired = true;
+  }
+  if (typeof n !== 'number' || !Number.isFinite(n)) return null;
+  const clamped = Math.min(max, Math.max(min, n));
+  return { value: clamped, repaired: repaired || clamped !== n };
+}
+
+function checkEnum<T extends string>(v: unknown, allowed: readonly T[]): Checked<T> {
+  if (typeof v !== 'string') return null;
+  if ((allowed as readonly string[]).includes(v)) return { value: v as T, repaired: false };
+  const lower = v.trim().toLowerCase();
+  // Accept case differences and decorations like "Low Risk"
+  const match = allowed.find((a) => lower === a.toLowerCase() || lower.startsWith(`${a.toLowerCase()} `));
+  return match ? { value: match, repaired: true } : null;
+}
+
+function checkText(v: unknown): Checked<string> {
+  if (typeof v !== 'string' || v.trim().length === 0) return null;
+  const trimmed = v.trim();
+  return { value: trimmed, repaired: trimmed !== v };
+}
+
+function checkBoolean(v: unknown): Checked<boolean> {
+  if (typeof v === 'boolean') return { value: v, repaired: false };
+  if (v === 'true' || v === 'false') return { value: v === 'true', repaired: true };
+  return null;
+}
+
+/** Lists may be empty only if `allowEmpty`; a non-empty list with no valid items is unusable */
+function checkArray<T>(v: unknown, item: (x: unknown) => Checked<T>, maxItems = 12, allowEmpty = false): Checked<T[]> {
+  if (!Array.isArray(v)) return null;
+  const items: T[] = [];
+  let repaired = v.length > maxItems;
+  for (const raw of v.slice(0, maxItems)) {
+    const checked = item(raw);
+    if (!checked) {
+      repaired = true;
+      continue;
+    }
+    repaired ||= checked.repaired;
+    items.push(checked.value);
+  }
+  if (items.length === 0 && (v.length > 0 || !allowEmpty)) return null;
+  return { value: items, repaired };
+}
+
+/** Validate each listed key of an object; any unusable required key rejects the item */
+function checkObject<T>(
+  v: unknown,
+  fields: { [K in keyof T]: { check: (x: unknown) => Checked<T[K]>; optional?: boolean } }
+): Checked<T> {
+  if (!isRecord(v)) return null;
+  const out: Record<string, unknown> = {};
+  let repaired = false;
+  for (const key of Object.keys(fields) as (keyof T & string)[]) {
+    const spec = fields[key];
+    if (spec.optional && v[key] === undefined) continue;
+    const checked = spec.check(v[key]);
+    if (!checked) {
+      if (spec.optional) {
+        repaired = true;
+        continue;
+      }
+      return null;
+    }
+    repaired ||= checked.repaired;
+    out[key] = checked.value;
+  }
+  return { value: out as T, repaired };
+}
+
+const checkFactor = (v: unknown) =>
+  checkObject<AnalysisFactor>(v, {
+    name: { check: checkText },
+    level: { check: (x) => checkEnum(x, ['low', 'medium', 'high'] as const) },
+    description: { check: checkText },
+    improvement: { check: checkText },
+    impact_percent: { check: (x) => checkNumber(x, -100, 100), optional: true },
+  });
+
+const checkGap = (v: unknown) =>
+  checkObject<AnalysisGap>(v, {
+    gap: { check: checkText },
+    severity: { check: (x) => checkEnum(x, ['critical', 'moderate', 'minor'] as const) },
+    fix: { check: checkText },
+  });
+
+const checkSuggestion = (v: unknown) =>
+  checkObject<AnalysisSuggestion>(v, {
+    action: { check: checkText },
+    impact: { check: checkText },
+    timeline: { check: checkText },
+  });
+
+const checkStep = (v: unknown) =>
+  checkObject<AnalysisStep>(v, {
+    step: { check: (x) => checkNumber(x, 1, 50) },
+    title: { check: checkText },
+    description: { check: checkText },
+    duration: { check: checkText },
+  });
+
+const checkReadiness = (v: unknown) =>
+  checkObject<AnalysisReadiness>(v, {
+    can_apply_now: { check: checkBoolean },
+    wait_days: { check: (x) => checkNumber(x, 0, 730) },
+    reasons: { check: (x) => checkArray(x, checkText, 8) },
+  });
+
+const FIELD_CHECKS: { [K in AnalysisField]: (v: unknown) => Checked<AnalysisPayload[K]> } = {
+  approval_probability: (v) => checkNumber(v, 0, 100),
+  risk_category: (v) => checkEnum(v, ['Low', 'Medium', 'High'] as const),
+  financial_health_score: (v) => checkNumber(v, 0, 100),
+  debt_to_income_ratio: (v) => checkNumber(v, 0, 150),
+  emi_affordability: (v) => checkEnum(v, ['Comfortable', 'Stretched', 'Unaffordable'] as const),
+  summary: checkText,
+  factors: (v) => checkArray(v, checkFactor),
+  eligibility_gaps: (v) => checkArray(v, checkGap, 8, true),
+  improvement_suggestions: (v) => checkArray(v, checkSuggestion, 8, true),
+  roadmap: (v) => {
+    const checked = checkArray(v, checkStep, 10);
+    if (!checked) return null;
+    // Steps must run 1..n whatever numbering the model used
+    const renumbered = checked.value.map((s, i) => ({ ...s, step: i + 1 }));
+    const changed = renumbered.some((s, i) => s.step !== checked.value[i].step);
+    return { value: renumbered, repaired: checked.repaired || changed };
+  },
+  recommended_banks: () => null,
+  readiness: checkReadiness,
+  documents_needed: (v) => checkArray(v, checkText, 15),
+};
+
+/**
+ * Check model output field by field against the schema. Valid fields are
+ * kept, fixable ones are clamped/coerced, and the rest come from `fallback`.
+ * `recommended_banks` always comes from the fallback (the lender catalog).
+ */
+export function validateAnalysis(raw: unknown, fallback: AnalysisPayload, parsedWithRepair = false): AnalysisValidation {
+  const input = isRecord(raw) ? raw : {};
+  const analysis = { ...fallback } as Record<AnalysisField, unknown>;
+  const sources = {} as Record<AnalysisField, FieldSource>;
+  const issues: string[] = [];
+  if (!isRecord(raw)) issues.push('model output was not a JSON object');
+
+  for (const field of ANALYSIS_FIELDS) {
+    if (field === 'recommended_banks') {
+      sources[field] = 'catalog';
+      continue;
+    }
+    const checked = input[field] === undefined ? null : FIELD_CHECKS[field](input[field]);
+    if (checked) {
+      analysis[field] = checked.value;
+      sources[field] = checked.repaired || parsedWithRepair ? 'repaired' : 'llm';
+      if (checked.repaired) issues.push(`${field}: repaired`);
+    } else {
+      sources[field] = 'rules';
+      if (isRecord(raw)) issues.push(`${field}: ${input[field] === undefined ? 'missing' : 'invalid'}, using rules`);
+    }
+  }
+
+  return { analysis: analysis as unknown as AnalysisPayload, sources, issues };
+}
+
+/** Overall provenance for the response: all model, all rules, or a mix */
+export function summarizeSources(sources: Record<AnalysisField, FieldSource>): 'llm' | 'rules' | 'mixed' {
+  const text = ANALYSIS_FIELDS.filter((f) => !ENGINE_FIELDS.includes(f) && sources[f] !== 'catalog');
+  const fromRules = text.filter((f) => sources[f] === 'rules').length;
+  if (fromRules === 0) return 'llm';
+  return fromRules === text.length ? 'rules' : 'mixed';
+}
+
+// ── Rule-based analysis ──────────────────────────────────────────
+
+export const DEFAULT_DOCUMENTS = [
+  'Aadhaar Card',
+  'PAN Card',
+  'Last 6 months bank statement',
+  'Salary slips (last 3 months)',
+  'Form 16 / ITR',
+  'Address proof',
+  'Passport size photo',
+];
+
+/**
+ * Complete analysis built only from the engine score and the form, used when
+ * the model is unavailable or a field it returned is unusable.
+ */
+export function buildRuleBasedAnalysis(
+  input: ScoringInput,
+  score: ScoreResult,
+  recommendedBanks: LenderRecommendation[]
+): AnalysisPayload {
+  const monthlyIncome = input.monthly_income || 0;
+  const creditScore = input.credit_score || 0;
+  const ledger = ledgerTotals(input.liabilities);
+  const existingLoans = ledger.count > 0 ? ledger.count : input.existing_loans || 0;
+  // Names the debts to clear when they are itemised
+  const payDownTo = (target: number) => `${payDownAdvice(input.liabilities, score.householdIncome * (dti - target) / 100)} to bring DTI toward ${target}%`;
+  const yearsExperience = input.years_experience || 0;
+  const dti = score.dti;
+  const emiToIncome = score.emiToIncome;
+  const loanToIncome = score.loanToIncome;
+  const savingsRate = score.savingsRate * 100;
+  const probability = score.approvalProbability;
+  const isEducationLoan = score.isEducationLoan;
+  const hasCoBorrower = score.hasCoBorrower;
+
+  const gaps: AnalysisGap[] = [];
+  if (creditScore < 650) gaps.push({ gap: `Credit score of ${creditScore} is below recommended minimum (650+)`, severity: 'critical', fix: 'Pay all bills on time for 6+ months, clear any defaults, keep credit utilization below 30%' });
+  if (dti > 45) gaps.push({ gap: `Debt-to-Income ratio of ${dti.toFixed(1)}% exceeds safe limit (40%)`, severity: 'critical', fix: ledger.count > 0 ? payDownTo(40) : `Reduce monthly expenses by ₹${Math.round(monthlyIncome * (dti - 40) / 100)}, clear small debts first` });
+  if (savingsRate < 10) gaps.push({ gap: `Low savings rate (${savingsRate.toFixed(1)}%) indicates poor financial discipline`, severity: 'moderate', fix: 'Build emergency fund of 3-6 months expenses before applying' });
+  if (existingLoans > 2) gaps.push({ gap: `${existingLoans} existing loans show high debt burden`, severity: 'moderate', fix: 'Consolidate or clear at least 2 loans before new application' });
+  if (emiToIncome > 40) gaps.push({ gap: `Proposed EMI would consume ${emiToIncome.toFixed(1)}% of income (max recommended: 40%)`, severity: 'critical', fix: 'Reduce loan amount or extend tenure to lower EMI' });
+  if (loanToIncome > 4) gaps.push({ gap: `Loan amount is ${loanToIncome.toFixed(1)}x your annual income (max: 4x)`, severity: 'moderate', fix: 'Consider requesting a lower loan amount' });
+  if (yearsExperience < 2) gaps.push({ gap: `Limited work experience (${yearsExperience} years)`, severity: 'minor', fix: 'Wait until 2+ years of stable employment' });
+  if (isEducationLoan && !hasCoBorrower) gaps.push({ gap: 'Education loan without co-borrower weakens underwriting strength', severity: 'moderate', fix: 'Add a parent/guardian co-borrower with stable income and KYC documents' });
+
+  const improvements: AnalysisSuggestion[] = [];
+  if (creditScore < 750) improvements.push({ action: `Improve credit score from ${creditScore} to 750+`, impact: `+${Math.round((750 - creditScore) * 0.1)}% approval`, timeline: '6-12 months' });
+  if (dti > 35) improvements.push({ action: `Reduce DTI from ${dti.toFixed(1)}% to below 35%`, impact: '+10-15% approval', timeline: '3-6 months' });
+  if (savingsRate < 15) improvements.push({ action: 'Build savings to 15%+ of income', impact: '+5-8% approval', timeline: '3-6 months' });
+  if (existingLoans > 0) improvements.push({ action: `Clear ${Math.min(existingLoans, 2)} existing loan(s)`, impact: '+8-12% approval', timeline: '6-12 months' });
+  if (!input.owns_house && !input.has_collateral) improvements.push({ action: 'Acquire assets or provide collateral', impact: '+5-10% approval', timeline: '12+ months' });
+  if (isEducationLoan && !hasCoBorrower) improvements.push({ action: 'Add parent/guardian as co-borrower', impact: '+6-12% approval', timeline: '1-2 weeks' });
+
+  const critical = gaps.filter((g) => g.severity === 'critical');
+
+  return {
+    approval_probability: probability,
+    risk_category: score.riskCategory,
+    financial_health_score: score.financialHealthScore,
+    debt_to_income_ratio: dti,
+    emi_affordability: score.emiAffordability,
+    summary: probability < 40
+      ? `Your application faces ${gaps.length} significant challenge(s). Credit score (${creditScore}) and DTI ratio (${dti.toFixed(1)}%) need improvement. Current approval probability is low at ${probability}%.`
+      : probability < 65
+      ? `Your profile shows moderate strength with credit score ${creditScore} and ₹${monthlyIncome.toLocaleString()} monthly income, but ${gaps.length > 0 ? 'some areas need attention' : 'improvements would help'}. Approval probability: ${probability}%.`
+      : `Strong financial profile with credit score ${creditScore}, healthy DTI of ${dti.toFixed(1)}%, and good savings discipline. High approval probability at ${probability}%.`,
+    factors: [
+      { name: 'Credit Score', level: creditScore >= 720 ? 'low' : creditScore >= 650 ? 'medium' : 'high', description: `Current score: ${creditScore}/900 (Industry avg: 715)`, improvement: creditScore < 750 ? 'Pay bills on time, maintain credit utilization <30%, check credit report for errors' : 'Maintain current discipline', impact_percent: 35 },
+      { name: 'Debt Management', level: dti < 35 ? 'low' : dti < 50 ? 'medium' : 'high', description: `DTI ratio: ${dti.toFixed(1)}% (Safe limit: 40%)`, improvement: dti > 40 ? (ledger.count > 0 ? payDownTo(35) : `Reduce monthly obligations by ₹${Math.round(monthlyIncome * (dti - 35) / 100)}`) : 'Well managed', impact_percent: 25 },
+      { name: 'Income Stability', level: monthlyIncome >= 50000 && yearsExperience >= 3 ? 'low' : monthlyIncome >= 25000 ? 'medium' : 'high', description: `₹${monthlyIncome.toLocaleString()}/month with ${yearsExperience}yr experience`, improvement: 'Build secondary income streams, complete 3+ years current job', impact_percent: 20 },
+      { name: 'Savings Discipline', level: savingsRate >= 20 ? 'low' : savingsRate >= 10 ? 'medium' : 'high', description: `Saving ${savingsRate.toFixed(1)}% of income (Recommended: 20%+)`, improvement: `Increase monthly savings by ₹${Math.max(0, Math.round(monthlyIncome * (0.20 - savingsRate / 100)))}`, impact_percent: 15 },
+      { name: 'Loan Burden', level: existingLoans === 0 ? 'low' : existingLoans <= 2 ? 'medium' : 'high', description: ledger.count > 0 ? `${existingLoans} active loans, ₹${ledger.monthlyObligation.toLocaleString('en-IN')}/month on ₹${ledger.outstanding.toLocaleString('en-IN')} outstanding` : `${existingLoans} active loans`, improvement: existingLoans > 0 ? 'Clear smallest loans first, avoid new credit' : 'Excellent - no existing loans', impact_percent: 5 },
+      ...(isEducationLoan ? [{
+        name: 'Education Loan Co-borrower',
+        level: (hasCoBorrower ? 'low' : 'high') as FactorLevel,
+        description: hasCoBorrower ? `Co-borrower: ${input.co_borrower} (improves lender confidence)` : 'No co-borrower provided for education loan',
+        improvement: hasCoBorrower ? 'Keep co-borrower income proof and KYC ready' : 'Add parent/guardian as co-borrower',
+        impact_percent: 10,
+      }] : []),
+    ],
+    eligibility_gaps: gaps.slice(0, 5),
+    improvement_suggestions: improvements.slice(0, 6),
+    roadmap: gaps.length > 2 ? [
+      { step: 1, title: 'Address Critical Issues', description: critical.map((g) => g.fix).join('; ') || 'Focus on credit score and debt reduction', duration: '3-6 months' },
+      { step: 2, title: 'Build Financial Buffer', description: 'Save 3 months of expenses, reduce DTI below 35%, maintain payment discipline', duration: '3-4 months' },
+      { step: 3, title: 'Strengthen Profile', description: 'Improve credit score to 720+, gather all required documents, compare bank offerings', duration: '2-3 months' },
+      { step: 4, title: 'Apply Strategically', description: 'Apply to 2-3 pre-approved banks simultaneously, start with highest match score', duration: '2-4 weeks' },
+    ] : [
+      { step: 1, title: 'Final Document Check', description: 'Gather all required documents: Aadhaar, PAN, 6-month bank statements, income proof, address proof', duration: '1 week' },
+      { step: 2, title: 'Compare Bank Offers', description: 'Get pre-approval from top 3 matched banks, compare interest rates and terms', duration: '1-2 weeks' },
+      { step: 3, title: 'Submit Application', description: 'Apply to highest match bank first, maintain clean credit during processing', duration: '2-3 weeks' },
+    ],
+    recommended_banks: recommendedBanks,
+    readiness: {
+      can_apply_now: probability >= 55 && critical.length === 0,
+      wait_days: probability >= 55 ? 0 : critical.length > 0 ? 90 : 30,
+      reasons: probability < 55 && gaps.length > 0 ? gaps.slice(0, 3).map((g) => g.gap) : ['Profile meets minimum criteria for application'],
+    },
+    documents_needed: DEFAULT_DOCUMENTS,
+  };
+}
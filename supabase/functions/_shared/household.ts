@@ -0,0 +1,128 @@
+/**
+ * Household model — co-applicants and the lender rules for pooling income.
+ *
+ * Dependency-free and shared like the scoring engine: the browser imports it
+ * via `@/lib/household`, the edge functions via `../_shared/household.ts`.
+ * Lenders only club the income of close relatives, and only for some loan
+ * purposes; combineHousehold applies those rules and reports who was left out.
+ */
+
+export type CoApplicantRelationship = 'Spouse' | 'Parent/Guardian' | 'Child' | 'Sibling' | 'Other';
+
+export const RELATIONSHIPS: CoApplicantRelationship[] = ['Spouse', 'Parent/Guardian', 'Child', 'Sibling', 'Other'];
+
+/** A household member applying alongside the main applicant */
+export interface CoApplicant {
+  name?: string;
+  relationship: CoApplicantRelationship;
+  monthly_income: number;
+  job_type: string;
+  credit_score: number;
+  /** Total monthly EMI the member already pays */
+  existing_emi: number;
+}
+
+/** Most co-applicants a lender will put on one loan */
+export const MAX_CO_APPLICANTS = 3;
+
+/** Members below this credit score are not added to the loan */
+export const MIN_CO_APPLICANT_CREDIT_SCORE = 600;
+
+/**
+ * Loan purposes each relationship may pool income for. An empty list means any
+ * purpose; null means lenders never club that relationship's income.
+ */
+export const INCOME_POOLING_RULES: Record<CoApplicantRelationship, string[] | null> = {
+  Spouse: [],
+  'Parent/Guardian': [],
+  Child: [],
+  // Siblings are accepted as co-owners of a home, not for unsecured loans
+  Sibling: ['Home'],
+  Other: null,
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/** Co-applicants from untrusted JSON (request bodies, stored rows); malformed members are dropped */
+export function parseCoApplicants(value: unknown): CoApplicant[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw): CoApplicant[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const m = raw as Record<string, unknown>;
+    if (!RELATIONSHIPS.includes(m.relationship as CoApplicantRelationship)) return [];
+    if (!isFiniteNumber(m.monthly_income) || !isFiniteNumber(m.credit_score)) return [];
+    return [{
+      ...(typeof m.name === 'string' && m.name.trim() ? { name: m.name.trim().slice(0, 80) } : {}),
+      relationship: m.relationship as CoApplicantRelationship,
+      monthly_income: Math.max(0, m.monthly_income),
+      job_type: typeof m.job_type === 'string' ? m.job_type : 'Salaried',
+      credit_score: Math.min(900, Math.max(300, m.credit_score)),
+      existing_emi: isFiniteNumber(m.existing_emi) ? Math.max(0, m.existing_emi) : 0,
+    }];
+  });
+}
+
+/** Fields combineHousehold reads; ScoringInput and LenderMatchProfile satisfy it */
+export interface HouseholdInput {
+  monthly_income: number;
+  credit_score: number;
+  loan_purpose?: string;
+  co_applicants?: CoApplicant[];
+}
+
+export interface ExcludedCoApplicant {
+  member: CoApplicant;
+  reason: string;
+}
+
+export interface HouseholdSummary {
+  applicantIncome: number;
+  /** Applicant income plus every pooled member's income */
+  monthlyIncome: number;
+  /** Existing EMIs of pooled members, which lenders count against the household */
+  coApplicantEmi: number;
+  /** Lowest credit score on the loan: lenders price to the weakest applicant */
+  creditScore: number;
+  pooled: CoApplicant[];
+  excluded: ExcludedCoApplicant[];
+}
+
+/** Why lenders would not club this member's income, or null if they would */
+export function poolingBlocker(member: CoApplicant, loanPurpose?: string): string | null {
+  const purposes = INCOME_POOLING_RULES[member.relationship] ?? null;
+  if (purposes === null) return `Lenders don't club income from ${member.relationship.toLowerCase()} co-applicants`;
+  if (purposes.length > 0 && !purposes.some((p) => p.toLowerCase() === loanPurpose?.toLowerCase())) {
+    return `${member.relationship} income only counts for ${purposes.join('/')} loans`;
+  }
+  if (member.credit_score < MIN_CO_APPLICANT_CREDIT_SCORE) {
+    return `Credit score ${member.credit_score} is below ${MIN_CO_APPLICANT_CREDIT_SCORE}`;
+  }
+  if (!(member.monthly_income > 0)) return 'No income to add';
+  return null;
+}
+
+/**
+ * Apply the pooling rules to a household. Members are taken in order until
+ * MAX_CO_APPLICANTS are pooled; the rest are reported as excluded.
+ */
+export function combineHousehold(input: HouseholdInput): HouseholdSummary {
+  const pooled: CoApplicant[] = [];
+  const excluded: ExcludedCoApplicant[] = [];
+  for (const member of input.co_applicants ?? []) {
+    const blocker = pooled.length >= MAX_CO_APPLICANTS
+      ? `Lenders accept at most ${MAX_CO_APPLICANTS} co-applicants`
+      : poolingBlocker(member, input.loan_purpose);
+    if (blocker) excluded.push({ member, reason: blocker });
+    else pooled.push(member);
+  }
+
+  const applicantIncome = input.monthly_income || 0;
+  return {
+    applicantIncome,
+    monthlyIncome: pooled.reduce((sum, m) => sum + m.monthly_income, applicantIncome),
+    coApplicantEmi: pooled.reduce((sum, m) => sum + Math.max(m.existing_emi || 0, 0), 0),
+    creditScore: Math.min(input.credit_score, ...pooled.map((m) => m.credit_score)),
+    pooled,
+    excluded,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * Language registry shared by the browser app and the edge functions.
+ *
+ * Adding a language means adding an entry here and a bundle at
+ * src/i18n/locales/<code>.json. The UI, speech input/output and the LLM reply
+ * instruction all read from this list, but the UI only offers a language once
+ * it is in UI_LANGUAGES. Local (non-LLM) chat replies are hand
+ * written and only exist for LOCAL_REPLY_LANGUAGES; other languages get those
+ * replies in English while LLM answers follow `llmInstruction`.
+ */
+
+export const LANGUAGES = [
+  { code: "en", name: "English", nativeName: "English", speechLocale: "en-IN", llmInstruction: "Respond in English." },
+  { code: "hi", name: "Hindi", nativeName: "हिंदी", speechLocale: "hi-IN", llmInstruction: "Respond entirely in Hindi (Devanagari script) unless user asks for English." },
+  { code: "ta", name: "Tamil", nativeName: "தமிழ்", speechLocale: "ta-IN", llmInstruction: "Respond entirely in Tamil unless user asks for English." },
+  { code: "bn", name: "Bengali", nativeName: "বাংলা", speechLocale: "bn-IN", llmInstruction: "Respond entirely in Bengali (Bengali script) unless user asks for English." },
+  { code: "mr", name: "Marathi", nativeName: "मराठी", speechLocale: "mr-IN", llmInstruction: "Respond entirely in Marathi (Devanagari script) unless user asks for English." },
+  { code: "te", name: "Telugu", nativeName: "తెలుగు", speechLocale: "te-IN", llmInstruction: "Respond entirely in Telugu (Telugu script) unless user asks for English." },
+  { code: "kn", name: "Kannada", nativeName: "ಕನ್ನಡ", speechLocale: "kn-IN", llmInstruction: "Respond entirely in Kannada (Kannada script) unless user asks for English." },
+] as const;
+
+export type LanguageInfo = (typeof LANGUAGES)[number];
+export type Language = LanguageInfo["code"];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/**
+ * Languages the UI picker offers and browser detection can choose. A language
+ * joins when its bundle clears UI_COVERAGE_THRESHOLD (src/i18n/completeness.ts);
+ * the i18n tests fail until this list matches the bundles.
+ */
+export const UI_LANGUAGES = ["en", "hi", "ta", "bn", "mr", "te", "kn"] as const satisfies readonly Language[];
+
+/** Languages with hand-written local agent replies */
+export const LOCAL_REPLY_LANGUAGES = ["en", "hi", "ta"] as const satisfies readonly Language[];
+export type LocalReplyLanguage = (typeof LOCAL_REPLY_LANGUAGES)[number];
+
+export function isLanguage(value: unknown): value is Language {
+  return LANGUAGES.some((l) => l.code === value);
+}
+
+export function isUiLanguage(value: unknown): value is Language {
+  return (UI_LANGUAGES as readonly unknown[]).includes(value);
+}
+
+export function languageInfo(code: Language): LanguageInfo {
+  return LANGUAGES.find((l) => l.code === code) ?? LANGUAGES[0];
+}
+
+/** Language for local replies: the user's own if we have one, otherwise English */
+export function localReplyLanguage(code: Language): LocalReplyLanguage {
+  return (LOCAL_REPLY_LANGUAGES as readonly string[]).includes(code) ? (code as LocalReplyLanguage) : "en";
+}
+
+/** Instruction appended to LLM system prompts so answers come back in `code` */
+export function llmInstruction(code: Language): string {
+  return languageInfo(code).llmInstruction;
+}
@@ -0,0 +1,420 @@
+/**
+ * Lender Catalog — products, eligibility rules and the recommender.
+ *
+ * Like the scoring engine this module is dependency-free and shared between
+ * the browser (via `@/lib/lenders`) and the edge functions. The catalog itself
+ * lives in the `lender_products` table; DEFAULT_LENDER_CATALOG mirrors the
+ * seed migration and is used whenever the table can't be reached.
+ */
+
+import { calculateEMI } from './scoring.ts';
+import { combineHousehold, type CoApplicant } from './household.ts';
+
+/** Interest rate range offered to applicants at or above a credit score */
+export interface RateBand {
+  min_credit_score: number;
+  min_rate: number;
+  max_rate: number;
+}
+
+export interface LenderProduct {
+  id: string;
+  lender_name: string;
+  product_name: string;
+  lender_type: 'PSU' | 'Private' | 'NBFC';
+  logo_url?: string;
+  apply_url?: string;
+  /** Accepted loan purposes; empty means any purpose */
+  loan_purposes: string[];
+  /** Accepted job types; empty means any job type */
+  job_types: string[];
+  min_income: number;
+  /** Maximum loan amount as a multiple of annual income */
+  max_lti: number;
+  min_credit_score: number;
+  max_tenure_months: number;
+  rate_bands: RateBand[];
+  processing_fee_percent: number;
+  processing_fee_min: number;
+  processing_fee_max?: number | null;
+  features: string[];
+  is_active: boolean;
+}
+
+/** Profile fields the recommender reads; a LoanFormData satisfies it */
+export interface LenderMatchProfile {
+  monthly_income: number;
+  loan_amount: number;
+  loan_tenure: number;
+  credit_score: number;
+  job_type?: string;
+  loan_purpose?: string;
+  /** Income is pooled and the lowest credit score applies, per household rules */
+  co_applicants?: CoApplicant[];
+}
+
+/** Structurally compatible with the browser's BankRecommendation */
+export interface LenderRecommendation {
+  name: string;
+  product_name: string;
+  logo?: string;
+  interest_rate: string;
+  interestRate: string;
+  match_score: number;
+  matchScore: number;
+  features: string[];
+  apply_url?: string;
+  eligibility_notes: string;
+  processing_fee: number;
+  /** Why this lender was matched (or what blocks it) */
+  reasons: string[];
+}
+
+export interface LenderEvaluation {
+  product: LenderProduct;
+  eligible: boolean;
+  rateBand: RateBand | null;
+  reasons: string[];
+  blockers: string[];
+  matchScore: number;
+}
+
+export interface RecommendOptions {
+  /** Approval probability from the scoring engine; anchors each match score */
+  approvalProbability: number;
+  limit?: number;
+  /** Pad with closest near-misses when fewer lenders qualify */
+  minResults?: number;
+}
+
+const formatINR = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+const formatRate = (band: RateBand) => `${band.min_rate.toFixed(2)}% – ${band.max_rate.toFixed(2)}%`;
+
+const listAccepts = (list: string[], value?: string) =>
+  list.length === 0 || (!!value && list.some((v) => v.toLowerCase() === value.toLowerCase()));
+
+/**
+ * Best rate band the applicant qualifies for, i.e. the band with the highest
+ * threshold that is still at or below their credit score.
+ */
+export function rateBandFor(product: LenderProduct, creditScore: number): RateBand | null {
+  const bands = product.rate_bands
+    .filter((b) => creditScore >= b.min_credit_score)
+    .sort((a, b) => b.min_credit_score - a.min_credit_score);
+  return bands[0] ?? null;
+}
+
+export function processingFee(product: LenderProduct, loanAmount: number): number {
+  const fee = Math.max(product.processing_fee_min, (loanAmount * product.processing_fee_percent) / 100);
+  return Math.round(product.processing_fee_max ? Math.min(fee, product.processing_fee_max) : fee);
+}
+
+/**
+ * Check a profile against one product's rules and score the fit.
+ */
+export function evaluateLender(
+  product: LenderProduct,
+  profile: LenderMatchProfile,
+  approvalProbability: number
+): LenderEvaluation {
+  const reasons: string[] = [];
+  const blockers: string[] = [];
+  const household = combineHousehold(profile);
+  const income = household.monthlyIncome;
+  const creditScore = household.creditScore;
+  const annualIncome = Math.max(income, 1) * 12;
+  const lti = profile.loan_amount / annualIncome;
+  const rateBand = rateBandFor(product, creditScore);
+
+  if (!listAccepts(product.loan_purposes, profile.loan_purpose)) {
+    blockers.push(`Does not offer ${profile.loan_purpose || 'this type of'} loans`);
+  } else if (product.loan_purposes.length > 0) {
+    reasons.push(`Dedicated ${profile.loan_purpose} loan product`);
+  }
+
+  if (!listAccepts(product.job_types, profile.job_type)) {
+    blockers.push(`Not available to ${profile.job_type || 'your'} applicants`);
+  } else if (product.job_types.length > 0) {
+    reasons.push(`Accepts ${profile.job_type} applicants`);
+  }
+
+  if (income < product.min_income) {
+    blockers.push(`Needs ${formatINR(product.min_income)}/month income (you have ${formatINR(income)})`);
+  } else {
+    reasons.push(`Income ${formatINR(income)} meets the ${formatINR(product.min_income)} minimum`);
+  }
+  if (household.pooled.length > 0) {
+    reasons.push(`Includes ${formatINR(income - household.applicantIncome)}/month from ${household.pooled.map((m) => m.relationship).join(', ')}`);
+  }
+
+  if (creditScore < product.min_credit_score || !rateBand) {
+    const whose = household.pooled.length > 0 ? 'lowest on the loan is' : 'you have';
+    blockers.push(`Needs credit score ${product.min_credit_score}+ (${whose} ${creditScore})`);
+  } else {
+    reasons.push(`Credit score ${creditScore} qualifies for ${formatRate(rateBand)}`);
+  }
+
+  if (lti > product.max_lti) {
+    blockers.push(`Loan is ${lti.toFixed(1)}× annual income; limit is ${product.max_lti}×`);
+  } else {
+    reasons.push(`Loan is ${lti.toFixed(1)}× annual income (limit ${product.max_lti}×)`);
+  }
+
+  if (profile.loan_tenure > product.max_tenure_months) {
+    blockers.push(`Maximum tenure is ${product.max_tenure_months} months`);
+  }
+
+  // Anchor on the engine's probability, then reward cheaper rates, income
+  // headroom and products built for the applicant's segment
+  let matchScore = approvalProbability;
+  if (rateBand) matchScore += Math.round((12 - rateBand.min_rate) * 3);
+  if (income >= product.min_income * 2) matchScore += 4;
+  if (product.job_types.length > 0 && listAccepts(product.job_types, profile.job_type)) matchScore += 4;
+  if (product.loan_purposes.length > 0 && listAccepts(product.loan_purposes, profile.loan_purpose)) matchScore += 4;
+  matchScore -= blockers.length * 20;
+
+  return {
+    product,
+    eligible: blockers.length === 0,
+    rateBand,
+    reasons,
+    blockers,
+    matchScore: Math.max(5, Math.min(98, Math.round(matchScore))),
+  };
+}
+
+function toRecommendation(evaluation: LenderEvaluation, profile: LenderMatchProfile): LenderRecommendation {
+  const { product, rateBand, eligible } = evaluation;
+  const band = rateBand ?? product.rate_bands[product.rate_bands.length - 1];
+  const rate = band ? formatRate(band) : 'On request';
+  const fee = processingFee(product, profile.loan_amount);
+  const emi = band ? calculateEMI(profile.loan_amount, band.min_rate, profile.loan_tenure) : 0;
+
+  return {
+    name: product.lender_name,
+    product_name: product.product_name,
+    logo: product.logo_url,
+    interest_rate: rate,
+    interestRate: rate,
+    match_score: evaluation.matchScore,
+    matchScore: evaluation.matchScore,
+    features: [
+      ...(emi ? [`EMI from ${formatINR(emi)}/month`] : []),
+      `Processing fee ~${formatINR(fee)}`,
+      ...product.features,
+    ],
+    apply_url: product.apply_url,
+    eligibility_notes: eligible
+      ? `${product.product_name}: ${evaluation.reasons[0] ?? 'meets all criteria'}`
+      : `Not yet eligible: ${evaluation.blockers.join('; ')}`,
+    processing_fee: fee,
+    reasons: eligible ? evaluation.reasons : evaluation.blockers,
+  };
+}
+
+/**
+ * Match a profile against the catalog and return ranked recommendations,
+ * keeping each lender's best-fitting product only.
+ */
+export function recommendLenders(
+  profile: LenderMatchProfile,
+  catalog: LenderProduct[],
+  { approvalProbability, limit = 5, minResults = 2 }: RecommendOptions
+): LenderRecommendation[] {
+  const evaluations = catalog
+    .filter((p) => p.is_active)
+    .map((p) => evaluateLender(p, profile, approvalProbability))
+    .sort((a, b) =>
+      Number(b.eligible) - Number(a.eligible) ||
+      b.matchScore - a.matchScore ||
+      (a.rateBand?.min_rate ?? 99) - (b.rateBand?.min_rate ?? 99)
+    );
+
+  const bestPerLender: LenderEvaluation[] = [];
+  for (const evaluation of evaluations) {
+    if (!bestPerLender.some((e) => e.product.lender_name === evaluation.product.lender_name)) {
+      bestPerLender.push(evaluation);
+    }
+  }
+
+  const eligible = bestPerLender.filter((e) => e.eligible);
+  const nearMisses = bestPerLender
+    .filter((e) => !e.eligible)
+    .sort((a, b) => a.blockers.length - b.blockers.length || b.matchScore - a.matchScore);
+  const picked = [...eligible, ...nearMisses.slice(0, Math.max(0, minResults - eligible.length))];
+
+  return picked.slice(0, limit).map((e) => toRecommendation(e, profile));
+}
+
+/**
+ * Normalise a `lender_products` row (numeric columns may arrive as strings).
+ */
+export function parseLenderRow(row: Record<string, unknown>): LenderProduct {
+  const num = (v: unknown, fallback = 0) => (v === null || v === undefined || v === '' ? fallback : Number(v));
+  const strings = (v: unknown) => (Array.isArray(v) ? v.map(String) : []);
+  const bands = Array.isArray(row.rate_bands) ? (row.rate_bands as Record<string, unknown>[]) : [];
+
+  return {
+    id: String(row.id),
+    lender_name: String(row.lender_name),
+    product_name: String(row.product_name),
+    lender_type: (row.lender_type as LenderProduct['lender_type']) || 'Private',
+    logo_url: (row.logo_url as string) || undefined,
+    apply_url: (row.apply_url as string) || undefined,
+    loan_purposes: strings(row.loan_purposes),
+    job_types: strings(row.job_types),
+    min_income: num(row.min_income),
+    max_lti: num(row.max_lti, 5),
+    min_credit_score: num(row.min_credit_score, 300),
+    max_tenure_months: num(row.max_tenure_months, 360),
+    rate_bands: bands.map((b) => ({
+      min_credit_score: num(b.min_credit_score),
+      min_rate: num(b.min_rate),
+      max_rate: num(b.max_rate),
+    })),
+    processing_fee_percent: num(row.processing_fee_percent),
+    processing_fee_min: num(row.processing_fee_min),
+    processing_fee_max: row.processing_fee_max === null || row.processing_fee_max === undefined ? null : num(row.processing_fee_max),
+    features: strings(row.features),
+    is_active: row.is_active !== false,
+  };
+}
+
+/**
+ * Fallback catalog. Keep in sync with the `lender_products` seed migration.
+ */
+export const DEFAULT_LENDER_CATALOG: LenderProduct[] = [
+  {
+    id: 'sbi-personal', lender_name: 'State Bank of India', product_name: 'Xpress Credit Personal Loan', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/sbi.co.in', apply_url: 'https://sbi.co.in/web/personal-banking/loans/personal-loan',
+    loan_purposes: ['Personal', 'Medical', 'Debt Consolidation'], job_types: ['Government', 'Salaried'],
+    min_income: 15000, max_lti: 2, min_credit_score: 650, max_tenure_months: 72,
+    rate_bands: [
+      { min_credit_score: 650, min_rate: 11.15, max_rate: 12.65 },
+      { min_credit_score: 750, min_rate: 10.3, max_rate: 11.3 },
+    ],
+    processing_fee_percent: 1, processing_fee_min: 1000, processing_fee_max: 15000,
+    features: ['Government backed', 'Concession for defence & govt staff'], is_active: true,
+  },
+  {
+    id: 'sbi-home', lender_name: 'State Bank of India', product_name: 'Regular Home Loan', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/sbi.co.in', apply_url: 'https://homeloans.sbi/',
+    loan_purposes: ['Home'], job_types: [],
+    min_income: 20000, max_lti: 6, min_credit_score: 600, max_tenure_months: 360,
+    rate_bands: [
+      { min_credit_score: 600, min_rate: 9.15, max_rate: 9.65 },
+      { min_credit_score: 750, min_rate: 8.3, max_rate: 8.75 },
+    ],
+    processing_fee_percent: 0.35, processing_fee_min: 2000, processing_fee_max: 10000,
+    features: ['Lowest home loan rates', 'No prepayment penalty'], is_active: true,
+  },
+  {
+    id: 'sbi-education', lender_name: 'State Bank of India', product_name: 'Student Loan Scheme', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/sbi.co.in', apply_url: 'https://sbi.co.in/web/personal-banking/loans/education-loans',
+    loan_purposes: ['Education'], job_types: [],
+    min_income: 0, max_lti: 10, min_credit_score: 300, max_tenure_months: 180,
+    rate_bands: [{ min_credit_score: 300, min_rate: 8.15, max_rate: 10.15 }],
+    processing_fee_percent: 0, processing_fee_min: 0, processing_fee_max: 0,
+    features: ['Moratorium till course end + 1 year', 'Parent co-borrower accepted'], is_active: true,
+  },
+  {
+    id: 'hdfc-personal', lender_name: 'HDFC Bank', product_name: 'Personal Loan', lender_type: 'Private',
+    logo_url: 'https://logo.clearbit.com/hdfcbank.com', apply_url: 'https://www.hdfcbank.com/personal/borrow/popular-loans/personal-loan',
+    loan_purposes: ['Personal', 'Medical', 'Debt Consolidation'], job_types: ['Salaried', 'Government'],
+    min_income: 25000, max_lti: 2, min_credit_score: 700, max_tenure_months: 60,
+    rate_bands: [
+      { min_credit_score: 700, min_rate: 10.9, max_rate: 14 },
+      { min_credit_score: 760, min_rate: 10.75, max_rate: 12.5 },
+    ],
+    processing_fee_percent: 2, processing_fee_min: 999, processing_fee_max: 6500,
+    features: ['Pre-approved offers', 'Disbursal in 10 seconds for existing customers'], is_active: true,
+  },
+  {
+    id: 'icici-personal', lender_name: 'ICICI Bank', product_name: 'Personal Loan', lender_type: 'Private',
+    logo_url: 'https://logo.clearbit.com/icicibank.com', apply_url: 'https://www.icicibank.com/personal-banking/loans/personal-loan',
+    loan_purposes: ['Personal', 'Medical', 'Debt Consolidation'], job_types: ['Salaried', 'Government', 'Self Employed'],
+    min_income: 30000, max_lti: 2, min_credit_score: 720, max_tenure_months: 72,
+    rate_bands: [{ min_credit_score: 720, min_rate: 10.85, max_rate: 16.25 }],
+    processing_fee_percent: 2, processing_fee_min: 1000, processing_fee_max: null,
+    features: ['Instant approval', 'Flexible tenure'], is_active: true,
+  },
+  {
+    id: 'axis-business', lender_name: 'Axis Bank', product_name: 'Business Loan', lender_type: 'Private',
+    logo_url: 'https://logo.clearbit.com/axisbank.com', apply_url: 'https://www.axisbank.com/business-banking/small-business-banking/business-loans',
+    loan_purposes: ['Business', 'Personal'], job_types: ['Self Employed', 'Business'],
+    min_income: 20000, max_lti: 3, min_credit_score: 680, max_tenure_months: 60,
+    rate_bands: [{ min_credit_score: 680, min_rate: 12, max_rate: 17 }],
+    processing_fee_percent: 2, processing_fee_min: 2000, processing_fee_max: null,
+    features: ['Self-employed friendly', 'Low documentation'], is_active: true,
+  },
+  {
+    id: 'kotak-personal', lender_name: 'Kotak Mahindra Bank', product_name: 'Personal Loan', lender_type: 'Private',
+    logo_url: 'https://logo.clearbit.com/kotak.com', apply_url: 'https://www.kotak.com/en/personal-banking/loans/personal-loan.html',
+    loan_purposes: ['Personal', 'Medical'], job_types: ['Salaried'],
+    min_income: 50000, max_lti: 2.5, min_credit_score: 730, max_tenure_months: 72,
+    rate_bands: [{ min_credit_score: 730, min_rate: 10.99, max_rate: 16.99 }],
+    processing_fee_percent: 1.5, processing_fee_min: 2500, processing_fee_max: null,
+    features: ['Premium service for high earners'], is_active: true,
+  },
+  {
+    id: 'pnb-vehicle', lender_name: 'Punjab National Bank', product_name: 'PNB Vehicle Loan', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/pnbindia.in', apply_url: 'https://www.pnbindia.in/vehicle-loan.html',
+    loan_purposes: ['Vehicle'], job_types: [],
+    min_income: 10000, max_lti: 3, min_credit_score: 620, max_tenure_months: 84,
+    rate_bands: [
+      { min_credit_score: 620, min_rate: 9.5, max_rate: 10.5 },
+      { min_credit_score: 750, min_rate: 8.75, max_rate: 9.5 },
+    ],
+    processing_fee_percent: 0.25, processing_fee_min: 500, processing_fee_max: 1500,
+    features: ['Up to 90% on-road funding', 'Auto-rickshaw & commercial vehicles'], is_active: true,
+  },
+  {
+    id: 'pnb-kcc', lender_name: 'Punjab National Bank', product_name: 'Kisan Credit Card', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/pnbindia.in', apply_url: 'https://www.pnbindia.in/kisan-credit-card.html',
+    loan_purposes: ['Agriculture'], job_types: [],
+    min_income: 0, max_lti: 5, min_credit_score: 300, max_tenure_months: 60,
+    rate_bands: [{ min_credit_score: 300, min_rate: 7, max_rate: 9 }],
+    processing_fee_percent: 0, processing_fee_min: 0, processing_fee_max: 0,
+    features: ['Interest subvention for prompt repayment', 'No collateral up to ₹1.6 lakh'], is_active: true,
+  },
+  {
+    id: 'bob-general', lender_name: 'Bank of Baroda', product_name: 'Baroda Personal Loan', lender_type: 'PSU',
+    logo_url: 'https://logo.clearbit.com/bankofbaroda.in', apply_url: 'https://www.bankofbaroda.in/personal-banking/loans/personal-loan',
+    loan_purposes: [], job_types: ['Government', 'Salaried', 'Self Employed', 'Business'],
+    min_income: 15000, max_lti: 2.5, min_credit_score: 650, max_tenure_months: 84,
+    rate_bands: [
+      { min_credit_score: 650, min_rate: 11.4, max_rate: 15.5 },
+      { min_credit_score: 750, min_rate: 10.9, max_rate: 13.5 },
+    ],
+    processing_fee_percent: 2, processing_fee_min: 1000, processing_fee_max: 10000,
+    features: ['Rural-friendly branches', 'Quick approval (3-5 days)'], is_active: true,
+  },
+  {
+    id: 'idfc-personal', lender_name: 'IDFC First Bank', product_name: 'Personal Loan', lender_type: 'Private',
+    logo_url: 'https://logo.clearbit.com/idfcfirstbank.com', apply_url: 'https://www.idfcfirstbank.com/personal-banking/loans/personal-loan',
+    loan_purposes: ['Personal', 'Medical', 'Debt Consolidation'], job_types: ['Salaried', 'Self Employed'],
+    min_income: 20000, max_lti: 2, min_credit_score: 700, max_tenure_months: 60,
+    rate_bands: [{ min_credit_score: 700, min_rate: 10.99, max_rate: 23.99 }],
+    processing_fee_percent: 2, processing_fee_min: 1000, processing_fee_max: null,
+    features: ['Digital-first', 'Paperless process'], is_active: true,
+  },
+  {
+    id: 'bajaj-personal', lender_name: 'Bajaj Finance', product_name: 'Flexi Personal Loan', lender_type: 'NBFC',
+    logo_url: 'https://logo.clearbit.com/bajajfinserv.in', apply_url: 'https://www.bajajfinserv.in/personal-loan',
+    loan_purposes: ['Personal', 'Medical', 'Debt Consolidation', 'Business', 'Vehicle'], job_types: [],
+    min_income: 12000, max_lti: 2, min_credit_score: 600, max_tenure_months: 96,
+    rate_bands: [{ min_credit_score: 600, min_rate: 13, max_rate: 30 }],
+    processing_fee_percent: 3.93, processing_fee_min: 1000, processing_fee_max: null,
+    features: ['NBFC flexibility', 'Higher approval for lower scores'], is_active: true,
+  },
+  {
+    id: 'tata-business', lender_name: 'Tata Capital', product_name: 'Small Business Loan', lender_type: 'NBFC',
+    logo_url: 'https://logo.clearbit.com/tatacapital.com', apply_url: 'https://www.tatacapital.com/business-loan.html',
+    loan_purposes: ['Business', 'Personal', 'Vehicle'], job_types: ['Self Employed', 'Business'],
+    min_income: 12000, max_lti: 3, min_credit_score: 650, max_tenure_months: 60,
+    rate_bands: [{ min_credit_score: 650, min_rate: 12, max_rate: 24 }],
+    processing_fee_percent: 2.5, processing_fee_min: 1500, processing_fee_max: null,
+    features: ['Good for self-employed', 'Collateral-free up to ₹75 lakh'], is_active: true,
+  },
+];
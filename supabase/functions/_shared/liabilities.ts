@@ -0,0 +1,131 @@
+/**
+ * Liabilities ledger — the applicant's existing debts, one entry per obligation.
+ *
+ * Shared like the scoring engine (`@/lib/liabilities` in the browser,
+ * `../_shared/liabilities.ts` in Deno). When a ledger is present its EMIs
+ * replace the per-loan estimate everywhere obligations are counted.
+ */
+
+export type LiabilityType = 'credit_card' | 'gold_loan' | 'vehicle' | 'personal' | 'bnpl' | 'other';
+
+export const LIABILITY_TYPES: LiabilityType[] = ['credit_card', 'gold_loan', 'vehicle', 'personal', 'bnpl', 'other'];
+
+export const LIABILITY_LABELS: Record<LiabilityType, string> = {
+  credit_card: 'Credit card',
+  gold_loan: 'Gold loan',
+  vehicle: 'Vehicle loan',
+  personal: 'Personal loan',
+  bnpl: 'Buy now, pay later',
+  other: 'Other loan',
+};
+
+export interface Liability {
+  type: LiabilityType;
+  lender?: string;
+  outstanding: number;
+  /** Monthly instalment; for cards and BNPL, the minimum due */
+  emi: number;
+  /** Annual interest rate, percent */
+  annual_rate: number;
+  remaining_months: number;
+}
+
+/**
+ * Share of a revolving balance lenders count as the monthly obligation when
+ * no instalment is given (the usual credit card minimum due)
+ */
+export const REVOLVING_OBLIGATION_RATE = 0.05;
+
+const REVOLVING: LiabilityType[] = ['credit_card', 'bnpl'];
+
+/** What this debt costs each month, as a lender would count it */
+export function monthlyObligation(liability: Liability): number {
+  if (liability.emi > 0) return liability.emi;
+  return REVOLVING.includes(liability.type) ? Math.round(liability.outstanding * REVOLVING_OBLIGATION_RATE) : 0;
+}
+
+/** Debts that still cost something; paid-off rows left in the ledger don't count */
+export const activeLiabilities = (liabilities: Liability[] = []): Liability[] =>
+  liabilities.filter((l) => l.outstanding > 0 || l.emi > 0);
+
+export interface LedgerTotals {
+  count: number;
+  monthlyObligation: number;
+  outstanding: number;
+}
+
+export function ledgerTotals(liabilities: Liability[] = []): LedgerTotals {
+  const active = activeLiabilities(liabilities);
+  return {
+    count: active.length,
+    monthlyObligation: active.reduce((sum, l) => sum + monthlyObligation(l), 0),
+    outstanding: active.reduce((sum, l) => sum + l.outstanding, 0),
+  };
+}
+
+export interface PayoffPlan {
+  /** Debts to clear, in payoff order */
+  cleared: Liability[];
+  /** Cash needed to clear them */
+  outstanding: number;
+  /** Monthly obligation they free up */
+  emiFreed: number;
+}
+
+/**
+ * Cheapest debts to clear to free at least `emiToFree` a month: the ones that
+ * free the most EMI per rupee of balance go first, costlier rates breaking ties.
+ * Clears everything if even that falls short.
+ */
+export function payoffPlan(liabilities: Liability[], emiToFree: number): PayoffPlan {
+  const efficiency = (l: Liability) => monthlyObligation(l) / Math.max(l.outstanding, 1);
+  const ordered = [...activeLiabilities(liabilities)].sort(
+    (a, b) => efficiency(b) - efficiency(a) || b.annual_rate - a.annual_rate,
+  );
+  const plan: PayoffPlan = { cleared: [], outstanding: 0, emiFreed: 0 };
+  for (const liability of ordered) {
+    if (plan.emiFreed >= emiToFree) break;
+    plan.cleared.push(liability);
+    plan.outstanding += liability.outstanding;
+    plan.emiFreed += monthlyObligation(liability);
+  }
+  return plan;
+}
+
+export const describeLiability = (liability: Liability): string =>
+  liability.lender ? `${LIABILITY_LABELS[liability.type]} (${liability.lender})` : LIABILITY_LABELS[liability.type];
+
+const formatINR = (n: number) => `₹${Math.round(n).toLocaleString('en-IN')}`;
+
+/**
+ * "Pay down" advice for freeing `emiToFree` a month: names the debts to clear
+ * when there is a ledger, otherwise just the EMI cut needed.
+ */
+export function payDownAdvice(liabilities: Liability[] | undefined, emiToFree: number): string {
+  if (activeLiabilities(liabilities).length === 0) return `Cut existing EMIs by ${formatINR(emiToFree)}/month`;
+  const plan = payoffPlan(liabilities ?? [], emiToFree);
+  return `Pay off ${plan.cleared.map(describeLiability).join(', ')} (${formatINR(plan.outstanding)} outstanding), `
+    + `freeing ${formatINR(plan.emiFreed)}/month`;
+}
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const nonNegative = (value: unknown) => (isFiniteNumber(value) ? Math.max(0, value) : 0);
+
+/** A ledger from untrusted JSON (request bodies, stored rows); malformed rows are dropped */
+export function parseLiabilities(value: unknown): Liability[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap((raw): Liability[] => {
+    if (!raw || typeof raw !== 'object') return [];
+    const l = raw as Record<string, unknown>;
+    if (!LIABILITY_TYPES.includes(l.type as LiabilityType)) return [];
+    return [{
+      type: l.type as LiabilityType,
+      ...(typeof l.lender === 'string' && l.lender.trim() ? { lender: l.lender.trim().slice(0, 80) } : {}),
+      outstanding: nonNegative(l.outstanding),
+      emi: nonNegative(l.emi),
+      annual_rate: Math.min(nonNegative(l.annual_rate), 100),
+      remaining_months: Math.round(nonNegative(l.remaining_months)),
+    }];
+  });
+}
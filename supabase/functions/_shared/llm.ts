@@ -0,0 +1,500 @@
+/**
+ * LLM provider layer shared by the chat and financial-analysis edge functions.
+ *
+ * Adapters for Hugging Face Inference, any OpenAI-compatible endpoint
+ * (OpenAI, vLLM, llama.cpp server) and a local Ollama server, chosen and
+ * ordered by env config. Every call has a timeout, and on failure the next
+ * provider in the list is tried. Runtime-agnostic: env is read through the
+ * getter passed to `loadLlmConfig`, and `fetch` can be injected for tests.
+ */
+
+export type LlmProviderId = 'huggingface' | 'openai' | 'llamacpp' | 'ollama';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+}
+
+export interface LlmRequest {
+  system: string;
+  messages: LlmMessage[];
+  maxTokens: number;
+  temperature: number;
+  topP?: number;
+  topK?: number;
+  repetitionPenalty?: number;
+  presencePenalty?: number;
+  /** Cancels the request; aborts are never failed over */
+  signal?: AbortSignal;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  model: string;
+  /** Whole completion as one string */
+  complete(req: LlmRequest): Promise<string>;
+  /** Resolves once the provider has accepted the request; yields text tokens */
+  stream(req: LlmRequest): Promise<AsyncIterable<string>>;
+}
+
+export interface LlmProviderConfig {
+  id: LlmProviderId;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+export interface LlmConfig {
+  providers: LlmProviderConfig[];
+  /** Providers named in LLM_PROVIDERS that are unknown or missing settings */
+  warnings: string[];
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    /** Upstream HTTP status, 504 for timeouts, 502 when providers failed differently */
+    readonly status: number,
+    readonly provider: LlmProviderId | 'failover',
+    readonly attempts: LlmError[] = [],
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+type FetchLike = typeof fetch;
+
+export const DEFAULT_TIMEOUT_MS = 30000;
+export const DEFAULT_HF_MODEL = 'DragonLLM/Llama-Open-Finance-8B';
+
+// ── Config ───────────────────────────────────────────────────────
+
+/**
+ * Read provider settings from env.
+ *
+ * - `LLM_PROVIDERS`: comma-separated failover order, e.g. `ollama,huggingface`.
+ *   Defaults to `huggingface` so existing deployments keep working.
+ * - `LLM_TIMEOUT_MS`: per-request timeout (and idle timeout while streaming).
+ * - `HUGGING_FACE_TOKEN`, `HF_MODEL`, `HF_BASE_URL`
+ * - `OPENAI_API_KEY`, `OPENAI_MODEL`, `OPENAI_BASE_URL`
+ * - `LLAMACPP_BASE_URL`, `LLAMACPP_MODEL` (OpenAI-compatible, no key)
+ * - `OLLAMA_BASE_URL`, `OLLAMA_MODEL`
+ */
+export function loadLlmConfig(getEnv: (key: string) => string | undefined): LlmConfig {
+  const timeoutMs = Number(getEnv('LLM_TIMEOUT_MS')) || DEFAULT_TIMEOUT_MS;
+  const order = (getEnv('LLM_PROVIDERS') || 'huggingface')
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: LlmProviderConfig[] = [];
+  const warnings: string[] = [];
+  for (const id of order) {
+    if (id === 'huggingface') {
+      const apiKey = getEnv('HUGGING_FACE_TOKEN');
+      if (!apiKey) {
+        warnings.push('huggingface: HUGGING_FACE_TOKEN is not configured');
+        continue;
+      }
+      providers.push({
+        id,
+        apiKey,
+        timeoutMs,
+        model: getEnv('HF_MODEL') || DEFAULT_HF_MODEL,
+        baseUrl: getEnv('HF_BASE_URL') || 'https://api-inference.huggingface.co/models',
+      });
+    } else if (id === 'openai') {
+      const model = getEnv('OPENAI_MODEL');
+      if (!model) {
+        warnings.push('openai: OPENAI_MODEL is not configured');
+        continue;
+      }
+      providers.push({
+        id,
+        model,
+        timeoutMs,
+        apiKey: getEnv('OPENAI_API_KEY'),
+        baseUrl: getEnv('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+      });
+    } else if (id === 'llamacpp') {
+      providers.push({
+        id,
+        timeoutMs,
+        model: getEnv('LLAMACPP_MODEL') || 'local',
+        baseUrl: getEnv('LLAMACPP_BASE_URL') || 'http://localhost:8080/v1',
+      });
+    } else if (id === 'ollama') {
+      providers.push({
+        id,
+        timeoutMs,
+        model: getEnv('OLLAMA_MODEL') || 'llama3.1',
+        baseUrl: getEnv('OLLAMA_BASE_URL') || 'http://localhost:11434',
+      });
+    } else {
+      warnings.push(`${id}: unknown provider`);
+    }
+  }
+  return { providers, warnings };
+}
+
+// ── Transport helpers ────────────────────────────────────────────
+
+/** Abort controller that fires after `timeoutMs` of inactivity or when the caller aborts */
+function createDeadline(timeoutMs: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const onParentAbort = () => controller.abort(parent?.reason);
+  const clear = () => {
+    clearTimeout(timer);
+    parent?.removeEventListener('abort', onParentAbort);
+  };
+  const arm = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => controller.abort(), timeoutMs);
+  };
+  if (parent?.aborted) controller.abort(parent.reason);
+  parent?.addEventListener('abort', onParentAbort, { once: true });
+  arm();
+  return { signal: controller.signal, arm, clear };
+}
+
+const stripSlash = (url: string) => url.replace(/\/+$/, '');
+
+/** POST JSON and return the response once it is OK, mapping failures to `LlmError` */
+async function postJson(
+  provider: LlmProviderConfig,
+  fetchImpl: FetchLike,
+  url: string,
+  body: unknown,
+  signal: AbortSignal,
+  caller?: AbortSignal,
+): Promise<Response> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+
+  let response: Response;
+  try {
+    response = await fetchImpl(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+  } catch (e) {
+    throw toLlmError(e, provider, caller);
+  }
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new LlmError(`${provider.id} returned ${response.status}: ${detail.slice(0, 200)}`, response.status, provider.id);
+  }
+  return response;
+}
+
+function toLlmError(e: unknown, provider: LlmProviderConfig, caller?: AbortSignal): unknown {
+  if (e instanceof LlmError || caller?.aborted) return e;
+  if ((e as { name?: string } | null)?.name === 'AbortError') {
+    return new LlmError(`${provider.id} timed out after ${provider.timeoutMs}ms`, 504, provider.id);
+  }
+  return new LlmError(`${provider.id} request failed: ${e instanceof Error ? e.message : String(e)}`, 502, provider.id);
+}
+
+/** Split a byte stream into lines, re-arming the idle deadline on every chunk */
+async function* readLines(body: ReadableStream<Uint8Array>, deadline: { arm(): void }): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      deadline.arm();
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newlineIndex).replace(/\r$/, '');
+        buffer = buffer.slice(newlineIndex + 1);
+        yield line;
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) yield buffer;
+  } finally {
+    // Closes the upstream connection when the consumer stops early
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/** SSE `data:` payloads, without the `[DONE]` sentinel */
+async function* readSseData(body: ReadableStream<Uint8Array>, deadline: { arm(): void }): AsyncGenerator<string> {
+  for await (const line of readLines(body, deadline)) {
+    if (!line.startsWith('data:')) {
+      // Some servers answer a streaming request with one plain JSON body
+      if (/^[{[]/.test(line.trim())) yield line.trim();
+      continue;
+    }
+    const payload = line.slice(5).trim();
+    if (!payload) continue;
+    if (payload === '[DONE]') return;
+    yield payload;
+  }
+}
+
+const parseJson = (text: string): Record<string, unknown> | null => {
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === 'object' ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Wrap a streaming call so the deadline covers connect plus idle gaps, and
+ * errors raised mid-stream surface as `LlmError` too.
+ */
+async function openStream(
+  provider: LlmProviderConfig,
+  req: LlmRequest,
+  connect: (signal: AbortSignal) => Promise<Response>,
+  tokens: (body: ReadableStream<Uint8Array>, deadline: { arm(): void }) => AsyncGenerator<string>,
+): Promise<AsyncIterable<string>> {
+  const deadline = createDeadline(provider.timeoutMs, req.signal);
+  let response: Response;
+  try {
+    response = await connect(deadline.signal);
+  } catch (e) {
+    deadline.clear();
+    throw e;
+  }
+  async function* run() {
+    try {
+      if (response.body) yield* tokens(response.body, deadline);
+    } catch (e) {
+      throw toLlmError(e, provider, req.signal);
+    } finally {
+      deadline.clear();
+    }
+  }
+  return run();
+}
+
+async function completeOnce(
+  provider: LlmProviderConfig,
+  req: LlmRequest,
+  call: (signal: AbortSignal) => Promise<string>,
+): Promise<string> {
+  const deadline = createDeadline(provider.timeoutMs, req.signal);
+  try {
+    return await call(deadline.signal);
+  } catch (e) {
+    throw toLlmError(e, provider, req.signal);
+  } finally {
+    deadline.clear();
+  }
+}
+
+// ── Adapters ─────────────────────────────────────────────────────
+
+/** Single-prompt format used by text-generation models */
+export function toPrompt(req: Pick<LlmRequest, 'system' | 'messages'>): string {
+  const conversation = req.messages
+    .map((m) => `${m.role === 'user' ? 'User' : m.role === 'assistant' ? 'Assistant' : 'System'}: ${m.content}`)
+    .join('\n');
+  return `${req.system}\n\n${conversation}\nAssistant:`;
+}
+
+const toChatMessages = (req: LlmRequest): LlmMessage[] => [{ role: 'system', content: req.system }, ...req.messages];
+
+function huggingFaceProvider(config: LlmProviderConfig, fetchImpl: FetchLike): LlmProvider {
+  const url = `${stripSlash(config.baseUrl)}/${config.model}`;
+  const body = (req: LlmRequest, stream: boolean) => ({
+    inputs: toPrompt(req),
+    parameters: {
+      max_new_tokens: req.maxTokens,
+      temperature: req.temperature,
+      top_p: req.topP,
+      top_k: req.topK,
+      repetition_penalty: req.repetitionPenalty,
+      presence_penalty: req.presencePenalty,
+      return_full_text: false,
+      stream,
+    },
+  });
+
+  return {
+    id: config.id,
+    model: config.model,
+    complete: (req) =>
+      completeOnce(config, req, async (signal) => {
+        const result = await (await postJson(config, fetchImpl, url, body(req, false), signal, req.signal)).json();
+        return (Array.isArray(result) ? result[0]?.generated_text : result?.generated_text) || '';
+      }),
+    stream: (req) =>
+      openStream(
+        config,
+        req,
+        (signal) => postJson(config, fetchImpl, url, body(req, true), signal, req.signal),
+        async function* (stream, deadline) {
+          for await (const payload of readSseData(stream, deadline)) {
+            const parsed = parseJson(payload);
+            const item = Array.isArray(parsed) ? parsed[0] : parsed;
+            const details = item?.details as { finish_reason?: string } | undefined;
+            const token = (item?.token as { text?: string } | undefined)?.text;
+            // The final event repeats the whole text in generated_text; only use it without tokens
+            const text = token ?? (details ? '' : (item?.generated_text as string | undefined)) ?? '';
+            if (text) yield text;
+            if (details?.finish_reason) return;
+          }
+        },
+      ),
+  };
+}
+
+function openAiCompatibleProvider(config: LlmProviderConfig, fetchImpl: FetchLike): LlmProvider {
+  const url = `${stripSlash(config.baseUrl)}/chat/completions`;
+  const body = (req: LlmRequest, stream: boolean) => ({
+    model: config.model,
+    messages: toChatMessages(req),
+    max_tokens: req.maxTokens,
+    temperature: req.temperature,
+    top_p: req.topP,
+    presence_penalty: req.presencePenalty,
+    stream,
+  });
+
+  return {
+    id: config.id,
+    model: config.model,
+    complete: (req) =>
+      completeOnce(config, req, async (signal) => {
+        const result = await (await postJson(config, fetchImpl, url, body(req, false), signal, req.signal)).json();
+        return result?.choices?.[0]?.message?.content || '';
+      }),
+    stream: (req) =>
+      openStream(
+        config,
+        req,
+        (signal) => postJson(config, fetchImpl, url, body(req, true), signal, req.signal),
+        async function* (stream, deadline) {
+          for await (const payload of readSseData(stream, deadline)) {
+            const choice = (parseJson(payload)?.choices as Array<Record<string, unknown>> | undefined)?.[0];
+            const text = (choice?.delta as { content?: string } | undefined)?.content
+              ?? (choice?.message as { content?: string } | undefined)?.content;
+            if (text) yield text;
+            if (choice?.finish_reason) return;
+          }
+        },
+      ),
+  };
+}
+
+function ollamaProvider(config: LlmProviderConfig, fetchImpl: FetchLike): LlmProvider {
+  const url = `${stripSlash(config.baseUrl)}/api/chat`;
+  const body = (req: LlmRequest, stream: boolean) => ({
+    model: config.model,
+    messages: toChatMessages(req),
+    stream,
+    options: {
+      num_predict: req.maxTokens,
+      temperature: req.temperature,
+      top_p: req.topP,
+      top_k: req.topK,
+      repeat_penalty: req.repetitionPenalty,
+      presence_penalty: req.presencePenalty,
+    },
+  });
+
+  return {
+    id: config.id,
+    model: config.model,
+    complete: (req) =>
+      completeOnce(config, req, async (signal) => {
+        const result = await (await postJson(config, fetchImpl, url, body(req, false), signal, req.signal)).json();
+        return result?.message?.content || '';
+      }),
+    stream: (req) =>
+      openStream(
+        config,
+        req,
+        (signal) => postJson(config, fetchImpl, url, body(req, true), signal, req.signal),
+        async function* (stream, deadline) {
+          // Newline-delimited JSON, one object per token batch
+          for await (const line of readLines(stream, deadline)) {
+            const parsed = parseJson(line);
+            const text = (parsed?.message as { content?: string } | undefined)?.content;
+            if (text) yield text;
+            if (parsed?.done) return;
+          }
+        },
+      ),
+  };
+}
+
+export function createProvider(config: LlmProviderConfig, fetchImpl: FetchLike = fetch): LlmProvider {
+  switch (config.id) {
+    case 'huggingface':
+      return huggingFaceProvider(config, fetchImpl);
+    case 'openai':
+    case 'llamacpp':
+      return openAiCompatibleProvider(config, fetchImpl);
+    case 'ollama':
+      return ollamaProvider(config, fetchImpl);
+  }
+}
+
+export function createProviders(config: LlmConfig, fetchImpl: FetchLike = fetch): LlmProvider[] {
+  return config.providers.map((p) => createProvider(p, fetchImpl));
+}
+
+/** Providers in failover order straight from env, logging any misconfiguration */
+export function providersFromEnv(getEnv: (key: string) => string | undefined): LlmProvider[] {
+  const config = loadLlmConfig(getEnv);
+  config.warnings.forEach((w) => console.warn('LLM config:', w));
+  return createProviders(config);
+}
+
+// ── Failover ─────────────────────────────────────────────────────
+
+function failoverError(attempts: LlmError[]): LlmError {
+  if (attempts.length === 0) return new LlmError('No LLM provider is configured', 503, 'failover');
+  const statuses = new Set(attempts.map((a) => a.status));
+  // Keep a status every provider agreed on (e.g. all rate limited); otherwise report a bad gateway
+  const status = statuses.size === 1 ? attempts[0].status : 502;
+  return new LlmError(`All LLM providers failed: ${attempts.map((a) => a.message).join(' | ')}`, status, 'failover', attempts);
+}
+
+async function withFailover<T>(
+  providers: LlmProvider[],
+  signal: AbortSignal | undefined,
+  call: (provider: LlmProvider) => Promise<T>,
+): Promise<{ provider: LlmProvider; result: T }> {
+  const attempts: LlmError[] = [];
+  for (const provider of providers) {
+    try {
+      return { provider, result: await call(provider) };
+    } catch (e) {
+      if (signal?.aborted || !(e instanceof LlmError)) throw e;
+      console.warn(`LLM provider ${provider.id} failed, trying next:`, e.message);
+      attempts.push(e);
+    }
+  }
+  throw failoverError(attempts);
+}
+
+/** Complete with the first provider that answers */
+export async function completeWithFailover(
+  providers: LlmProvider[],
+  req: LlmRequest,
+): Promise<{ provider: LlmProvider; text: string }> {
+  const { provider, result } = await withFailover(providers, req.signal, (p) => p.complete(req));
+  return { provider, text: result };
+}
+
+/**
+ * Open a token stream with the first provider that accepts the request.
+ * Failover happens only before streaming starts; later errors reach the consumer.
+ */
+export async function streamWithFailover(
+  providers: LlmProvider[],
+  req: LlmRequest,
+): Promise<{ provider: LlmProvider; tokens: AsyncIterable<string> }> {
+  const { provider, result } = await withFailover(providers, req.signal, (p) => p.stream(req));
+  return { provider, tokens: result };
+}
@@ -0,0 +1,411 @@
+/**
+ * Loan Scoring Engine — single source of truth for approval probability.
+ *
+ * Pure TypeScript with no runtime dependencies so it can be imported by the
+ * browser (via `@/lib/scoring`) and by the Deno edge functions (via a relative
+ * `../_shared/scoring.ts` import). Bump SCORING_VERSION whenever a weight,
+ * threshold or formula changes so stored results can be traced to the engine
+ * that produced them.
+ */
+
+import { combineHousehold, type CoApplicant } from './household.ts';
+import { ledgerTotals, type Liability } from './liabilities.ts';
+
+export const SCORING_VERSION = '1.2.0';
+
+/** Reference annual rate (%) used to estimate the EMI of the requested loan */
+export const BASE_ANNUAL_RATE = 8.5;
+
+/** Assumed EMI per existing loan when neither a ledger nor the actual obligation is given */
+export const EXISTING_LOAN_EMI_ESTIMATE = 4500;
+
+export const PROBABILITY_FLOOR = 12;
+export const PROBABILITY_CEILING = 96;
+
+export type RiskCategory = 'Low' | 'Medium' | 'High';
+export type BankFit = 'Good' | 'Moderate' | 'Poor';
+export type EmiAffordability = 'Comfortable' | 'Stretched' | 'Unaffordable';
+
+/**
+ * Fields the engine reads. Structurally a subset of LoanFormData, so a full
+ * form submission can be passed as-is.
+ */
+export interface ScoringInput {
+  monthly_income: number;
+  loan_amount: number;
+  loan_tenure: number;
+  credit_score: number;
+  years_experience: number;
+  existing_loans: number;
+  /** Known total monthly EMI on existing loans; overrides the ledger and the per-loan estimate */
+  existing_emi?: number;
+  /** Itemised existing debts; when non-empty, their count and EMIs replace `existing_loans` */
+  liabilities?: Liability[];
+  monthly_savings: number;
+  total_monthly_expenses: number;
+  bank_balance: number;
+  owns_house: boolean;
+  owns_car: boolean;
+  has_investments: boolean;
+  has_collateral?: boolean;
+  loan_purpose?: string;
+  co_borrower?: string;
+  /** Household members applying jointly; pooled per lender rules */
+  co_applicants?: CoApplicant[];
+}
+
+export interface ScoreResult {
+  version: string;
+  approvalProbability: number;
+  riskCategory: RiskCategory;
+  bankFit: BankFit;
+  financialHealthScore: number;
+  /** EMI of the requested loan at BASE_ANNUAL_RATE */
+  emi: number;
+  /** Monthly EMI on existing loans (reported, itemised or estimated) */
+  existingEMI: number;
+  /** (existing EMI + new EMI) / income, percent, capped at 150; this is the FOIR lenders use */
+  dti: number;
+  /** New EMI / income, percent */
+  emiToIncome: number;
+  emiAffordability: EmiAffordability;
+  /** Loan amount / annual income */
+  loanToIncome: number;
+  /** Monthly savings / income, capped at 0.5 */
+  savingsRate: number;
+  /** Employment stability score 0-1 after loan-purpose adjustments */
+  employmentStability: number;
+  isEducationLoan: boolean;
+  hasCoBorrower: boolean;
+  /** Applicant income plus pooled co-applicant income */
+  householdIncome: number;
+  /** Per-factor breakdown of approvalProbability, in the order it is computed */
+  contributions: ScoreContribution[];
+}
+
+export type ContributionKey =
+  | 'credit'
+  | 'lti'
+  | 'employment'
+  | 'debt'
+  | 'savings'
+  | 'assets'
+  | 'rounding'
+  | 'education_uplift'
+  | 'co_borrower_uplift'
+  | 'clamp';
+
+/**
+ * One term of the approval probability. `points` are exact (unrounded) so the
+ * terms of `ScoreResult.contributions` sum to `approvalProbability`.
+ */
+export interface ScoreContribution {
+  key: ContributionKey;
+  points: number;
+  /** Most points the term can give (its weight); absent for adjustments */
+  max?: number;
+  /** The 0-1 sub-score the weight multiplies */
+  score?: number;
+}
+
+/**
+ * Calculate EMI: [P × r × (1+r)^n] / [(1+r)^n - 1]
+ */
+export function calculateEMI(principal: number, annualRate: number, months: number): number {
+  const monthlyRate = annualRate / 100 / 12;
+  if (monthlyRate === 0 || months === 0) return Math.round(principal / Math.max(months, 1));
+  const numerator = principal * monthlyRate * Math.pow(1 + monthlyRate, months);
+  const denominator = Math.pow(1 + monthlyRate, months) - 1;
+  return Math.round(numerator / denominator);
+}
+
+/**
+ * Score employment stability (0-1)
+ */
+export function getEmploymentScore(years: number): number {
+  if (years >= 10) return 1.0;
+  if (years >= 5) return 0.9;
+  if (years >= 2) return 0.75;
+  if (years >= 1) return 0.6;
+  return 0.4;
+}
+
+export function getRiskCategory(probability: number): RiskCategory {
+  if (probability >= 75) return 'Low';
+  if (probability >= 55) return 'Medium';
+  return 'High';
+}
+
+export function getBankFit(probability: number): BankFit {
+  if (probability >= 65) return 'Good';
+  if (probability >= 40) return 'Moderate';
+  return 'Poor';
+}
+
+export function getEmiAffordability(emiToIncomePercent: number): EmiAffordability {
+  if (emiToIncomePercent < 30) return 'Comfortable';
+  if (emiToIncomePercent < 45) return 'Stretched';
+  return 'Unaffordable';
+}
+
+function getDebtScore(existingLoans: number): number {
+  if (existingLoans <= 0) return 1.0;
+  if (existingLoans === 1) return 0.85;
+  if (existingLoans === 2) return 0.65;
+  if (existingLoans === 3) return 0.45;
+  return Math.max(0.2, 0.4 - (existingLoans - 3) * 0.05);
+}
+
+function calculateFinancialHealthScore(
+  input: ScoringInput,
+  metrics: { dti: number; emiToIncome: number; loanToIncome: number; savingsRate: number },
+  isEducationLoan: boolean,
+  hasCoBorrower: boolean,
+  isParentCoBorrower: boolean,
+): number {
+  let health = 30;
+
+  if (input.credit_score >= 750) health += 35;
+  else if (input.credit_score >= 700) health += 28;
+  else if (input.credit_score >= 650) health += 20;
+  else if (input.credit_score >= 600) health += 12;
+  else if (input.credit_score >= 550) health += 5;
+  else health -= 10;
+
+  if (metrics.dti < 25) health += 25;
+  else if (metrics.dti < 35) health += 18;
+  else if (metrics.dti < 45) health += 10;
+  else if (metrics.dti > 60) health -= 15;
+
+  const savingsPercent = metrics.savingsRate * 100;
+  if (savingsPercent > 25) health += 15;
+  else if (savingsPercent > 15) health += 10;
+  else if (savingsPercent > 5) health += 5;
+  else health -= 5;
+
+  if (input.years_experience > 5 && input.monthly_income > 50000) health += 10;
+  else if (input.years_experience > 3 && input.monthly_income > 30000) health += 6;
+  else if (input.years_experience > 1) health += 3;
+
+  if (input.has_collateral) health += 10;
+  else if (input.owns_house) health += 6;
+  else if (input.has_investments) health += 4;
+
+  if (input.existing_loans === 0) health += 5;
+  else if (input.existing_loans <= 1) health += 2;
+  else if (input.existing_loans > 3) health -= 10;
+
+  if (metrics.emiToIncome > 50) health -= 15;
+  else if (metrics.emiToIncome > 40) health -= 8;
+
+  if (metrics.loanToIncome > 5) health -= 12;
+  else if (metrics.loanToIncome > 4) health -= 6;
+
+  if (isEducationLoan) {
+    if (hasCoBorrower) health += isParentCoBorrower ? 10 : 7;
+    else health -= 5;
+  }
+
+  return Math.max(5, Math.min(95, Math.round(health)));
+}
+
+/**
+ * Score a loan profile. Deterministic: the same input always yields the same result.
+ * Pooled co-applicants are scored as one household: their income is added,
+ * their EMIs count as obligations and the lowest credit score applies.
+ */
+export function scoreProfile(applicant: ScoringInput): ScoreResult {
+  const household = combineHousehold(applicant);
+  const ledger = ledgerTotals(applicant.liabilities);
+  const hasLedger = ledger.count > 0;
+  const input: ScoringInput = {
+    ...applicant,
+    ...(household.pooled.length > 0 ? { monthly_income: household.monthlyIncome, credit_score: household.creditScore } : {}),
+    ...(hasLedger ? { existing_loans: ledger.count } : {}),
+  };
+  const monthlyIncome = Math.max(input.monthly_income || 0, 1);
+  const annualIncome = monthlyIncome * 12;
+  const isEducationLoan = input.loan_purpose?.toLowerCase() === 'education';
+  const hasCoBorrower = (!!input.co_borrower && input.co_borrower !== 'None') || household.pooled.length > 0;
+  const isParentCoBorrower = input.co_borrower === 'Parent/Guardian'
+    || household.pooled.some((m) => m.relationship === 'Parent/Guardian');
+
+  const rawIncomeRatio = input.loan_amount / annualIncome;
+  const incomeRatio = isEducationLoan ? rawIncomeRatio * 0.75 : rawIncomeRatio;
+
+  // Education loans get more credit-score leverage (students may have thin files)
+  let creditScore = Math.min(input.credit_score / 750, 1);
+  if (isEducationLoan) {
+    creditScore = Math.min(1, creditScore * 1.25);
+  }
+
+  const employmentBase = getEmploymentScore(input.years_experience);
+  const employmentStability = isEducationLoan ? Math.max(0.65, employmentBase) : employmentBase;
+  const savingsRate = Math.max(0, Math.min(input.monthly_savings / monthlyIncome, 0.5));
+  const ltiScore = Math.max(0, 1 - (incomeRatio / (isEducationLoan ? 8 : 6)));
+
+  let debtScore = getDebtScore(input.existing_loans);
+  if (isEducationLoan) {
+    debtScore = Math.min(1, debtScore + 0.1);
+  }
+
+  let assetScore = (
+    (input.owns_house ? 0.3 : 0) +
+    (input.owns_car ? 0.1 : 0) +
+    (input.has_investments ? 0.2 : 0) +
+    (input.bank_balance >= annualIncome ? 0.1 : 0)
+  ) / 0.7;
+
+  // Education loans without assets get a floor to offset the missing collateral
+  if (isEducationLoan && assetScore < 0.3) {
+    assetScore = Math.max(assetScore, 0.4);
+  }
+
+  // Weighted probability (100% total weight). Education loans shift 5 points
+  // from credit to loan-to-income.
+  const creditWeight = isEducationLoan ? 30 : 35;
+  const ltiWeight = isEducationLoan ? 30 : 25;
+  const weighted: ScoreContribution[] = [
+    { key: 'credit', points: creditScore * creditWeight, max: creditWeight, score: creditScore },
+    { key: 'lti', points: ltiScore * ltiWeight, max: ltiWeight, score: ltiScore },
+    { key: 'employment', points: employmentStability * 15, max: 15, score: employmentStability },
+    { key: 'debt', points: debtScore * 15, max: 15, score: debtScore },
+    { key: 'savings', points: savingsRate * 0.5 * 5, max: 1.25, score: savingsRate },
+    { key: 'assets', points: assetScore * 0.5 * 5, max: 2.5, score: assetScore },
+  ];
+  const rawTotal = weighted.reduce((sum, c) => sum + c.points, 0);
+  let probability = Math.round(rawTotal);
+  const contributions: ScoreContribution[] = [...weighted, { key: 'rounding', points: probability - rawTotal }];
+
+  if (isEducationLoan) {
+    probability += 10;
+    contributions.push({ key: 'education_uplift', points: 10 });
+    if (hasCoBorrower) {
+      const uplift = isParentCoBorrower ? 12 : 8;
+      probability += uplift;
+      contributions.push({ key: 'co_borrower_uplift', points: uplift });
+    }
+  }
+
+  const clamped = Math.max(PROBABILITY_FLOOR, Math.min(PROBABILITY_CEILING, probability));
+  contributions.push({ key: 'clamp', points: clamped - probability });
+  probability = clamped;
+
+  const emi = calculateEMI(input.loan_amount, BASE_ANNUAL_RATE, input.loan_tenure);
+  const applicantEMI = input.existing_emi
+    ?? (hasLedger ? ledger.monthlyObligation : input.existing_loans * EXISTING_LOAN_EMI_ESTIMATE);
+  const existingEMI = Math.max(applicantEMI, 0) + household.coApplicantEmi;
+  const dti = Math.min(Math.round((existingEMI + emi) / monthlyIncome * 100), 150);
+  const emiToIncome = Math.round((emi / monthlyIncome) * 100);
+  const loanToIncome = Math.round(rawIncomeRatio * 100) / 100;
+
+  const financialHealthScore = calculateFinancialHealthScore(
+    input,
+    { dti, emiToIncome, loanToIncome, savingsRate },
+    isEducationLoan,
+    hasCoBorrower,
+    isParentCoBorrower,
+  );
+
+  return {
+    version: SCORING_VERSION,
+    approvalProbability: probability,
+    riskCategory: getRiskCategory(probability),
+    bankFit: getBankFit(probability),
+    financialHealthScore,
+    emi,
+    existingEMI,
+    dti,
+    emiToIncome,
+    emiAffordability: getEmiAffordability(emiToIncome),
+    loanToIncome,
+    savingsRate,
+    employmentStability,
+    isEducationLoan,
+    hasCoBorrower,
+    householdIncome: household.monthlyIncome,
+    contributions,
+  };
+}
+
+/**
+ * Partial profile collected by the chat eligibility flow.
+ */
+export interface QuickEligibilityInput {
+  monthly_income?: number;
+  monthly_expenses?: number;
+  loan_amount?: number;
+  credit_score?: number;
+  existing_loans?: number;
+  existing_emi_amount?: number;
+  job_type?: string;
+  employment_stability?: 'High' | 'Medium' | 'Low';
+  dependents?: number;
+  age?: number;
+  loan_tenure?: number;
+}
+
+const STABILITY_TO_YEARS: Record<NonNullable<QuickEligibilityInput['employment_stability']>, number> = {
+  High: 5,
+  Medium: 2,
+  Low: 0,
+};
+
+/**
+ * Map the chat flow's slots onto the engine input. Unknown assets are treated
+ * as absent; savings are the surplus left after expenses and existing EMIs.
+ */
+export function quickEligibilityToScoringInput(slots: QuickEligibilityInput): ScoringInput {
+  const income = slots.monthly_income ?? 0;
+  const expenses = slots.monthly_expenses ?? 0;
+  const existingLoans = slots.existing_loans ?? 0;
+  const existingEmi = slots.existing_emi_amount ?? existingLoans * EXISTING_LOAN_EMI_ESTIMATE;
+
+  return {
+    monthly_income: income,
+    loan_amount: slots.loan_amount ?? 0,
+    loan_tenure: slots.loan_tenure ?? 60,
+    credit_score: slots.credit_score ?? 650,
+    years_experience: STABILITY_TO_YEARS[slots.employment_stability ?? 'Medium'],
+    existing_loans: existingLoans,
+    existing_emi: existingEmi,
+    monthly_savings: Math.max(0, income - expenses - existingEmi),
+    total_monthly_expenses: expenses,
+    bank_balance: 0,
+    owns_house: false,
+    owns_car: false,
+    has_investments: false,
+    has_collateral: false,
+    loan_purpose: 'Personal',
+    co_borrower: 'None',
+  };
+}
+
+/**
+ * Score-bearing fields of an AnalysisResult. Kept structural so the edge
+ * functions don't depend on the browser's type definitions.
+ */
+export interface ScoredAnalysisFields {
+  approval_probability?: number;
+  risk_category?: string;
+  financial_health_score?: number;
+  debt_to_income_ratio?: number;
+  emi_affordability?: string;
+  scoring_version?: string;
+}
+
+/**
+ * Overwrite the numeric verdict of an analysis with the engine's values so that
+ * LLM narration can never disagree with the rule-based score.
+ */
+export function applyScoreToAnalysis<T extends ScoredAnalysisFields>(analysis: T, score: ScoreResult): T {
+  return {
+    ...analysis,
+    approval_probability: score.approvalProbability,
+    risk_category: score.riskCategory,
+    financial_health_score: score.financialHealthScore,
+    debt_to_income_ratio: score.dti,
+    emi_affordability: score.emiAffordability,
+    scoring_version: score.version,
+  };
+}
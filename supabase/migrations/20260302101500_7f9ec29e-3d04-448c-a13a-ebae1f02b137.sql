@@ -0,0 +1,49 @@
+-- Lender product catalog used by the bank recommender
+CREATE TABLE public.lender_products (
+  id TEXT NOT NULL PRIMARY KEY,
+  lender_name TEXT NOT NULL,
+  product_name TEXT NOT NULL,
+  lender_type TEXT NOT NULL DEFAULT 'Private' CHECK (lender_type IN ('PSU', 'Private', 'NBFC')),
+  logo_url TEXT,
+  apply_url TEXT,
+  -- Eligibility rules (empty arrays mean "any")
+  loan_purposes TEXT[] NOT NULL DEFAULT '{}',
+  job_types TEXT[] NOT NULL DEFAULT '{}',
+  min_income NUMERIC NOT NULL DEFAULT 0,
+  max_lti NUMERIC NOT NULL DEFAULT 5,
+  min_credit_score INTEGER NOT NULL DEFAULT 300,
+  max_tenure_months INTEGER NOT NULL DEFAULT 360,
+  -- Pricing: [{"min_credit_score": 700, "min_rate": 10.5, "max_rate": 12.0}, ...]
+  rate_bands JSONB NOT NULL DEFAULT '[]',
+  processing_fee_percent NUMERIC NOT NULL DEFAULT 0,
+  processing_fee_min NUMERIC NOT NULL DEFAULT 0,
+  processing_fee_max NUMERIC,
+  features TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lender_products ENABLE ROW LEVEL SECURITY;
+
+-- Catalog is public reference data; writes go through the dashboard / service role
+CREATE POLICY "Allow public select on lender_products" ON public.lender_products FOR SELECT USING (is_active);
+
+-- Seed catalog (mirrors DEFAULT_LENDER_CATALOG in supabase/functions/_shared/lenders.ts)
+INSERT INTO public.lender_products (
+  id, lender_name, product_name, lender_type, logo_url, apply_url,
+  loan_purposes, job_types, min_income, max_lti, min_credit_score, max_tenure_months,
+  rate_bands, processing_fee_percent, processing_fee_min, processing_fee_max, features
+) VALUES
+  ('sbi-personal', 'State Bank of India', 'Xpress Credit Personal Loan', 'PSU', 'https://logo.clearbit.com/sbi.co.in', 'https://sbi.co.in/web/personal-banking/loans/personal-loan', ARRAY['Personal', 'Medical', 'Debt Consolidation']::TEXT[], ARRAY['Government', 'Salaried']::TEXT[], 15000, 2, 650, 72, '[{"min_credit_score": 650, "min_rate": 11.15, "max_rate": 12.65}, {"min_credit_score": 750, "min_rate": 10.3, "max_rate": 11.3}]'::JSONB, 1, 1000, 15000, ARRAY['Government backed', 'Concession for defence & govt staff']::TEXT[]),
+  ('sbi-home', 'State Bank of India', 'Regular Home Loan', 'PSU', 'https://logo.clearbit.com/sbi.co.in', 'https://homeloans.sbi/', ARRAY['Home']::TEXT[], '{}'::TEXT[], 20000, 6, 600, 360, '[{"min_credit_score": 600, "min_rate": 9.15, "max_rate": 9.65}, {"min_credit_score": 750, "min_rate": 8.3, "max_rate": 8.75}]'::JSONB, 0.35, 2000, 10000, ARRAY['Lowest home loan rates', 'No prepayment penalty']::TEXT[]),
+  ('sbi-education', 'State Bank of India', 'Student Loan Scheme', 'PSU', 'https://logo.clearbit.com/sbi.co.in', 'https://sbi.co.in/web/personal-banking/loans/education-loans', ARRAY['Education']::TEXT[], '{}'::TEXT[], 0, 10, 300, 180, '[{"min_credit_score": 300, "min_rate": 8.15, "max_rate": 10.15}]'::JSONB, 0, 0, 0, ARRAY['Moratorium till course end + 1 year', 'Parent co-borrower accepted']::TEXT[]),
+  ('hdfc-personal', 'HDFC Bank', 'Personal Loan', 'Private', 'https://logo.clearbit.com/hdfcbank.com', 'https://www.hdfcbank.com/personal/borrow/popular-loans/personal-loan', ARRAY['Personal', 'Medical', 'Debt Consolidation']::TEXT[], ARRAY['Salaried', 'Government']::TEXT[], 25000, 2, 700, 60, '[{"min_credit_score": 700, "min_rate": 10.9, "max_rate": 14}, {"min_credit_score": 760, "min_rate": 10.75, "max_rate": 12.5}]'::JSONB, 2, 999, 6500, ARRAY['Pre-approved offers', 'Disbursal in 10 seconds for existing customers']::TEXT[]),
+  ('icici-personal', 'ICICI Bank', 'Personal Loan', 'Private', 'https://logo.clearbit.com/icicibank.com', 'https://www.icicibank.com/personal-banking/loans/personal-loan', ARRAY['Personal', 'Medical', 'Debt Consolidation']::TEXT[], ARRAY['Salaried', 'Government', 'Self Employed']::TEXT[], 30000, 2, 720, 72, '[{"min_credit_score": 720, "min_rate": 10.85, "max_rate": 16.25}]'::JSONB, 2, 1000, NULL, ARRAY['Instant approval', 'Flexible tenure']::TEXT[]),
+  ('axis-business', 'Axis Bank', 'Business Loan', 'Private', 'https://logo.clearbit.com/axisbank.com', 'https://www.axisbank.com/business-banking/small-business-banking/business-loans', ARRAY['Business', 'Personal']::TEXT[], ARRAY['Self Employed', 'Business']::TEXT[], 20000, 3, 680, 60, '[{"min_credit_score": 680, "min_rate": 12, "max_rate": 17}]'::JSONB, 2, 2000, NULL, ARRAY['Self-employed friendly', 'Low documentation']::TEXT[]),
+  ('kotak-personal', 'Kotak Mahindra Bank', 'Personal Loan', 'Private', 'https://logo.clearbit.com/kotak.com', 'https://www.kotak.com/en/personal-banking/loans/personal-loan.html', ARRAY['Personal', 'Medical']::TEXT[], ARRAY['Salaried']::TEXT[], 50000, 2.5, 730, 72, '[{"min_credit_score": 730, "min_rate": 10.99, "max_rate": 16.99}]'::JSONB, 1.5, 2500, NULL, ARRAY['Premium service for high earners']::TEXT[]),
+  ('pnb-vehicle', 'Punjab National Bank', 'PNB Vehicle Loan', 'PSU', 'https://logo.clearbit.com/pnbindia.in', 'https://www.pnbindia.in/vehicle-loan.html', ARRAY['Vehicle']::TEXT[], '{}'::TEXT[], 10000, 3, 620, 84, '[{"min_credit_score": 620, "min_rate": 9.5, "max_rate": 10.5}, {"min_credit_score": 750, "min_rate": 8.75, "max_rate": 9.5}]'::JSONB, 0.25, 500, 1500, ARRAY['Up to 90% on-road funding', 'Auto-rickshaw & commercial vehicles']::TEXT[]),
+  ('pnb-kcc', 'Punjab National Bank', 'Kisan Credit Card', 'PSU', 'https://logo.clearbit.com/pnbindia.in', 'https://www.pnbindia.in/kisan-credit-card.html', ARRAY['Agriculture']::TEXT[], '{}'::TEXT[], 0, 5, 300, 60, '[{"min_credit_score": 300, "min_rate": 7, "max_rate": 9}]'::JSONB, 0, 0, 0, ARRAY['Interest subvention for prompt repayment', 'No collateral up to ₹1.6 lakh']::TEXT[]),
+  ('bob-general', 'Bank of Baroda', 'Baroda Personal Loan', 'PSU', 'https://logo.clearbit.com/bankofbaroda.in', 'https://www.bankofbaroda.in/personal-banking/loans/personal-loan', '{}'::TEXT[], ARRAY['Government', 'Salaried', 'Self Employed', 'Business']::TEXT[], 15000, 2.5, 650, 84, '[{"min_credit_score": 650, "min_rate": 11.4, "max_rate": 15.5}, {"min_credit_score": 750, "min_rate": 10.9, "max_rate": 13.5}]'::JSONB, 2, 1000, 10000, ARRAY['Rural-friendly branches', 'Quick approval (3-5 days)']::TEXT[]),
+  ('idfc-personal', 'IDFC First Bank', 'Personal Loan', 'Private', 'https://logo.clearbit.com/idfcfirstbank.com', 'https://www.idfcfirstbank.com/personal-banking/loans/personal-loan', ARRAY['Personal', 'Medical', 'Debt Consolidation']::TEXT[], ARRAY['Salaried', 'Self Employed']::TEXT[], 20000, 2, 700, 60, '[{"min_credit_score": 700, "min_rate": 10.99, "max_rate": 23.99}]'::JSONB, 2, 1000, NULL, ARRAY['Digital-first', 'Paperless process']::TEXT[]),
+  ('bajaj-personal', 'Bajaj Finance', 'Flexi Personal Loan', 'NBFC', 'https://logo.clearbit.com/bajajfinserv.in', 'https://www.bajajfinserv.in/personal-loan', ARRAY['Personal', 'Medical', 'Debt Consolidation', 'Business', 'Vehicle']::TEXT[], '{}'::TEXT[], 12000, 2, 600, 96, '[{"min_credit_score": 600, "min_rate": 13, "max_rate": 30}]'::JSONB, 3.93, 1000, NULL, ARRAY['NBFC flexibility', 'Higher approval for lower scores']::TEXT[]),
+  ('tata-business', 'Tata Capital', 'Small Business Loan', 'NBFC', 'https://logo.clearbit.com/tatacapital.com', 'https://www.tatacapital.com/business-loan.html', ARRAY['Business', 'Personal', 'Vehicle']::TEXT[], ARRAY['Self Employed', 'Business']::TEXT[], 12000, 3, 650, 60, '[{"min_credit_score": 650, "min_rate": 12, "max_rate": 24}]'::JSONB, 2.5, 1500, NULL, ARRAY['Good for self-employed', 'Collateral-free up to ₹75 lakh']::TEXT[]);
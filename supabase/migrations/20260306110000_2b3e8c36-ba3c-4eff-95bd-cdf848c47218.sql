@@ -0,0 +1,54 @@
+-- Scope citizen data to its owner. Rows are stamped with auth.uid() on insert;
+-- rows created before this migration have no owner and are visible to admins only.
+
+ALTER TABLE public.loan_applications
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.analysis_results
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+ALTER TABLE public.chat_messages
+  ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid();
+
+CREATE INDEX idx_loan_applications_user_id ON public.loan_applications(user_id);
+CREATE INDEX idx_analysis_results_user_id ON public.analysis_results(user_id);
+CREATE INDEX idx_chat_messages_user_id ON public.chat_messages(user_id);
+
+-- Drop the prototype's public policies
+DROP POLICY "Allow public insert on loan_applications" ON public.loan_applications;
+DROP POLICY "Allow public select on loan_applications" ON public.loan_applications;
+DROP POLICY "Allow public insert on analysis_results" ON public.analysis_results;
+DROP POLICY "Allow public select on analysis_results" ON public.analysis_results;
+DROP POLICY "Allow public insert on chat_messages" ON public.chat_messages;
+DROP POLICY "Allow public select on chat_messages" ON public.chat_messages;
+
+-- loan_applications: owner only
+CREATE POLICY "Owners can select loan_applications" ON public.loan_applications
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Owners can insert loan_applications" ON public.loan_applications
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can update loan_applications" ON public.loan_applications
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- analysis_results: owner only, and only against the owner's own application
+CREATE POLICY "Owners can select analysis_results" ON public.analysis_results
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Owners can insert analysis_results" ON public.analysis_results
+  FOR INSERT TO authenticated WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.loan_applications a WHERE a.id = application_id AND a.user_id = auth.uid())
+  );
+CREATE POLICY "Owners can update analysis_results" ON public.analysis_results
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- chat_messages: owner only (admins get no access to conversations)
+CREATE POLICY "Owners can select chat_messages" ON public.chat_messages
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Owners can insert chat_messages" ON public.chat_messages
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can update chat_messages" ON public.chat_messages
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Admins may read applications and results for aggregate reporting; they cannot write them
+CREATE POLICY "Admins can read loan_applications for aggregates" ON public.loan_applications
+  FOR SELECT TO authenticated USING (public.is_admin());
+CREATE POLICY "Admins can read analysis_results for aggregates" ON public.analysis_results
+  FOR SELECT TO authenticated USING (public.is_admin());
@@ -0,0 +1,88 @@
+-- Admin analytics: one row per application with its latest analysis, plus an
+-- aggregate RPC. Both run as the caller, so the RLS policies decide what is visible.
+
+CREATE OR REPLACE VIEW public.application_analytics
+WITH (security_invoker = true) AS
+SELECT
+  a.id AS application_id,
+  a.user_id,
+  a.created_at,
+  a.created_at::date AS created_on,
+  a.location_state,
+  a.loan_purpose,
+  a.job_type,
+  COALESCE(a.language, 'en') AS language,
+  a.loan_amount,
+  a.monthly_income,
+  a.credit_score,
+  r.approval_probability,
+  r.risk_category,
+  -- No lender decision is recorded yet, so the outcome is derived from the score:
+  -- 55%+ is the threshold at which the analysis tells citizens they can apply now
+  CASE
+    WHEN r.approval_probability IS NULL THEN 'Pending'
+    WHEN r.approval_probability >= 55 THEN 'Approved'
+    ELSE 'Rejected'
+  END AS outcome
+FROM public.loan_applications a
+LEFT JOIN LATERAL (
+  SELECT ar.approval_probability, ar.risk_category
+  FROM public.analysis_results ar
+  WHERE ar.application_id = a.id
+  ORDER BY ar.created_at DESC
+  LIMIT 1
+) r ON true;
+
+CREATE INDEX IF NOT EXISTS idx_loan_applications_created_at ON public.loan_applications(created_at);
+CREATE INDEX IF NOT EXISTS idx_analysis_results_application_id ON public.analysis_results(application_id);
+
+CREATE OR REPLACE FUNCTION public.admin_application_stats(
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_state TEXT DEFAULT NULL,
+  p_purpose TEXT DEFAULT NULL,
+  p_job_type TEXT DEFAULT NULL,
+  p_language TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  result JSONB;
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'admin role required' USING ERRCODE = '42501';
+  END IF;
+
+  WITH filtered AS (
+    SELECT * FROM public.application_analytics
+    WHERE (p_from IS NULL OR created_on >= p_from)
+      AND (p_to IS NULL OR created_on <= p_to)
+      AND (p_state IS NULL OR location_state = p_state)
+      AND (p_purpose IS NULL OR loan_purpose = p_purpose)
+      AND (p_job_type IS NULL OR job_type = p_job_type)
+      AND (p_language IS NULL OR language = p_language)
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT count(*) FROM filtered),
+    'avg_probability', (SELECT round(avg(approval_probability), 1) FROM filtered),
+    'by_outcome', (SELECT COALESCE(jsonb_object_agg(outcome, n), '{}') FROM (SELECT outcome, count(*) n FROM filtered GROUP BY outcome) s),
+    'by_risk', (SELECT COALESCE(jsonb_object_agg(k, n), '{}') FROM (SELECT COALESCE(risk_category, 'Unscored') k, count(*) n FROM filtered GROUP BY 1) s),
+    'by_language', (SELECT COALESCE(jsonb_object_agg(language, n), '{}') FROM (SELECT language, count(*) n FROM filtered GROUP BY language) s),
+    'by_state', (SELECT COALESCE(jsonb_object_agg(k, n), '{}') FROM (SELECT COALESCE(location_state, 'Unknown') k, count(*) n FROM filtered GROUP BY 1) s),
+    'by_purpose', (SELECT COALESCE(jsonb_object_agg(k, n), '{}') FROM (SELECT COALESCE(loan_purpose, 'Unknown') k, count(*) n FROM filtered GROUP BY 1) s),
+    'by_job_type', (SELECT COALESCE(jsonb_object_agg(k, n), '{}') FROM (SELECT COALESCE(job_type, 'Unknown') k, count(*) n FROM filtered GROUP BY 1) s),
+    'daily', (SELECT COALESCE(jsonb_agg(jsonb_build_object('date', created_on, 'total', n, 'approved', approved) ORDER BY created_on), '[]')
+              FROM (SELECT created_on, count(*) n, count(*) FILTER (WHERE outcome = 'Approved') approved FROM filtered GROUP BY created_on) s)
+  ) INTO result;
+
+  RETURN result;
+END;
+$$;
+
+GRANT SELECT ON public.application_analytics TO authenticated;
+GRANT EXECUTE ON FUNCTION public.admin_application_stats TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.admin_application_stats FROM anon;
@@ -0,0 +1,5 @@
+-- Keep the exact form a citizen submitted so past applications can be reopened and re-run.
+-- The flat columns stay for analytics; not every LoanFormData field has one (e.g. monthly_rent, co_borrower).
+ALTER TABLE public.loan_applications ADD COLUMN form_data JSONB;
+
+CREATE INDEX idx_loan_applications_user_created ON public.loan_applications(user_id, created_at DESC);
@@ -0,0 +1,52 @@
+-- Server-side chat sessions, so a conversation (messages, collected slots, flow state)
+-- survives reloads and can be resumed on another device. chat_messages.session_id
+-- holds the session id as text; deleting a session removes its messages.
+
+CREATE TABLE public.chat_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+  title TEXT NOT NULL DEFAULT 'New chat',
+  language TEXT NOT NULL DEFAULT 'en',
+  collected_data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  context JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_chat_sessions_user_updated ON public.chat_sessions(user_id, updated_at DESC);
+CREATE INDEX idx_chat_messages_session_created ON public.chat_messages(session_id, created_at);
+
+ALTER TABLE public.chat_sessions ENABLE ROW LEVEL SECURITY;
+
+-- chat_sessions: owner only, like chat_messages
+CREATE POLICY "Owners can select chat_sessions" ON public.chat_sessions
+  FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Owners can insert chat_sessions" ON public.chat_sessions
+  FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can update chat_sessions" ON public.chat_sessions
+  FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Owners can delete chat_sessions" ON public.chat_sessions
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+CREATE POLICY "Owners can delete chat_messages" ON public.chat_messages
+  FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Runs as the deleting user, so RLS still limits it to their own messages
+CREATE OR REPLACE FUNCTION public.delete_chat_session_messages()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.chat_messages WHERE session_id = OLD.id::text;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER chat_sessions_delete_messages
+  AFTER DELETE ON public.chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.delete_chat_session_messages();
+
+CREATE TRIGGER chat_sessions_touch_updated_at
+  BEFORE UPDATE ON public.chat_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.touch_updated_at();
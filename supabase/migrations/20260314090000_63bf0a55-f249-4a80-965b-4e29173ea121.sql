@@ -0,0 +1,6 @@
+-- The UI language a signed-in user last picked, so it follows them across devices.
+-- NULL means they never chose one and the browser's language is used.
+-- Codes are checked by the app's language registry rather than a constraint,
+-- so adding a language needs no migration.
+
+ALTER TABLE public.profiles ADD COLUMN preferred_language TEXT;
@@ -0,0 +1,6 @@
+-- Household members applying with the main applicant. Each element is
+-- { name?, relationship, monthly_income, job_type, credit_score, existing_emi };
+-- the app parses it defensively, so the shape is not enforced here.
+
+ALTER TABLE public.loan_applications
+  ADD COLUMN co_applicants JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,7 @@
+-- Itemised existing debts for an application. Each element is
+-- { type, lender?, outstanding, emi, annual_rate, remaining_months }.
+-- existing_loans stays as the count of active entries so older reports and
+-- analytics keep working.
+
+ALTER TABLE public.loan_applications
+  ADD COLUMN liabilities JSONB NOT NULL DEFAULT '[]'::jsonb;
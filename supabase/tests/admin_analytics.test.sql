@@ -0,0 +1,55 @@
+-- Admin analytics RPC: admins get aggregates, citizens are refused.
+-- Run with `supabase test db` against a local stack.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(6);
+
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', 'citizen@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-0000000000a2', 'officer@example.com', 'authenticated', 'authenticated');
+UPDATE public.profiles SET role = 'admin' WHERE id = '00000000-0000-0000-0000-0000000000a2';
+
+INSERT INTO public.loan_applications (id, session_id, user_id, location_state, loan_purpose, job_type, language, created_at) VALUES
+  ('20000000-0000-0000-0000-000000000001', 's1', '00000000-0000-0000-0000-0000000000a1', 'Zetland', 'Home', 'Salaried', 'hi', '2031-01-05'),
+  ('20000000-0000-0000-0000-000000000002', 's2', '00000000-0000-0000-0000-0000000000a1', 'Zetland', 'Vehicle', 'Business', 'ta', '2031-01-06'),
+  ('20000000-0000-0000-0000-000000000003', 's3', '00000000-0000-0000-0000-0000000000a1', 'Zetland', 'Home', 'Salaried', 'en', '2031-01-07');
+INSERT INTO public.analysis_results (application_id, user_id, approval_probability, risk_category) VALUES
+  ('20000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-0000000000a1', 80, 'Low'),
+  ('20000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-0000000000a1', 30, 'High');
+
+SET LOCAL ROLE authenticated;
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a1", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$SELECT public.admin_application_stats()$$,
+  '42501', 'admin role required', 'citizens cannot call the admin stats RPC'
+);
+
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-0000000000a2", "role": "authenticated"}', true);
+SELECT is(
+  (public.admin_application_stats(p_state => 'Zetland') ->> 'total')::int, 3,
+  'admin sees every application in the state'
+);
+SELECT is(
+  public.admin_application_stats(p_state => 'Zetland') -> 'by_outcome',
+  '{"Approved": 1, "Rejected": 1, "Pending": 1}'::jsonb,
+  'outcomes are derived from the latest score'
+);
+SELECT is(
+  (public.admin_application_stats(p_state => 'Zetland', p_purpose => 'Home') ->> 'total')::int, 2,
+  'purpose filter applies'
+);
+SELECT is(
+  (public.admin_application_stats(p_state => 'Zetland', p_from => '2031-01-06', p_to => '2031-01-06') ->> 'total')::int, 1,
+  'date range filter applies'
+);
+SELECT results_eq(
+  $$SELECT application_id FROM public.application_analytics
+    WHERE location_state = 'Zetland' AND outcome = 'Approved'$$,
+  $$VALUES ('20000000-0000-0000-0000-000000000001'::uuid)$$,
+  'drill-down view lists the matching applications'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,168 @@
+-- Row-level security: citizens see only their own rows, admins read for aggregates.
+-- Run with `supabase test db` against a local stack.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(25);
+
+-- Fixtures (inserted as the migration owner, so RLS does not apply)
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'officer@example.com', 'authenticated', 'authenticated');
+UPDATE public.profiles SET role = 'admin' WHERE id = '00000000-0000-0000-0000-00000000000c';
+
+INSERT INTO public.loan_applications (id, session_id, user_id, monthly_income, credit_score) VALUES
+  ('10000000-0000-0000-0000-00000000000a', 'alice-session', '00000000-0000-0000-0000-00000000000a', 40000, 720),
+  ('10000000-0000-0000-0000-00000000000b', 'bob-session', '00000000-0000-0000-0000-00000000000b', 90000, 810);
+INSERT INTO public.analysis_results (application_id, user_id, approval_probability) VALUES
+  ('10000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', 64),
+  ('10000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 88);
+INSERT INTO public.chat_messages (session_id, user_id, role, content) VALUES
+  ('alice-session', '00000000-0000-0000-0000-00000000000a', 'user', 'my salary is 40000'),
+  ('bob-session', '00000000-0000-0000-0000-00000000000b', 'user', 'my salary is 90000');
+INSERT INTO public.chat_sessions (id, user_id, title, collected_data) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', 'Home loan', '{"monthly_income": 40000}'),
+  ('20000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 'Car loan', '{"monthly_income": 90000}');
+INSERT INTO public.chat_messages (session_id, user_id, role, content) VALUES
+  ('20000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000a', 'user', 'I need a home loan'),
+  ('20000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000b', 'user', 'I need a car loan');
+
+-- ── Anonymous clients ────────────────────────────────────────────
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT is_empty('SELECT 1 FROM public.loan_applications', 'anon cannot read loan_applications');
+SELECT is_empty('SELECT 1 FROM public.chat_messages', 'anon cannot read chat_messages');
+SELECT throws_ok(
+  $$INSERT INTO public.loan_applications (session_id) VALUES ('anon')$$,
+  '42501', NULL, 'anon cannot insert loan_applications'
+);
+
+-- ── Alice ────────────────────────────────────────────────────────
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  'SELECT credit_score FROM public.loan_applications',
+  ARRAY[720],
+  'alice sees only her application'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.loan_applications WHERE user_id = '00000000-0000-0000-0000-00000000000b'$$,
+  'alice cannot read bob''s application'
+);
+SELECT results_eq(
+  'SELECT approval_probability::int FROM public.analysis_results',
+  ARRAY[64],
+  'alice sees only her analysis'
+);
+SELECT results_eq(
+  'SELECT content FROM public.chat_messages ORDER BY content',
+  ARRAY['I need a home loan', 'my salary is 40000'],
+  'alice sees only her chat messages'
+);
+SELECT results_eq(
+  'SELECT title FROM public.chat_sessions',
+  ARRAY['Home loan'],
+  'alice sees only her chat sessions'
+);
+SELECT results_eq(
+  $$WITH d AS (
+      DELETE FROM public.chat_sessions WHERE id = '20000000-0000-0000-0000-00000000000b' RETURNING 1
+    ) SELECT count(*)::int FROM d$$,
+  ARRAY[0],
+  'alice cannot delete bob''s chat session'
+);
+SELECT lives_ok(
+  $$DELETE FROM public.chat_sessions WHERE id = '20000000-0000-0000-0000-00000000000a'$$,
+  'alice can delete her chat session'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.chat_messages WHERE session_id = '20000000-0000-0000-0000-00000000000a'$$,
+  'deleting a session removes its messages'
+);
+
+SELECT results_eq(
+  $$WITH u AS (
+      UPDATE public.loan_applications SET credit_score = 300
+      WHERE id = '10000000-0000-0000-0000-00000000000b' RETURNING 1
+    ) SELECT count(*)::int FROM u$$,
+  ARRAY[0],
+  'alice cannot update bob''s application'
+);
+SELECT throws_ok(
+  $$UPDATE public.loan_applications SET user_id = '00000000-0000-0000-0000-00000000000b'
+    WHERE id = '10000000-0000-0000-0000-00000000000a'$$,
+  '42501', NULL, 'alice cannot hand her application to bob'
+);
+SELECT lives_ok(
+  $$INSERT INTO public.loan_applications (id, session_id, credit_score)
+    VALUES ('10000000-0000-0000-0000-0000000000a2', 'alice-session-2', 735)$$,
+  'alice can insert; user_id defaults to her uid'
+);
+SELECT is(
+  (SELECT user_id FROM public.loan_applications WHERE id = '10000000-0000-0000-0000-0000000000a2'),
+  '00000000-0000-0000-0000-00000000000a'::uuid,
+  'new application is owned by alice'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.loan_applications (session_id, user_id)
+    VALUES ('forged', '00000000-0000-0000-0000-00000000000b')$$,
+  '42501', NULL, 'alice cannot insert rows owned by bob'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.analysis_results (application_id, approval_probability)
+    VALUES ('10000000-0000-0000-0000-00000000000b', 99)$$,
+  '42501', NULL, 'alice cannot attach an analysis to bob''s application'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.chat_messages (session_id, user_id, role, content)
+    VALUES ('bob-session', '00000000-0000-0000-0000-00000000000b', 'user', 'spoofed')$$,
+  '42501', NULL, 'alice cannot write into bob''s chat'
+);
+
+-- ── Bob ──────────────────────────────────────────────────────────
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  'SELECT credit_score FROM public.loan_applications',
+  ARRAY[810],
+  'bob sees only his application, not alice''s new one'
+);
+
+-- ── Admin ────────────────────────────────────────────────────────
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000c", "role": "authenticated"}', true);
+
+SELECT is(
+  (SELECT count(*)::int FROM public.loan_applications
+    WHERE user_id IN ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b')),
+  3,
+  'admin can read every application for aggregates'
+);
+SELECT is(
+  (SELECT round(avg(approval_probability))::int FROM public.analysis_results
+    WHERE user_id IN ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b')),
+  76,
+  'admin can aggregate analysis results'
+);
+SELECT is_empty('SELECT 1 FROM public.chat_messages', 'admin cannot read citizens'' chats');
+SELECT is_empty('SELECT 1 FROM public.chat_sessions', 'admin cannot read citizens'' chat sessions');
+SELECT results_eq(
+  $$WITH u AS (
+      UPDATE public.loan_applications SET credit_score = 900
+      WHERE id = '10000000-0000-0000-0000-00000000000a' RETURNING 1
+    ) SELECT count(*)::int FROM u$$,
+  ARRAY[0],
+  'admin read access does not allow edits'
+);
+
+-- ── Profiles ─────────────────────────────────────────────────────
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+SELECT throws_ok(
+  $$UPDATE public.profiles SET role = 'admin' WHERE id = '00000000-0000-0000-0000-00000000000a'$$,
+  '42501', NULL, 'citizens cannot promote themselves'
+);
+
+SELECT * FROM finish();
+ROLLBACK;